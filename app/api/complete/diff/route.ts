@@ -0,0 +1,95 @@
+// =============================================================================
+// API: /api/complete/diff - Compare two completeness analyses
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { calculateAltitude } from '@/lib/inprod/altitude'
+import { DiffableResult, diffResults } from '@/lib/inprod/diff'
+import { CategoryScore } from '@/lib/inprod/types'
+
+export async function POST(req: NextRequest) {
+  try {
+    const { before, after, beforeScanId, afterScanId } = await req.json()
+
+    if (before && after) {
+      if (!isDiffable(before) || !isDiffable(after)) {
+        return NextResponse.json(
+          { error: 'before and after must be completeness analysis results' },
+          { status: 400 }
+        )
+      }
+      return NextResponse.json({ diff: diffResults(before, after) })
+    }
+
+    if (typeof beforeScanId !== 'string' || typeof afterScanId !== 'string') {
+      return NextResponse.json(
+        { error: 'Provide before/after results or beforeScanId/afterScanId' },
+        { status: 400 }
+      )
+    }
+
+    const session = await auth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Sign in to compare saved scans' }, { status: 401 })
+    }
+
+    // Only the user's own scans
+    const [beforeScan, afterScan] = await Promise.all([beforeScanId, afterScanId].map(id =>
+      prisma.scan.findFirst({
+        where: { id, userId: session.user.id },
+        select: { overallScore: true, categories: true },
+      })
+    ))
+
+    if (!beforeScan || !afterScan) {
+      return NextResponse.json({ error: 'Scan not found or access denied' }, { status: 404 })
+    }
+
+    const beforeResult = fromScan(beforeScan)
+    const afterResult = fromScan(afterScan)
+    if (!beforeResult || !afterResult) {
+      return NextResponse.json(
+        { error: 'Only scans from the completeness analyzer can be compared' },
+        { status: 422 }
+      )
+    }
+
+    return NextResponse.json({ diff: diffResults(beforeResult, afterResult) })
+  } catch (error) {
+    console.error('Complete diff API error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Diff failed' },
+      { status: 500 }
+    )
+  }
+}
+
+function isCategoryScores(value: unknown): value is CategoryScore[] {
+  return Array.isArray(value) && value.every(c =>
+    typeof c === 'object' && c !== null &&
+    typeof c.category === 'string' &&
+    typeof c.score === 'number' &&
+    Array.isArray(c.gaps)
+  )
+}
+
+function isDiffable(value: unknown): value is DiffableResult {
+  if (typeof value !== 'object' || value === null) return false
+  const result = value as Record<string, unknown>
+  const altitude = result.altitude as DiffableResult['altitude'] | undefined
+  return typeof result.overallScore === 'number' &&
+    isCategoryScores(result.categories) &&
+    typeof altitude?.zone?.zone === 'string'
+}
+
+// Stored scans only keep scores and categories; altitude is recomputed from them
+function fromScan(scan: { overallScore: number; categories: unknown }): DiffableResult | null {
+  if (!isCategoryScores(scan.categories)) return null
+  return {
+    overallScore: scan.overallScore,
+    categories: scan.categories,
+    altitude: calculateAltitude(scan.categories),
+  }
+}
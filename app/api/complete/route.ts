@@ -3,16 +3,27 @@
 // =============================================================================
 
 import { NextRequest, NextResponse } from 'next/server'
-import { analyzeCompleteness, generateCompletionPlan, formatAnalysisSummary } from '@/lib/inprod/analyzer'
+import { Prisma } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { analyzeCompleteness, generateCompletionPlan, formatAnalysisSummary, FullAnalysisResult } from '@/lib/inprod/analyzer'
+import { prismaCacheStore } from '@/lib/inprod/prisma-cache'
 import { RepoFile } from '@/lib/inprod/types'
 
 export async function POST(req: NextRequest) {
   try {
-    const { repoUrl, files, scanId } = await req.json()
+    const { repoUrl, files, scanId, analyzers, disabledAnalyzers } = await req.json()
     
     if (!repoUrl) {
       return NextResponse.json({ error: 'repoUrl is required' }, { status: 400 })
     }
+
+    if (!isOptionalStringArray(analyzers) || !isOptionalStringArray(disabledAnalyzers)) {
+      return NextResponse.json(
+        { error: 'analyzers and disabledAnalyzers must be arrays of analyzer ids' },
+        { status: 400 }
+      )
+    }
     
     // If files not provided, fetch from GitHub
     let repoFiles: RepoFile[] = files
@@ -20,19 +31,31 @@ export async function POST(req: NextRequest) {
       repoFiles = await fetchRepoFiles(repoUrl)
     }
     
+    // Only signed-in scans share the file cache and are saved, so anonymous
+    // traffic doesn't write to the database
+    const userId = await signedInUserId()
+
     // Analyze completeness
-    const analysis = await analyzeCompleteness(repoUrl, repoFiles)
+    const analysis = await analyzeCompleteness(repoUrl, repoFiles, {
+      analyzers,
+      disabledAnalyzers,
+      cache: userId ? prismaCacheStore() : undefined,
+    })
     
     // Generate completion plan
     const plan = generateCompletionPlan(analysis)
     
     // Format summary
     const summary = formatAnalysisSummary(analysis)
+
+    // Save signed-in scans so they can be compared later (/api/complete/diff)
+    const savedScanId = userId ? await saveScanForUser(userId, repoUrl, analysis) : undefined
     
     return NextResponse.json({
       analysis,
       plan,
       summary,
+      scanId: savedScanId,
     })
   } catch (error) {
     console.error('Complete API error:', error)
@@ -43,6 +66,57 @@ export async function POST(req: NextRequest) {
   }
 }
 
+function isOptionalStringArray(value: unknown): value is string[] | undefined {
+  return value === undefined || (Array.isArray(value) && value.every(item => typeof item === 'string'))
+}
+
+// A failed session lookup is logged and the scan runs as anonymous
+async function signedInUserId(): Promise<string | undefined> {
+  try {
+    const session = await auth()
+    return session?.user?.id
+  } catch (error) {
+    console.error('Complete API error: session lookup failed:', error)
+    return undefined
+  }
+}
+
+// Best-effort: a failed write is logged and the analysis is still returned,
+// just without a scanId
+async function saveScanForUser(userId: string, repoUrl: string, analysis: FullAnalysisResult): Promise<string | undefined> {
+  try {
+    const scan = await saveScan(userId, repoUrl, analysis)
+    return scan.id
+  } catch (error) {
+    console.error('Complete API error: scan not saved:', error)
+    return undefined
+  }
+}
+
+// Stored in the same shape /api/complete/diff reads back: categories as
+// CategoryScore[], with every gap also listed as a finding
+function saveScan(userId: string, repoUrl: string, analysis: FullAnalysisResult) {
+  const match = repoUrl.match(/github\.com\/([^\/]+)\/([^\/\s#?]+)/)
+  return prisma.scan.create({
+    data: {
+      userId,
+      repoUrl,
+      owner: match ? match[1] : 'local',
+      repo: match ? match[2].replace(/\.git$/, '') : repoUrl.split('/').pop() || 'unknown',
+      overallScore: analysis.overallScore,
+      categories: analysis.categories as unknown as Prisma.InputJsonValue,
+      findings: analysis.categories.flatMap(c => c.gaps) as unknown as Prisma.InputJsonValue,
+      summary: {
+        type: 'completeness',
+        altitude: analysis.altitude.zone.zone,
+        blockerCount: analysis.blockerCount,
+        criticalCount: analysis.criticalCount,
+      },
+    },
+    select: { id: true },
+  })
+}
+
 async function fetchRepoFiles(repoUrl: string): Promise<RepoFile[]> {
   // Extract owner/repo from URL
   const match = repoUrl.match(/github\.com\/([^\/]+)\/([^\/\s#?]+)/)
@@ -132,7 +206,9 @@ async function fetchRepoFiles(repoUrl: string): Promise<RepoFile[]> {
 function isRelevantFile(path: string): boolean {
   const relevantExtensions = [
     '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs',
-    '.py', '.go', '.rs', '.swift', '.kt', '.java',
+    '.py', '.go', '.rs', '.swift', '.m', '.kt', '.java', '.dart',
+    '.plist', '.xcprivacy', '.entitlements', '.pbxproj',
+    '.gradle', '.gradle.kts',
     '.json', '.yaml', '.yml', '.toml',
     '.md', '.mdx',
     '.css', '.scss', '.sass',
@@ -152,19 +228,43 @@ function isRelevantFile(path: string): boolean {
     '.prettierrc',
     'Makefile',
     'Cargo.toml',
+    'Cargo.lock',
+    'rust-toolchain',
     'go.mod',
+    'go.sum',
     'Package.swift',
     'Podfile',
+    'Fastfile',
+    'Appfile',
+    'Matchfile',
+    'AndroidManifest.xml',
+    'gradle.properties',
+    'sentry.properties',
     'Gemfile',
     'requirements.txt',
     'pyproject.toml',
+    'Pipfile',
+    'Pipfile.lock',
+    'poetry.lock',
+    'uv.lock',
+    'pdm.lock',
+    'Procfile',
+    'alembic.ini',
+    'pytest.ini',
+    'setup.cfg',
+    'tox.ini',
+    '.coveragerc',
+    '.flake8',
+    '.pylintrc',
   ]
   
   const filename = path.split('/').pop() || ''
   
   return (
     relevantExtensions.some(ext => path.endsWith(ext)) ||
-    relevantFilenames.includes(filename)
+    relevantFilenames.includes(filename) ||
+    // Android network security config and backup rules
+    (path.includes('/res/xml/') && path.endsWith('.xml'))
   )
 }
 
@@ -60,6 +60,11 @@ export async function POST(request: NextRequest) {
     if (!scan) {
       return new NextResponse('Scan not found or access denied', { status: 404 })
     }
+
+    // Completeness scans (/api/complete) share the table but not the report's shape
+    if (isCompletenessScan(scan.summary)) {
+      return new NextResponse('PDF export is not available for completeness scans', { status: 422 })
+    }
     
     // Convert Prisma data to AnalysisResult format
     const result: AnalysisResult = {
@@ -99,3 +104,7 @@ export async function POST(request: NextRequest) {
     return new NextResponse(sanitizedMessage, { status: 500 })
   }
 }
+
+function isCompletenessScan(summary: unknown): boolean {
+  return typeof summary === 'object' && summary !== null && (summary as { type?: unknown }).type === 'completeness'
+}
@@ -9,6 +9,8 @@ import { generateSecurityFixes } from '@/lib/inprod/generators/security'
 import { generateTests } from '@/lib/inprod/generators/testing'
 import { generateCICD } from '@/lib/inprod/generators/cicd'
 import { generateReadme } from '@/lib/inprod/generators/readme'
+import { generateObservability } from '@/lib/inprod/generators/observability'
+import { buildFileIndex } from '@/lib/inprod/file-index'
 
 interface GenerateRequest {
   repoUrl: string
@@ -70,6 +72,7 @@ export async function POST(req: NextRequest) {
       techStack: analysis.techStack,
       packageJson,
       readme: readmeFile?.content,
+      index: buildFileIndex(repoFiles, packageJson),
     }
     
     // Generate fixes by category
@@ -104,6 +107,13 @@ export async function POST(req: NextRequest) {
       generatedFiles.push(...cicdFiles)
     }
     
+    // Observability fixes
+    const observabilityGaps = gapsByCategory.get('observability') || []
+    if (observabilityGaps.length > 0) {
+      const observabilityFiles = await generateObservability(ctx, observabilityGaps)
+      generatedFiles.push(...observabilityFiles)
+    }
+    
     // Version control (README)
     const vcGaps = gapsByCategory.get('versionControl') || []
     const needsReadme = vcGaps.some(g => g.id === 'vc-no-readme')
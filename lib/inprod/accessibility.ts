@@ -0,0 +1,58 @@
+// =============================================================================
+// ACCESSIBILITY
+// JSX rules for the barriers screen reader and keyboard users hit most often
+// =============================================================================
+
+import ts from 'typescript'
+import { SourceLocation } from './types'
+import { JsxElement, jsxElements } from './ast'
+
+export type A11yRule = 'img-alt' | 'clickable-element' | 'input-label' | 'html-lang' | 'positive-tabindex'
+
+export interface A11yViolation {
+  rule: A11yRule
+  location: SourceLocation
+}
+
+// Elements with no built-in keyboard support or role
+const STATIC_ELEMENTS = new Set(['div', 'span', 'li', 'p', 'section', 'article', 'td', 'tr', 'header', 'footer', 'main'])
+const FORM_FIELDS = new Set(['input', 'select', 'textarea'])
+// Input types that label themselves or aren't shown
+const UNLABELLED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image'])
+const KEY_HANDLERS = ['onKeyDown', 'onKeyUp', 'onKeyPress']
+
+/**
+ * Accessibility violations in a file's JSX. Elements that spread props are
+ * skipped, since the missing attribute may arrive through them.
+ */
+export function a11yViolations(source: ts.SourceFile): A11yViolation[] {
+  const elements = jsxElements(source).filter(e => !e.spread)
+  const labelled = new Set(elements.filter(e => e.tag === 'label').map(e => e.attributes.htmlFor).filter(Boolean))
+  const violations: A11yViolation[] = []
+
+  for (const element of elements) {
+    const rule = ruleBroken(element, labelled)
+    if (rule) violations.push({ rule, location: element.location })
+  }
+  return violations
+}
+
+function ruleBroken(element: JsxElement, labelled: Set<string>): A11yRule | undefined {
+  const { tag, attributes } = element
+  const has = (name: string) => name in attributes
+
+  if (tag === 'img' && !has('alt')) return 'img-alt'
+  if (tag === 'html' && !has('lang')) return 'html-lang'
+  if (STATIC_ELEMENTS.has(tag) && has('onClick') && (!has('role') || !KEY_HANDLERS.some(has))) return 'clickable-element'
+
+  if (FORM_FIELDS.has(tag) && !UNLABELLED_INPUT_TYPES.has(attributes.type)) {
+    const isLabelled = has('aria-label') || has('aria-labelledby') || has('title') ||
+      labelled.has(attributes.id) || element.parents.includes('label')
+    if (!isLabelled) return 'input-label'
+  }
+
+  const tabIndex = attributes.tabIndex ?? attributes.tabindex
+  if (tabIndex !== undefined && Number(tabIndex) > 0) return 'positive-tabindex'
+
+  return undefined
+}
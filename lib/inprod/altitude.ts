@@ -74,9 +74,9 @@ export function formatUserCount(users: number): string {
  * Your app can only handle as many users as your weakest infrastructure component allows.
  */
 export function calculateAltitude(categories: CategoryScore[]): AltitudeResult {
-  // Calculate max users for each category
+  // Calculate max users for each applicable category
   const categoryLimits = categories
-    .filter(c => c.score !== undefined)
+    .filter(c => c.score !== undefined && c.applicable !== false)
     .map(c => {
       const { maxUsers, reason } = getCategoryMaxUsers(c.category, c.score)
       return {
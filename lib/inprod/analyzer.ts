@@ -3,60 +3,113 @@
 // =============================================================================
 
 import {
+  Category,
   CategoryScore,
+  CheckResult,
   CompletenessAnalysis,
   RepoContext,
   RepoFile,
   AltitudeResult,
+  ImportGraph,
+  InprodConfig,
+  SuppressedGap,
+  Suppression,
+  TechStack,
+  Workspace,
+  WorkspaceAnalysis,
+  CATEGORY_LABELS,
+  PLATFORM_CATEGORIES,
+  PLATFORM_OVERRIDES,
 } from './types'
 import { detectTechStack } from './stack-detector'
 import { calculateAltitude, formatUserCount, getAltitudeMessage, getAltitudeProgress } from './altitude'
+import { selectAnalyzers } from './registry'
+import { applyGapConfig, defaultConfig, isDisabled, isIgnored, loadConfig } from './config'
+import { applySuppressions, findSuppressions } from './suppressions'
+import { CacheStore, FileResults, IncrementalCache, cacheKey, createFileCache } from './cache'
+import { buildFileIndex } from './file-index'
 import {
-  analyzeFrontend,
-  analyzeBackend,
-  analyzeDatabase,
-  analyzeAuthentication,
-  analyzeApiIntegrations,
-  analyzeStateManagement,
-  analyzeDesignUx,
-  analyzeTesting,
-  analyzeSecurity,
-  analyzeErrorHandling,
-  analyzeVersionControl,
-  analyzeDeployment,
-} from './analyzers'
+  aggregateAltitude,
+  aggregateCategories,
+  aggregateScore,
+  discoverWorkspaces,
+  remapGap,
+  rootWorkspace,
+  workspaceFiles,
+} from './workspaces'
 
 export interface FullAnalysisResult extends CompletenessAnalysis {
   altitude: AltitudeResult
   altitudeProgress: number // 0-100 for visual
   altitudeMessage: string
   formattedMaxUsers: string
+  config: InprodConfig // Effective repo config used for this scan
+  suppressed: SuppressedGap[] // Gaps waived by inline inprod-ignore comments
+  imports: ImportGraph // Cross-file imports, for visualising how routes reach their helpers
+  cache?: { hits: number; misses: number; error?: string } // Per-file cache usage, when a store was given
+  workspaces?: WorkspaceAnalysis[] // Per-package breakdown for monorepos; the rest of the result aggregates these
+}
+
+// A monorepo package and the files it's analyzed with
+interface WorkspaceFiles {
+  workspace: Workspace
+  files: RepoFile[]
+}
+
+export interface AnalyzeOptions {
+  analyzers?: string[] // Run only these analyzer ids (default: all registered)
+  disabledAnalyzers?: string[] // Analyzer ids to skip for this scan
+  cache?: CacheStore // Reuse per-file results from earlier scans
 }
 
 /**
- * Run all category analyzers and calculate altitude
+ * Run all registered category analyzers and calculate altitude
  */
-export function analyzeRepository(ctx: RepoContext): FullAnalysisResult {
-  // Run all category analyzers
-  const categories: CategoryScore[] = [
-    analyzeFrontend(ctx),
-    analyzeBackend(ctx),
-    analyzeDatabase(ctx),
-    analyzeAuthentication(ctx),
-    analyzeApiIntegrations(ctx),
-    analyzeStateManagement(ctx),
-    analyzeDesignUx(ctx),
-    analyzeTesting(ctx),
-    analyzeSecurity(ctx),
-    analyzeErrorHandling(ctx),
-    analyzeVersionControl(ctx),
-    analyzeDeployment(ctx),
-  ]
+export function analyzeRepository(ctx: RepoContext, options: AnalyzeOptions = {}): FullAnalysisResult {
+  const config = ctx.config || defaultConfig()
+  const analyzers = selectAnalyzers(ctx.techStack, {
+    only: options.analyzers,
+    disabled: [...(options.disabledAnalyzers || []), ...config.disabledAnalyzers],
+  })
 
-  // Calculate overall score (weighted average of applicable categories)
-  const applicableCategories = categories.filter(c => c.score < 100 || c.gaps.length > 0)
-  const overallScore = applicableCategories.length > 0
-    ? Math.round(applicableCategories.reduce((sum, c) => sum + c.score, 0) / applicableCategories.length)
+  const { platform } = ctx.techStack
+  const platformCategories = PLATFORM_CATEGORIES[platform]
+  const overrides = PLATFORM_OVERRIDES[platform] || {}
+  const suppressions = findSuppressions(ctx.files)
+  const suppressed: SuppressedGap[] = []
+
+  // Run analyzers, grouping results by category (first analyzer fixes the order).
+  // Categories that don't apply to the platform are reported but not analyzed.
+  const resultsByCategory = new Map<Category, CategoryScore[]>()
+  for (const analyzer of analyzers) {
+    const results = resultsByCategory.get(analyzer.category) || []
+    if (platformCategories.includes(analyzer.category)) {
+      results.push(analyzer.run(ctx))
+    }
+    resultsByCategory.set(analyzer.category, results)
+  }
+  const categories = Array.from(resultsByCategory.entries()).map(([category, results]) => {
+    // Waivers apply per analyzer, before merging, so their checks and scores reflect them
+    const settled = results.map(result => applyWaivers(result, config, suppressions))
+    const merged = settled.length > 0
+      ? mergeCategoryScores(settled.map(s => s.result))
+      : notApplicable(category, platform)
+    suppressed.push(...settled.flatMap(s => s.suppressed).filter((gap, i, all) => all.findIndex(g => g.id === gap.id) === i))
+    const override = overrides[category]
+    return {
+      ...merged,
+      ...(override && { label: override.label, platformChecks: override.checks }),
+      canGenerate: merged.gaps.some(g => g.fixType === 'instant'),
+    }
+  })
+
+  // Calculate overall score (weighted average of categories applicable to this repo)
+  const weighted = categories
+    .filter(c => c.applicable)
+    .map(c => ({ score: c.score, weight: config.weights[c.category] ?? 1 }))
+  const totalWeight = weighted.reduce((sum, c) => sum + c.weight, 0)
+  const overallScore = totalWeight > 0
+    ? Math.round(weighted.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight)
     : 100
 
   // Calculate altitude
@@ -65,29 +118,211 @@ export function analyzeRepository(ctx: RepoContext): FullAnalysisResult {
   const altitudeMessage = getAltitudeMessage(altitude.zone)
   const formattedMaxUsers = formatUserCount(altitude.maxUsers)
 
-  // Collect all gaps
-  const allGaps = categories.flatMap(c => c.gaps)
-  const blockerCount = allGaps.filter(g => g.severity === 'blocker').length
-  const criticalCount = allGaps.filter(g => g.severity === 'critical').length
-  const warningCount = allGaps.filter(g => g.severity === 'warning').length
-  const estimatedFixMinutes = allGaps.reduce((sum, g) => sum + (g.effortMinutes || 0), 0)
-  const canAutoFix = allGaps.filter(g => g.fixType === 'instant').length
-
   return {
     repoUrl: '', // Set by caller
     techStack: ctx.techStack,
     overallScore,
     categories,
-    totalGaps: allGaps.length,
-    blockerCount,
-    criticalCount,
-    warningCount,
-    estimatedFixMinutes,
-    canAutoFix,
+    ...countGaps(categories),
     altitude,
     altitudeProgress,
     altitudeMessage,
     formattedMaxUsers,
+    config,
+    suppressed,
+    imports: ctx.index.importGraph(),
+  }
+}
+
+/**
+ * Analyze each monorepo package with its own package.json and stack, then
+ * aggregate: size-weighted scores, and the altitude of the weakest package
+ */
+export function analyzeWorkspaces(
+  ctx: RepoContext,
+  packages: WorkspaceFiles[],
+  options: AnalyzeOptions = {}
+): FullAnalysisResult {
+  const config = ctx.config || defaultConfig()
+  const repoFiles = new Set(ctx.files)
+  const workspaces: WorkspaceAnalysis[] = []
+  const suppressed: SuppressedGap[] = []
+
+  for (const { workspace, files } of packages) {
+    // Shared repo tooling keeps its repo path; only the package's own files move
+    const packagePaths = new Set(files.filter(f => !repoFiles.has(f)).map(f => f.path))
+    const packageJson = parsePackageJson(files)
+    const result = analyzeRepository({
+      files,
+      techStack: detectTechStack(files),
+      packageJson,
+      readme: files.find(f => f.path.toLowerCase() === 'readme.md')?.content,
+      config,
+      cache: ctx.cache,
+      index: buildFileIndex(files, packageJson),
+    }, options)
+
+    workspaces.push({
+      ...workspace,
+      fileCount: packagePaths.size,
+      techStack: result.techStack,
+      overallScore: result.overallScore,
+      categories: result.categories.map(c => ({ ...c, gaps: c.gaps.map(g => remapGap(g, workspace, packagePaths)) })),
+      altitude: result.altitude,
+      totalGaps: result.totalGaps,
+    })
+    suppressed.push(...result.suppressed.map(g => remapGap(g, workspace, packagePaths)))
+  }
+
+  const categories = aggregateCategories(workspaces)
+  const altitude = aggregateAltitude(workspaces)
+
+  return {
+    repoUrl: '', // Set by caller
+    techStack: ctx.techStack,
+    overallScore: aggregateScore(workspaces),
+    categories,
+    ...countGaps(categories),
+    altitude,
+    altitudeProgress: getAltitudeProgress(altitude.maxUsers),
+    altitudeMessage: getAltitudeMessage(altitude.zone),
+    formattedMaxUsers: formatUserCount(altitude.maxUsers),
+    config,
+    suppressed,
+    imports: ctx.index.importGraph(),
+    workspaces,
+  }
+}
+
+function countGaps(categories: CategoryScore[]) {
+  const allGaps = categories.flatMap(c => c.gaps)
+  return {
+    totalGaps: allGaps.length,
+    blockerCount: allGaps.filter(g => g.severity === 'blocker').length,
+    criticalCount: allGaps.filter(g => g.severity === 'critical').length,
+    warningCount: allGaps.filter(g => g.severity === 'warning').length,
+    estimatedFixMinutes: allGaps.reduce((sum, g) => sum + (g.effortMinutes || 0), 0),
+    canAutoFix: allGaps.filter(g => g.fixType === 'instant').length,
+  }
+}
+
+// Malformed manifests are treated as missing
+function parsePackageJson(files: RepoFile[]): Record<string, unknown> | undefined {
+  const file = files.find(f => f.path === 'package.json')
+  try {
+    return file ? JSON.parse(file.content) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Apply the repo config and inline suppressions to one analyzer's result. A
+ * check whose gaps were all suppressed gets its points back; a disabled check
+ * (listed in disabledChecks, or all of whose gaps are) is left out of the
+ * score, which is recomputed from the remaining checks.
+ */
+function applyWaivers(
+  result: CategoryScore,
+  config: InprodConfig,
+  suppressions: Suppression[]
+): { result: CategoryScore; suppressed: SuppressedGap[] } {
+  const { gaps, suppressed } = applySuppressions(applyGapConfig(result.gaps, config), suppressions)
+
+  const disabledChecks = new Set(result.checks.map(c => c.id).filter(id => {
+    const own = result.gaps.filter(g => g.check === id)
+    return isDisabled(id, config) || (own.length > 0 && own.every(g => isDisabled(g.id, config)))
+  }))
+  // Checks with nothing left to report
+  const waivedChecks = new Set(suppressed.map(g => g.check).filter(id => !gaps.some(g => g.check === id)))
+  if (!result.checks.some(c => disabledChecks.has(c.id) || waivedChecks.has(c.id))) {
+    return { result: { ...result, gaps }, suppressed }
+  }
+
+  const checks = result.checks.map((check): CheckResult => {
+    if (disabledChecks.has(check.id)) {
+      return { ...check, status: 'not-applicable', evidence: [`Disabled in ${config.source}`] }
+    }
+    if (!waivedChecks.has(check.id)) return check
+    const reasons = suppressed.filter(g => g.check === check.id).map(g => `Suppressed: ${g.suppression.reason}`)
+    return { ...check, pointsAwarded: check.pointsPossible, status: 'not-applicable', evidence: [...new Set(reasons)] }
+  })
+  const scored = checks.filter(c => !disabledChecks.has(c.id))
+  const possible = scored.reduce((sum, c) => sum + c.pointsPossible, 0)
+  const awarded = scored.reduce((sum, c) => sum + c.pointsAwarded, 0)
+
+  // Every check disabled: nothing left to judge
+  if (possible === 0) {
+    return { result: { ...result, checks, gaps, score: 100, applicable: false }, suppressed }
+  }
+  return {
+    result: { ...result, checks, gaps, score: Math.min(100, Math.round(100 * awarded / possible)) },
+    suppressed,
+  }
+}
+
+/**
+ * Combine results from several analyzers covering the same category
+ */
+function mergeCategoryScores(results: CategoryScore[]): CategoryScore {
+  if (results.length === 1) return results[0]
+
+  // Only analyzers that found something to judge contribute to the score
+  const scored = results.filter(r => r.applicable)
+  const score = scored.length > 0
+    ? Math.round(scored.reduce((sum, r) => sum + r.score, 0) / scored.length)
+    : 100
+
+  return {
+    category: results[0].category,
+    label: results[0].label,
+    score,
+    applicable: scored.length > 0,
+    detected: [...new Set(results.flatMap(r => r.detected))],
+    checks: mergeChecks(results.flatMap(r => r.checks)),
+    // Analyzers for different languages can scan the same file (a Python
+    // secret is seen by both the Node and Python scans); report it once
+    gaps: results.flatMap(r => r.gaps).filter((gap, i, all) => all.findIndex(g => g.id === gap.id) === i),
+    canGenerate: results.some(r => r.canGenerate),
+  }
+}
+
+/**
+ * One result per check id; when analyzers disagree the worse result stands,
+ * with the evidence of both
+ */
+function mergeChecks(checks: CheckResult[]): CheckResult[] {
+  const byId = new Map<string, CheckResult>()
+  for (const result of checks) {
+    const existing = byId.get(result.id)
+    if (!existing) {
+      byId.set(result.id, result)
+      continue
+    }
+    const [worse, other] = awardedShare(result) < awardedShare(existing) ? [result, existing] : [existing, result]
+    byId.set(result.id, { ...worse, evidence: [...new Set([...worse.evidence, ...other.evidence])] })
+  }
+  return [...byId.values()]
+}
+
+function awardedShare(check: CheckResult): number {
+  if (check.status === 'not-applicable') return Infinity
+  return check.pointsPossible > 0 ? check.pointsAwarded / check.pointsPossible : 1
+}
+
+/**
+ * Placeholder for a category that doesn't apply to the detected platform
+ */
+function notApplicable(category: Category, platform: TechStack['platform']): CategoryScore {
+  return {
+    category,
+    label: CATEGORY_LABELS[category],
+    score: 100, // N/A
+    applicable: false,
+    detected: [`Not applicable to ${platform} projects`],
+    checks: [],
+    gaps: [],
+    canGenerate: false,
   }
 }
 
@@ -147,30 +382,63 @@ export function getAltitudeSummary(result: FullAnalysisResult): {
 /**
  * Analyze a repo from URL and files (test-friendly interface)
  */
-export async function analyzeCompleteness(repoUrl: string, files: RepoFile[]): Promise<FullAnalysisResult> {
+export async function analyzeCompleteness(
+  repoUrl: string,
+  files: RepoFile[],
+  options: AnalyzeOptions = {}
+): Promise<FullAnalysisResult> {
+  // Apply the repo's config before anything else looks at the files
+  const config = loadConfig(files)
+  files = files.filter(f => !isIgnored(f.path, config.ignore))
+
   // Build context from files
-  const packageJsonFile = files.find(f => f.path === 'package.json')
-  let packageJson: Record<string, unknown> | undefined
-  try {
-    packageJson = packageJsonFile ? JSON.parse(packageJsonFile.content) : undefined
-  } catch {
-    packageJson = undefined
-  }
+  const packageJson = parsePackageJson(files)
   const readmeFile = files.find(f => f.path.toLowerCase() === 'readme.md')
   
   const techStack = detectTechStack(files)
+
+  // Monorepo packages are analyzed separately, each with its own files. Code
+  // outside every package (a root app) is analyzed as the root package.
+  const discovered = discoverWorkspaces(files)
+  const root = discovered.length > 0 ? rootWorkspace(files, discovered) : undefined
+  const workspaces = root ? [root, ...discovered] : discovered
+  const packages = workspaces.map(workspace => ({ workspace, files: workspaceFiles(files, workspace, workspaces) }))
+
+  // Only files whose content changed since the last scan get re-evaluated
+  let cache: IncrementalCache | undefined
+  let cacheError: string | undefined
+  const cacheFailed = (error: unknown) => {
+    cacheError = error instanceof Error ? error.message : String(error)
+  }
+  if (options.cache) {
+    const scanned = [...files, ...packages.flatMap(p => p.files)]
+    const stored = await options.cache.load(Array.from(new Set(scanned.map(cacheKey)))).catch((error: unknown) => {
+      cacheFailed(error)
+      return new Map<string, FileResults>()
+    })
+    cache = createFileCache(stored)
+  }
   
   const ctx: RepoContext = {
     files,
     techStack,
     packageJson,
     readme: readmeFile?.content,
+    config,
+    cache,
+    index: buildFileIndex(files, packageJson),
   }
   
-  const result = analyzeRepository(ctx)
+  const result = packages.length > 0
+    ? analyzeWorkspaces(ctx, packages, options)
+    : analyzeRepository(ctx, options)
+  if (options.cache && cache) {
+    await options.cache.save(cache.changed()).catch(cacheFailed)
+  }
   return {
     ...result,
     repoUrl,
+    ...(cache && { cache: { ...cache.stats(), ...(cacheError && { error: cacheError }) } }),
   }
 }
 
@@ -193,7 +461,9 @@ export function formatAnalysisSummary(result: FullAnalysisResult): string {
   lines.push(``)
   lines.push(`## Category Scores`)
   result.categories.forEach(cat => {
-    lines.push(`- **${cat.label}:** ${cat.score}/100 (${cat.gaps.length} gaps)`)
+    lines.push(cat.applicable
+      ? `- **${cat.label}:** ${cat.score}/100 (${cat.gaps.length} gaps)`
+      : `- **${cat.label}:** N/A`)
   })
   lines.push(``)
   lines.push(`## Bottleneck`)
@@ -218,11 +488,15 @@ export function generateCompletionPlan(result: FullAnalysisResult): import('./ty
     'testing',
     'errorHandling',
     'authentication',
+    'privacy',
     'database',
     'backend',
     'deployment',
     'apiIntegrations',
+    'performance',
+    'observability',
     'versionControl',
+    'documentation',
     'frontend',
     'stateManagement',
     'designUx',
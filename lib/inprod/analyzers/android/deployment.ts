@@ -0,0 +1,142 @@
+// =============================================================================
+// ANDROID DEPLOYMENT ANALYZER
+// Release build type (R8, signing) and Play Store / Firebase distribution
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, fileEvidence } from '../../checks'
+import { locateOffset } from '../../locations'
+import { gradleBuildFiles, gradleFlag, manifests, releaseBuildType } from './project'
+
+const PUBLISHING_PLUGINS = ['com.github.triplet.play', 'com.google.firebase.appdistribution']
+
+export function analyzeAndroidDeployment(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+
+  // Application modules, as opposed to libraries, carry the release build type that ships
+  const appModules = gradleBuildFiles(ctx).filter(f =>
+    index.contains(f, 'com.android.application') || index.contains(f, 'applicationId')
+  )
+  const releases = appModules.map(file => ({ file, release: releaseBuildType(file.content) }))
+  const hasAppManifest = manifests(ctx).some(f => index.contains(f, '<application'))
+
+  // 1. Check R8 shrinking is on for release (30 points)
+  const unminified = releases.filter(({ release }) => !release || !gradleFlag(release.body, 'minifyEnabled'))
+  const shrinksResources = releases.some(({ release }) => !!release && gradleFlag(release.body, 'shrinkResources'))
+
+  if (appModules.length > 0 && unminified.length === 0) {
+    detected.push(`R8 enabled${shrinksResources ? ' with resource shrinking' : ''}`)
+    score += 30
+  } else {
+    const [first] = unminified
+    gaps.push({
+      id: 'deploy-android-no-minify',
+      check: 'deploy-android-r8',
+      category: 'deployment',
+      title: 'Release build not minified',
+      description: 'Set minifyEnabled (isMinifyEnabled) and shrinkResources in the release build type so R8 shrinks and obfuscates the APK',
+      severity: 'warning',
+      confidence: appModules.length > 0 ? 'verified' : 'possible',
+      ...(first && {
+        file: first.file.path,
+        ...(first.release && { line: locateOffset(first.file, first.release.offset).line }),
+      }),
+      fixType: 'suggested',
+      effortMinutes: 30,
+    })
+  }
+  checks.push(check('deploy-android-r8', 'R8 / minification', 30, appModules.length > 0 && unminified.length === 0 ? 30 : 0,
+    appModules.map(f => f.path)))
+
+  // 2. Check release is signed with a release key (20 points)
+  const debugSigned = releases.filter(({ release }) => release && /signingConfigs?\b.*\bdebug\b/.test(release.body))
+  const releaseSigned = releases.some(({ release }) => release && /signingConfig/.test(release.body)) && debugSigned.length === 0
+
+  if (releaseSigned) {
+    detected.push('Release signing configured')
+    score += 20
+  } else if (debugSigned.length > 0) {
+    gaps.push({
+      id: 'deploy-android-debug-signed',
+      check: 'deploy-android-signing',
+      category: 'deployment',
+      title: 'Release signed with the debug key',
+      description: 'Play rejects debug-signed bundles. Add a release signingConfig (or rely on Play App Signing with an upload key).',
+      severity: 'critical',
+      confidence: 'verified',
+      file: debugSigned[0].file.path,
+      fixType: 'guided',
+      effortMinutes: 30,
+    })
+  }
+  checks.push(check('deploy-android-signing', 'Release signing', 20, releaseSigned ? 20 : 0,
+    debugSigned.map(({ file }) => `${file.path}: debug key`)))
+
+  // 3. Check Play Store or Firebase distribution is automated (30 points)
+  const publishingEvidence = fileEvidence(ctx, 'android-deploy-publishing', f =>
+    (/(^|\/)build\.gradle(\.kts)?$/.test(f.path) && PUBLISHING_PLUGINS.some(plugin => index.contains(f, plugin))) ||
+    (f.path.endsWith('Fastfile') && (index.contains(f, 'upload_to_play_store') || index.contains(f, 'supply'))) ||
+    (f.path.startsWith('.github/workflows/') &&
+     (index.contains(f, 'upload-google-play') || index.contains(f, 'firebase-distribution') || index.contains(f, 'firebase appdistribution')))
+  )
+  const hasPublishing = publishingEvidence.length > 0
+
+  if (hasPublishing) {
+    detected.push('Play publishing automated')
+    score += 30
+  } else if (hasAppManifest) {
+    gaps.push({
+      id: 'deploy-android-no-publishing',
+      check: 'deploy-android-publishing',
+      category: 'deployment',
+      title: 'No automated Play publishing',
+      description: 'Publish to a Play track with Gradle Play Publisher, fastlane supply or Firebase App Distribution from CI',
+      severity: 'info',
+      confidence: 'high',
+      fixType: 'guided',
+      effortMinutes: 60,
+    })
+  }
+  checks.push(check('deploy-android-publishing', 'Play publishing', 30, hasPublishing ? 30 : 0, publishingEvidence))
+
+  // 4. Check release bundles are built in CI (20 points)
+  const buildEvidence = fileEvidence(ctx, 'android-deploy-ci-build', f =>
+    (f.path.startsWith('.github/workflows/') || f.path === '.gitlab-ci.yml' || f.path === 'bitrise.yml') &&
+    /gradlew\s+(\S+\s+)*(bundle|assemble)\w*Release/.test(f.content)
+  )
+  const buildsInCI = buildEvidence.length > 0
+
+  if (buildsInCI) {
+    detected.push(`Release built in CI (${techStack.ciProvider})`)
+    score += 20
+  } else {
+    gaps.push({
+      id: 'deploy-no-ci',
+      check: 'deploy-ci',
+      category: 'deployment',
+      title: 'Release not built in CI',
+      description: 'Run ./gradlew bundleRelease in CI so every release comes from a clean, reproducible build',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 30,
+    })
+  }
+  checks.push(check('deploy-ci', 'CI release build', 20, buildsInCI ? 20 : 0, buildEvidence))
+
+  return {
+    category: 'deployment',
+    label: 'Deployment',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -0,0 +1,24 @@
+// =============================================================================
+// ANDROID ANALYZERS - Index
+// The security, testing and deployment checks PLATFORM_OVERRIDES.android lists.
+// Other Android categories keep the default analyzers.
+// =============================================================================
+
+import { Analyzer } from '../../types'
+import { analyzeAndroidSecurity } from './security'
+import { analyzeAndroidTesting } from './testing'
+import { analyzeAndroidDeployment } from './deployment'
+
+export {
+  analyzeAndroidSecurity,
+  analyzeAndroidTesting,
+  analyzeAndroidDeployment,
+}
+
+const ANDROID = { platforms: ['android' as const], languages: ['kotlin', 'java'] }
+
+export const ANDROID_ANALYZERS: Analyzer[] = [
+  { id: 'android-testing', category: 'testing', ...ANDROID, run: analyzeAndroidTesting },
+  { id: 'android-security', category: 'security', ...ANDROID, run: analyzeAndroidSecurity },
+  { id: 'android-deployment', category: 'deployment', ...ANDROID, run: analyzeAndroidDeployment },
+]
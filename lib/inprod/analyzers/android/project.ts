@@ -0,0 +1,63 @@
+// =============================================================================
+// ANDROID PROJECT HELPERS
+// Shared by the Android analyzers: manifests, Gradle build files and the
+// blocks inside them
+// =============================================================================
+
+import { RepoContext, RepoFile } from '../../types'
+
+// Build output and debug-only source sets, which never ship in a release
+const IGNORED_DIRS = /(^|\/)(build|\.gradle|node_modules)\/|(^|\/)src\/debug\//
+
+/**
+ * AndroidManifest.xml files of the shipped source sets
+ */
+export function manifests(ctx: RepoContext): RepoFile[] {
+  return (ctx.index.byExtension.get('.xml') || [])
+    .filter(f => f.path.endsWith('AndroidManifest.xml') && !IGNORED_DIRS.test(f.path))
+}
+
+/**
+ * Module build scripts, Groovy or Kotlin DSL
+ */
+export function gradleBuildFiles(ctx: RepoContext): RepoFile[] {
+  return ctx.files.filter(f => /(^|\/)build\.gradle(\.kts)?$/.test(f.path) && !IGNORED_DIRS.test(f.path))
+}
+
+/**
+ * Body of the first `name { ... }` block, also matching the Kotlin DSL's
+ * getByName("name") and create("name"). Returns the offset of the body so
+ * callers can report locations.
+ */
+export function gradleBlock(content: string, name: string): { body: string; offset: number } | null {
+  const opener = new RegExp(`(^|[\\s{])(${name}|(getByName|create|named)\\(\\s*"${name}"\\s*\\))\\s*\\{`, 'm')
+  const match = opener.exec(content)
+  if (!match) return null
+
+  const start = match.index + match[0].length
+  let depth = 1
+  for (let i = start; i < content.length; i++) {
+    if (content[i] === '{') depth++
+    else if (content[i] === '}' && --depth === 0) return { body: content.slice(start, i), offset: start }
+  }
+  return { body: content.slice(start), offset: start }
+}
+
+/**
+ * The release build type. Scoped to buildTypes, since signingConfigs usually
+ * has a release block of its own.
+ */
+export function releaseBuildType(content: string): { body: string; offset: number } | null {
+  const buildTypes = gradleBlock(content, 'buildTypes')
+  const release = buildTypes && gradleBlock(buildTypes.body, 'release')
+  return release && { body: release.body, offset: buildTypes.offset + release.offset }
+}
+
+/**
+ * Whether a Gradle property is set to true in either DSL: `minifyEnabled true`
+ * or `isMinifyEnabled = true`
+ */
+export function gradleFlag(body: string, property: string): boolean {
+  const kotlin = `is${property[0].toUpperCase()}${property.slice(1)}`
+  return new RegExp(`\\b(${property}|${kotlin})\\s*(=\\s*)?true\\b`).test(body)
+}
@@ -0,0 +1,188 @@
+// =============================================================================
+// ANDROID SECURITY ANALYZER
+// Manifest hardening, network security config and release signing secrets
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext, SourceLocation } from '../../types'
+import { check } from '../../checks'
+import { locate, locateOffset, withLocations } from '../../locations'
+import { gradleBuildFiles, gradleFlag, manifests, releaseBuildType } from './project'
+
+// Components other apps can start; launchers must be exported and are expected
+const COMPONENT = /<(activity|activity-alias|service|receiver|provider)\b([^>]*?)(\/>|>([\s\S]*?)<\/\1>)/g
+const LAUNCHER = 'android.intent.category.LAUNCHER'
+
+// A store or key password written into the build script
+const SIGNING_SECRET = /\b(storePassword|keyPassword)\s*=?\s*["'][^"']+["']/
+
+export function analyzeAndroidSecurity(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+  const appManifests = manifests(ctx)
+  const networkConfigs = (index.byExtension.get('.xml') || []).filter(f => f.path.includes('/res/xml/') && index.contains(f, '<network-security-config'))
+
+  // 1. Check cleartext traffic is off (20 points)
+  const cleartext: SourceLocation[] = [
+    ...appManifests.flatMap(f => locate(f, 'android:usesCleartextTraffic="true"')),
+    ...networkConfigs.flatMap(f => {
+      const base = /<base-config\b[^>]*cleartextTrafficPermitted="true"/.exec(f.content)
+      return base ? [locateOffset(f, base.index)] : []
+    }),
+  ]
+  const userCAs = networkConfigs.flatMap(f => locate(f, /<certificates\s+src="user"/))
+  const networkPoints = cleartext.length > 0 ? 0 : userCAs.length > 0 ? 10 : 20
+
+  score += networkPoints
+  if (cleartext.length > 0) {
+    gaps.push(withLocations({
+      id: 'security-android-cleartext',
+      check: 'security-android-network',
+      category: 'security',
+      title: 'Cleartext HTTP traffic allowed',
+      description: 'Remove usesCleartextTraffic and cleartextTrafficPermitted so the app only talks HTTPS; scope any exception to a domain-config',
+      severity: 'critical',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    }, cleartext))
+  } else if (userCAs.length > 0) {
+    gaps.push(withLocations({
+      id: 'security-android-user-certificates',
+      check: 'security-android-network',
+      category: 'security',
+      title: 'User-installed CAs trusted',
+      description: 'Trust user certificates only inside <debug-overrides> so release builds can\'t be intercepted',
+      severity: 'warning',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 10,
+    }, userCAs))
+  } else {
+    detected.push('Cleartext traffic disabled')
+  }
+  checks.push(check('security-android-network', 'Network security config', 20, networkPoints, [
+    ...networkConfigs.map(f => f.path),
+    ...[...cleartext, ...userCAs].map(l => `${l.file}:${l.line}`),
+  ].slice(0, 5)))
+
+  // 2. Check exported components require a permission (25 points)
+  const exposed: SourceLocation[] = []
+  for (const file of appManifests) {
+    for (const match of file.content.matchAll(COMPONENT)) {
+      const [, , attributes, , body = ''] = match
+      if (!attributes.includes('android:exported="true"')) continue
+      if (attributes.includes('android:permission=') || body.includes(LAUNCHER)) continue
+      exposed.push(locateOffset(file, match.index!))
+    }
+  }
+
+  if (exposed.length === 0) {
+    score += 25
+    checks.push(check('security-android-exported', 'Exported components', 25, 25))
+  } else {
+    gaps.push(withLocations({
+      id: 'security-android-exported-components',
+      check: 'security-android-exported',
+      category: 'security',
+      title: 'Exported components without permissions',
+      description: 'Any app can start these components. Set android:exported="false" or protect them with android:permission.',
+      severity: 'critical',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    }, exposed))
+    checks.push(check('security-android-exported', 'Exported components', 25, 0, exposed.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  }
+
+  // 3. Check release builds aren't debuggable (15 points)
+  const debuggable: SourceLocation[] = [
+    ...appManifests.flatMap(f => locate(f, 'android:debuggable="true"')),
+    ...gradleBuildFiles(ctx).flatMap(f => {
+      const release = releaseBuildType(f.content)
+      if (!release || !gradleFlag(release.body, 'debuggable')) return []
+      return [locateOffset(f, release.offset + release.body.search(/\b(isD|d)ebuggable\b/))]
+    }),
+  ]
+
+  if (debuggable.length === 0) {
+    score += 15
+    checks.push(check('security-android-debuggable', 'Release not debuggable', 15, 15))
+  } else {
+    gaps.push(withLocations({
+      id: 'security-android-debuggable',
+      check: 'security-android-debuggable',
+      category: 'security',
+      title: 'Release build is debuggable',
+      description: 'A debuggable app exposes its memory and data to anyone with adb. Google Play rejects it.',
+      severity: 'blocker',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 5,
+    }, debuggable))
+    checks.push(check('security-android-debuggable', 'Release not debuggable', 15, 0, debuggable.map(l => `${l.file}:${l.line}`)))
+  }
+
+  // 4. Check app data backups are restricted (15 points)
+  // allowBackup defaults to true, copying app data (tokens included) to cloud backups and adb
+  const backupExposed = appManifests.filter(f =>
+    index.contains(f, '<application') &&
+    !index.contains(f, 'android:allowBackup="false"') &&
+    !index.contains(f, 'android:fullBackupContent=') &&
+    !index.contains(f, 'android:dataExtractionRules=')
+  )
+
+  if (backupExposed.length === 0) {
+    score += 15
+  } else {
+    gaps.push(withLocations({
+      id: 'security-android-allow-backup',
+      check: 'security-android-backup',
+      category: 'security',
+      title: 'App data included in backups',
+      description: 'Set android:allowBackup="false" or add dataExtractionRules excluding credentials and tokens',
+      severity: 'warning',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 10,
+    }, backupExposed.flatMap(f => locate(f, '<application', 1))))
+  }
+  checks.push(check('security-android-backup', 'Backups restricted', 15, backupExposed.length === 0 ? 15 : 0,
+    backupExposed.map(f => f.path)))
+
+  // 5. Check signing passwords aren't committed (25 points)
+  const signingSecrets = gradleBuildFiles(ctx).flatMap(f => locate(f, SIGNING_SECRET))
+
+  if (signingSecrets.length === 0) {
+    detected.push('No signing secrets in build scripts')
+    score += 25
+    checks.push(check('security-android-signing', 'Signing secrets', 25, 25))
+  } else {
+    gaps.push(withLocations({
+      id: 'security-android-signing-secrets',
+      check: 'security-android-signing',
+      category: 'security',
+      title: 'Signing passwords in build script',
+      description: 'Read storePassword and keyPassword from environment variables or an uncommitted keystore.properties',
+      severity: 'blocker',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    }, signingSecrets))
+    checks.push(check('security-android-signing', 'Signing secrets', 25, 0, signingSecrets.map(l => `${l.file}:${l.line}`)))
+  }
+
+  return {
+    category: 'security',
+    label: 'Security',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -0,0 +1,115 @@
+// =============================================================================
+// ANDROID TESTING ANALYZER
+// JUnit unit tests, Espresso instrumented tests and Robolectric
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, fileEvidence } from '../../checks'
+import { gradleBuildFiles } from './project'
+
+const SOURCE = /\.(kt|java)$/
+
+export function analyzeAndroidTesting(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+  const buildScripts = gradleBuildFiles(ctx)
+  const declares = (dependency: string) => buildScripts.some(f => index.contains(f, dependency))
+
+  // Gradle source sets: src/test runs on the JVM, src/androidTest on a device
+  const unitTests = ctx.files.filter(f => SOURCE.test(f.path) && f.path.includes('/src/test/'))
+  const instrumentedTests = ctx.files.filter(f => SOURCE.test(f.path) && f.path.includes('/src/androidTest/'))
+
+  // 1. Check for JUnit unit tests (30 points)
+  if (unitTests.length > 0) {
+    detected.push(`${unitTests.length} unit test files`)
+    score += 30
+  } else {
+    gaps.push({
+      id: instrumentedTests.length > 0 ? 'testing-android-no-unit-tests' : 'testing-no-tests',
+      category: 'testing',
+      title: 'No unit tests',
+      description: 'Add JUnit tests under src/test for view models, repositories and other logic that doesn\'t need a device',
+      severity: instrumentedTests.length > 0 ? 'warning' : 'critical',
+      confidence: 'proven',
+      fixType: 'guided',
+      effortMinutes: 60,
+    })
+  }
+  checks.push(check('testing-android-unit', 'JUnit tests', 30, unitTests.length > 0 ? 30 : 0,
+    unitTests.slice(0, 5).map(f => f.path)))
+
+  // 2. Check for Espresso instrumented tests (25 points)
+  const espresso = instrumentedTests.filter(f => index.contains(f, 'espresso') || index.contains(f, 'androidx.compose.ui.test'))
+  const hasEspresso = espresso.length > 0
+
+  if (hasEspresso) {
+    detected.push('Espresso UI tests')
+    score += 25
+  } else {
+    gaps.push({
+      id: 'testing-android-no-ui-tests',
+      check: 'testing-android-espresso',
+      category: 'testing',
+      title: 'No Espresso UI tests',
+      description: 'Add instrumented tests under src/androidTest that drive the critical screens with Espresso or Compose testing',
+      severity: 'info',
+      confidence: 'verified',
+      fixType: 'guided',
+      effortMinutes: 60,
+    })
+  }
+  checks.push(check('testing-android-espresso', 'Espresso', 25, hasEspresso ? 25 : 0, espresso.slice(0, 5).map(f => f.path)))
+
+  // 3. Check for Robolectric (15 points)
+  // Runs framework-dependent tests on the JVM, far faster than an emulator
+  const hasRobolectric = declares('org.robolectric')
+
+  if (hasRobolectric) {
+    detected.push('Robolectric')
+    score += 15
+  }
+  checks.push(check('testing-android-robolectric', 'Robolectric', 15, hasRobolectric ? 15 : 0,
+    hasRobolectric ? ['org.robolectric'] : []))
+
+  // 4. Check tests run in CI (30 points)
+  const ciTestEvidence = fileEvidence(ctx, 'android-testing-ci', f =>
+    (f.path.startsWith('.github/workflows/') || f.path === '.gitlab-ci.yml' || f.path === 'bitrise.yml') &&
+    /gradlew\s+(\S+\s+)*(test|check|\w*UnitTest|connected\w*AndroidTest)\b/.test(f.content)
+  )
+  const hasTestInCI = ciTestEvidence.length > 0
+
+  if (hasTestInCI) {
+    detected.push('Tests run in CI')
+    score += 30
+  } else {
+    gaps.push({
+      id: 'testing-not-in-ci',
+      check: 'testing-ci',
+      category: 'testing',
+      title: 'Tests not running in CI',
+      description: techStack.ciProvider
+        ? 'Run ./gradlew test in the CI workflow'
+        : 'Add a CI workflow that runs ./gradlew test on every push',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    })
+  }
+  checks.push(check('testing-ci', 'Tests run in CI', 30, hasTestInCI ? 30 : 0, ciTestEvidence))
+
+  return {
+    category: 'testing',
+    label: 'Testing',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
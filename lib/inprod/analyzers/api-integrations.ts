@@ -2,22 +2,22 @@
 // API INTEGRATIONS ANALYZER
 // =============================================================================
 
-import { CategoryScore, Gap, RepoContext } from '../types'
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../types'
+import { locateAll, withLocations } from '../locations'
+import { check, fileEvidence, skipCheck } from '../checks'
 
 export function analyzeApiIntegrations(ctx: RepoContext): CategoryScore {
   const gaps: Gap[] = []
   const detected: string[] = []
+  const checks: CheckResult[] = []
   let score = 0
   
-  const { files, packageJson } = ctx
-  const deps = packageJson ? { 
-    ...((packageJson.dependencies as Record<string, string>) || {}),
-    ...((packageJson.devDependencies as Record<string, string>) || {})
-  } : {}
+  const { files, index } = ctx
+  const { deps } = index
   
   // Check for external API integrations
-  const hasStripe = deps['stripe'] || files.some(f => f.content.includes('stripe'))
-  const hasOpenAI = deps['openai'] || deps['@anthropic-ai/sdk'] || files.some(f => f.content.includes('openai') || f.content.includes('anthropic'))
+  const hasStripe = deps['stripe'] || files.some(f => index.contains(f, 'stripe'))
+  const hasOpenAI = deps['openai'] || deps['@anthropic-ai/sdk'] || files.some(f => index.contains(f, 'openai') || index.contains(f, 'anthropic'))
   const hasAWS = deps['@aws-sdk'] || deps['aws-sdk']
   const hasTwilio = deps['twilio']
   const hasSendgrid = deps['@sendgrid/mail']
@@ -29,7 +29,9 @@ export function analyzeApiIntegrations(ctx: RepoContext): CategoryScore {
       category: 'apiIntegrations',
       label: 'API Integrations',
       score: 100, // N/A
+      applicable: false,
       detected: ['No external API integrations detected'],
+      checks: [],
       gaps: [],
       canGenerate: false,
     }
@@ -41,13 +43,15 @@ export function analyzeApiIntegrations(ctx: RepoContext): CategoryScore {
   if (hasTwilio) detected.push('Twilio')
   if (hasSendgrid) detected.push('SendGrid')
   score += 20
+  checks.push(check('api-detected', 'External API integrations', 20, 20, [...detected]))
 
   // 1. Check for retry logic (20 points)
-  const hasRetry = files.some(f => 
-    f.content.includes('retry') || 
-    f.content.includes('maxRetries') ||
-    f.content.includes('exponential')
+  const retryEvidence = fileEvidence(ctx, 'api-retry', f => 
+    index.contains(f, 'retry') || 
+    index.contains(f, 'maxRetries') ||
+    index.contains(f, 'exponential')
   )
+  const hasRetry = retryEvidence.length > 0
   
   if (hasRetry) {
     detected.push('Retry logic configured')
@@ -55,6 +59,7 @@ export function analyzeApiIntegrations(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'api-no-retry',
+      check: 'api-retry',
       category: 'apiIntegrations',
       title: 'No retry logic for API calls',
       description: 'Add exponential backoff retry for transient failures',
@@ -65,21 +70,24 @@ export function analyzeApiIntegrations(ctx: RepoContext): CategoryScore {
       effortMinutes: 20,
     })
   }
+  checks.push(check('api-retry', 'Retry logic', 20, hasRetry ? 20 : 0, retryEvidence))
 
   // 2. Check for webhook verification (20 points) - for Stripe
   if (hasStripe) {
-    const hasWebhookVerify = files.some(f => 
-      f.content.includes('constructEvent') || 
-      f.content.includes('verifySignature') ||
-      f.content.includes('STRIPE_WEBHOOK_SECRET')
+    const webhookEvidence = fileEvidence(ctx, 'api-webhook-verify', f => 
+      index.contains(f, 'constructEvent') || 
+      index.contains(f, 'verifySignature') ||
+      index.contains(f, 'STRIPE_WEBHOOK_SECRET')
     )
+    const hasWebhookVerify = webhookEvidence.length > 0
     
     if (hasWebhookVerify) {
       detected.push('Webhook signature verification')
       score += 20
     } else {
-      gaps.push({
+      gaps.push(withLocations({
         id: 'api-no-webhook-verify',
+        check: 'api-webhook-verify',
         category: 'apiIntegrations',
         title: 'Webhook signature not verified',
         description: 'Verify webhook signatures to prevent spoofed events',
@@ -88,20 +96,23 @@ export function analyzeApiIntegrations(ctx: RepoContext): CategoryScore {
         fixType: 'instant',
         fixTemplate: 'webhook-verify',
         effortMinutes: 15,
-      })
+      }, locateAll(files.filter(f => f.path.includes('webhook')), /export\s+(async\s+)?function\s+POST\b|\.post\(/)))
     }
+    checks.push(check('api-webhook-verify', 'Webhook signature verification', 20, hasWebhookVerify ? 20 : 0, webhookEvidence))
   } else {
     score += 20 // N/A
+    checks.push(skipCheck('api-webhook-verify', 'Webhook signature verification', 20, 'No Stripe integration'))
   }
 
   // 3. Check for API error handling (20 points)
-  const hasApiErrorHandling = files.some(f => 
-    f.content.includes('catch') && (
-      f.content.includes('stripe') ||
-      f.content.includes('openai') ||
-      f.content.includes('fetch')
+  const errorHandlingEvidence = fileEvidence(ctx, 'api-error-handling', f => 
+    index.contains(f, 'catch') && (
+      index.contains(f, 'stripe') ||
+      index.contains(f, 'openai') ||
+      index.contains(f, 'fetch')
     )
   )
+  const hasApiErrorHandling = errorHandlingEvidence.length > 0
   
   if (hasApiErrorHandling) {
     detected.push('API error handling')
@@ -109,6 +120,7 @@ export function analyzeApiIntegrations(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'api-no-error-handling',
+      check: 'api-error-handling',
       category: 'apiIntegrations',
       title: 'Limited API error handling',
       description: 'Add specific error handling for external API failures',
@@ -118,20 +130,24 @@ export function analyzeApiIntegrations(ctx: RepoContext): CategoryScore {
       effortMinutes: 30,
     })
   }
+  checks.push(check('api-error-handling', 'API error handling', 20, hasApiErrorHandling ? 20 : 0, errorHandlingEvidence))
 
   // 4. Check for API key security (20 points)
-  const hasEnvKeys = files.some(f => 
-    f.content.includes('process.env.STRIPE') || 
-    f.content.includes('process.env.OPENAI') ||
-    f.content.includes('process.env.API_KEY')
+  const envKeyEvidence = fileEvidence(ctx, 'api-env-keys', f => 
+    index.contains(f, 'process.env.STRIPE') || 
+    index.contains(f, 'process.env.OPENAI') ||
+    index.contains(f, 'process.env.API_KEY')
   )
+  const hasEnvKeys = envKeyEvidence.length > 0
   
   if (hasEnvKeys) {
     detected.push('API keys in environment variables')
     score += 20
   } else {
-    gaps.push({
+    // Point at where the API clients are constructed
+    gaps.push(withLocations({
       id: 'api-exposed-keys',
+      check: 'api-env-keys',
       category: 'apiIntegrations',
       title: 'API keys may be hardcoded',
       description: 'Move all API keys to environment variables',
@@ -140,14 +156,17 @@ export function analyzeApiIntegrations(ctx: RepoContext): CategoryScore {
       fixType: 'instant',
       fixTemplate: 'env-keys',
       effortMinutes: 10,
-    })
+    }, locateAll(files, /new (Stripe|OpenAI|Anthropic|Twilio)\(|\bapiKey\s*:|sgMail\.setApiKey\(/)))
   }
+  checks.push(check('api-env-keys', 'API keys in environment', 20, hasEnvKeys ? 20 : 0, envKeyEvidence))
 
   return {
     category: 'apiIntegrations',
     label: 'API Integrations',
     score: Math.min(100, score),
+    applicable: true,
     detected,
+    checks,
     gaps,
     canGenerate: gaps.some(g => g.fixType === 'instant'),
   }
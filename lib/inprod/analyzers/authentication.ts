@@ -2,30 +2,53 @@
 // AUTHENTICATION ANALYZER
 // =============================================================================
 
-import { CategoryScore, Gap, RepoContext } from '../types'
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../types'
+import { locateAll, withLocations } from '../locations'
+import { check, depEvidence, fileEvidence } from '../checks'
+import { importsFile, importsPackage } from '../import-graph'
+
+const AUTH_PACKAGES = [
+  'next-auth', '@auth/core', '@clerk/nextjs', '@supabase/auth-helpers-nextjs', '@supabase/ssr', 'passport',
+  'jsonwebtoken', 'jose', 'iron-session', 'lucia', 'better-auth', 'bcrypt',
+]
+
+// Where requests come in: API routes, middleware, and pages and layouts
+const ENTRY = /(^|\/)(middleware|page|layout)\.[cm]?[jt]sx?$|(^|\/)pages\//
+
+// The app's own auth helper: lib/auth.ts, src/auth/index.ts, utils/session.ts
+const AUTH_HELPER = /(^|\/)(auth|session)(\/|\.[cm]?[jt]sx?$)/
 
 export function analyzeAuthentication(ctx: RepoContext): CategoryScore {
   const gaps: Gap[] = []
   const detected: string[] = []
+  const checks: CheckResult[] = []
   let score = 0
   
-  const { files, packageJson } = ctx
-  const deps = packageJson ? { 
-    ...((packageJson.dependencies as Record<string, string>) || {}),
-    ...((packageJson.devDependencies as Record<string, string>) || {})
-  } : {}
+  const { files, index } = ctx
+  const { deps } = index
   
-  // Check if auth is present
-  const hasAuth = deps['next-auth'] || deps['@clerk/nextjs'] || deps['@supabase/auth-helpers-nextjs'] ||
-                  deps['passport'] || deps['jsonwebtoken'] || deps['bcrypt'] ||
-                  files.some(f => f.path.includes('/auth/') || f.content.includes('session'))
+  // Check if auth is present: an auth package is installed, or an entry point
+  // imports an auth package or the app's auth helper
+  const graph = index.importGraph()
+  const routePaths = new Set(index.routes.map(route => route.path))
+  const authTraces = Object.keys(graph.modules)
+    .filter(path => routePaths.has(path) || ENTRY.test(path))
+    .flatMap(path => {
+      const trace = importsPackage(graph, path, AUTH_PACKAGES) ?? importsFile(graph, path, p => AUTH_HELPER.test(p))
+      return trace ? [trace.package ? `${trace.via.join(' → ')} (${trace.package})` : trace.via.join(' → ')] : []
+    })
+    .slice(0, 5)
+  const authEvidence = [...depEvidence(deps, AUTH_PACKAGES), ...authTraces]
+  const hasAuth = authEvidence.length > 0
   
   if (!hasAuth) {
     return {
       category: 'authentication',
       label: 'Authentication',
       score: 100, // N/A
+      applicable: false,
       detected: ['No authentication detected'],
+      checks: [],
       gaps: [],
       canGenerate: false,
     }
@@ -33,14 +56,16 @@ export function analyzeAuthentication(ctx: RepoContext): CategoryScore {
 
   detected.push('Authentication system detected')
   score += 20
+  checks.push(check('auth-detected', 'Authentication system', 20, 20, authEvidence))
 
   // 1. Check for session encryption (20 points)
-  const hasEncryption = files.some(f => 
-    f.content.includes('encrypt') || 
-    f.content.includes('cipher') ||
-    f.content.includes('crypto') ||
-    f.content.includes('AES')
+  const encryptionEvidence = fileEvidence(ctx, 'auth-encryption', f => 
+    index.contains(f, 'encrypt') || 
+    index.contains(f, 'cipher') ||
+    index.contains(f, 'crypto') ||
+    index.contains(f, 'AES')
   )
+  const hasEncryption = encryptionEvidence.length > 0
   
   if (hasEncryption) {
     detected.push('Session encryption detected')
@@ -48,6 +73,7 @@ export function analyzeAuthentication(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'auth-no-encryption',
+      check: 'auth-encryption',
       category: 'authentication',
       title: 'Session data may be unencrypted',
       description: 'Encrypt sensitive session data to protect against cookie theft',
@@ -58,13 +84,15 @@ export function analyzeAuthentication(ctx: RepoContext): CategoryScore {
       effortMinutes: 30,
     })
   }
+  checks.push(check('auth-encryption', 'Session encryption', 20, hasEncryption ? 20 : 0, encryptionEvidence))
 
   // 2. Check for CSRF protection (15 points)
-  const hasCSRF = files.some(f => 
-    f.content.includes('csrf') || 
-    f.content.includes('CSRF') ||
-    f.content.includes('csrfToken')
+  const csrfEvidence = fileEvidence(ctx, 'auth-csrf', f => 
+    index.contains(f, 'csrf') || 
+    index.contains(f, 'CSRF') ||
+    index.contains(f, 'csrfToken')
   )
+  const hasCSRF = csrfEvidence.length > 0
   
   if (hasCSRF) {
     detected.push('CSRF protection detected')
@@ -72,6 +100,7 @@ export function analyzeAuthentication(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'auth-no-csrf',
+      check: 'auth-csrf',
       category: 'authentication',
       title: 'No CSRF protection detected',
       description: 'Add CSRF tokens to protect against cross-site request forgery',
@@ -81,20 +110,24 @@ export function analyzeAuthentication(ctx: RepoContext): CategoryScore {
       effortMinutes: 20,
     })
   }
+  checks.push(check('auth-csrf', 'CSRF protection', 15, hasCSRF ? 15 : 0, csrfEvidence))
 
   // 3. Check for secure cookies (15 points)
-  const hasSecureCookies = files.some(f => 
-    f.content.includes('httpOnly: true') || 
-    f.content.includes('secure: true') ||
-    f.content.includes('sameSite')
+  const cookieEvidence = fileEvidence(ctx, 'auth-secure-cookies', f => 
+    index.contains(f, 'httpOnly: true') || 
+    index.contains(f, 'secure: true') ||
+    index.contains(f, 'sameSite')
   )
+  const hasSecureCookies = cookieEvidence.length > 0
   
   if (hasSecureCookies) {
     detected.push('Secure cookie settings')
     score += 15
   } else {
-    gaps.push({
+    // Point at the places cookies are actually set
+    gaps.push(withLocations({
       id: 'auth-insecure-cookies',
+      check: 'auth-secure-cookies',
       category: 'authentication',
       title: 'Cookie security flags not detected',
       description: 'Set httpOnly, secure, and sameSite flags on auth cookies',
@@ -103,24 +136,31 @@ export function analyzeAuthentication(ctx: RepoContext): CategoryScore {
       fixType: 'instant',
       fixTemplate: 'secure-cookies',
       effortMinutes: 10,
-    })
+    }, locateAll(files, /cookies\(\)\.set\(|\.cookies\.set\(|\bres\.cookie\(|\bsetCookie\(|Set-Cookie/)))
   }
 
+  checks.push(check('auth-secure-cookies', 'Secure cookie flags', 15, hasSecureCookies ? 15 : 0, cookieEvidence))
+
   // 4. Check for password hashing (15 points)
-  const hasHashing = deps['bcrypt'] || deps['argon2'] || deps['bcryptjs'] ||
-                     files.some(f => f.content.includes('hash') && f.content.includes('password'))
+  const hashingEvidence = [
+    ...depEvidence(deps, ['bcrypt', 'argon2', 'bcryptjs']),
+    ...fileEvidence(ctx, 'auth-password-hashing', f => index.contains(f, 'hash') && index.contains(f, 'password')),
+  ]
+  const hasHashing = hashingEvidence.length > 0
   
   if (hasHashing) {
     detected.push('Password hashing configured')
     score += 15
   }
+  checks.push(check('auth-password-hashing', 'Password hashing', 15, hasHashing ? 15 : 0, hashingEvidence))
 
   // 5. Check for session expiry (15 points)
-  const hasExpiry = files.some(f => 
-    f.content.includes('maxAge') || 
-    f.content.includes('expiresIn') ||
-    f.content.includes('expires')
+  const expiryEvidence = fileEvidence(ctx, 'auth-session-expiry', f => 
+    index.contains(f, 'maxAge') || 
+    index.contains(f, 'expiresIn') ||
+    index.contains(f, 'expires')
   )
+  const hasExpiry = expiryEvidence.length > 0
   
   if (hasExpiry) {
     detected.push('Session expiry configured')
@@ -128,6 +168,7 @@ export function analyzeAuthentication(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'auth-no-expiry',
+      check: 'auth-session-expiry',
       category: 'authentication',
       title: 'No session expiry detected',
       description: 'Set appropriate session expiry to limit exposure from token theft',
@@ -137,12 +178,15 @@ export function analyzeAuthentication(ctx: RepoContext): CategoryScore {
       effortMinutes: 10,
     })
   }
+  checks.push(check('auth-session-expiry', 'Session expiry', 15, hasExpiry ? 15 : 0, expiryEvidence))
 
   return {
     category: 'authentication',
     label: 'Authentication',
     score: Math.min(100, score),
+    applicable: true,
     detected,
+    checks,
     gaps,
     canGenerate: gaps.some(g => g.fixType === 'instant'),
   }
@@ -2,33 +2,61 @@
 // BACKEND ANALYZER
 // =============================================================================
 
-import { CategoryScore, Gap, RepoContext } from '../types'
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../types'
+import { check, depEvidence, fileEvidence } from '../checks'
+import { importsFile, importsPackage } from '../import-graph'
+import { locate, withLocations } from '../locations'
+
+const VALIDATION_PACKAGES = ['zod', 'yup', 'joi', 'valibot', 'superstruct', 'class-validator']
+const RATE_LIMIT_PACKAGES = [
+  'express-rate-limit', '@upstash/ratelimit', 'rate-limiter-flexible', '@nestjs/throttler', '@fastify/rate-limit',
+  'hono-rate-limiter',
+]
+
+// Next.js middleware runs in front of every route it matches
+const MIDDLEWARE = /(^|\/)middleware\.[cm]?[jt]s$/
+
+// The app's own limiter: lib/rate-limit.ts, src/ratelimit/index.ts, utils/throttle.ts
+const RATE_LIMIT_HELPER = /rate-?limit|throttl/i
+
+const BACKEND_FRAMEWORKS = [
+  'express', 'fastify', 'nestjs', 'hono',
+  'fastapi', 'django', 'flask', 'starlette',
+  'gin', 'echo', 'fiber', 'chi',
+  'axum', 'actix', 'rocket', 'warp',
+]
+
+// Reads a request body, query string or form
+const READS_INPUT = /\.json\(\)|\.formData\(\)|searchParams|\breq\.(body|query|params)\b/
 
 export function analyzeBackend(ctx: RepoContext): CategoryScore {
   const gaps: Gap[] = []
   const detected: string[] = []
+  const checks: CheckResult[] = []
   let score = 0
   
-  const { files, techStack, packageJson } = ctx
-  const deps = packageJson ? { 
-    ...((packageJson.dependencies as Record<string, string>) || {}),
-    ...((packageJson.devDependencies as Record<string, string>) || {})
-  } : {}
+  const { files, techStack, index } = ctx
+  const { deps } = index
   
   // Check if this has backend
-  const hasBackend = files.some(f => 
-    f.path.includes('/api/') || 
-    f.path.includes('/routes/') ||
-    f.path.includes('server.') ||
-    techStack.frameworks.some(fw => ['express', 'fastify', 'nestjs', 'hono', 'fastapi', 'django', 'flask'].includes(fw))
-  )
+  const backendEvidence = [
+    ...techStack.frameworks.filter(fw => BACKEND_FRAMEWORKS.includes(fw)),
+    ...fileEvidence(ctx, 'backend-api-routes', f => 
+      f.path.includes('/api/') || 
+      f.path.includes('/routes/') ||
+      f.path.includes('server.')
+    ),
+  ]
+  const hasBackend = files.length > 0 && backendEvidence.length > 0
   
   if (!hasBackend) {
     return {
       category: 'backend',
       label: 'Backend',
       score: 100, // N/A
+      applicable: false,
       detected: ['No backend detected'],
+      checks: [],
       gaps: [],
       canGenerate: false,
     }
@@ -36,39 +64,89 @@ export function analyzeBackend(ctx: RepoContext): CategoryScore {
 
   detected.push('API routes detected')
   score += 20
+  checks.push(check('backend-api-routes', 'API routes', 20, 20, backendEvidence))
 
-  // 1. Check for input validation (20 points)
-  const hasValidation = files.some(f => 
-    f.content.includes('zod') || 
-    f.content.includes('yup') ||
-    f.content.includes('joi') ||
-    f.content.includes('.parse(') ||
-    f.content.includes('validate')
-  ) || deps['zod'] || deps['yup'] || deps['joi']
-  
-  if (hasValidation) {
-    detected.push('Input validation configured')
-    score += 20
+  // 1. Check for input validation (20 points). JS/TS routes that read the
+  // request must reach a validation library, directly or via a helper they import.
+  const noValidationGap: Gap = {
+    id: 'backend-no-validation',
+    check: 'backend-validation',
+    category: 'backend',
+    title: 'No input validation detected',
+    description: 'Add Zod or similar for request validation to prevent invalid data',
+    severity: 'critical',
+    confidence: 'high',
+    fixType: 'instant',
+    fixTemplate: 'zod-validation',
+    effortMinutes: 30,
+  }
+  const graph = index.importGraph()
+  const inputRoutes = index.routes.filter(route => graph.modules[route.path] && READS_INPUT.test(route.content))
+
+  if (inputRoutes.length > 0) {
+    const traces = inputRoutes.map(route => importsPackage(graph, route.path, VALIDATION_PACKAGES))
+    const unvalidated = inputRoutes.filter((_, i) => !traces[i])
+    const validatedCount = inputRoutes.length - unvalidated.length
+    const ratio = validatedCount / inputRoutes.length
+    const validationPoints = ratio >= 0.8 ? 20 : ratio >= 0.5 ? 10 : 0
+    const inputLocations = unvalidated.slice(0, 20).map(route => locate(route, READS_INPUT, 1)[0])
+
+    score += validationPoints
+    if (validationPoints === 20) {
+      detected.push('Input validation configured')
+    } else if (validationPoints === 10) {
+      gaps.push(withLocations({
+        id: 'backend-some-routes-unvalidated',
+        check: 'backend-validation',
+        category: 'backend',
+        title: 'Some API routes use unvalidated input',
+        description: `${unvalidated.length} routes read request data without reaching a validation library`,
+        severity: 'warning',
+        confidence: 'high',
+        fixType: 'suggested',
+        effortMinutes: 20,
+      }, inputLocations))
+    } else {
+      gaps.push(withLocations(noValidationGap, inputLocations))
+    }
+    checks.push(check('backend-validation', 'Input validation', 20, validationPoints, [
+      `${validatedCount}/${inputRoutes.length} routes reading input reach a validator`,
+      ...traces.flatMap(trace => trace ? [`${trace.via.join(' → ')} (${trace.package})`] : []).slice(0, 4),
+    ]))
   } else {
-    gaps.push({
-      id: 'backend-no-validation',
-      category: 'backend',
-      title: 'No input validation detected',
-      description: 'Add Zod or similar for request validation to prevent invalid data',
-      severity: 'critical',
-      confidence: 'high',
-      fixType: 'instant',
-      fixTemplate: 'zod-validation',
-      effortMinutes: 30,
-    })
+    const validationEvidence = [
+      ...depEvidence(deps, VALIDATION_PACKAGES),
+      ...fileEvidence(ctx, 'backend-validation', f => 
+        index.contains(f, 'zod') || 
+        index.contains(f, 'yup') ||
+        index.contains(f, 'joi') ||
+        index.contains(f, '.parse(') ||
+        index.contains(f, 'validate')
+      ),
+    ]
+    const hasValidation = validationEvidence.length > 0
+
+    if (hasValidation) {
+      detected.push('Input validation configured')
+      score += 20
+    } else {
+      gaps.push(noValidationGap)
+    }
+    checks.push(check('backend-validation', 'Input validation', 20, hasValidation ? 20 : 0, validationEvidence))
   }
 
-  // 2. Check for rate limiting (15 points)
-  const hasRateLimit = files.some(f => 
-    f.content.includes('rateLimit') || 
-    f.content.includes('rate-limit') ||
-    f.content.includes('throttle')
-  ) || deps['express-rate-limit'] || deps['@upstash/ratelimit']
+  // 2. Check for rate limiting (15 points). A limiter package or the app's own
+  // limiter must be imported by a route, by middleware, or by the server that
+  // mounts the routes.
+  const routePaths = new Set(index.routes.map(route => route.path))
+  const rateLimitEvidence = Object.entries(graph.modules)
+    .filter(([path, imports]) => routePaths.has(path) || MIDDLEWARE.test(path) || imports.files.some(f => routePaths.has(f)))
+    .flatMap(([path]) => {
+      const trace = importsPackage(graph, path, RATE_LIMIT_PACKAGES) ?? importsFile(graph, path, p => RATE_LIMIT_HELPER.test(p))
+      return trace ? [trace.package ? `${trace.via.join(' → ')} (${trace.package})` : trace.via.join(' → ')] : []
+    })
+    .slice(0, 5)
+  const hasRateLimit = rateLimitEvidence.length > 0
   
   if (hasRateLimit) {
     detected.push('Rate limiting configured')
@@ -76,6 +154,7 @@ export function analyzeBackend(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'backend-no-rate-limit',
+      check: 'backend-rate-limit',
       category: 'backend',
       title: 'No rate limiting detected',
       description: 'Add rate limiting to prevent abuse and DoS attacks',
@@ -86,13 +165,15 @@ export function analyzeBackend(ctx: RepoContext): CategoryScore {
       effortMinutes: 20,
     })
   }
+  checks.push(check('backend-rate-limit', 'Rate limiting', 15, hasRateLimit ? 15 : 0, rateLimitEvidence))
 
   // 3. Check for request timeouts (15 points)
-  const hasTimeouts = files.some(f => 
-    f.content.includes('timeout') || 
-    f.content.includes('AbortController') ||
-    f.content.includes('signal')
+  const timeoutEvidence = fileEvidence(ctx, 'backend-timeouts', f => 
+    index.contains(f, 'timeout') || 
+    index.contains(f, 'AbortController') ||
+    index.contains(f, 'signal')
   )
+  const hasTimeouts = timeoutEvidence.length > 0
   
   if (hasTimeouts) {
     detected.push('Request timeouts configured')
@@ -100,6 +181,7 @@ export function analyzeBackend(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'backend-no-timeouts',
+      check: 'backend-timeouts',
       category: 'backend',
       title: 'No request timeouts detected',
       description: 'Add timeouts to external API calls to prevent hanging requests',
@@ -109,14 +191,19 @@ export function analyzeBackend(ctx: RepoContext): CategoryScore {
       effortMinutes: 15,
     })
   }
+  checks.push(check('backend-timeouts', 'Request timeouts', 15, hasTimeouts ? 15 : 0, timeoutEvidence))
 
   // 4. Check for logging (15 points)
-  const hasLogging = files.some(f => 
-    f.content.includes('console.log') || 
-    f.content.includes('logger') ||
-    f.content.includes('winston') ||
-    f.content.includes('pino')
-  ) || deps['winston'] || deps['pino']
+  const loggingEvidence = [
+    ...depEvidence(deps, ['winston', 'pino']),
+    ...fileEvidence(ctx, 'backend-logging', f => 
+      index.contains(f, 'console.log') || 
+      index.contains(f, 'logger') ||
+      index.contains(f, 'winston') ||
+      index.contains(f, 'pino')
+    ),
+  ]
+  const hasLogging = loggingEvidence.length > 0
   
   if (hasLogging) {
     detected.push('Logging configured')
@@ -124,6 +211,7 @@ export function analyzeBackend(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'backend-no-logging',
+      check: 'backend-logging',
       category: 'backend',
       title: 'No structured logging detected',
       description: 'Add structured logging for debugging and monitoring',
@@ -134,13 +222,15 @@ export function analyzeBackend(ctx: RepoContext): CategoryScore {
       effortMinutes: 15,
     })
   }
+  checks.push(check('backend-logging', 'Logging', 15, hasLogging ? 15 : 0, loggingEvidence))
 
   // 5. Check for health endpoint (15 points)
-  const hasHealthCheck = files.some(f => 
+  const healthEvidence = fileEvidence(ctx, 'backend-health', f => 
     f.path.includes('/health') || 
-    f.content.includes('/health') ||
-    f.content.includes('healthcheck')
+    index.contains(f, '/health') ||
+    index.contains(f, 'healthcheck')
   )
+  const hasHealthCheck = healthEvidence.length > 0
   
   if (hasHealthCheck) {
     detected.push('Health endpoint present')
@@ -148,6 +238,7 @@ export function analyzeBackend(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'backend-no-health',
+      check: 'backend-health',
       category: 'backend',
       title: 'No health check endpoint',
       description: 'Add /health endpoint for load balancers and monitoring',
@@ -158,12 +249,15 @@ export function analyzeBackend(ctx: RepoContext): CategoryScore {
       effortMinutes: 5,
     })
   }
+  checks.push(check('backend-health', 'Health endpoint', 15, hasHealthCheck ? 15 : 0, healthEvidence))
 
   return {
     category: 'backend',
     label: 'Backend',
     score: Math.min(100, score),
+    applicable: true,
     detected,
+    checks,
     gaps,
     canGenerate: gaps.some(g => g.fixType === 'instant'),
   }
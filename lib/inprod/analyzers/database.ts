@@ -2,25 +2,26 @@
 // DATABASE ANALYZER
 // =============================================================================
 
-import { CategoryScore, Gap, RepoContext } from '../types'
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../types'
+import { check, depEvidence, fileEvidence, skipCheck } from '../checks'
 
 export function analyzeDatabase(ctx: RepoContext): CategoryScore {
   const gaps: Gap[] = []
   const detected: string[] = []
+  const checks: CheckResult[] = []
   let score = 0
   
-  const { files, techStack, packageJson } = ctx
-  const deps = packageJson ? { 
-    ...((packageJson.dependencies as Record<string, string>) || {}),
-    ...((packageJson.devDependencies as Record<string, string>) || {})
-  } : {}
+  const { techStack, index } = ctx
+  const { deps } = index
   
   if (!techStack.database) {
     return {
       category: 'database',
       label: 'Database',
       score: 100, // N/A
+      applicable: false,
       detected: ['No database detected'],
+      checks: [],
       gaps: [],
       canGenerate: false,
     }
@@ -28,10 +29,11 @@ export function analyzeDatabase(ctx: RepoContext): CategoryScore {
 
   detected.push(`Database: ${techStack.database}`)
   score += 20
+  checks.push(check('database-detected', 'Database configured', 20, 20, [techStack.database]))
 
   // 1. Check for ORM/Query Builder (20 points)
-  const hasORM = deps['prisma'] || deps['@prisma/client'] || deps['drizzle-orm'] || 
-                 deps['typeorm'] || deps['sequelize'] || deps['mongoose']
+  const ormEvidence = depEvidence(deps, ['prisma', '@prisma/client', 'drizzle-orm', 'typeorm', 'sequelize', 'mongoose'])
+  const hasORM = ormEvidence.length > 0
   
   if (hasORM) {
     detected.push('ORM configured')
@@ -39,6 +41,7 @@ export function analyzeDatabase(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'database-no-orm',
+      check: 'database-orm',
       category: 'database',
       title: 'No ORM detected',
       description: 'Using raw SQL queries increases SQL injection risk. Consider Prisma or Drizzle.',
@@ -48,13 +51,15 @@ export function analyzeDatabase(ctx: RepoContext): CategoryScore {
       effortMinutes: 60,
     })
   }
+  checks.push(check('database-orm', 'ORM / query builder', 20, hasORM ? 20 : 0, ormEvidence))
 
   // 2. Check for migrations (20 points)
-  const hasMigrations = files.some(f => 
+  const migrationEvidence = fileEvidence(ctx, 'database-migrations', f => 
     f.path.includes('/migrations/') || 
     f.path.includes('prisma/migrations') ||
     f.path.includes('drizzle/')
   )
+  const hasMigrations = migrationEvidence.length > 0
   
   if (hasMigrations) {
     detected.push('Database migrations present')
@@ -62,6 +67,7 @@ export function analyzeDatabase(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'database-no-migrations',
+      check: 'database-migrations',
       category: 'database',
       title: 'No database migrations',
       description: 'Add migrations for version-controlled schema changes',
@@ -71,13 +77,15 @@ export function analyzeDatabase(ctx: RepoContext): CategoryScore {
       effortMinutes: 30,
     })
   }
+  checks.push(check('database-migrations', 'Migrations', 20, hasMigrations ? 20 : 0, migrationEvidence))
 
   // 3. Check for indexes (15 points)
-  const hasIndexes = files.some(f => 
-    f.content.includes('@@index') || 
-    f.content.includes('CREATE INDEX') ||
-    f.content.includes('.index(')
+  const indexEvidence = fileEvidence(ctx, 'database-indexes', f => 
+    index.contains(f, '@@index') || 
+    index.contains(f, 'CREATE INDEX') ||
+    index.contains(f, '.index(')
   )
+  const hasIndexes = indexEvidence.length > 0
   
   if (hasIndexes) {
     detected.push('Database indexes defined')
@@ -85,6 +93,7 @@ export function analyzeDatabase(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'database-no-indexes',
+      check: 'database-indexes',
       category: 'database',
       title: 'No database indexes detected',
       description: 'Add indexes for frequently queried columns to improve performance',
@@ -94,36 +103,44 @@ export function analyzeDatabase(ctx: RepoContext): CategoryScore {
       effortMinutes: 20,
     })
   }
+  checks.push(check('database-indexes', 'Indexes', 15, hasIndexes ? 15 : 0, indexEvidence))
 
   // 4. Check for connection pooling (15 points)
-  const hasPooling = files.some(f => 
-    f.content.includes('pool') || 
-    f.content.includes('connectionLimit') ||
-    f.content.includes('?pgbouncer=true')
+  const poolingEvidence = fileEvidence(ctx, 'database-pooling', f => 
+    index.contains(f, 'pool') || 
+    index.contains(f, 'connectionLimit') ||
+    index.contains(f, '?pgbouncer=true')
   )
+  const hasPooling = poolingEvidence.length > 0
   
   if (hasPooling) {
     detected.push('Connection pooling configured')
     score += 15
   }
+  checks.push(check('database-pooling', 'Connection pooling', 15, hasPooling ? 15 : 0, poolingEvidence))
 
   // 5. Check for backup strategy (10 points)
   // Managed databases have automatic backups
   const managedDbs = ['supabase', 'planetscale', 'neon', 'firebase']
-  const isManaged = managedDbs.includes(techStack.database || '') ||
+  const managedEvidence = [
+    ...managedDbs.filter(db => db === techStack.database),
     // Also check for Neon/Supabase in connection strings
-    files.some(f => 
+    ...fileEvidence(ctx, 'database-backups', f => 
       (f.path.includes('.env') || f.path.includes('database')) && 
-      (f.content.includes('neon.tech') || f.content.includes('supabase') || 
-       f.content.includes('planetscale') || f.content.includes('aws.neon'))
-    )
+      (index.contains(f, 'neon.tech') || index.contains(f, 'supabase') || 
+       index.contains(f, 'planetscale') || index.contains(f, 'aws.neon'))
+    ),
+  ]
+  const isManaged = managedEvidence.length > 0
   
   if (isManaged) {
     detected.push('Managed database with automatic backups')
     score += 10
+    checks.push(check('database-backups', 'Backup strategy', 10, 10, managedEvidence))
   } else if (techStack.database) {
     gaps.push({
       id: 'database-no-backups',
+      check: 'database-backups',
       category: 'database',
       title: 'No backup strategy detected',
       description: 'Ensure database backups are configured for disaster recovery',
@@ -132,15 +149,19 @@ export function analyzeDatabase(ctx: RepoContext): CategoryScore {
       fixType: 'guided',
       effortMinutes: 30,
     })
+    checks.push(check('database-backups', 'Backup strategy', 10, 0))
   } else {
     score += 10 // No database, not applicable
+    checks.push(skipCheck('database-backups', 'Backup strategy', 10, 'No database'))
   }
 
   return {
     category: 'database',
     label: 'Database',
     score: Math.min(100, score),
+    applicable: true,
     detected,
+    checks,
     gaps,
     canGenerate: gaps.some(g => g.fixType === 'instant'),
   }
@@ -2,18 +2,17 @@
 // DEPLOYMENT ANALYZER
 // =============================================================================
 
-import { CategoryScore, Gap, RepoContext } from '../types'
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../types'
+import { check, depEvidence, fileEvidence, skipCheck } from '../checks'
 
 export function analyzeDeployment(ctx: RepoContext): CategoryScore {
   const gaps: Gap[] = []
   const detected: string[] = []
+  const checks: CheckResult[] = []
   let score = 0
   
-  const { files, techStack, packageJson } = ctx
-  const deps = packageJson ? { 
-    ...((packageJson.dependencies as Record<string, string>) || {}),
-    ...((packageJson.devDependencies as Record<string, string>) || {})
-  } : {}
+  const { techStack, index } = ctx
+  const { deps } = index
 
   // 1. Check for CI/CD (25 points)
   if (techStack.ciProvider) {
@@ -22,6 +21,7 @@ export function analyzeDeployment(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'deploy-no-ci',
+      check: 'deploy-ci',
       category: 'deployment',
       title: 'No CI/CD pipeline',
       description: 'Add GitHub Actions for automated testing and deployment',
@@ -32,6 +32,8 @@ export function analyzeDeployment(ctx: RepoContext): CategoryScore {
       effortMinutes: 20,
     })
   }
+  checks.push(check('deploy-ci', 'CI/CD pipeline', 25, techStack.ciProvider ? 25 : 0,
+    techStack.ciProvider ? [techStack.ciProvider] : []))
 
   // 2. Check for deployment platform (20 points)
   if (techStack.deploymentPlatform) {
@@ -40,6 +42,7 @@ export function analyzeDeployment(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'deploy-no-platform',
+      check: 'deploy-platform',
       category: 'deployment',
       title: 'No deployment platform detected',
       description: 'Configure deployment to Vercel, Railway, or similar',
@@ -49,13 +52,19 @@ export function analyzeDeployment(ctx: RepoContext): CategoryScore {
       effortMinutes: 30,
     })
   }
+  checks.push(check('deploy-platform', 'Deployment platform', 20, techStack.deploymentPlatform ? 20 : 0,
+    techStack.deploymentPlatform ? [techStack.deploymentPlatform] : []))
 
   // 3. Check for environment validation (15 points)
-  const hasEnvValidation = files.some(f => 
-    f.content.includes('env.mjs') || 
-    f.content.includes('createEnv') ||
-    f.content.includes('z.object') && f.content.includes('process.env')
-  ) || deps['@t3-oss/env-nextjs']
+  const envValidationEvidence = [
+    ...fileEvidence(ctx, 'deploy-env-validation', f => 
+      index.contains(f, 'env.mjs') || 
+      index.contains(f, 'createEnv') ||
+      index.contains(f, 'z.object') && index.contains(f, 'process.env')
+    ),
+    ...depEvidence(deps, ['@t3-oss/env-nextjs']),
+  ]
+  const hasEnvValidation = envValidationEvidence.length > 0
   
   if (hasEnvValidation) {
     detected.push('Environment validation configured')
@@ -63,6 +72,7 @@ export function analyzeDeployment(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'deploy-no-env-validation',
+      check: 'deploy-env-validation',
       category: 'deployment',
       title: 'No environment validation',
       description: 'Add runtime env validation to catch missing variables',
@@ -73,16 +83,20 @@ export function analyzeDeployment(ctx: RepoContext): CategoryScore {
       effortMinutes: 15,
     })
   }
+  checks.push(check('deploy-env-validation', 'Environment validation', 15, hasEnvValidation ? 15 : 0, envValidationEvidence))
 
   // 4. Check for Dockerfile (15 points) - for non-serverless
-  const hasDocker = files.some(f => f.path === 'Dockerfile' || f.path === 'docker-compose.yml')
+  const dockerEvidence = fileEvidence(ctx, 'deploy-docker', f => f.path === 'Dockerfile' || f.path === 'docker-compose.yml')
+  const hasDocker = dockerEvidence.length > 0
   
   if (hasDocker) {
     detected.push('Docker configuration present')
     score += 15
+    checks.push(check('deploy-docker', 'Docker configuration', 15, 15, dockerEvidence))
   } else if (!techStack.deploymentPlatform || !['vercel', 'netlify'].includes(techStack.deploymentPlatform)) {
     gaps.push({
       id: 'deploy-no-docker',
+      check: 'deploy-docker',
       category: 'deployment',
       title: 'No Docker configuration',
       description: 'Add Dockerfile for containerized deployments',
@@ -92,12 +106,14 @@ export function analyzeDeployment(ctx: RepoContext): CategoryScore {
       fixTemplate: 'dockerfile',
       effortMinutes: 15,
     })
+    checks.push(check('deploy-docker', 'Docker configuration', 15, 0))
   } else {
     score += 15 // Serverless doesn't need Docker
+    checks.push(skipCheck('deploy-docker', 'Docker configuration', 15, `Serverless platform: ${techStack.deploymentPlatform}`))
   }
 
   // 5. Check for production build script (10 points)
-  const scripts = packageJson?.scripts as Record<string, string> || {}
+  const { scripts } = index
   const hasBuildScript = scripts['build'] !== undefined
   
   if (hasBuildScript) {
@@ -106,6 +122,7 @@ export function analyzeDeployment(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'deploy-no-build',
+      check: 'deploy-build-script',
       category: 'deployment',
       title: 'No build script',
       description: 'Add build script in package.json',
@@ -116,32 +133,42 @@ export function analyzeDeployment(ctx: RepoContext): CategoryScore {
       effortMinutes: 5,
     })
   }
+  checks.push(check('deploy-build-script', 'Build script', 10, hasBuildScript ? 10 : 0,
+    hasBuildScript ? [`scripts.build: ${scripts['build']}`] : []))
 
   // 6. Check for preview deployments (10 points)
-  const hasPreview = files.some(f => 
-    f.content.includes('preview') && f.content.includes('deploy') ||
-    f.content.includes('pull_request') && f.path.includes('.github/workflows')
-  )
+  const previewEvidence = [
+    ...fileEvidence(ctx, 'deploy-preview', f => 
+      index.contains(f, 'preview') && index.contains(f, 'deploy') ||
+      index.contains(f, 'pull_request') && f.path.includes('.github/workflows')
+    ),
+    ...(techStack.deploymentPlatform === 'vercel' ? ['Vercel preview deployments'] : []),
+  ]
+  const hasPreview = previewEvidence.length > 0
   
-  if (hasPreview || techStack.deploymentPlatform === 'vercel') {
+  if (hasPreview) {
     detected.push('Preview deployments configured')
     score += 10
   }
+  checks.push(check('deploy-preview', 'Preview deployments', 10, hasPreview ? 10 : 0, previewEvidence))
 
   // 7. Check for monitoring/observability (5 points)
-  const hasMonitoring = deps['@vercel/analytics'] || deps['@sentry/nextjs'] || 
-                        deps['newrelic'] || deps['dd-trace']
+  const monitoringEvidence = depEvidence(deps, ['@vercel/analytics', '@sentry/nextjs', 'newrelic', 'dd-trace'])
+  const hasMonitoring = monitoringEvidence.length > 0
   
   if (hasMonitoring) {
     detected.push('Production monitoring configured')
     score += 5
   }
+  checks.push(check('deploy-monitoring', 'Production monitoring', 5, hasMonitoring ? 5 : 0, monitoringEvidence))
 
   return {
     category: 'deployment',
     label: 'Deployment',
     score: Math.min(100, score),
+    applicable: true,
     detected,
+    checks,
     gaps,
     canGenerate: gaps.some(g => g.fixType === 'instant'),
   }
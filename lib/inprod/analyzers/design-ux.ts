@@ -2,65 +2,126 @@
 // DESIGN/UX ANALYZER
 // =============================================================================
 
-import { CategoryScore, Gap, RepoContext } from '../types'
+import { CategoryScore, CheckResult, Gap, RepoContext, SourceLocation } from '../types'
+import { check, depEvidence, fileEvidence, skipCheck } from '../checks'
+import { cached } from '../cache'
+import { locate, withLocations } from '../locations'
+import { A11yRule, a11yViolations } from '../accessibility'
+
+type A11yGapRule = A11yRule | 'reduced-motion'
+
+const A11Y_GAPS: Record<A11yGapRule, Pick<Gap, 'title' | 'description' | 'severity'> & { minutesEach: number }> = {
+  'img-alt': {
+    title: 'Images without alt text',
+    description: 'Screen readers announce these as "image" or read the file name. Describe the image in alt, or use alt="" if it is decorative.',
+    severity: 'warning',
+    minutesEach: 2,
+  },
+  'clickable-element': {
+    title: 'Clickable elements keyboard users can\'t reach',
+    description: 'A div or span with onClick has no role and can\'t be focused or triggered from the keyboard. Use a <button>, or add role, tabIndex={0} and an onKeyDown handler.',
+    severity: 'warning',
+    minutesEach: 10,
+  },
+  'input-label': {
+    title: 'Form fields without labels',
+    description: 'Screen readers can\'t tell users what to enter. Wrap the field in a <label>, point a label\'s htmlFor at its id, or set aria-label.',
+    severity: 'warning',
+    minutesEach: 5,
+  },
+  'html-lang': {
+    title: '<html> without lang',
+    description: 'Without a lang attribute screen readers guess the pronunciation. Set lang="en" (or your language) on <html>.',
+    severity: 'warning',
+    minutesEach: 2,
+  },
+  'positive-tabindex': {
+    title: 'Positive tabIndex',
+    description: 'tabIndex above 0 pulls elements ahead of the page\'s natural tab order. Use 0 and order the markup instead.',
+    severity: 'info',
+    minutesEach: 5,
+  },
+  'reduced-motion': {
+    title: 'Animations ignore prefers-reduced-motion',
+    description: 'Motion can make users with vestibular disorders ill. Wrap animations in @media (prefers-reduced-motion: no-preference), use Tailwind\'s motion-safe: variant, or useReducedMotion.',
+    severity: 'info',
+    minutesEach: 15,
+  },
+}
+
+const ANIMATION = /@keyframes\b|\banimation\s*:|\banimate-[a-z]|from\s+['"]framer-motion['"]/
+const REDUCED_MOTION = /prefers-reduced-motion|motion-(safe|reduce):|useReducedMotion|reducedMotion/
+
+// Violations per component that halve the accessibility check's points; each
+// further step halves them again, so one slip doesn't cost as much as hundreds
+const VIOLATION_HALF_LIFE = 2
 
 export function analyzeDesignUx(ctx: RepoContext): CategoryScore {
   const gaps: Gap[] = []
   const detected: string[] = []
+  const checks: CheckResult[] = []
   let score = 0
   
-  const { files, techStack, packageJson } = ctx
-  const deps = packageJson ? { 
-    ...((packageJson.dependencies as Record<string, string>) || {}),
-    ...((packageJson.devDependencies as Record<string, string>) || {})
-  } : {}
+  const { techStack, index } = ctx
+  const { deps } = index
   
   // Only relevant for frontend/mobile
-  const hasUI = techStack.platform === 'web' || techStack.platform === 'ios' || techStack.platform === 'android'
+  const hasUI = ['web', 'ios', 'android', 'react-native', 'flutter'].includes(techStack.platform)
   
   if (!hasUI) {
     return {
       category: 'designUx',
       label: 'Design/UX',
       score: 100, // N/A
+      applicable: false,
       detected: ['No UI detected'],
+      checks: [],
       gaps: [],
       canGenerate: false,
     }
   }
 
-  // 1. Check for UI component library (20 points)
-  const hasUILib = deps['@radix-ui/react-dialog'] || deps['@headlessui/react'] || 
-                   deps['@chakra-ui/react'] || deps['@mui/material'] || 
-                   deps['antd'] || deps['@mantine/core']
+  // 1. Check for UI component library (15 points)
+  const uiLibEvidence = depEvidence(deps, [
+    '@radix-ui/react-dialog', '@headlessui/react', '@chakra-ui/react',
+    '@mui/material', 'antd', '@mantine/core',
+  ])
+  const hasUILib = uiLibEvidence.length > 0
   
   if (hasUILib) {
     detected.push('UI component library')
-    score += 20
+    score += 15
   }
+  checks.push(check('ux-ui-library', 'UI component library', 15, hasUILib ? 15 : 0, uiLibEvidence))
 
-  // 2. Check for design system / consistent styling (20 points)
+  // 2. Check for design system / consistent styling (15 points)
   if (deps['tailwindcss']) {
     detected.push('Tailwind CSS for consistent styling')
-    score += 20
+    score += 15
+    checks.push(check('ux-styling', 'Consistent styling', 15, 15, depEvidence(deps, ['tailwindcss'])))
   } else if (deps['styled-components'] || deps['@emotion/react']) {
     detected.push('CSS-in-JS for scoped styling')
-    score += 15
+    score += 10
+    checks.push(check('ux-styling', 'Consistent styling', 15, 10, depEvidence(deps, ['styled-components', '@emotion/react'])))
+  } else {
+    checks.push(check('ux-styling', 'Consistent styling', 15, 0))
   }
 
-  // 3. Check for loading skeletons (15 points)
-  const hasSkeletons = files.some(f => 
-    f.content.includes('Skeleton') || 
-    f.content.includes('skeleton') ||
-    f.content.includes('Placeholder')
+  // 3. Check for loading skeletons (10 points)
+  const skeletonEvidence = fileEvidence(ctx, 'ux-skeletons', f => 
+    index.contains(f, 'Skeleton') || 
+    index.contains(f, 'skeleton') ||
+    index.contains(f, 'Placeholder')
   )
+  const hasSkeletons = skeletonEvidence.length > 0
   
   if (hasSkeletons) {
     detected.push('Loading skeletons')
-    score += 15
+    score += 10
   } else {
     gaps.push({
       id: 'ux-no-skeletons',
+      check: 'ux-skeletons',
       category: 'designUx',
       title: 'No loading skeletons detected',
       description: 'Add skeleton loaders for better perceived performance',
@@ -70,20 +131,23 @@ export function analyzeDesignUx(ctx: RepoContext): CategoryScore {
       effortMinutes: 30,
     })
   }
+  checks.push(check('ux-skeletons', 'Loading skeletons', 10, hasSkeletons ? 10 : 0, skeletonEvidence))
 
-  // 4. Check for empty states (15 points)
-  const hasEmptyStates = files.some(f => 
-    f.content.includes('empty') || 
-    f.content.includes('NoData') ||
-    f.content.includes('EmptyState')
+  // 4. Check for empty states (10 points)
+  const emptyStateEvidence = fileEvidence(ctx, 'ux-empty-states', f => 
+    index.contains(f, 'empty') || 
+    index.contains(f, 'NoData') ||
+    index.contains(f, 'EmptyState')
   )
+  const hasEmptyStates = emptyStateEvidence.length > 0
   
   if (hasEmptyStates) {
     detected.push('Empty state handling')
-    score += 15
+    score += 10
   } else {
     gaps.push({
       id: 'ux-no-empty-states',
+      check: 'ux-empty-states',
       category: 'designUx',
       title: 'No empty states detected',
       description: 'Add helpful empty state components for lists and data views',
@@ -93,33 +157,96 @@ export function analyzeDesignUx(ctx: RepoContext): CategoryScore {
       effortMinutes: 20,
     })
   }
+  checks.push(check('ux-empty-states', 'Empty states', 10, hasEmptyStates ? 10 : 0, emptyStateEvidence))
 
-  // 5. Check for toast/notification system (15 points)
-  const hasToasts = deps['sonner'] || deps['react-hot-toast'] || deps['react-toastify'] ||
-                    files.some(f => f.content.includes('toast') || f.content.includes('Toast'))
+  // 5. Check for toast/notification system (10 points)
+  const toastEvidence = [
+    ...depEvidence(deps, ['sonner', 'react-hot-toast', 'react-toastify']),
+    ...fileEvidence(ctx, 'ux-toasts', f => index.contains(f, 'toast') || index.contains(f, 'Toast')),
+  ]
+  const hasToasts = toastEvidence.length > 0
   
   if (hasToasts) {
     detected.push('Toast notifications')
-    score += 15
+    score += 10
   }
+  checks.push(check('ux-toasts', 'Toast notifications', 10, hasToasts ? 10 : 0, toastEvidence))
 
-  // 6. Check for dark mode support (15 points)
-  const hasDarkMode = files.some(f => 
-    f.content.includes('dark:') || 
-    f.content.includes('darkMode') ||
-    f.content.includes('theme')
+  // 6. Check for dark mode support (10 points)
+  const darkModeEvidence = fileEvidence(ctx, 'ux-dark-mode', f => 
+    index.contains(f, 'dark:') || 
+    index.contains(f, 'darkMode') ||
+    index.contains(f, 'theme')
   )
+  const hasDarkMode = darkModeEvidence.length > 0
   
   if (hasDarkMode) {
     detected.push('Dark mode support')
-    score += 15
+    score += 10
+  }
+  checks.push(check('ux-dark-mode', 'Dark mode support', 10, hasDarkMode ? 10 : 0, darkModeEvidence))
+
+  // 7. Check JSX against accessibility rules (30 points, decaying with violations per component)
+  const components = index.sourceFiles.filter(f => /\.(tsx|jsx)$/.test(f.path))
+  const violations = new Map<A11yGapRule, SourceLocation[]>()
+  const report = (rule: A11yGapRule, location: SourceLocation) => {
+    const locations = violations.get(rule) ?? []
+    locations.push(location)
+    violations.set(rule, locations)
+  }
+
+  for (const file of components) {
+    const found = cached(ctx, file, 'ux-a11y', () => {
+      const source = index.ast(file)
+      return source ? a11yViolations(source) : []
+    })
+    for (const { rule, location } of found) report(rule, location)
+  }
+
+  // Reduced motion is usually handled once, in global CSS or a provider
+  const animated = index.sourceFiles.concat(ctx.files.filter(f => /\.(css|scss|sass|less)$/.test(f.path)))
+    .filter(f => cached(ctx, f, 'ux-animation', () => ANIMATION.test(f.content)))
+  const respectsReducedMotion = fileEvidence(ctx, 'ux-reduced-motion', f => REDUCED_MOTION.test(f.content)).length > 0
+  if (animated.length > 0 && !respectsReducedMotion) {
+    for (const file of animated.slice(0, 5)) locate(file, ANIMATION, 1).forEach(l => report('reduced-motion', l))
+  }
+
+  if (components.length === 0 && animated.length === 0) {
+    score += 30
+    checks.push(skipCheck('ux-accessibility', 'Accessibility', 30, 'No JSX components'))
+  } else {
+    const total = [...violations.values()].reduce((sum, locations) => sum + locations.length, 0)
+    const density = total / Math.max(components.length, 1)
+    const a11yPoints = Math.round(30 * 0.5 ** (density / VIOLATION_HALF_LIFE))
+
+    score += a11yPoints
+    if (total === 0) detected.push('No accessibility violations in JSX')
+    for (const [rule, { minutesEach, ...gap }] of Object.entries(A11Y_GAPS) as [A11yGapRule, typeof A11Y_GAPS[A11yGapRule]][]) {
+      const locations = violations.get(rule)
+      if (!locations) continue
+      gaps.push(withLocations({
+        id: `ux-a11y-${rule}`,
+        check: 'ux-accessibility',
+        category: 'designUx',
+        ...gap,
+        confidence: rule === 'reduced-motion' ? 'likely' : 'verified',
+        fixType: 'suggested',
+        effortMinutes: minutesEach * Math.min(locations.length, 12),
+      }, locations))
+    }
+    checks.push(check('ux-accessibility', 'Accessibility', 30, a11yPoints, [
+      `${total} violations in ${components.length} components`,
+      ...[...violations.values()].flat().slice(0, 4).map(l => `${l.file}:${l.line}`),
+    ]))
   }
 
   return {
     category: 'designUx',
     label: 'Design/UX',
     score: Math.min(100, score),
+    applicable: true,
     detected,
+    checks,
     gaps,
     canGenerate: gaps.some(g => g.fixType === 'instant'),
   }
@@ -0,0 +1,276 @@
+// =============================================================================
+// DOCUMENTATION ANALYZER
+// README quality, API reference, JSDoc coverage, and the docs a team needs
+// to change and operate the code (ADRs, CONTRIBUTING, runbooks)
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext, RepoFile, SourceLocation } from '../types'
+import { check, depEvidence, fileEvidence, skipCheck } from '../checks'
+import { cached } from '../cache'
+import { redactSnippet, withLocations } from '../locations'
+import { exportedFunctions } from '../ast'
+
+// Matched against README headings
+const README_SECTIONS: { name: string; pattern: RegExp }[] = [
+  { name: 'setup', pattern: /install|set ?up|getting started|quick ?start|prerequisites/i },
+  { name: 'environment variables', pattern: /environment|env(ironment)? var|configuration|\.env/i },
+  { name: 'scripts', pattern: /scripts|usage|development|commands|running/i },
+  { name: 'deployment', pattern: /deploy|production|hosting|release/i },
+]
+
+// `npm run build`, `pnpm build`, `yarn run lint`, `bun run dev`
+const SCRIPT_COMMAND = /\b(?:npm run|pnpm(?: run)?|yarn(?: run)?|bun run)\s+([a-z][\w:.-]*)/gi
+// Package manager commands that aren't package.json scripts
+const BUILTIN_COMMANDS = new Set([
+  'install', 'i', 'add', 'remove', 'rm', 'uninstall', 'ci', 'dlx', 'exec', 'create', 'init', 'global', 'up',
+  'upgrade', 'update', 'why', 'link', 'unlink', 'outdated', 'audit', 'publish', 'version', 'config', 'cache',
+  'info', 'list', 'ls', 'store', 'patch', 'import', 'dedupe', 'set', 'workspace', 'workspaces', 'run', 'login',
+])
+
+const API_DOC_PACKAGES = [
+  'swagger-ui-express', 'swagger-jsdoc', '@nestjs/swagger', '@fastify/swagger', 'next-swagger-doc',
+  '@asteasolutions/zod-to-openapi', 'tsoa', '@hono/zod-openapi', 'typedoc',
+]
+
+const ADR = /(^|\/)(adrs?|decisions|architecture-decisions)\/[^/]+\.md$/i
+const RUNBOOK = /(^|\/)(runbooks?|playbooks?)(\/|\.md$)|(^|\/)docs\/[^/]*(incident|on-?call|operations)[^/]*\.md$/i
+
+// Share of exported functions with JSDoc below which coverage is a gap
+const MIN_JSDOC_COVERAGE = 0.5
+
+export function analyzeDocumentation(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+  const { deps } = index
+  const readme = ctx.files.find(f => f.path.toLowerCase() === 'readme.md')
+
+  // 1. Check the README covers setup, env vars, scripts and deployment (24 points)
+  if (!readme) {
+    // vc-no-readme already asks for one
+    checks.push(check('docs-readme-sections', 'README sections', 24, 0, ['No README.md']))
+  } else {
+    const headings = readme.content.split('\n').filter(line => /^#{1,6}\s/.test(line))
+    const covered = README_SECTIONS.filter(s => headings.some(h => s.pattern.test(h)))
+    const missing = README_SECTIONS.filter(s => !covered.includes(s)).map(s => s.name)
+
+    score += covered.length * 6
+    if (missing.length === 0) {
+      detected.push('README covers setup, configuration, scripts and deployment')
+    } else {
+      gaps.push({
+        id: 'docs-readme-sections',
+        check: 'docs-readme-sections',
+        category: 'documentation',
+        title: 'README missing sections',
+        description: `Add ${missing.join(', ')} sections so a new contributor can get from clone to deploy without asking`,
+        severity: missing.length >= 3 ? 'warning' : 'info',
+        confidence: 'likely',
+        file: readme.path,
+        fixType: 'suggested',
+        effortMinutes: 10 * missing.length,
+      })
+    }
+    checks.push(check('docs-readme-sections', 'README sections', 24, covered.length * 6,
+      covered.map(s => `## ${s.name}`)))
+  }
+
+  // 2. Check README commands refer to scripts that exist (10 points)
+  const scripts = ctx.packageJson?.scripts as Record<string, string> | undefined
+  if (!readme || !ctx.packageJson) {
+    score += 10
+    checks.push(skipCheck('docs-readme-scripts', 'README scripts exist', 10, !readme ? 'No README.md' : 'No package.json'))
+  } else {
+    const stale = readmeCommands(readme).filter(c => !scripts?.[c.script])
+
+    if (stale.length === 0) {
+      score += 10
+    } else {
+      const names = [...new Set(stale.map(c => c.script))]
+      gaps.push(withLocations({
+        id: 'docs-readme-missing-scripts',
+        check: 'docs-readme-scripts',
+        category: 'documentation',
+        title: 'README refers to scripts that don\'t exist',
+        description: `package.json has no ${names.join(', ')} script. Update the README or add the script${names.length > 1 ? 's' : ''}.`,
+        severity: 'warning',
+        confidence: 'verified',
+        fixType: 'suggested',
+        effortMinutes: 5 * Math.min(names.length, 6),
+      }, stale.map(c => c.location)))
+    }
+    checks.push(check('docs-readme-scripts', 'README scripts exist', 10, stale.length === 0 ? 10 : 0,
+      stale.slice(0, 5).map(c => `${c.location.file}:${c.location.line} ${c.script}`)))
+  }
+
+  // 3. Check for API reference docs (16 points)
+  const isLibrary = techStack.platform === 'library'
+  if (index.routes.length === 0 && !isLibrary) {
+    score += 16
+    checks.push(skipCheck('docs-api', 'API documentation', 16, 'No API routes'))
+  } else {
+    const apiDocEvidence = [
+      ...depEvidence(deps, API_DOC_PACKAGES),
+      ...fileEvidence(ctx, 'docs-api', f => /(^|\/)(openapi|swagger)\.(json|ya?ml)$|(^|\/)typedoc\.json$/i.test(f.path)),
+    ]
+    const hasApiDocs = apiDocEvidence.length > 0
+
+    if (hasApiDocs) {
+      detected.push('API reference documentation')
+      score += 16
+    } else {
+      gaps.push({
+        id: 'docs-no-api-docs',
+        check: 'docs-api',
+        category: 'documentation',
+        title: 'No API reference',
+        description: isLibrary
+          ? 'Generate an API reference from your types and comments with TypeDoc'
+          : 'Describe your endpoints with an OpenAPI spec (zod-to-openapi or swagger-jsdoc can generate it) so clients don\'t have to read the handlers',
+        severity: 'info',
+        confidence: 'high',
+        fixType: 'guided',
+        effortMinutes: 120,
+      })
+    }
+    checks.push(check('docs-api', 'API documentation', 16, hasApiDocs ? 16 : 0, apiDocEvidence))
+  }
+
+  // 4. Check exported functions carry JSDoc (20 points, scaled by coverage)
+  const exported = index.sourceFiles
+    .filter(f => /\.(ts|js|mjs|cjs)$/.test(f.path) && !f.path.endsWith('.d.ts'))
+    .flatMap(f => cached(ctx, f, 'docs-exported-functions', () => {
+      const source = index.ast(f)
+      return source ? exportedFunctions(source) : []
+    }))
+
+  if (exported.length === 0) {
+    score += 20
+    checks.push(skipCheck('docs-jsdoc', 'JSDoc coverage', 20, 'No exported JS/TS functions'))
+  } else {
+    const undocumented = exported.filter(f => !f.documented)
+    const coverage = 1 - undocumented.length / exported.length
+    const jsdocPoints = Math.round(20 * coverage)
+
+    score += jsdocPoints
+    if (coverage >= MIN_JSDOC_COVERAGE) {
+      detected.push(`JSDoc on ${Math.round(coverage * 100)}% of exported functions`)
+    } else {
+      gaps.push(withLocations({
+        id: 'docs-low-jsdoc-coverage',
+        check: 'docs-jsdoc',
+        category: 'documentation',
+        title: 'Most exported functions are undocumented',
+        description: `${undocumented.length} of ${exported.length} exported functions have no JSDoc. Say what each one is for and what its edge cases are; editors show it on hover.`,
+        severity: 'info',
+        confidence: 'verified',
+        fixType: 'suggested',
+        effortMinutes: 3 * Math.min(undocumented.length, 40),
+      }, undocumented.slice(0, 20).map(f => f.location)))
+    }
+    checks.push(check('docs-jsdoc', 'JSDoc coverage', 20, jsdocPoints,
+      [`${exported.length - undocumented.length}/${exported.length} documented`]))
+  }
+
+  // 5. Check for architecture decision records (10 points)
+  const adrEvidence = fileEvidence(ctx, 'docs-adr', f => ADR.test(f.path))
+  const hasAdrs = adrEvidence.length > 0
+
+  if (hasAdrs) {
+    detected.push('Architecture decision records')
+    score += 10
+  } else {
+    gaps.push({
+      id: 'docs-no-adrs',
+      check: 'docs-adr',
+      category: 'documentation',
+      title: 'No architecture decision records',
+      description: 'Record significant decisions and their trade-offs in docs/adr/ so later contributors know why the code is the way it is',
+      severity: 'info',
+      confidence: 'high',
+      fixType: 'guided',
+      effortMinutes: 30,
+    })
+  }
+  checks.push(check('docs-adr', 'Decision records', 10, hasAdrs ? 10 : 0, adrEvidence))
+
+  // 6. Check for a contributing guide (10 points)
+  const contributingEvidence = fileEvidence(ctx, 'docs-contributing', f => /(^|\/)contributing\.md$/i.test(f.path))
+  const hasContributing = contributingEvidence.length > 0
+
+  if (hasContributing) {
+    detected.push('Contributing guide')
+    score += 10
+  } else {
+    gaps.push({
+      id: 'docs-no-contributing',
+      check: 'docs-contributing',
+      category: 'documentation',
+      title: 'No CONTRIBUTING.md',
+      description: 'Explain how to set up a dev environment, run tests and get a change merged',
+      severity: 'info',
+      confidence: 'proven',
+      fixType: 'guided',
+      effortMinutes: 30,
+    })
+  }
+  checks.push(check('docs-contributing', 'Contributing guide', 10, hasContributing ? 10 : 0, contributingEvidence))
+
+  // 7. Check for operational runbooks (10 points)
+  if (!['web', 'backend', 'monorepo'].includes(techStack.platform)) {
+    score += 10
+    checks.push(skipCheck('docs-runbooks', 'Runbooks', 10, 'Not a deployed service'))
+  } else {
+    const runbookEvidence = fileEvidence(ctx, 'docs-runbooks', f => RUNBOOK.test(f.path))
+    const hasRunbooks = runbookEvidence.length > 0
+
+    if (hasRunbooks) {
+      detected.push('Operational runbooks')
+      score += 10
+    } else {
+      gaps.push({
+        id: 'docs-no-runbooks',
+        check: 'docs-runbooks',
+        category: 'documentation',
+        title: 'No runbooks',
+        description: 'Write down how to deploy, roll back, rotate secrets and handle common alerts, so whoever is on call isn\'t guessing',
+        severity: 'info',
+        confidence: 'likely',
+        fixType: 'guided',
+        effortMinutes: 60,
+      })
+    }
+    checks.push(check('docs-runbooks', 'Runbooks', 10, hasRunbooks ? 10 : 0, runbookEvidence))
+  }
+
+  return {
+    category: 'documentation',
+    label: 'Documentation',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
+
+/**
+ * package.json scripts the README tells readers to run
+ */
+function readmeCommands(readme: RepoFile): { script: string; location: SourceLocation }[] {
+  const commands: { script: string; location: SourceLocation }[] = []
+  readme.content.split('\n').forEach((line, i) => {
+    for (const match of line.matchAll(SCRIPT_COMMAND)) {
+      if (BUILTIN_COMMANDS.has(match[1])) continue
+      commands.push({
+        script: match[1],
+        location: { file: readme.path, line: i + 1, column: match.index + 1, snippet: redactSnippet(line) },
+      })
+    }
+  })
+  return commands
+}
@@ -2,23 +2,27 @@
 // ERROR HANDLING ANALYZER
 // =============================================================================
 
-import { CategoryScore, Gap, RepoContext } from '../types'
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../types'
+import { withLocations } from '../locations'
+import { check, depEvidence, fileEvidence, skipCheck } from '../checks'
+import { routeHandlers } from '../ast'
+import { cached } from '../cache'
 
 export function analyzeErrorHandling(ctx: RepoContext): CategoryScore {
   const gaps: Gap[] = []
   const detected: string[] = []
+  const checks: CheckResult[] = []
   let score = 0
   
-  const { files, packageJson } = ctx
-  const deps = packageJson ? { 
-    ...((packageJson.dependencies as Record<string, string>) || {}),
-    ...((packageJson.devDependencies as Record<string, string>) || {})
-  } : {}
+  const { index } = ctx
+  const { deps } = index
 
   // 1. Check for error monitoring service (20 points)
-  const hasErrorMonitoring = deps['@sentry/nextjs'] || deps['@sentry/node'] || 
-                             deps['sentry'] || deps['bugsnag'] || deps['rollbar'] ||
-                             files.some(f => f.content.includes('Sentry.'))
+  const monitoringEvidence = [
+    ...depEvidence(deps, ['@sentry/nextjs', '@sentry/node', 'sentry', 'bugsnag', 'rollbar']),
+    ...fileEvidence(ctx, 'error-monitoring', f => index.contains(f, 'Sentry.')),
+  ]
+  const hasErrorMonitoring = monitoringEvidence.length > 0
   
   if (hasErrorMonitoring) {
     detected.push('Error monitoring configured')
@@ -26,6 +30,7 @@ export function analyzeErrorHandling(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'error-no-monitoring',
+      check: 'error-monitoring',
       category: 'errorHandling',
       title: 'No error monitoring service',
       description: 'Add Sentry or similar for production error tracking',
@@ -36,15 +41,17 @@ export function analyzeErrorHandling(ctx: RepoContext): CategoryScore {
       effortMinutes: 20,
     })
   }
+  checks.push(check('error-monitoring', 'Error monitoring', 20, hasErrorMonitoring ? 20 : 0, monitoringEvidence))
 
   // 2. Check for global error handler (20 points)
-  const hasGlobalHandler = files.some(f => 
+  const globalHandlerEvidence = fileEvidence(ctx, 'error-global-handler', f => 
     f.path.includes('error.tsx') || 
     f.path.includes('_error.tsx') ||
-    f.content.includes('ErrorBoundary') ||
-    f.content.includes('window.onerror') ||
-    f.content.includes('process.on(\'uncaughtException')
+    index.contains(f, 'ErrorBoundary') ||
+    index.contains(f, 'window.onerror') ||
+    index.contains(f, 'process.on(\'uncaughtException')
   )
+  const hasGlobalHandler = globalHandlerEvidence.length > 0
   
   if (hasGlobalHandler) {
     detected.push('Global error handler present')
@@ -52,6 +59,7 @@ export function analyzeErrorHandling(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'error-no-global-handler',
+      check: 'error-global-handler',
       category: 'errorHandling',
       title: 'No global error handler',
       description: 'Add error boundary for React or global error handler',
@@ -62,37 +70,45 @@ export function analyzeErrorHandling(ctx: RepoContext): CategoryScore {
       effortMinutes: 15,
     })
   }
+  checks.push(check('error-global-handler', 'Global error handler', 20, hasGlobalHandler ? 20 : 0, globalHandlerEvidence))
 
-  // 3. Check for try-catch in API routes (20 points)
-  const apiRoutes = files.filter(f => f.path.includes('/api/') || f.path.includes('/routes/'))
-  let routesWithTryCatch = 0
-  
-  for (const route of apiRoutes) {
-    if (route.content.includes('try {') || route.content.includes('try{')) {
-      routesWithTryCatch++
-    }
-  }
+  // 3. Check each exported route handler is wrapped in try-catch (20 points)
+  const handlers = index.routes.flatMap(route =>
+    cached(ctx, route, 'error-route-handlers', () => {
+      const source = index.ast(route)
+      return source ? routeHandlers(source) : []
+    })
+  )
+  const unprotectedHandlers = handlers.filter(handler => !handler.guarded)
+  const routesWithTryCatch = handlers.length - unprotectedHandlers.length
   
-  if (apiRoutes.length > 0) {
-    const tryCatchRatio = routesWithTryCatch / apiRoutes.length
+  if (handlers.length > 0) {
+    const tryCatchRatio = routesWithTryCatch / handlers.length
+    const routePoints = tryCatchRatio >= 0.8 ? 20 : tryCatchRatio >= 0.5 ? 10 : 0
+    checks.push(check('error-route-try-catch', 'API routes wrapped in try-catch', 20, routePoints, [
+      `${routesWithTryCatch}/${handlers.length} route handlers`,
+      ...unprotectedHandlers.slice(0, 5).map(h => `unprotected: ${h.name} ${h.location.file}:${h.location.line}`),
+    ]))
     if (tryCatchRatio >= 0.8) {
       detected.push('API routes have try-catch blocks')
       score += 20
     } else if (tryCatchRatio >= 0.5) {
       score += 10
-      gaps.push({
+      gaps.push(withLocations({
         id: 'error-some-routes-unprotected',
+        check: 'error-route-try-catch',
         category: 'errorHandling',
         title: 'Some API routes lack error handling',
-        description: `${apiRoutes.length - routesWithTryCatch} routes missing try-catch`,
+        description: `${unprotectedHandlers.length} route handlers missing try-catch`,
         severity: 'warning',
         confidence: 'verified',
         fixType: 'suggested',
         effortMinutes: 20,
-      })
+      }, unprotectedHandlers.slice(0, 20).map(h => h.location)))
     } else {
-      gaps.push({
+      gaps.push(withLocations({
         id: 'error-routes-unprotected',
+        check: 'error-route-try-catch',
         category: 'errorHandling',
         title: 'API routes lack error handling',
         description: 'Add try-catch to API routes to prevent unhandled exceptions',
@@ -101,52 +117,62 @@ export function analyzeErrorHandling(ctx: RepoContext): CategoryScore {
         fixType: 'instant',
         fixTemplate: 'api-error-wrapper',
         effortMinutes: 30,
-      })
+      }, unprotectedHandlers.slice(0, 20).map(h => h.location)))
     }
   } else {
     score += 20 // N/A
+    checks.push(skipCheck('error-route-try-catch', 'API routes wrapped in try-catch', 20, 'No API route handlers found'))
   }
 
   // 4. Check for user-friendly error messages (15 points)
-  const hasErrorMessages = files.some(f => 
-    f.content.includes('error.message') || 
-    f.content.includes('Something went wrong') ||
-    f.content.includes('Please try again')
+  const messageEvidence = fileEvidence(ctx, 'error-user-messages', f => 
+    index.contains(f, 'error.message') || 
+    index.contains(f, 'Something went wrong') ||
+    index.contains(f, 'Please try again')
   )
+  const hasErrorMessages = messageEvidence.length > 0
   
   if (hasErrorMessages) {
     detected.push('User-friendly error messages')
     score += 15
   }
+  checks.push(check('error-user-messages', 'User-friendly error messages', 15, hasErrorMessages ? 15 : 0, messageEvidence))
 
   // 5. Check for async error handling (15 points)
-  const hasUnhandledRejection = files.some(f => 
-    f.content.includes('unhandledRejection') || 
-    f.content.includes('.catch(') ||
-    f.content.includes('try {') // Already counting await in try
+  const asyncEvidence = fileEvidence(ctx, 'error-async', f => 
+    index.contains(f, 'unhandledRejection') || 
+    index.contains(f, '.catch(') ||
+    index.contains(f, 'try {') // Already counting await in try
   )
+  const hasUnhandledRejection = asyncEvidence.length > 0
   
   if (hasUnhandledRejection) {
     detected.push('Async error handling present')
     score += 15
   }
+  checks.push(check('error-async', 'Async error handling', 15, hasUnhandledRejection ? 15 : 0, asyncEvidence))
 
   // 6. Check for structured logging (10 points)
-  const hasStructuredLogging = deps['pino'] || deps['winston'] || deps['bunyan'] ||
-                               files.some(f => f.content.includes('logger.error'))
+  const loggingEvidence = [
+    ...depEvidence(deps, ['pino', 'winston', 'bunyan']),
+    ...fileEvidence(ctx, 'error-logging', f => index.contains(f, 'logger.error')),
+  ]
+  const hasStructuredLogging = loggingEvidence.length > 0
   
   if (hasStructuredLogging) {
     detected.push('Structured error logging')
     score += 10
   }
+  checks.push(check('error-logging', 'Structured error logging', 10, hasStructuredLogging ? 10 : 0, loggingEvidence))
 
   return {
     category: 'errorHandling',
     label: 'Error Handling',
     score: Math.min(100, score),
+    applicable: true,
     detected,
+    checks,
     gaps,
     canGenerate: gaps.some(g => g.fixType === 'instant'),
   }
 }
-
@@ -0,0 +1,97 @@
+// =============================================================================
+// FLUTTER DEPLOYMENT ANALYZER
+// Release builds in CI, store submission, build numbers and Shorebird patches
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check } from '../../checks'
+import { releaseScripts } from './project'
+
+const RELEASE_BUILD = /flutter build (appbundle|apk|ipa|ios)|shorebird release/
+const SUBMIT = /^\s*(upload_to_testflight|pilot|upload_to_app_store|deliver|upload_to_play_store|supply)\b|upload-google-play|altool --upload|^\s*(google_play|app_store_connect):/m
+const BUILD_NUMBER = /--build-number|^\s*(increment_build_number|increment_version_code)\b/m
+
+export function analyzeFlutterDeployment(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+  const scripts = releaseScripts(ctx)
+  const evidence = (pattern: RegExp) => scripts.filter(f => pattern.test(f.content)).map(f => f.path)
+
+  // 1. Check release builds are automated (35 points)
+  const buildEvidence = evidence(RELEASE_BUILD)
+  const hasBuilds = buildEvidence.length > 0
+
+  if (hasBuilds) {
+    detected.push(index.byPath.has('codemagic.yaml') ? 'Codemagic release builds' : 'Release builds in CI')
+    score += 35
+  } else {
+    gaps.push({
+      id: 'deploy-flutter-no-build-automation',
+      check: 'deploy-flutter-builds',
+      category: 'deployment',
+      title: 'No release build automation',
+      description: 'Build the app bundle and IPA in CI (GitHub Actions, Codemagic or fastlane) instead of on a laptop',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'guided',
+      effortMinutes: 60,
+    })
+  }
+  checks.push(check('deploy-flutter-builds', 'Release builds', 35, hasBuilds ? 35 : 0, buildEvidence))
+
+  // 2. Check store submission is automated (30 points)
+  const submitEvidence = evidence(SUBMIT)
+  const hasSubmit = submitEvidence.length > 0
+
+  if (hasSubmit) {
+    detected.push('Store submission automated')
+    score += 30
+  }
+  checks.push(check('deploy-flutter-submit', 'Store submission', 30, hasSubmit ? 30 : 0, submitEvidence))
+
+  // 3. Check build numbers are set per release (20 points)
+  // The stores reject an upload that reuses a build number
+  const versionEvidence = evidence(BUILD_NUMBER)
+  const managesVersions = versionEvidence.length > 0
+
+  if (managesVersions) {
+    score += 20
+  }
+  checks.push(check('deploy-flutter-build-numbers', 'Build numbers', 20, managesVersions ? 20 : 0, versionEvidence))
+
+  // 4. Check for Shorebird code push (15 points)
+  const shorebird = index.byPath.get('shorebird.yaml')
+
+  if (shorebird) {
+    detected.push('Shorebird code push')
+    score += 15
+  } else {
+    gaps.push({
+      id: 'deploy-flutter-no-ota',
+      check: 'deploy-flutter-ota',
+      category: 'deployment',
+      title: 'No over-the-air patches',
+      description: 'Set up Shorebird so Dart fixes can ship without waiting on store review',
+      severity: 'info',
+      confidence: 'high',
+      fixType: 'guided',
+      effortMinutes: 45,
+    })
+  }
+  checks.push(check('deploy-flutter-ota', 'Shorebird', 15, shorebird ? 15 : 0, shorebird ? [shorebird.path] : []))
+
+  return {
+    category: 'deployment',
+    label: 'Deployment',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
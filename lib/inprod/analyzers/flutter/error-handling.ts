@@ -0,0 +1,121 @@
+// =============================================================================
+// FLUTTER ERROR HANDLING ANALYZER
+// Crash reporting, framework and async error hooks, and debug symbols
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, depEvidence, skipCheck } from '../../checks'
+import { dartFiles, isFlutterTest, releaseScripts } from './project'
+
+const CRASH_REPORTERS = ['sentry_flutter', 'firebase_crashlytics', 'bugsnag_flutter', 'datadog_flutter_plugin', 'instabug_flutter']
+
+export function analyzeFlutterErrorHandling(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+  const deps = index.manifests.dart
+  const sources = dartFiles(ctx).filter(f => !isFlutterTest(f.path))
+  const uses = (term: string) => sources.filter(f => index.contains(f, term)).map(f => f.path)
+
+  // 1. Check for crash reporting (45 points)
+  const reporterEvidence = depEvidence(deps, CRASH_REPORTERS)
+  const hasReporter = reporterEvidence.length > 0
+
+  if (hasReporter) {
+    detected.push(`Crash reporting: ${reporterEvidence.map(e => e.replace('package: ', '')).join(', ')}`)
+    score += 45
+  } else {
+    gaps.push({
+      id: 'error-no-monitoring',
+      check: 'error-monitoring',
+      category: 'errorHandling',
+      title: 'No crash reporting',
+      description: 'Add sentry_flutter or firebase_crashlytics so errors and crashes from user devices reach you',
+      severity: 'critical',
+      confidence: 'proven',
+      fixType: 'guided',
+      effortMinutes: 30,
+    })
+  }
+  checks.push(check('error-monitoring', 'Crash reporting', 45, hasReporter ? 45 : 0, reporterEvidence))
+
+  // 2. Check framework and async errors are both caught (35 points)
+  // FlutterError.onError only sees errors inside the framework; errors in
+  // futures and isolates surface through PlatformDispatcher or a guarded zone.
+  // SentryFlutter.init installs both.
+  const sentryInit = uses('SentryFlutter.init')
+  const frameworkHook = [...uses('FlutterError.onError'), ...sentryInit]
+  const asyncHook = [...uses('PlatformDispatcher.instance.onError'), ...uses('runZonedGuarded'), ...sentryInit]
+  const hookPoints = (frameworkHook.length > 0 ? 20 : 0) + (asyncHook.length > 0 ? 15 : 0)
+
+  score += hookPoints
+  if (hookPoints === 35) {
+    detected.push('Framework and async errors captured')
+  } else {
+    gaps.push({
+      id: 'error-no-global-handler',
+      check: 'error-global-handler',
+      category: 'errorHandling',
+      title: frameworkHook.length > 0 ? 'Async errors not captured' : 'No global error handler',
+      description: frameworkHook.length > 0
+        ? 'Set PlatformDispatcher.instance.onError so errors thrown in futures are reported too'
+        : 'Set FlutterError.onError and PlatformDispatcher.instance.onError in main() and forward both to the crash reporter',
+      severity: 'warning',
+      confidence: 'high',
+      ...(frameworkHook[0] && { file: frameworkHook[0] }),
+      fixType: 'suggested',
+      effortMinutes: 15,
+    })
+  }
+  checks.push(check('error-global-handler', 'Global error handlers', 35, hookPoints, [...new Set([...frameworkHook, ...asyncHook])]))
+
+  // 3. Check debug symbols are uploaded for obfuscated builds (20 points)
+  // Without them, stack traces from --obfuscate builds are unreadable
+  const splitsSymbols = releaseScripts(ctx).some(f => index.contains(f, '--split-debug-info'))
+
+  if (!splitsSymbols || !hasReporter) {
+    score += 20
+    checks.push(skipCheck('error-flutter-symbols', 'Debug symbols', 20,
+      !splitsSymbols ? 'Builds are not obfuscated' : 'No crash reporter'))
+  } else {
+    const symbolEvidence = [
+      ...depEvidence(deps, ['sentry_dart_plugin']),
+      ...releaseScripts(ctx)
+        .filter(f => index.contains(f, 'crashlytics:symbols:upload') || index.contains(f, 'sentry_dart_plugin'))
+        .map(f => f.path),
+    ]
+    const uploadsSymbols = symbolEvidence.length > 0
+
+    if (uploadsSymbols) {
+      detected.push('Debug symbols uploaded')
+      score += 20
+    } else {
+      gaps.push({
+        id: 'error-flutter-no-symbols',
+        check: 'error-flutter-symbols',
+        category: 'errorHandling',
+        title: 'Debug symbols not uploaded',
+        description: 'Upload the --split-debug-info output (sentry_dart_plugin or firebase crashlytics:symbols:upload) so obfuscated stack traces can be read',
+        severity: 'warning',
+        confidence: 'likely',
+        fixType: 'suggested',
+        effortMinutes: 20,
+      })
+    }
+    checks.push(check('error-flutter-symbols', 'Debug symbols', 20, uploadsSymbols ? 20 : 0, symbolEvidence))
+  }
+
+  return {
+    category: 'errorHandling',
+    label: 'Error Handling',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
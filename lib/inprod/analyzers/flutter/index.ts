@@ -0,0 +1,27 @@
+// =============================================================================
+// FLUTTER ANALYZERS - Index
+// Flutter apps. Categories without a Flutter-specific check keep the default
+// analyzers.
+// =============================================================================
+
+import { Analyzer } from '../../types'
+import { analyzeFlutterSecurity } from './security'
+import { analyzeFlutterTesting } from './testing'
+import { analyzeFlutterErrorHandling } from './error-handling'
+import { analyzeFlutterDeployment } from './deployment'
+
+export {
+  analyzeFlutterSecurity,
+  analyzeFlutterTesting,
+  analyzeFlutterErrorHandling,
+  analyzeFlutterDeployment,
+}
+
+const FLUTTER = { platforms: ['flutter' as const], languages: ['dart'] }
+
+export const FLUTTER_ANALYZERS: Analyzer[] = [
+  { id: 'flutter-testing', category: 'testing', ...FLUTTER, run: analyzeFlutterTesting },
+  { id: 'flutter-security', category: 'security', ...FLUTTER, run: analyzeFlutterSecurity },
+  { id: 'flutter-error-handling', category: 'errorHandling', ...FLUTTER, run: analyzeFlutterErrorHandling },
+  { id: 'flutter-deployment', category: 'deployment', ...FLUTTER, run: analyzeFlutterDeployment },
+]
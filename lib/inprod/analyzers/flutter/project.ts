@@ -0,0 +1,35 @@
+// =============================================================================
+// FLUTTER PROJECT HELPERS
+// Shared by the Flutter analyzers: which Dart files are app code and tests,
+// and where release builds are scripted
+// =============================================================================
+
+import { RepoContext, RepoFile } from '../../types'
+
+// Build output, tool caches and code generated by build_runner
+const IGNORED = /(^|\/)(build|\.dart_tool|\.pub-cache)\/|\.(g|freezed|gr|mocks)\.dart$/
+
+/**
+ * The project's .dart files, tests included
+ */
+export function dartFiles(ctx: RepoContext): RepoFile[] {
+  return (ctx.index.byExtension.get('.dart') || []).filter(f => !IGNORED.test(f.path))
+}
+
+/**
+ * Widget and unit tests under test/, device tests under integration_test/
+ */
+export function isFlutterTest(path: string): boolean {
+  return /(^|\/)(test|integration_test|test_driver)\//.test(path) || path.endsWith('_test.dart')
+}
+
+export function isCIConfig(path: string): boolean {
+  return path.startsWith('.github/workflows/') || path === '.gitlab-ci.yml' || path === 'bitrise.yml' || path === 'codemagic.yaml'
+}
+
+/**
+ * Files that script release builds: CI workflows and Fastfiles
+ */
+export function releaseScripts(ctx: RepoContext): RepoFile[] {
+  return ctx.files.filter(f => isCIConfig(f.path) || f.path.endsWith('fastlane/Fastfile'))
+}
@@ -0,0 +1,133 @@
+// =============================================================================
+// FLUTTER SECURITY ANALYZER
+// Token storage, obfuscated release builds and secrets shipped in the app
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext, SourceLocation } from '../../types'
+import { check, depEvidence } from '../../checks'
+import { cached } from '../../cache'
+import { findSecret, locate, withLocations } from '../../locations'
+import { dartFiles, isFlutterTest, releaseScripts } from './project'
+
+// Credentials written to SharedPreferences or an unencrypted Hive box
+const PLAIN_STORAGE_SECRET = /\.(setString|put)\(\s*['"][^'"]*(token|password|secret|api_?key|credential)/i
+const SECURE_STORAGE = ['flutter_secure_storage', 'biometric_storage']
+
+// A .env listed under flutter assets is bundled into the app as a plain file
+const ENV_ASSET = /^\s*-\s*['"]?\.env\b/m
+
+export function analyzeFlutterSecurity(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+  const deps = index.manifests.dart
+  const sources = dartFiles(ctx).filter(f => !isFlutterTest(f.path))
+  const pubspec = index.byPath.get('pubspec.yaml')
+
+  // 1. Check credentials are kept in the Keychain / Keystore (40 points)
+  const plainSecrets = sources.flatMap(f =>
+    cached(ctx, f, 'flutter-security-plain-storage', () => locate(f, PLAIN_STORAGE_SECRET))
+  )
+  const secureEvidence = depEvidence(deps, SECURE_STORAGE)
+
+  if (plainSecrets.length === 0) {
+    if (secureEvidence.length > 0) detected.push('Credentials in flutter_secure_storage')
+    score += 40
+  } else {
+    gaps.push(withLocations({
+      id: 'security-flutter-insecure-token-storage',
+      check: 'security-flutter-storage',
+      category: 'security',
+      title: 'Credentials in SharedPreferences',
+      description: 'SharedPreferences is an unencrypted file in the app sandbox. Store tokens with flutter_secure_storage.',
+      severity: 'critical',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 30,
+    }, plainSecrets))
+  }
+  checks.push(check('security-flutter-storage', 'Secure token storage', 40, plainSecrets.length === 0 ? 40 : 0, [
+    ...secureEvidence,
+    ...plainSecrets.map(l => `${l.file}:${l.line}`),
+  ].slice(0, 5)))
+
+  // 2. Check release builds are obfuscated (20 points)
+  const buildScripts = releaseScripts(ctx).filter(f => /flutter build (appbundle|apk|ipa|ios)/.test(f.content))
+  const obfuscated = buildScripts.filter(f => index.contains(f, '--obfuscate') && index.contains(f, '--split-debug-info'))
+  const obfuscates = buildScripts.length > 0 && obfuscated.length === buildScripts.length
+
+  if (obfuscates) {
+    detected.push('Release builds obfuscated')
+    score += 20
+  } else if (buildScripts.length > 0) {
+    gaps.push(withLocations({
+      id: 'security-flutter-no-obfuscation',
+      check: 'security-flutter-obfuscation',
+      category: 'security',
+      title: 'Release builds not obfuscated',
+      description: 'Pass --obfuscate --split-debug-info to flutter build so class and method names are stripped from the binary',
+      severity: 'warning',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 10,
+    }, buildScripts.filter(f => !obfuscated.includes(f)).flatMap(f => locate(f, /flutter build/, 1))))
+  }
+  checks.push(check('security-flutter-obfuscation', 'Obfuscation', 20, obfuscates ? 20 : 0, obfuscated.map(f => f.path)))
+
+  // 3. Check for secrets in the app (40 points)
+  const secretLocations: SourceLocation[] = []
+  for (const file of sources) {
+    const location = cached(ctx, file, 'security-secrets', () => findSecret(file))
+    if (!location) continue
+    secretLocations.push(location)
+    gaps.push(withLocations({
+      id: `security-hardcoded-secret-${file.path}`,
+      check: 'security-secrets',
+      category: 'security',
+      title: 'Secret shipped in the app',
+      description: `Potential secret found in ${file.path}; strings can be extracted from any release build. Keep it on a server.`,
+      severity: 'blocker',
+      confidence: 'verified',
+      file: file.path,
+      fixType: 'suggested',
+      effortMinutes: 15,
+    }, [location]))
+  }
+
+  const envAsset = pubspec ? locate(pubspec, ENV_ASSET, 1) : []
+  if (envAsset.length > 0) {
+    secretLocations.push(...envAsset)
+    gaps.push(withLocations({
+      id: 'security-flutter-env-asset',
+      check: 'security-secrets',
+      category: 'security',
+      title: '.env bundled as an asset',
+      description: 'Everything in flutter assets ships inside the app. Keep secrets server-side and use --dart-define for public config.',
+      severity: 'critical',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 20,
+    }, envAsset))
+  }
+
+  if (secretLocations.length === 0) {
+    detected.push('No hardcoded secrets found')
+    score += 40
+  }
+  checks.push(check('security-secrets', 'No hardcoded secrets', 40, secretLocations.length > 0 ? 0 : 40,
+    secretLocations.map(l => `${l.file}:${l.line}`)))
+
+  return {
+    category: 'security',
+    label: 'Security',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -0,0 +1,110 @@
+// =============================================================================
+// FLUTTER TESTING ANALYZER
+// flutter_test widget tests, integration_test and CI
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, depEvidence, fileEvidence } from '../../checks'
+import { dartFiles, isCIConfig } from './project'
+
+export function analyzeFlutterTesting(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+  const deps = index.manifests.dart
+  const files = dartFiles(ctx)
+  const tests = files.filter(f => /(^|\/)test\//.test(f.path) && f.path.endsWith('_test.dart'))
+  const integrationTests = files.filter(f => /(^|\/)integration_test\//.test(f.path))
+
+  // 1. Check for widget and unit tests (35 points)
+  const widgetTests = tests.filter(f => index.contains(f, 'testWidgets('))
+
+  if (tests.length > 0) {
+    detected.push(`${tests.length} test files${widgetTests.length > 0 ? `, ${widgetTests.length} with widget tests` : ''}`)
+    score += 35
+  } else {
+    gaps.push({
+      id: 'testing-no-tests',
+      check: 'testing-files',
+      category: 'testing',
+      title: 'No test files found',
+      description: 'Add flutter_test unit and widget tests under test/ for state, repositories and key screens',
+      severity: 'critical',
+      confidence: 'proven',
+      fixType: 'guided',
+      effortMinutes: 60,
+    })
+  }
+  checks.push(check('testing-files', 'Test files', 35, tests.length > 0 ? 35 : 0, tests.slice(0, 5).map(f => f.path)))
+
+  // 2. Check for integration tests on a device (25 points)
+  const hasIntegrationTests = integrationTests.length > 0
+
+  if (hasIntegrationTests) {
+    detected.push('integration_test')
+    score += 25
+  } else {
+    gaps.push({
+      id: 'testing-no-e2e',
+      check: 'testing-flutter-integration',
+      category: 'testing',
+      title: 'No integration tests',
+      description: 'Add integration_test flows that launch the app and walk the critical paths on a simulator',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'guided',
+      effortMinutes: 90,
+    })
+  }
+  checks.push(check('testing-flutter-integration', 'integration_test', 25, hasIntegrationTests ? 25 : 0,
+    integrationTests.slice(0, 5).map(f => f.path)))
+
+  // 3. Check for a mocking library (10 points)
+  const mockEvidence = depEvidence(deps, ['mocktail', 'mockito'])
+  const hasMocks = mockEvidence.length > 0
+
+  if (hasMocks) {
+    score += 10
+  }
+  checks.push(check('testing-flutter-mocks', 'Mocking', 10, hasMocks ? 10 : 0, mockEvidence))
+
+  // 4. Check tests run in CI (30 points)
+  const ciTestEvidence = fileEvidence(ctx, 'flutter-testing-ci', f =>
+    isCIConfig(f.path) && /\bflutter test\b|\bvery_good test\b|\bmelos (run )?test\b/.test(f.content)
+  )
+  const hasTestInCI = ciTestEvidence.length > 0
+
+  if (hasTestInCI) {
+    detected.push('Tests run in CI')
+    score += 30
+  } else {
+    gaps.push({
+      id: 'testing-not-in-ci',
+      check: 'testing-ci',
+      category: 'testing',
+      title: 'Tests not running in CI',
+      description: techStack.ciProvider
+        ? 'Run flutter test in the CI workflow'
+        : 'Add a CI workflow that runs flutter test on every push',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    })
+  }
+  checks.push(check('testing-ci', 'Tests run in CI', 30, hasTestInCI ? 30 : 0, ciTestEvidence))
+
+  return {
+    category: 'testing',
+    label: 'Testing',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -2,18 +2,17 @@
 // FRONTEND ANALYZER
 // =============================================================================
 
-import { CategoryScore, Gap, RepoContext } from '../types'
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../types'
+import { check, depEvidence, fileEvidence } from '../checks'
 
 export function analyzeFrontend(ctx: RepoContext): CategoryScore {
   const gaps: Gap[] = []
   const detected: string[] = []
+  const checks: CheckResult[] = []
   let score = 0
   
-  const { files, techStack, packageJson } = ctx
-  const deps = packageJson ? { 
-    ...((packageJson.dependencies as Record<string, string>) || {}),
-    ...((packageJson.devDependencies as Record<string, string>) || {})
-  } : {}
+  const { techStack, index } = ctx
+  const { deps } = index
   
   // Check if this is a frontend project
   const hasFrontend = techStack.frameworks.some(f => 
@@ -25,25 +24,32 @@ export function analyzeFrontend(ctx: RepoContext): CategoryScore {
       category: 'frontend',
       label: 'Frontend',
       score: 100, // N/A
+      applicable: false,
       detected: ['No frontend detected'],
+      checks: [],
       gaps: [],
       canGenerate: false,
     }
   }
 
   // 1. Check for UI framework (20 points)
-  if (techStack.frameworks.includes('react') || techStack.frameworks.includes('vue')) {
+  const hasUIFramework = techStack.frameworks.includes('react') || techStack.frameworks.includes('vue')
+  if (hasUIFramework) {
     detected.push(`UI Framework: ${techStack.frameworks.find(f => ['react', 'vue', 'svelte', 'angular'].includes(f))}`)
     score += 20
   }
+  checks.push(check('frontend-ui-framework', 'UI framework', 20, hasUIFramework ? 20 : 0,
+    techStack.frameworks.filter(f => ['react', 'vue'].includes(f))))
 
   // 2. Check for styling solution (15 points)
-  if (deps['tailwindcss'] || deps['styled-components'] || deps['@emotion/react'] || deps['sass']) {
+  const stylingEvidence = depEvidence(deps, ['tailwindcss', 'styled-components', '@emotion/react', 'sass'])
+  if (stylingEvidence.length > 0) {
     detected.push('CSS Framework detected')
     score += 15
   } else {
     gaps.push({
       id: 'frontend-no-css-framework',
+      check: 'frontend-styling',
       category: 'frontend',
       title: 'No CSS framework detected',
       description: 'Consider adding Tailwind CSS or a CSS-in-JS solution for maintainable styles',
@@ -53,19 +59,22 @@ export function analyzeFrontend(ctx: RepoContext): CategoryScore {
       effortMinutes: 30,
     })
   }
+  checks.push(check('frontend-styling', 'Styling solution', 15, stylingEvidence.length > 0 ? 15 : 0, stylingEvidence))
 
-  // 3. Check for error boundaries (15 points)
-  const hasErrorBoundary = files.some(f => 
-    f.content.includes('ErrorBoundary') || 
-    f.content.includes('error.tsx') ||
-    f.content.includes('componentDidCatch')
+  // 3. Check for error boundaries (20 points)
+  const errorBoundaryEvidence = fileEvidence(ctx, 'frontend-error-boundary', f => 
+    index.contains(f, 'ErrorBoundary') || 
+    index.contains(f, 'error.tsx') ||
+    index.contains(f, 'componentDidCatch')
   )
+  const hasErrorBoundary = errorBoundaryEvidence.length > 0
   if (hasErrorBoundary) {
     detected.push('Error boundary implemented')
-    score += 15
+    score += 20
   } else {
     gaps.push({
       id: 'frontend-no-error-boundary',
+      check: 'frontend-error-boundary',
       category: 'frontend',
       title: 'No error boundary detected',
       description: 'Add error boundaries to gracefully handle runtime errors',
@@ -76,20 +85,23 @@ export function analyzeFrontend(ctx: RepoContext): CategoryScore {
       effortMinutes: 15,
     })
   }
+  checks.push(check('frontend-error-boundary', 'Error boundaries', 20, hasErrorBoundary ? 20 : 0, errorBoundaryEvidence))
 
-  // 4. Check for loading states (15 points)
-  const hasLoadingStates = files.some(f => 
-    f.content.includes('loading') || 
-    f.content.includes('isLoading') ||
-    f.content.includes('Skeleton') ||
-    f.content.includes('Spinner')
+  // 4. Check for loading states (20 points)
+  const loadingEvidence = fileEvidence(ctx, 'frontend-loading-states', f => 
+    index.contains(f, 'loading') || 
+    index.contains(f, 'isLoading') ||
+    index.contains(f, 'Skeleton') ||
+    index.contains(f, 'Spinner')
   )
+  const hasLoadingStates = loadingEvidence.length > 0
   if (hasLoadingStates) {
     detected.push('Loading states implemented')
-    score += 15
+    score += 20
   } else {
     gaps.push({
       id: 'frontend-no-loading-states',
+      check: 'frontend-loading-states',
       category: 'frontend',
       title: 'No loading states detected',
       description: 'Add loading indicators for async operations',
@@ -99,20 +111,23 @@ export function analyzeFrontend(ctx: RepoContext): CategoryScore {
       effortMinutes: 30,
     })
   }
+  checks.push(check('frontend-loading-states', 'Loading states', 20, hasLoadingStates ? 20 : 0, loadingEvidence))
 
-  // 5. Check for meta tags / SEO (10 points)
-  const hasMetaTags = files.some(f => 
-    f.content.includes('metadata') || 
-    f.content.includes('<title>') ||
-    f.content.includes('Head') ||
+  // 5. Check for meta tags / SEO (15 points)
+  const metaEvidence = fileEvidence(ctx, 'frontend-meta-tags', f => 
+    index.contains(f, 'metadata') || 
+    index.contains(f, '<title>') ||
+    index.contains(f, 'Head') ||
     f.path.includes('layout.tsx')
   )
+  const hasMetaTags = metaEvidence.length > 0
   if (hasMetaTags) {
     detected.push('SEO meta tags configured')
-    score += 10
+    score += 15
   } else {
     gaps.push({
       id: 'frontend-no-meta-tags',
+      check: 'frontend-meta-tags',
       category: 'frontend',
       title: 'No meta tags detected',
       description: 'Add meta tags for SEO and social sharing',
@@ -123,46 +138,29 @@ export function analyzeFrontend(ctx: RepoContext): CategoryScore {
       effortMinutes: 10,
     })
   }
+  checks.push(check('frontend-meta-tags', 'Meta tags / SEO', 15, hasMetaTags ? 15 : 0, metaEvidence))
 
   // 6. Check for responsive design (10 points)
-  const hasResponsive = files.some(f => 
-    f.content.includes('@media') || 
-    f.content.includes('sm:') ||
-    f.content.includes('md:') ||
-    f.content.includes('lg:')
+  const responsiveEvidence = fileEvidence(ctx, 'frontend-responsive', f => 
+    index.contains(f, '@media') || 
+    index.contains(f, 'sm:') ||
+    index.contains(f, 'md:') ||
+    index.contains(f, 'lg:')
   )
+  const hasResponsive = responsiveEvidence.length > 0
   if (hasResponsive) {
     detected.push('Responsive design detected')
     score += 10
   }
-
-  // 7. Check for accessibility (15 points)
-  const hasA11y = files.some(f => 
-    f.content.includes('aria-') || 
-    f.content.includes('role=') ||
-    f.content.includes('alt=')
-  )
-  if (hasA11y) {
-    detected.push('Accessibility attributes present')
-    score += 15
-  } else {
-    gaps.push({
-      id: 'frontend-no-a11y',
-      category: 'frontend',
-      title: 'Limited accessibility support',
-      description: 'Add ARIA labels and roles for screen reader support',
-      severity: 'warning',
-      confidence: 'likely',
-      fixType: 'guided',
-      effortMinutes: 60,
-    })
-  }
+  checks.push(check('frontend-responsive', 'Responsive design', 10, hasResponsive ? 10 : 0, responsiveEvidence))
 
   return {
     category: 'frontend',
     label: 'Frontend',
     score: Math.min(100, score),
+    applicable: true,
     detected,
+    checks,
     gaps,
     canGenerate: gaps.some(g => g.fixType === 'instant'),
   }
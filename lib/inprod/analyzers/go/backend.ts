@@ -0,0 +1,155 @@
+// =============================================================================
+// GO BACKEND ANALYZER
+// net/http services and the gin, echo, fiber and chi frameworks
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext, SourceLocation } from '../../types'
+import { check, depEvidence, fileEvidence, notApplicable } from '../../checks'
+import { cached } from '../../cache'
+import { locate, withLocations } from '../../locations'
+import { GO_WEB_FRAMEWORKS, goFiles, isGoServer, isGoTest } from './project'
+
+const LOGGING_PACKAGES = ['go.uber.org/zap', 'github.com/rs/zerolog', 'github.com/sirupsen/logrus']
+
+// The package-level helpers build an http.Server with every timeout at zero
+const DEFAULT_SERVER = /\bhttp\.ListenAndServe(TLS)?\(/
+const SERVER_LITERAL = /\bhttp\.Server\s*\{/
+const SERVER_TIMEOUTS = ['ReadHeaderTimeout', 'ReadTimeout']
+
+// A fresh root context inside a handler drops the request's cancellation and deadline
+const DETACHED_CONTEXT = /\bcontext\.(Background|TODO)\(\)/
+const HANDLER_SIGNATURES = ['*http.Request', '*gin.Context', 'echo.Context', '*fiber.Ctx']
+
+export function analyzeGoBackend(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+  const deps = index.manifests.go
+  const sources = goFiles(ctx).filter(f => !isGoTest(f.path))
+
+  if (!isGoServer(ctx)) {
+    return notApplicable('backend', 'No Go HTTP server detected')
+  }
+
+  const frameworks = techStack.frameworks.filter(fw => GO_WEB_FRAMEWORKS.includes(fw))
+  const server = frameworks.length > 0 ? frameworks.join(', ') : 'net/http'
+  detected.push(`Framework: ${server}`)
+  score += 20
+  checks.push(check('backend-go-server', 'HTTP server', 20, 20, [server]))
+
+  // 1. Check the server sets read timeouts (25 points)
+  // Without ReadHeaderTimeout a client can hold a connection open indefinitely (Slowloris)
+  const untimed: SourceLocation[] = sources.flatMap(f => cached(ctx, f, 'go-backend-untimed-server', () => [
+    ...locate(f, DEFAULT_SERVER),
+    ...(SERVER_TIMEOUTS.some(field => f.content.includes(field)) ? [] : locate(f, SERVER_LITERAL)),
+  ]))
+  const timeoutEvidence = fileEvidence(ctx, 'go-backend-server-timeouts', f =>
+    f.path.endsWith('.go') && SERVER_TIMEOUTS.some(field => index.contains(f, field + ':'))
+  )
+
+  if (untimed.length === 0) {
+    detected.push('Server timeouts configured')
+    score += 25
+    checks.push(check('backend-go-timeouts', 'Server timeouts', 25, 25, timeoutEvidence))
+  } else {
+    gaps.push(withLocations({
+      id: 'backend-go-no-server-timeouts',
+      check: 'backend-go-timeouts',
+      category: 'backend',
+      title: 'HTTP server without timeouts',
+      description: 'Serve through an http.Server with ReadHeaderTimeout, ReadTimeout, WriteTimeout and IdleTimeout set; http.ListenAndServe sets none',
+      severity: 'critical',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    }, untimed))
+    checks.push(check('backend-go-timeouts', 'Server timeouts', 25, 0, untimed.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  }
+
+  // 2. Check handlers propagate the request context (20 points)
+  const detached = sources
+    .filter(f => HANDLER_SIGNATURES.some(sig => index.contains(f, sig)))
+    .flatMap(f => cached(ctx, f, 'go-backend-detached-context', () => locate(f, DETACHED_CONTEXT)))
+
+  if (detached.length === 0) {
+    detected.push('Request context propagated')
+    score += 20
+    checks.push(check('backend-go-context', 'Context propagation', 20, 20))
+  } else {
+    gaps.push(withLocations({
+      id: 'backend-go-context-dropped',
+      check: 'backend-go-context',
+      category: 'backend',
+      title: 'Request context not propagated',
+      description: 'Pass r.Context() (or the framework\'s request context) down to database and HTTP calls so they stop when the client goes away',
+      severity: 'warning',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 20,
+    }, detached))
+    checks.push(check('backend-go-context', 'Context propagation', 20, 0, detached.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  }
+
+  // 3. Check for structured logging (20 points)
+  const loggingEvidence = [
+    ...depEvidence(deps, LOGGING_PACKAGES),
+    ...fileEvidence(ctx, 'go-backend-slog', f => f.path.endsWith('.go') && index.contains(f, '"log/slog"')),
+  ]
+  const hasLogging = loggingEvidence.length > 0
+
+  if (hasLogging) {
+    detected.push('Structured logging')
+    score += 20
+  } else {
+    gaps.push({
+      id: 'backend-no-logging',
+      check: 'backend-logging',
+      category: 'backend',
+      title: 'No structured logging',
+      description: 'Log with log/slog (or zap/zerolog) instead of the standard log package',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 20,
+    })
+  }
+  checks.push(check('backend-logging', 'Structured logging', 20, hasLogging ? 20 : 0, loggingEvidence))
+
+  // 4. Check for a health endpoint (15 points)
+  const healthEvidence = fileEvidence(ctx, 'go-backend-health', f =>
+    f.path.endsWith('.go') && !isGoTest(f.path) && (index.contains(f, '"/health') || index.contains(f, '"/livez') || index.contains(f, '"/readyz'))
+  )
+  const hasHealth = healthEvidence.length > 0
+
+  if (hasHealth) {
+    detected.push('Health endpoint')
+    score += 15
+  } else {
+    gaps.push({
+      id: 'backend-no-health',
+      check: 'backend-health',
+      category: 'backend',
+      title: 'No health check endpoint',
+      description: 'Add a /healthz handler for load balancers and orchestrators',
+      severity: 'info',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 10,
+    })
+  }
+  checks.push(check('backend-health', 'Health endpoint', 15, hasHealth ? 15 : 0, healthEvidence))
+
+  return {
+    category: 'backend',
+    label: 'Backend',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
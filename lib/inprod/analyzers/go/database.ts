@@ -0,0 +1,145 @@
+// =============================================================================
+// GO DATABASE ANALYZER
+// database/sql with sqlx, pgx and GORM on top
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, depEvidence, fileEvidence, notApplicable, skipCheck } from '../../checks'
+import { cached } from '../../cache'
+import { locate, withLocations } from '../../locations'
+import { goFiles, isGoTest } from './project'
+
+const DRIVER_PACKAGES = [
+  'github.com/lib/pq', 'github.com/jackc/pgx', 'github.com/go-sql-driver/mysql', 'github.com/mattn/go-sqlite3',
+  'gorm.io/gorm', 'github.com/jmoiron/sqlx', 'entgo.io/ent', 'go.mongodb.org/mongo-driver',
+]
+const MIGRATION_PACKAGES = ['github.com/golang-migrate/migrate', 'github.com/pressly/goose', 'ariga.io/atlas']
+
+// Opening a *sql.DB directly (GORM exposes its pool through db.DB())
+const SQL_OPEN = /\b(sql|sqlx)\.(Open|Connect)\(|\.DB\(\)/
+// Each limit is worth 10 points; database/sql defaults to an unbounded pool
+const POOL_SETTINGS = ['SetMaxOpenConns', 'SetMaxIdleConns', 'SetConnMaxLifetime']
+
+// Query methods that ignore the caller's context and can't be cancelled
+const QUERY_WITHOUT_CONTEXT = /\.(Query|QueryRow|Exec)\(/
+
+export function analyzeGoDatabase(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+  const deps = index.manifests.go
+  const driverEvidence = depEvidence(deps, DRIVER_PACKAGES)
+  const sources = goFiles(ctx).filter(f => !isGoTest(f.path))
+  const sqlFiles = sources.filter(f => index.contains(f, '"database/sql"') || index.contains(f, 'sqlx.'))
+
+  if (driverEvidence.length === 0 && sqlFiles.length === 0) {
+    return notApplicable('database', 'No database detected')
+  }
+
+  const database = techStack.database || 'SQL'
+  detected.push(`Database: ${database}`)
+  score += 20
+  checks.push(check('database-detected', 'Database configured', 20, 20, [database, ...driverEvidence]))
+
+  // 1. Check connection pool limits (30 points)
+  const openers = sources.filter(f => SQL_OPEN.test(f.content))
+  const pooled = !!deps['github.com/jackc/pgx'] && sources.some(f => index.contains(f, 'pgxpool.'))
+
+  if (openers.length > 0 && !pooled) {
+    const configured = POOL_SETTINGS.filter(setting => sources.some(f => index.contains(f, setting + '(')))
+    const missing = POOL_SETTINGS.filter(setting => !configured.includes(setting))
+    const points = configured.length * 10
+
+    score += points
+    if (missing.length === 0) {
+      detected.push('Connection pool limits set')
+    } else {
+      gaps.push({
+        id: 'database-go-no-pool-limits',
+        check: 'database-pooling',
+        category: 'database',
+        title: 'Connection pool not bounded',
+        description: `Call ${missing.join(', ')} on the *sql.DB; the defaults allow unlimited open connections that never expire`,
+        severity: configured.length === 0 ? 'critical' : 'warning',
+        confidence: 'verified',
+        file: openers[0].path,
+        fixType: 'suggested',
+        effortMinutes: 10,
+      })
+    }
+    checks.push(check('database-pooling', 'Connection pool limits', 30, points, [
+      ...configured,
+      ...missing.map(setting => `missing: ${setting}`),
+    ]))
+  } else if (pooled) {
+    detected.push('pgxpool connection pool')
+    score += 30
+    checks.push(check('database-pooling', 'Connection pool limits', 30, 30, ['pgxpool']))
+  } else {
+    score += 30
+    checks.push(skipCheck('database-pooling', 'Connection pool limits', 30, 'No *sql.DB opened'))
+  }
+
+  // 2. Check for migrations (25 points)
+  const migrationEvidence = [
+    ...depEvidence(deps, MIGRATION_PACKAGES),
+    ...fileEvidence(ctx, 'go-database-migrations', f =>
+      /(^|\/)migrations?\/[^/]+\.sql$/.test(f.path) || f.path.endsWith('atlas.hcl')
+    ),
+  ]
+  const hasMigrations = migrationEvidence.length > 0
+
+  if (hasMigrations) {
+    detected.push('Database migrations present')
+    score += 25
+  } else {
+    gaps.push({
+      id: 'database-no-migrations',
+      check: 'database-migrations',
+      category: 'database',
+      title: 'No database migrations',
+      description: 'Version schema changes with golang-migrate, goose or Atlas',
+      severity: 'warning',
+      confidence: 'likely',
+      fixType: 'guided',
+      effortMinutes: 30,
+    })
+  }
+  checks.push(check('database-migrations', 'Migrations', 25, hasMigrations ? 25 : 0, migrationEvidence))
+
+  // 3. Check queries take a context (25 points)
+  const uncancellable = sqlFiles.flatMap(f => cached(ctx, f, 'go-database-no-context', () => locate(f, QUERY_WITHOUT_CONTEXT)))
+
+  if (uncancellable.length === 0) {
+    detected.push('Queries use context-aware methods')
+    score += 25
+    checks.push(check('database-go-context', 'Context-aware queries', 25, 25))
+  } else {
+    gaps.push(withLocations({
+      id: 'database-go-no-query-context',
+      check: 'database-go-context',
+      category: 'database',
+      title: 'Queries ignore the request context',
+      description: 'Use QueryContext, QueryRowContext and ExecContext so slow queries are cancelled with the request',
+      severity: 'warning',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 20,
+    }, uncancellable))
+    checks.push(check('database-go-context', 'Context-aware queries', 25, 0, uncancellable.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  }
+
+  return {
+    category: 'database',
+    label: 'Database',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
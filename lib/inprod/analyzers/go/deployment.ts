@@ -0,0 +1,124 @@
+// =============================================================================
+// GO DEPLOYMENT ANALYZER
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, fileEvidence, notApplicable, skipCheck } from '../../checks'
+import { goFiles, isGoProject, isGoServer, isGoTest } from './project'
+
+// Catching SIGTERM and draining in-flight requests before exit
+const SIGNAL_HANDLING = ['signal.Notify(', 'signal.NotifyContext(']
+const SHUTDOWN_CALLS = ['.Shutdown(', '.GracefulStop(', '.ShutdownWithContext(']
+
+export function analyzeGoDeployment(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+
+  if (!isGoProject(ctx)) {
+    return notApplicable('deployment', 'No Go module detected')
+  }
+
+  const sources = goFiles(ctx).filter(f => !isGoTest(f.path))
+  const server = isGoServer(ctx)
+
+  // 1. Check for CI/CD (25 points)
+  if (techStack.ciProvider) {
+    detected.push(`CI/CD: ${techStack.ciProvider}`)
+    score += 25
+  } else {
+    gaps.push({
+      id: 'deploy-no-ci',
+      check: 'deploy-ci',
+      category: 'deployment',
+      title: 'No CI/CD pipeline',
+      description: 'Add a GitHub Actions workflow that runs go vet, go test and go build',
+      severity: 'critical',
+      confidence: 'proven',
+      fixType: 'suggested',
+      effortMinutes: 20,
+    })
+  }
+  checks.push(check('deploy-ci', 'CI/CD pipeline', 25, techStack.ciProvider ? 25 : 0,
+    techStack.ciProvider ? [techStack.ciProvider] : []))
+
+  // 2. Check servers shut down gracefully (30 points)
+  if (server) {
+    const signalFiles = sources.filter(f => SIGNAL_HANDLING.some(call => index.contains(f, call)))
+    const shutdownFiles = sources.filter(f => SHUTDOWN_CALLS.some(call => index.contains(f, call)))
+    const graceful = signalFiles.length > 0 && shutdownFiles.length > 0
+
+    if (graceful) {
+      detected.push('Graceful shutdown on SIGTERM')
+      score += 30
+    } else {
+      gaps.push({
+        id: 'deploy-go-no-graceful-shutdown',
+        check: 'deploy-go-shutdown',
+        category: 'deployment',
+        title: 'No graceful shutdown',
+        description: signalFiles.length > 0
+          ? 'Call server.Shutdown(ctx) after the signal arrives so in-flight requests finish'
+          : 'Catch SIGTERM with signal.NotifyContext and call server.Shutdown(ctx) so deploys don\'t drop in-flight requests',
+        severity: 'warning',
+        confidence: 'likely',
+        ...(signalFiles.length > 0 && { file: signalFiles[0].path }),
+        fixType: 'suggested',
+        effortMinutes: 20,
+      })
+    }
+    checks.push(check('deploy-go-shutdown', 'Graceful shutdown', 30, graceful ? 30 : 0,
+      [...signalFiles, ...shutdownFiles].slice(0, 5).map(f => f.path)))
+  } else {
+    score += 30
+    checks.push(skipCheck('deploy-go-shutdown', 'Graceful shutdown', 30, 'No HTTP server'))
+  }
+
+  // 3. Check for a build artifact: a container image for services, release binaries for tools (25 points)
+  const artifactEvidence = fileEvidence(ctx, 'go-deploy-artifact', f =>
+    f.path === 'Dockerfile' || f.path === 'docker-compose.yml' || f.path === 'ko.yaml' || /^\.goreleaser\.ya?ml$/.test(f.path)
+  )
+  const hasArtifact = artifactEvidence.length > 0
+
+  if (hasArtifact) {
+    detected.push(`Build: ${artifactEvidence[0]}`)
+    score += 25
+  } else {
+    gaps.push({
+      id: 'deploy-go-no-artifact',
+      check: 'deploy-go-artifact',
+      category: 'deployment',
+      title: server ? 'No container image' : 'No release build',
+      description: server
+        ? 'Add a multi-stage Dockerfile that builds a static binary into a distroless image'
+        : 'Add a .goreleaser.yml to publish binaries for each platform',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'guided',
+      effortMinutes: 30,
+    })
+  }
+  checks.push(check('deploy-go-artifact', 'Build artifact', 25, hasArtifact ? 25 : 0, artifactEvidence))
+
+  // 4. Check for deployment target (20 points)
+  const platform = techStack.deploymentPlatform
+  if (platform) {
+    detected.push(`Platform: ${platform}`)
+    score += 20
+  }
+  checks.push(check('deploy-platform', 'Deployment platform', 20, platform ? 20 : 0, platform ? [platform] : []))
+
+  return {
+    category: 'deployment',
+    label: 'Deployment',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -0,0 +1,140 @@
+// =============================================================================
+// GO ERROR HANDLING ANALYZER
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, depEvidence, notApplicable } from '../../checks'
+import { cached } from '../../cache'
+import { locate, withLocations } from '../../locations'
+import { goFiles, isGoProject, isGoTest } from './project'
+
+const MONITORING_PACKAGES = [
+  'github.com/getsentry/sentry-go', 'github.com/rollbar/rollbar-go', 'github.com/bugsnag/bugsnag-go',
+  'github.com/honeybadger-io/honeybadger-go', 'gopkg.in/DataDog/dd-trace-go.v1', 'github.com/newrelic/go-agent',
+]
+
+// fmt.Errorf that formats err with %v or %s breaks errors.Is/As up the stack
+const UNWRAPPED_ERROR = /fmt\.Errorf\("(?![^"]*%w)[^"]*",.*\berr\b/
+const WRAPPED_ERROR = /fmt\.Errorf\("[^"]*%w/
+
+// `err == ErrNotFound` misses wrapped errors; errors.Is unwraps
+const SENTINEL_COMPARISON = /\berr\s*[!=]=\s*(?!nil\b)[\w.]+/
+
+// Libraries should return errors; only main and init may crash the process
+const LIBRARY_PANIC = /^\s*panic\(/
+
+export function analyzeGoErrorHandling(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+  const deps = index.manifests.go
+
+  if (!isGoProject(ctx)) {
+    return notApplicable('errorHandling', 'No Go module detected')
+  }
+
+  const sources = goFiles(ctx).filter(f => !isGoTest(f.path))
+
+  // 1. Check errors are wrapped with %w (35 points)
+  const unwrapped = sources.flatMap(f => cached(ctx, f, 'go-error-unwrapped', () => locate(f, UNWRAPPED_ERROR)))
+  const wrapsErrors = sources.some(f => WRAPPED_ERROR.test(f.content))
+  const wrapPoints = unwrapped.length === 0 ? 35 : wrapsErrors ? 15 : 0
+
+  score += wrapPoints
+  if (unwrapped.length === 0) {
+    detected.push(wrapsErrors ? 'Errors wrapped with %w' : 'No unwrapped errors')
+  } else {
+    gaps.push(withLocations({
+      id: 'error-go-unwrapped',
+      check: 'error-go-wrapping',
+      category: 'errorHandling',
+      title: 'Errors formatted instead of wrapped',
+      description: 'Use %w in fmt.Errorf so callers can still match the cause with errors.Is and errors.As',
+      severity: 'warning',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    }, unwrapped))
+  }
+  checks.push(check('error-go-wrapping', 'Error wrapping', 35, wrapPoints, unwrapped.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+
+  // 2. Check sentinel errors are matched with errors.Is (20 points)
+  const comparisons = sources.flatMap(f => cached(ctx, f, 'go-error-sentinel', () => locate(f, SENTINEL_COMPARISON)))
+
+  if (comparisons.length === 0) {
+    score += 20
+    checks.push(check('error-go-sentinel', 'errors.Is / errors.As', 20, 20))
+  } else {
+    gaps.push(withLocations({
+      id: 'error-go-sentinel-comparison',
+      check: 'error-go-sentinel',
+      category: 'errorHandling',
+      title: 'Errors compared with ==',
+      description: 'Use errors.Is(err, ErrX) so the check still matches once the error is wrapped',
+      severity: 'info',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 10,
+    }, comparisons))
+    checks.push(check('error-go-sentinel', 'errors.Is / errors.As', 20, 0, comparisons.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  }
+
+  // 3. Check library packages return errors rather than panic (20 points)
+  const panics = sources
+    .filter(f => !index.contains(f, 'package main'))
+    .flatMap(f => cached(ctx, f, 'go-error-panic', () => locate(f, LIBRARY_PANIC)))
+
+  if (panics.length === 0) {
+    score += 20
+    checks.push(check('error-go-panic', 'No panics in library code', 20, 20))
+  } else {
+    gaps.push(withLocations({
+      id: 'error-go-panic',
+      check: 'error-go-panic',
+      category: 'errorHandling',
+      title: 'Panics outside package main',
+      description: 'Return an error instead of panicking so callers can decide how to recover',
+      severity: 'warning',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    }, panics))
+    checks.push(check('error-go-panic', 'No panics in library code', 20, 0, panics.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  }
+
+  // 4. Check for error monitoring (25 points)
+  const monitoringEvidence = depEvidence(deps, MONITORING_PACKAGES)
+  const hasMonitoring = monitoringEvidence.length > 0
+
+  if (hasMonitoring) {
+    detected.push('Error monitoring configured')
+    score += 25
+  } else {
+    gaps.push({
+      id: 'error-no-monitoring',
+      check: 'error-monitoring',
+      category: 'errorHandling',
+      title: 'No error monitoring',
+      description: 'Add sentry-go to capture production errors and panics',
+      severity: 'critical',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    })
+  }
+  checks.push(check('error-monitoring', 'Error monitoring', 25, hasMonitoring ? 25 : 0, monitoringEvidence))
+
+  return {
+    category: 'errorHandling',
+    label: 'Error Handling',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
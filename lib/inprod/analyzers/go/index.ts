@@ -0,0 +1,36 @@
+// =============================================================================
+// GO ANALYZERS - Index
+// Selected when the repo uses Go; categories without a Go analyzer keep the
+// default ones
+// =============================================================================
+
+import { Analyzer } from '../../types'
+import { analyzeGoBackend } from './backend'
+import { analyzeGoDatabase } from './database'
+import { analyzeGoTesting } from './testing'
+import { analyzeGoSecurity } from './security'
+import { analyzeGoErrorHandling } from './error-handling'
+import { analyzeGoVersionControl } from './version-control'
+import { analyzeGoDeployment } from './deployment'
+
+export {
+  analyzeGoBackend,
+  analyzeGoDatabase,
+  analyzeGoTesting,
+  analyzeGoSecurity,
+  analyzeGoErrorHandling,
+  analyzeGoVersionControl,
+  analyzeGoDeployment,
+}
+
+const GO = { languages: ['go'] }
+
+export const GO_ANALYZERS: Analyzer[] = [
+  { id: 'go-backend', category: 'backend', ...GO, run: analyzeGoBackend },
+  { id: 'go-database', category: 'database', ...GO, run: analyzeGoDatabase },
+  { id: 'go-testing', category: 'testing', ...GO, run: analyzeGoTesting },
+  { id: 'go-security', category: 'security', ...GO, run: analyzeGoSecurity },
+  { id: 'go-error-handling', category: 'errorHandling', ...GO, run: analyzeGoErrorHandling },
+  { id: 'go-version-control', category: 'versionControl', ...GO, run: analyzeGoVersionControl },
+  { id: 'go-deployment', category: 'deployment', ...GO, run: analyzeGoDeployment },
+]
@@ -0,0 +1,53 @@
+// =============================================================================
+// GO PROJECT HELPERS
+// Shared by the Go analyzers: which files are Go sources and tests, how they
+// group into packages, and whether the repo is a Go module at all
+// =============================================================================
+
+import { RepoContext, RepoFile } from '../../types'
+import { GO_HTTP_SERVER } from '../../stack-detector'
+
+// Vendored modules and test fixtures, not the project's own code
+const IGNORED_DIRS = /(^|\/)(vendor|testdata|node_modules)\//
+
+export const GO_WEB_FRAMEWORKS = ['gin', 'echo', 'fiber', 'chi']
+
+/**
+ * The project's .go files, tests included
+ */
+export function goFiles(ctx: RepoContext): RepoFile[] {
+  return (ctx.index.byExtension.get('.go') || []).filter(f => !IGNORED_DIRS.test(f.path))
+}
+
+export function isGoTest(path: string): boolean {
+  return path.endsWith('_test.go')
+}
+
+/**
+ * A go.mod anywhere in the tree; a stray .go file in another project doesn't count
+ */
+export function isGoProject(ctx: RepoContext): boolean {
+  return (ctx.index.byExtension.get('.mod') || []).some(f => f.path === 'go.mod' || f.path.endsWith('/go.mod'))
+}
+
+/**
+ * Whether the module serves HTTP, through a framework or net/http directly
+ */
+export function isGoServer(ctx: RepoContext): boolean {
+  return ctx.techStack.frameworks.some(fw => GO_WEB_FRAMEWORKS.includes(fw)) ||
+    goFiles(ctx).some(f => !isGoTest(f.path) && GO_HTTP_SERVER.test(f.content))
+}
+
+/**
+ * Go files grouped by package directory ('' for the module root)
+ */
+export function goPackages(files: RepoFile[]): Map<string, RepoFile[]> {
+  const packages = new Map<string, RepoFile[]>()
+  for (const file of files) {
+    const dir = file.path.includes('/') ? file.path.slice(0, file.path.lastIndexOf('/')) : ''
+    const list = packages.get(dir)
+    if (list) list.push(file)
+    else packages.set(dir, [file])
+  }
+  return packages
+}
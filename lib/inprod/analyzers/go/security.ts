@@ -0,0 +1,141 @@
+// =============================================================================
+// GO SECURITY ANALYZER
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext, SourceLocation } from '../../types'
+import { check, fileEvidence, notApplicable } from '../../checks'
+import { cached } from '../../cache'
+import { findSecret, locate, withLocations } from '../../locations'
+import { goFiles, isGoProject, isGoTest } from './project'
+
+// SQL concatenated or Sprintf'd together, either in the query call itself or
+// in a string literal that starts with a statement keyword
+const CONCATENATED_SQL = new RegExp([
+  /\.(Query|QueryRow|Exec|QueryContext|QueryRowContext|ExecContext|Raw|Where)\([^)]*("\s*\+|fmt\.Sprintf\()/.source,
+  /"\s*(SELECT|INSERT|UPDATE|DELETE)\b[^"]*"\s*\+/.source,
+  /fmt\.Sprintf\(\s*"\s*(SELECT|INSERT|UPDATE|DELETE)\b[^"]*%[sv]/.source,
+].join('|'), 'i')
+
+const INSECURE_TLS = /InsecureSkipVerify:\s*true/
+
+export function analyzeGoSecurity(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+
+  if (!isGoProject(ctx)) {
+    return notApplicable('security', 'No Go module detected')
+  }
+
+  const sources = goFiles(ctx).filter(f => !isGoTest(f.path))
+
+  // 1. Check queries aren't built by concatenation (30 points)
+  const sqlLocations = sources.flatMap(f => cached(ctx, f, 'go-security-sql', () => locate(f, CONCATENATED_SQL)))
+
+  if (sqlLocations.length === 0) {
+    detected.push('No concatenated SQL')
+    score += 30
+    checks.push(check('security-injection', 'Injection protection', 30, 30))
+  } else {
+    gaps.push(withLocations({
+      id: 'security-sql-injection',
+      check: 'security-injection',
+      category: 'security',
+      title: 'Potential SQL injection vulnerability',
+      description: 'Pass values as $1/? placeholders to Query and Exec instead of concatenating them into the SQL',
+      severity: 'critical',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 30,
+    }, sqlLocations))
+    checks.push(check('security-injection', 'Injection protection', 30, 0, sqlLocations.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  }
+
+  // 2. Check for secrets in code (25 points)
+  const secretLocations: SourceLocation[] = []
+  for (const file of sources) {
+    const location = cached(ctx, file, 'security-secrets', () => findSecret(file))
+    if (!location) continue
+    secretLocations.push(location)
+    gaps.push(withLocations({
+      id: `security-hardcoded-secret-${file.path}`,
+      check: 'security-secrets',
+      category: 'security',
+      title: 'Hardcoded secret detected',
+      description: `Potential secret found in ${file.path}`,
+      severity: 'blocker',
+      confidence: 'verified',
+      file: file.path,
+      fixType: 'suggested',
+      effortMinutes: 5,
+    }, [location]))
+  }
+
+  if (secretLocations.length === 0) {
+    detected.push('No hardcoded secrets found')
+    score += 25
+  }
+  checks.push(check('security-secrets', 'No hardcoded secrets', 25, secretLocations.length > 0 ? 0 : 25,
+    secretLocations.map(l => `${l.file}:${l.line}`)))
+
+  // 3. Check TLS certificates are verified (25 points)
+  const tlsLocations = sources.flatMap(f => cached(ctx, f, 'go-security-tls', () => locate(f, INSECURE_TLS)))
+
+  if (tlsLocations.length === 0) {
+    score += 25
+    checks.push(check('security-go-tls', 'TLS verification', 25, 25))
+  } else {
+    gaps.push(withLocations({
+      id: 'security-go-insecure-tls',
+      check: 'security-go-tls',
+      category: 'security',
+      title: 'TLS certificate verification disabled',
+      description: 'InsecureSkipVerify accepts any certificate, allowing man-in-the-middle attacks. Configure RootCAs instead.',
+      severity: 'critical',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    }, tlsLocations))
+    checks.push(check('security-go-tls', 'TLS verification', 25, 0, tlsLocations.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  }
+
+  // 4. Check for vulnerability scanning (20 points)
+  const auditEvidence = fileEvidence(ctx, 'go-security-audit', f =>
+    f.path === '.github/dependabot.yml' ||
+    (f.path.startsWith('.github/workflows/') &&
+     (index.contains(f, 'govulncheck') || index.contains(f, 'gosec') || index.contains(f, 'snyk')))
+  )
+  const hasAudit = auditEvidence.length > 0
+
+  if (hasAudit) {
+    detected.push('Vulnerability scanning configured')
+    score += 20
+  } else {
+    gaps.push({
+      id: 'security-go-no-vulncheck',
+      check: 'security-audit',
+      category: 'security',
+      title: 'No vulnerability scanning',
+      description: 'Run govulncheck ./... in CI to catch known vulnerabilities in dependencies',
+      severity: 'info',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 10,
+    })
+  }
+  checks.push(check('security-audit', 'Dependency audit', 20, hasAudit ? 20 : 0, auditEvidence))
+
+  return {
+    category: 'security',
+    label: 'Security',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
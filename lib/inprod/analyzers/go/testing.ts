@@ -0,0 +1,119 @@
+// =============================================================================
+// GO TESTING ANALYZER
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, fileEvidence, notApplicable } from '../../checks'
+import { goFiles, goPackages, isGoProject, isGoTest } from './project'
+
+export function analyzeGoTesting(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+
+  if (!isGoProject(ctx)) {
+    return notApplicable('testing', 'No Go module detected')
+  }
+
+  // 1. Check for test framework (15 points)
+  // `go test` ships with the toolchain, so a module always has one
+  const framework = techStack.testFramework || 'go test'
+  detected.push(`Test framework: ${framework}`)
+  score += 15
+  checks.push(check('testing-framework', 'Test framework', 15, 15, [framework]))
+
+  // 2. Check each package has _test.go files (40 points)
+  // Coverage is per package in Go, so count packages rather than files
+  const packages = [...goPackages(goFiles(ctx))]
+    .filter(([, files]) => files.some(f => !isGoTest(f.path)))
+  const tested = packages.filter(([, files]) => files.some(f => isGoTest(f.path))).map(([dir]) => dir)
+  const untested = packages.map(([dir]) => dir).filter(dir => !tested.includes(dir))
+  const ratio = packages.length > 0 ? (tested.length / packages.length) * 100 : 0
+  const packagePoints = tested.length === 0 ? 0 : ratio >= 80 ? 40 : ratio >= 50 ? 30 : 15
+
+  score += packagePoints
+  if (tested.length === 0) {
+    gaps.push({
+      id: 'testing-no-tests',
+      check: 'testing-go-packages',
+      category: 'testing',
+      title: 'No test files found',
+      description: 'Add _test.go files alongside the packages they cover',
+      severity: 'critical',
+      confidence: 'proven',
+      fixType: 'guided',
+      effortMinutes: 60,
+    })
+  } else {
+    detected.push(`${tested.length}/${packages.length} packages tested`)
+    if (ratio < 50) {
+      gaps.push({
+        id: 'testing-go-untested-packages',
+        check: 'testing-go-packages',
+        category: 'testing',
+        title: 'Most packages have no tests',
+        description: `No _test.go files in ${untested.slice(0, 5).map(dir => dir || '(root)').join(', ')}${untested.length > 5 ? ` and ${untested.length - 5} more` : ''}`,
+        severity: 'warning',
+        confidence: 'verified',
+        fixType: 'guided',
+        effortMinutes: 30 * Math.min(untested.length, 5),
+      })
+    }
+  }
+  checks.push(check('testing-go-packages', 'Packages with tests', 40, packagePoints, [
+    `${tested.length} of ${packages.length} packages have tests`,
+    ...untested.slice(0, 4).map(dir => `untested: ${dir || '(root)'}`),
+  ]))
+
+  // 3. Check tests run in CI (25 points)
+  const ciTestEvidence = fileEvidence(ctx, 'go-testing-ci', f =>
+    (f.path.startsWith('.github/workflows/') || f.path === '.gitlab-ci.yml' || f.path === 'Makefile') &&
+    index.contains(f, 'go test')
+  )
+  const hasTestInCI = ciTestEvidence.some(path => path !== 'Makefile')
+
+  if (hasTestInCI) {
+    detected.push('Tests run in CI')
+    score += 25
+  } else if (techStack.ciProvider) {
+    gaps.push({
+      id: 'testing-not-in-ci',
+      check: 'testing-ci',
+      category: 'testing',
+      title: 'Tests not running in CI',
+      description: 'Run go test -race ./... in the CI workflow',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 10,
+    })
+  }
+  checks.push(check('testing-ci', 'Tests run in CI', 25, hasTestInCI ? 25 : 0, ciTestEvidence))
+
+  // 4. Check for coverage reporting (20 points)
+  const coverageEvidence = fileEvidence(ctx, 'go-testing-coverage', f =>
+    (f.path.startsWith('.github/workflows/') || f.path === '.gitlab-ci.yml' || f.path === 'Makefile') &&
+    (index.contains(f, '-coverprofile') || index.contains(f, '-cover ') || index.contains(f, 'codecov'))
+  )
+  const hasCoverage = coverageEvidence.length > 0
+
+  if (hasCoverage) {
+    detected.push('Coverage reporting configured')
+    score += 20
+  }
+  checks.push(check('testing-coverage', 'Coverage reporting', 20, hasCoverage ? 20 : 0, coverageEvidence))
+
+  return {
+    category: 'testing',
+    label: 'Testing',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
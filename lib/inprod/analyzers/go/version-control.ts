@@ -0,0 +1,126 @@
+// =============================================================================
+// GO VERSION CONTROL ANALYZER
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, fileEvidence, notApplicable } from '../../checks'
+import { isGoProject } from './project'
+
+const GOLANGCI_CONFIGS = ['.golangci.yml', '.golangci.yaml', '.golangci.toml', '.golangci.json']
+
+export function analyzeGoVersionControl(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+  const deps = index.manifests.go
+
+  if (!isGoProject(ctx)) {
+    return notApplicable('versionControl', 'No Go module detected')
+  }
+
+  // 1. Check for .gitignore (20 points)
+  const hasGitignore = index.byPath.has('.gitignore')
+
+  if (hasGitignore) {
+    detected.push('.gitignore present')
+    score += 20
+  } else {
+    gaps.push({
+      id: 'vc-no-gitignore',
+      check: 'vc-gitignore',
+      category: 'versionControl',
+      title: 'No .gitignore file',
+      description: 'Add a .gitignore for built binaries, coverage output and .env files',
+      severity: 'critical',
+      confidence: 'proven',
+      fixType: 'suggested',
+      effortMinutes: 5,
+    })
+  }
+  checks.push(check('vc-gitignore', '.gitignore', 20, hasGitignore ? 20 : 0, hasGitignore ? ['.gitignore'] : []))
+
+  // 2. Check for README (25 points)
+  const readmeEvidence = fileEvidence(ctx, 'vc-readme', f => f.path.toLowerCase() === 'readme.md')
+  const hasReadme = readmeEvidence.length > 0
+
+  if (hasReadme) {
+    detected.push('README.md present')
+    score += 25
+  } else {
+    gaps.push({
+      id: 'vc-no-readme',
+      check: 'vc-readme',
+      category: 'versionControl',
+      title: 'No README.md',
+      description: 'Add README with project description and setup instructions',
+      severity: 'warning',
+      confidence: 'proven',
+      fixType: 'instant',
+      fixTemplate: 'readme',
+      effortMinutes: 20,
+    })
+  }
+  checks.push(check('vc-readme', 'README', 25, hasReadme ? 25 : 0, readmeEvidence))
+
+  // 3. Check for golangci-lint config (30 points)
+  const lintEvidence = fileEvidence(ctx, 'go-vc-golangci', f =>
+    GOLANGCI_CONFIGS.some(name => f.path === name || f.path.endsWith('/' + name)) ||
+    (f.path.startsWith('.github/workflows/') && index.contains(f, 'golangci-lint'))
+  )
+  const hasLint = lintEvidence.length > 0
+
+  if (hasLint) {
+    detected.push('golangci-lint configured')
+    score += 30
+  } else {
+    gaps.push({
+      id: 'vc-go-no-golangci',
+      check: 'vc-go-lint',
+      category: 'versionControl',
+      title: 'No golangci-lint config',
+      description: 'Add a .golangci.yml enabling errcheck, govet, staticcheck and gosec, and run it in CI',
+      severity: 'warning',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    })
+  }
+  checks.push(check('vc-go-lint', 'golangci-lint', 30, hasLint ? 30 : 0, lintEvidence))
+
+  // 4. Check go.sum is committed (25 points)
+  // Without it builds can't verify module checksums
+  const hasGoSum = Object.keys(deps).length === 0 ||
+    (index.byExtension.get('.sum') || []).some(f => f.path === 'go.sum' || f.path.endsWith('/go.sum'))
+
+  if (hasGoSum) {
+    score += 25
+  } else {
+    gaps.push({
+      id: 'vc-go-no-go-sum',
+      check: 'vc-go-sum',
+      category: 'versionControl',
+      title: 'go.sum not committed',
+      description: 'Commit go.sum so builds verify dependency checksums',
+      severity: 'warning',
+      confidence: 'verified',
+      file: 'go.mod',
+      fixType: 'suggested',
+      effortMinutes: 5,
+    })
+  }
+  checks.push(check('vc-go-sum', 'go.sum committed', 25, hasGoSum ? 25 : 0))
+
+  return {
+    category: 'versionControl',
+    label: 'Version Control',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -2,16 +2,85 @@
 // CATEGORY ANALYZERS - Index
 // =============================================================================
 
-export { analyzeFrontend } from './frontend'
-export { analyzeBackend } from './backend'
-export { analyzeDatabase } from './database'
-export { analyzeAuthentication } from './authentication'
-export { analyzeApiIntegrations } from './api-integrations'
-export { analyzeStateManagement } from './state-management'
-export { analyzeDesignUx } from './design-ux'
-export { analyzeTesting } from './testing'
-export { analyzeSecurity } from './security'
-export { analyzeErrorHandling } from './error-handling'
-export { analyzeVersionControl } from './version-control'
-export { analyzeDeployment } from './deployment'
+import { Analyzer } from '../types'
+import { analyzeFrontend } from './frontend'
+import { analyzeBackend } from './backend'
+import { analyzeDatabase } from './database'
+import { analyzeAuthentication } from './authentication'
+import { analyzeApiIntegrations } from './api-integrations'
+import { analyzeStateManagement } from './state-management'
+import { analyzeDesignUx } from './design-ux'
+import { analyzeTesting } from './testing'
+import { analyzeSecurity } from './security'
+import { analyzeErrorHandling } from './error-handling'
+import { analyzeVersionControl } from './version-control'
+import { analyzeDeployment } from './deployment'
+import { analyzePerformance } from './performance'
+import { analyzeObservability } from './observability'
+import { analyzePrivacy } from './privacy'
+import { analyzeDocumentation } from './documentation'
+import { PYTHON_ANALYZERS } from './python'
+import { GO_ANALYZERS } from './go'
+import { RUST_ANALYZERS } from './rust'
+import { IOS_ANALYZERS } from './ios'
+import { ANDROID_ANALYZERS } from './android'
+import { REACT_NATIVE_ANALYZERS } from './react-native'
+import { FLUTTER_ANALYZERS } from './flutter'
 
+export {
+  analyzeFrontend,
+  analyzeBackend,
+  analyzeDatabase,
+  analyzeAuthentication,
+  analyzeApiIntegrations,
+  analyzeStateManagement,
+  analyzeDesignUx,
+  analyzeTesting,
+  analyzeSecurity,
+  analyzeErrorHandling,
+  analyzeVersionControl,
+  analyzeDeployment,
+  analyzePerformance,
+  analyzeObservability,
+  analyzePrivacy,
+  analyzeDocumentation,
+}
+
+// The default analyzers read package.json and JS/TS sources. They also stand
+// in for languages without their own pack.
+const NODE = { languages: ['typescript', 'javascript'], fallback: true }
+
+// Default analyzers, in report order
+export const BUILTIN_ANALYZERS: Analyzer[] = [
+  { id: 'frontend', category: 'frontend', ...NODE, run: analyzeFrontend },
+  { id: 'backend', category: 'backend', ...NODE, run: analyzeBackend },
+  { id: 'database', category: 'database', ...NODE, run: analyzeDatabase },
+  { id: 'authentication', category: 'authentication', ...NODE, run: analyzeAuthentication },
+  { id: 'api-integrations', category: 'apiIntegrations', ...NODE, run: analyzeApiIntegrations },
+  { id: 'state-management', category: 'stateManagement', ...NODE, run: analyzeStateManagement },
+  { id: 'design-ux', category: 'designUx', ...NODE, run: analyzeDesignUx },
+  { id: 'testing', category: 'testing', ...NODE, run: analyzeTesting },
+  { id: 'security', category: 'security', ...NODE, run: analyzeSecurity },
+  { id: 'error-handling', category: 'errorHandling', ...NODE, run: analyzeErrorHandling },
+  { id: 'version-control', category: 'versionControl', ...NODE, run: analyzeVersionControl },
+  { id: 'deployment', category: 'deployment', ...NODE, run: analyzeDeployment },
+  { id: 'performance', category: 'performance', ...NODE, run: analyzePerformance },
+  { id: 'observability', category: 'observability', ...NODE, run: analyzeObservability },
+  { id: 'privacy', category: 'privacy', ...NODE, run: analyzePrivacy },
+  { id: 'documentation', category: 'documentation', ...NODE, run: analyzeDocumentation },
+]
+
+// Per-language packs, merged into the categories they cover
+export const LANGUAGE_ANALYZERS: Analyzer[] = [
+  ...PYTHON_ANALYZERS,
+  ...GO_ANALYZERS,
+  ...RUST_ANALYZERS,
+]
+
+// Mobile analyzers, limited to their platform as well as its languages
+export const PLATFORM_ANALYZERS: Analyzer[] = [
+  ...IOS_ANALYZERS,
+  ...ANDROID_ANALYZERS,
+  ...REACT_NATIVE_ANALYZERS,
+  ...FLUTTER_ANALYZERS,
+]
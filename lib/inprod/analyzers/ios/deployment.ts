@@ -0,0 +1,131 @@
+// =============================================================================
+// iOS DEPLOYMENT ANALYZER
+// Fastlane, TestFlight / App Store Connect delivery, signing and the
+// Info.plist entries App Review checks
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, fileEvidence } from '../../checks'
+import { appSources, declaresInfoKey, isIOSTest } from './project'
+
+// Using any of these APIs without its usage description crashes the app on
+// first access and gets the build rejected
+const USAGE_DESCRIPTIONS: { key: string; usage: string[] }[] = [
+  { key: 'NSCameraUsageDescription', usage: ['AVCaptureDevice', 'UIImagePickerController.SourceType.camera', 'sourceType = .camera'] },
+  { key: 'NSMicrophoneUsageDescription', usage: ['AVAudioRecorder', 'requestRecordPermission'] },
+  { key: 'NSPhotoLibraryUsageDescription', usage: ['PHPhotoLibrary', 'PHAsset.fetchAssets'] },
+  { key: 'NSLocationWhenInUseUsageDescription', usage: ['requestWhenInUseAuthorization', 'requestAlwaysAuthorization'] },
+  { key: 'NSContactsUsageDescription', usage: ['CNContactStore'] },
+  { key: 'NSCalendarsUsageDescription', usage: ['EKEventStore'] },
+  { key: 'NSFaceIDUsageDescription', usage: ['LAContext'] },
+  { key: 'NSBluetoothAlwaysUsageDescription', usage: ['CBCentralManager', 'CBPeripheralManager'] },
+  { key: 'NSUserTrackingUsageDescription', usage: ['ATTrackingManager'] },
+]
+
+const DELIVERY_ACTIONS = ['upload_to_testflight', 'pilot', 'upload_to_app_store', 'deliver', 'app_store_connect_api_key']
+const SIGNING_ACTIONS = ['match', 'sync_code_signing']
+
+export function analyzeIOSDeployment(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+  const sources = appSources(ctx).filter(f => !isIOSTest(f.path))
+  const fastfile = index.byPath.get('fastlane/Fastfile') || index.byPath.get('Fastfile')
+  const fastfileCalls = (actions: string[]) =>
+    fastfile ? actions.filter(action => new RegExp(`^\\s*${action}\\b`, 'm').test(fastfile.content)) : []
+
+  // 1. Check for Fastlane (25 points)
+  const lanes = fastfile ? [...fastfile.content.matchAll(/^\s*lane\s+:(\w+)/gm)].map(m => m[1]) : []
+
+  if (fastfile) {
+    detected.push(`Fastlane: ${lanes.join(', ') || 'Fastfile'}`)
+    score += 25
+  } else {
+    gaps.push({
+      id: 'deploy-ios-no-fastlane',
+      check: 'deploy-ios-fastlane',
+      category: 'deployment',
+      title: 'No release automation',
+      description: 'Add fastlane (or Xcode Cloud workflows) so builds are signed and uploaded the same way every time',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'guided',
+      effortMinutes: 60,
+    })
+  }
+  checks.push(check('deploy-ios-fastlane', 'Fastlane', 25, fastfile ? 25 : 0,
+    fastfile ? [fastfile.path, ...lanes.slice(0, 4).map(lane => `lane: ${lane}`)] : []))
+
+  // 2. Check builds reach TestFlight / App Store Connect (25 points)
+  const deliveryEvidence = [
+    ...fastfileCalls(DELIVERY_ACTIONS),
+    ...fileEvidence(ctx, 'ios-deploy-delivery', f =>
+      f.path.startsWith('ci_scripts/') ||
+      (f.path.startsWith('.github/workflows/') && (index.contains(f, 'altool') || index.contains(f, 'upload-testflight')))
+    ),
+  ]
+  const hasDelivery = deliveryEvidence.length > 0
+
+  if (hasDelivery) {
+    detected.push('TestFlight / App Store upload automated')
+    score += 25
+  }
+  checks.push(check('deploy-ios-delivery', 'TestFlight / App Store Connect', 25, hasDelivery ? 25 : 0, deliveryEvidence))
+
+  // 3. Check code signing is managed (15 points)
+  const signingEvidence = [
+    ...fastfileCalls(SIGNING_ACTIONS),
+    ...fileEvidence(ctx, 'ios-deploy-signing', f => f.path.endsWith('Matchfile')),
+  ]
+  const hasSigning = signingEvidence.length > 0
+
+  if (hasSigning) {
+    detected.push('Code signing managed with match')
+    score += 15
+  }
+  checks.push(check('deploy-ios-signing', 'Managed code signing', 15, hasSigning ? 15 : 0, signingEvidence))
+
+  // 4. Check privacy-sensitive APIs have usage descriptions (35 points)
+  const required = USAGE_DESCRIPTIONS.filter(entry =>
+    sources.some(f => entry.usage.some(term => index.contains(f, term)))
+  )
+  const missing = required.filter(entry => !declaresInfoKey(ctx, entry.key))
+
+  if (missing.length === 0) {
+    if (required.length > 0) detected.push('Usage descriptions declared')
+    score += 35
+  } else {
+    const [entry] = missing
+    const user = sources.find(f => entry.usage.some(term => index.contains(f, term)))
+    gaps.push({
+      id: 'deploy-ios-missing-usage-description',
+      check: 'deploy-ios-usage-descriptions',
+      category: 'deployment',
+      title: 'Missing permission usage descriptions',
+      description: `Add ${missing.map(e => e.key).join(', ')} to Info.plist; the app crashes when it requests the permission without one`,
+      severity: 'blocker',
+      confidence: 'likely',
+      ...(user && { file: user.path }),
+      fixType: 'suggested',
+      effortMinutes: 5 * missing.length,
+    })
+  }
+  checks.push(check('deploy-ios-usage-descriptions', 'Usage descriptions', 35, missing.length === 0 ? 35 : 0, [
+    ...required.filter(entry => !missing.includes(entry)).map(entry => entry.key),
+    ...missing.map(entry => `missing: ${entry.key}`),
+  ]))
+
+  return {
+    category: 'deployment',
+    label: 'Deployment',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -0,0 +1,24 @@
+// =============================================================================
+// iOS ANALYZERS - Index
+// The security, testing and deployment checks PLATFORM_OVERRIDES.ios lists.
+// Other iOS categories keep the default analyzers.
+// =============================================================================
+
+import { Analyzer } from '../../types'
+import { analyzeIOSSecurity } from './security'
+import { analyzeIOSTesting } from './testing'
+import { analyzeIOSDeployment } from './deployment'
+
+export {
+  analyzeIOSSecurity,
+  analyzeIOSTesting,
+  analyzeIOSDeployment,
+}
+
+const IOS = { platforms: ['ios' as const], languages: ['swift', 'objective-c'] }
+
+export const IOS_ANALYZERS: Analyzer[] = [
+  { id: 'ios-testing', category: 'testing', ...IOS, run: analyzeIOSTesting },
+  { id: 'ios-security', category: 'security', ...IOS, run: analyzeIOSSecurity },
+  { id: 'ios-deployment', category: 'deployment', ...IOS, run: analyzeIOSDeployment },
+]
@@ -0,0 +1,56 @@
+// =============================================================================
+// iOS PROJECT HELPERS
+// Shared by the iOS analyzers: app sources and tests, and lookups into
+// Info.plist and the Xcode build settings
+// =============================================================================
+
+import { RepoContext, RepoFile } from '../../types'
+
+// Dependencies and build output, not the app's own code
+const IGNORED_DIRS = /(^|\/)(Pods|Carthage|\.build|DerivedData|node_modules)\//
+
+/**
+ * CocoaPods, Carthage and SwiftPM checkouts, which carry their own plists and manifests
+ */
+export function isVendored(path: string): boolean {
+  return IGNORED_DIRS.test(path)
+}
+
+/**
+ * The app's Swift and Objective-C sources, tests included
+ */
+export function appSources(ctx: RepoContext): RepoFile[] {
+  return ['.swift', '.m']
+    .flatMap(ext => ctx.index.byExtension.get(ext) || [])
+    .filter(f => !isVendored(f.path))
+}
+
+/**
+ * Files in XCTest bundles, which Xcode names <Target>Tests and <Target>UITests
+ */
+export function isIOSTest(path: string): boolean {
+  return /(^|\/)\w*Tests\//.test(path) || /Tests\.(swift|m)$/.test(path)
+}
+
+export function infoPlists(ctx: RepoContext): RepoFile[] {
+  return (ctx.index.byExtension.get('.plist') || [])
+    .filter(f => f.path.endsWith('Info.plist') && !isVendored(f.path) && !isIOSTest(f.path))
+}
+
+/**
+ * Whether a plist key is set to <true/>. Keys are matched wherever they are
+ * nested, which is enough for the flat dictionaries Info.plist uses.
+ */
+export function plistFlag(content: string, key: string): boolean {
+  return new RegExp(`<key>${key}</key>\\s*<true\\s*/>`).test(content)
+}
+
+/**
+ * Whether an Info.plist entry is declared, either in an Info.plist file or as
+ * an INFOPLIST_KEY_ build setting (Xcode 13+ projects generate the plist)
+ */
+export function declaresInfoKey(ctx: RepoContext, key: string): boolean {
+  const { index } = ctx
+  return infoPlists(ctx).some(f => index.contains(f, `<key>${key}</key>`)) ||
+    (index.byExtension.get('.pbxproj') || []).some(f => index.contains(f, `INFOPLIST_KEY_${key}`))
+}
@@ -0,0 +1,216 @@
+// =============================================================================
+// iOS SECURITY ANALYZER
+// App Transport Security, Keychain storage, entitlements and the privacy manifest
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext, SourceLocation } from '../../types'
+import { check, fileEvidence, skipCheck } from '../../checks'
+import { cached } from '../../cache'
+import { findSecret, locate, withLocations } from '../../locations'
+import { appSources, infoPlists, isIOSTest, isVendored, plistFlag } from './project'
+
+// Credentials written to UserDefaults or @AppStorage, which are plain plists
+// on disk and included in unencrypted backups
+const DEFAULTS_SECRET = /UserDefaults\b.*\.set\(.*(token|password|secret|api_?key|credential)|@AppStorage\(\s*"[^"]*(token|password|secret|api_?key)/i
+const KEYCHAIN_USAGE = ['SecItemAdd', 'SecItemCopyMatching', 'KeychainAccess', 'KeychainSwift', 'Valet', 'SimpleKeychain']
+
+// Required-reason API categories that source usage obliges the manifest to declare
+const REQUIRED_REASON_APIS: { category: string; usage: string[] }[] = [
+  { category: 'NSPrivacyAccessedAPICategoryUserDefaults', usage: ['UserDefaults', '@AppStorage', 'NSUserDefaults'] },
+  { category: 'NSPrivacyAccessedAPICategoryFileTimestamp', usage: ['.creationDate', '.modificationDate', 'NSFileCreationDate', 'NSFileModificationDate'] },
+  { category: 'NSPrivacyAccessedAPICategorySystemBootTime', usage: ['systemUptime', 'mach_absolute_time'] },
+  { category: 'NSPrivacyAccessedAPICategoryDiskSpace', usage: ['volumeAvailableCapacity', 'NSFileSystemFreeSize'] },
+]
+
+export function analyzeIOSSecurity(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+  const sources = appSources(ctx).filter(f => !isIOSTest(f.path))
+  const plists = infoPlists(ctx)
+
+  // 1. Check App Transport Security is on (25 points)
+  const atsDisabled = plists
+    .filter(f => plistFlag(f.content, 'NSAllowsArbitraryLoads'))
+    .flatMap(f => locate(f, '<key>NSAllowsArbitraryLoads</key>'))
+  const insecureExceptions = plists
+    .filter(f => plistFlag(f.content, 'NSExceptionAllowsInsecureHTTPLoads'))
+    .flatMap(f => locate(f, '<key>NSExceptionAllowsInsecureHTTPLoads</key>'))
+  const atsPoints = atsDisabled.length > 0 ? 0 : insecureExceptions.length > 0 ? 15 : 25
+
+  score += atsPoints
+  if (atsDisabled.length > 0) {
+    gaps.push(withLocations({
+      id: 'security-ios-ats-disabled',
+      check: 'security-ios-ats',
+      category: 'security',
+      title: 'App Transport Security disabled',
+      description: 'NSAllowsArbitraryLoads lets the app load plain HTTP from any host. Remove it and add per-domain exceptions only where unavoidable.',
+      severity: 'critical',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 20,
+    }, atsDisabled))
+  } else if (insecureExceptions.length > 0) {
+    gaps.push(withLocations({
+      id: 'security-ios-ats-exceptions',
+      check: 'security-ios-ats',
+      category: 'security',
+      title: 'Insecure HTTP allowed for some domains',
+      description: 'Move these hosts to HTTPS so the ATS exceptions can be removed',
+      severity: 'warning',
+      confidence: 'verified',
+      fixType: 'guided',
+      effortMinutes: 30,
+    }, insecureExceptions))
+  } else {
+    detected.push('App Transport Security enforced')
+  }
+  checks.push(check('security-ios-ats', 'App Transport Security', 25, atsPoints,
+    [...atsDisabled, ...insecureExceptions].map(l => `${l.file}:${l.line}`)))
+
+  // 2. Check credentials are kept in the Keychain (30 points)
+  const defaultsSecrets = sources.flatMap(f => cached(ctx, f, 'ios-security-defaults-secrets', () => locate(f, DEFAULTS_SECRET)))
+  const keychainEvidence = fileEvidence(ctx, 'ios-security-keychain', f =>
+    (f.path.endsWith('.swift') || f.path.endsWith('.m')) && KEYCHAIN_USAGE.some(term => index.contains(f, term))
+  )
+
+  if (defaultsSecrets.length === 0) {
+    if (keychainEvidence.length > 0) detected.push('Credentials stored in Keychain')
+    score += 30
+    checks.push(check('security-ios-keychain', 'Keychain storage', 30, 30, keychainEvidence))
+  } else {
+    gaps.push(withLocations({
+      id: 'security-ios-userdefaults-secrets',
+      check: 'security-ios-keychain',
+      category: 'security',
+      title: 'Credentials stored in UserDefaults',
+      description: 'UserDefaults is an unencrypted plist that ends up in backups. Store tokens and passwords in the Keychain.',
+      severity: 'critical',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 30,
+    }, defaultsSecrets))
+    checks.push(check('security-ios-keychain', 'Keychain storage', 30, 0, defaultsSecrets.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  }
+
+  // 3. Check entitlements don't ship debug capabilities (15 points)
+  const entitlements = (index.byExtension.get('.entitlements') || []).filter(f => !isVendored(f.path))
+  if (entitlements.length > 0) {
+    const debuggable = entitlements
+      .filter(f => !/debug/i.test(f.path) && plistFlag(f.content, 'get-task-allow'))
+      .flatMap(f => locate(f, '<key>get-task-allow</key>'))
+
+    if (debuggable.length === 0) {
+      detected.push(`${entitlements.length} entitlements files`)
+      score += 15
+    } else {
+      gaps.push(withLocations({
+        id: 'security-ios-debug-entitlement',
+        check: 'security-ios-entitlements',
+        category: 'security',
+        title: 'Release entitlements allow debugging',
+        description: 'get-task-allow lets other processes attach to the app. Leave it to Xcode\'s debug signing.',
+        severity: 'warning',
+        confidence: 'verified',
+        fixType: 'suggested',
+        effortMinutes: 10,
+      }, debuggable))
+    }
+    checks.push(check('security-ios-entitlements', 'Entitlements', 15, debuggable.length === 0 ? 15 : 0,
+      entitlements.slice(0, 5).map(f => f.path)))
+  } else {
+    score += 15
+    checks.push(skipCheck('security-ios-entitlements', 'Entitlements', 15, 'No entitlements files'))
+  }
+
+  // 4. Check for a privacy manifest covering required-reason APIs (20 points)
+  // App Store Connect rejects uploads that use these APIs without declaring them
+  const manifest = (index.byExtension.get('.xcprivacy') || []).find(f => !isVendored(f.path))
+  const usedCategories = REQUIRED_REASON_APIS
+    .filter(api => sources.some(f => api.usage.some(term => index.contains(f, term))))
+    .map(api => api.category)
+
+  if (!manifest) {
+    gaps.push({
+      id: 'security-ios-no-privacy-manifest',
+      check: 'security-ios-privacy-manifest',
+      category: 'security',
+      title: 'No privacy manifest',
+      description: usedCategories.length > 0
+        ? `Add a PrivacyInfo.xcprivacy declaring ${usedCategories.join(', ')}`
+        : 'Add a PrivacyInfo.xcprivacy describing collected data and required-reason API use',
+      severity: usedCategories.length > 0 ? 'critical' : 'warning',
+      confidence: 'verified',
+      fixType: 'guided',
+      effortMinutes: 30,
+    })
+    checks.push(check('security-ios-privacy-manifest', 'Privacy manifest', 20, 0, usedCategories))
+  } else {
+    const undeclared = usedCategories.filter(category => !index.contains(manifest, category))
+    const points = undeclared.length === 0 ? 20 : 10
+
+    score += points
+    if (undeclared.length === 0) {
+      detected.push('Privacy manifest present')
+    } else {
+      gaps.push({
+        id: 'security-ios-privacy-manifest-incomplete',
+        check: 'security-ios-privacy-manifest',
+        category: 'security',
+        title: 'Privacy manifest missing API declarations',
+        description: `Declare ${undeclared.join(', ')} with an approved reason in NSPrivacyAccessedAPITypes`,
+        severity: 'warning',
+        confidence: 'likely',
+        file: manifest.path,
+        fixType: 'suggested',
+        effortMinutes: 15,
+      })
+    }
+    checks.push(check('security-ios-privacy-manifest', 'Privacy manifest', 20, points, [
+      manifest.path,
+      ...undeclared.map(category => `missing: ${category}`),
+    ]))
+  }
+
+  // 5. Check for secrets in code (10 points)
+  const secretLocations: SourceLocation[] = []
+  for (const file of sources) {
+    const location = cached(ctx, file, 'security-secrets', () => findSecret(file))
+    if (!location) continue
+    secretLocations.push(location)
+    gaps.push(withLocations({
+      id: `security-hardcoded-secret-${file.path}`,
+      check: 'security-secrets',
+      category: 'security',
+      title: 'Hardcoded secret detected',
+      description: `Potential secret found in ${file.path}; anything in the app bundle can be extracted`,
+      severity: 'blocker',
+      confidence: 'verified',
+      file: file.path,
+      fixType: 'suggested',
+      effortMinutes: 5,
+    }, [location]))
+  }
+
+  if (secretLocations.length === 0) {
+    detected.push('No hardcoded secrets found')
+    score += 10
+  }
+  checks.push(check('security-secrets', 'No hardcoded secrets', 10, secretLocations.length > 0 ? 0 : 10,
+    secretLocations.map(l => `${l.file}:${l.line}`)))
+
+  return {
+    category: 'security',
+    label: 'Security',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
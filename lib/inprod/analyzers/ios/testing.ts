@@ -0,0 +1,117 @@
+// =============================================================================
+// iOS TESTING ANALYZER
+// XCTest / Swift Testing targets, UI tests and how they run in CI
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, fileEvidence } from '../../checks'
+import { appSources, isIOSTest } from './project'
+
+const TEST_IMPORTS = ['import XCTest', 'import Testing', 'import Quick', 'import Nimble', '<XCTest/XCTest.h>']
+
+export function analyzeIOSTesting(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+  const files = appSources(ctx)
+  const testFiles = files.filter(f => isIOSTest(f.path) && TEST_IMPORTS.some(term => index.contains(f, term)))
+  const sourceFiles = files.filter(f => !isIOSTest(f.path))
+
+  // 1. Check for XCTest targets (30 points)
+  const targets = [...new Set(testFiles.map(f => f.path.match(/(^|\/)(\w*Tests)\//)?.[2]).filter(Boolean))] as string[]
+  const usesQuick = testFiles.some(f => index.contains(f, 'import Quick'))
+
+  if (testFiles.length > 0) {
+    detected.push(`Test targets: ${targets.join(', ') || 'XCTest'}${usesQuick ? ' (Quick/Nimble)' : ''}`)
+    score += 30
+  } else {
+    gaps.push({
+      id: 'testing-no-tests',
+      check: 'testing-ios-xctest',
+      category: 'testing',
+      title: 'No XCTest targets',
+      description: 'Add a unit test target (File > New > Target > Unit Testing Bundle) covering models and view models',
+      severity: 'critical',
+      confidence: 'proven',
+      fixType: 'guided',
+      effortMinutes: 60,
+    })
+  }
+  checks.push(check('testing-ios-xctest', 'XCTest targets', 30, testFiles.length > 0 ? 30 : 0, targets))
+
+  // 2. Check test coverage by file ratio (25 points)
+  const unitTests = testFiles.filter(f => !index.contains(f, 'XCUIApplication'))
+  const ratio = sourceFiles.length > 0 ? (unitTests.length / sourceFiles.length) * 100 : 0
+  const ratioPoints = unitTests.length === 0 ? 0 : ratio >= 30 ? 25 : ratio >= 10 ? 15 : 5
+
+  score += ratioPoints
+  checks.push(check('testing-test-files', 'Test file ratio', 25, ratioPoints, [
+    `${unitTests.length} test files / ${sourceFiles.length} source files`,
+  ]))
+
+  // 3. Check for UI tests (15 points)
+  const uiTestEvidence = testFiles.filter(f => index.contains(f, 'XCUIApplication')).map(f => f.path)
+  const hasUITests = uiTestEvidence.length > 0
+
+  if (hasUITests) {
+    detected.push('UI tests')
+    score += 15
+  } else {
+    gaps.push({
+      id: 'testing-ios-no-ui-tests',
+      check: 'testing-ios-ui',
+      category: 'testing',
+      title: 'No UI tests',
+      description: 'Add an XCUITest target that drives the critical flows (sign in, checkout)',
+      severity: 'info',
+      confidence: 'verified',
+      fixType: 'guided',
+      effortMinutes: 60,
+    })
+  }
+  checks.push(check('testing-ios-ui', 'UI tests', 15, hasUITests ? 15 : 0, uiTestEvidence.slice(0, 5)))
+
+  // 4. Check tests run in CI via fastlane scan, xcodebuild or Xcode Cloud (30 points)
+  const ciTestEvidence = fileEvidence(ctx, 'ios-testing-ci', f =>
+    (f.path.endsWith('Fastfile') && (index.contains(f, 'scan') || index.contains(f, 'run_tests'))) ||
+    f.path.startsWith('ci_scripts/') ||
+    ((f.path.startsWith('.github/workflows/') || f.path === 'bitrise.yml' || f.path === '.gitlab-ci.yml') &&
+     (index.contains(f, 'xcodebuild test') || index.contains(f, 'fastlane test') || index.contains(f, 'fastlane scan') ||
+      index.contains(f, 'swift test')))
+  )
+  const hasTestInCI = ciTestEvidence.length > 0
+
+  if (hasTestInCI) {
+    detected.push('Tests run in CI')
+    score += 30
+  } else {
+    gaps.push({
+      id: 'testing-not-in-ci',
+      check: 'testing-ci',
+      category: 'testing',
+      title: 'Tests not running in CI',
+      description: techStack.ciProvider
+        ? 'Run xcodebuild test (or fastlane scan) in the CI workflow'
+        : 'Run the test plan on every push with fastlane scan, Xcode Cloud or a macOS CI runner',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 20,
+    })
+  }
+  checks.push(check('testing-ci', 'Tests run in CI', 30, hasTestInCI ? 30 : 0, ciTestEvidence))
+
+  return {
+    category: 'testing',
+    label: 'Testing',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -0,0 +1,260 @@
+// =============================================================================
+// OBSERVABILITY ANALYZER
+// Tracing, metrics, request ids, log correlation and uptime checks
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../types'
+import { check, depEvidence, fileEvidence, notApplicable, skipCheck } from '../checks'
+
+const SERVER_FRAMEWORKS = ['next.js', 'nuxt', 'sveltekit', 'remix', 'express', 'fastify', 'nestjs', 'hono']
+
+const OTEL_PACKAGES = ['@opentelemetry/sdk-node', '@opentelemetry/sdk-trace-node', '@vercel/otel', '@opentelemetry/api']
+
+// Instrumentations that inject traceparent into outgoing requests
+const PROPAGATING_PACKAGES = [
+  '@opentelemetry/auto-instrumentations-node',
+  '@opentelemetry/instrumentation-undici',
+  '@opentelemetry/instrumentation-http',
+  '@opentelemetry/instrumentation-fetch',
+  '@vercel/otel',
+]
+
+const METRICS_PACKAGES = [
+  'prom-client',
+  '@opentelemetry/exporter-prometheus',
+  '@opentelemetry/exporter-metrics-otlp-http',
+  '@opentelemetry/exporter-metrics-otlp-grpc',
+  'hot-shots',
+  'node-statsd',
+  'statsd-client',
+]
+
+const STRUCTURED_LOGGERS = ['pino', 'winston', 'bunyan']
+
+// Loggers that stamp each line with the request or trace id
+const CORRELATING_PACKAGES = [
+  'pino-http',
+  'express-winston',
+  'cls-rtracer',
+  '@opentelemetry/instrumentation-pino',
+  '@opentelemetry/instrumentation-winston',
+  '@opentelemetry/instrumentation-bunyan',
+]
+
+const REQUEST_ID_PACKAGES = ['express-request-id', 'cls-rtracer', 'pino-http']
+
+const UPTIME_SERVICES = /checkly|betteruptime|better-uptime|uptimerobot|pingdom|google_monitoring_uptime_check_config|datadog_synthetics_test/i
+
+export function analyzeObservability(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+  const { deps } = index
+  const hasServer = index.routes.length > 0 || techStack.frameworks.some(fw => SERVER_FRAMEWORKS.includes(fw))
+  if (!hasServer) return notApplicable('observability', 'No server code detected')
+
+  const isNext = techStack.frameworks.includes('next.js')
+
+  // 1. Check an OpenTelemetry SDK is installed and started (25 points)
+  const otelPackages = depEvidence(deps, OTEL_PACKAGES)
+  const startEvidence = fileEvidence(ctx, 'obs-otel-start', f =>
+    index.contains(f, 'registerOTel(') ||
+    index.contains(f, 'new NodeSDK(') ||
+    index.contains(f, 'NodeTracerProvider(') ||
+    index.contains(f, '@opentelemetry/auto-instrumentations-node/register')
+  )
+  const hasTracing = startEvidence.length > 0
+  const tracingPoints = hasTracing ? 25 : otelPackages.length > 0 ? 10 : 0
+
+  score += tracingPoints
+  if (hasTracing) {
+    detected.push('OpenTelemetry tracing')
+  } else if (otelPackages.length > 0) {
+    gaps.push({
+      id: 'obs-tracing-not-started',
+      check: 'obs-tracing',
+      category: 'observability',
+      title: 'OpenTelemetry installed but never started',
+      description: isNext
+        ? 'Call registerOTel() from instrumentation.ts so spans are recorded and exported'
+        : 'Start the NodeSDK before the app loads (node --require ./tracing.js) so spans are recorded and exported',
+      severity: 'warning',
+      confidence: 'likely',
+      fixType: 'instant',
+      fixTemplate: 'otel-setup',
+      effortMinutes: 20,
+    })
+  } else {
+    gaps.push({
+      id: 'obs-no-tracing',
+      check: 'obs-tracing',
+      category: 'observability',
+      title: 'No distributed tracing',
+      description: 'Set up the OpenTelemetry SDK to follow a slow request through your services and database',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'instant',
+      fixTemplate: 'otel-setup',
+      effortMinutes: 30,
+    })
+  }
+  checks.push(check('obs-tracing', 'OpenTelemetry tracing', 25, tracingPoints, [...otelPackages, ...startEvidence].slice(0, 5)))
+
+  // 2. Check outgoing requests carry the trace context (15 points)
+  if (!hasTracing) {
+    score += 15
+    checks.push(skipCheck('obs-trace-propagation', 'Trace propagation', 15, 'No tracing SDK'))
+  } else {
+    const propagationEvidence = [
+      ...depEvidence(deps, PROPAGATING_PACKAGES),
+      ...fileEvidence(ctx, 'obs-trace-propagation', f =>
+        index.contains(f, 'propagation.inject') || index.contains(f, 'traceparent')
+      ),
+    ]
+    const propagates = propagationEvidence.length > 0
+
+    if (propagates) {
+      detected.push('Trace context propagated to fetch calls')
+      score += 15
+    } else {
+      gaps.push({
+        id: 'obs-no-trace-propagation',
+        check: 'obs-trace-propagation',
+        category: 'observability',
+        title: 'Traces stop at outgoing requests',
+        description: 'Add @opentelemetry/instrumentation-undici (fetch) and instrumentation-http, or call propagation.inject in your API client, so downstream services join the trace',
+        severity: 'info',
+        confidence: 'likely',
+        fixType: 'suggested',
+        effortMinutes: 15,
+      })
+    }
+    checks.push(check('obs-trace-propagation', 'Trace propagation', 15, propagates ? 15 : 0, propagationEvidence))
+  }
+
+  // 3. Check for a metrics exporter (20 points)
+  const metricsEvidence = depEvidence(deps, METRICS_PACKAGES)
+  const hasMetrics = metricsEvidence.length > 0
+
+  if (hasMetrics) {
+    detected.push(`Metrics: ${metricsEvidence.map(e => e.replace('package: ', '')).join(', ')}`)
+    score += 20
+  } else {
+    gaps.push({
+      id: 'obs-no-metrics',
+      check: 'obs-metrics',
+      category: 'observability',
+      title: 'No metrics exported',
+      description: 'Export request rates, latencies and error counts with prom-client (Prometheus) or hot-shots (StatsD)',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'instant',
+      fixTemplate: 'metrics-endpoint',
+      effortMinutes: 20,
+    })
+  }
+  checks.push(check('obs-metrics', 'Metrics exporter', 20, hasMetrics ? 20 : 0, metricsEvidence))
+
+  // 4. Check requests get an id (15 points)
+  const requestIdEvidence = [
+    ...depEvidence(deps, REQUEST_ID_PACKAGES),
+    ...fileEvidence(ctx, 'obs-request-id', f =>
+      /\.(ts|js|mjs|cjs)$/.test(f.path) && (/x-(request|correlation)-id/i.test(f.content) || index.contains(f, 'genReqId'))
+    ),
+  ]
+  const hasRequestId = requestIdEvidence.length > 0
+
+  if (hasRequestId) {
+    detected.push('Request ids assigned')
+    score += 15
+  } else {
+    gaps.push({
+      id: 'obs-no-request-id',
+      check: 'obs-request-id',
+      category: 'observability',
+      title: 'No request id middleware',
+      description: 'Assign each request an id (x-request-id), return it in the response and log it, so a user report can be matched to its logs',
+      severity: 'info',
+      confidence: 'high',
+      fixType: 'instant',
+      fixTemplate: 'request-id-middleware',
+      effortMinutes: 10,
+    })
+  }
+  checks.push(check('obs-request-id', 'Request ids', 15, hasRequestId ? 15 : 0, requestIdEvidence))
+
+  // 5. Check logs are structured and correlated (15 points)
+  const loggerEvidence = depEvidence(deps, STRUCTURED_LOGGERS)
+  const correlationEvidence = [
+    ...depEvidence(deps, CORRELATING_PACKAGES),
+    ...fileEvidence(ctx, 'obs-log-correlation', f =>
+      /\.(ts|js|mjs|cjs)$/.test(f.path) &&
+      /\b(trace_?id|span_?id|request_?id)\b/i.test(f.content) &&
+      /\blog(ger)?\.(child|info|warn|error)\(|\bmixin\s*[:(]/.test(f.content)
+    ),
+  ]
+  const logPoints = (loggerEvidence.length > 0 ? 5 : 0) + (loggerEvidence.length > 0 && correlationEvidence.length > 0 ? 10 : 0)
+
+  score += logPoints
+  if (logPoints === 15) {
+    detected.push('Logs correlated with requests')
+  } else {
+    gaps.push({
+      id: 'obs-no-log-correlation',
+      check: 'obs-log-correlation',
+      category: 'observability',
+      title: loggerEvidence.length > 0 ? 'Logs not correlated with requests' : 'No structured logger',
+      description: loggerEvidence.length > 0
+        ? 'Add the request and trace id to every log line (pino-http, a logger.child per request, or the OpenTelemetry log instrumentation)'
+        : 'Log JSON with pino or winston and include the request and trace id, so logs can be searched and joined to traces',
+      severity: 'info',
+      confidence: 'likely',
+      fixType: 'guided',
+      effortMinutes: 30,
+    })
+  }
+  checks.push(check('obs-log-correlation', 'Log correlation', 15, logPoints, [...loggerEvidence, ...correlationEvidence].slice(0, 5)))
+
+  // 6. Check something pings the app from outside (10 points)
+  const uptimeEvidence = [
+    ...depEvidence(deps, ['checkly']),
+    ...fileEvidence(ctx, 'obs-uptime', f =>
+      /(^|\/)(checkly\.config\.[jt]s|__checks__\/)/.test(f.path) ||
+      (/\.(ya?ml|tf|json)$/.test(f.path) && UPTIME_SERVICES.test(f.content)) ||
+      (f.path.includes('.github/workflows') && index.contains(f, 'schedule:') && index.contains(f, '/health'))
+    ),
+  ]
+  const hasUptime = uptimeEvidence.length > 0
+
+  if (hasUptime) {
+    detected.push('Uptime checks configured')
+    score += 10
+  } else {
+    gaps.push({
+      id: 'obs-no-uptime-checks',
+      check: 'obs-uptime',
+      category: 'observability',
+      title: 'No uptime checks',
+      description: 'Have Checkly, Better Uptime or a scheduled workflow hit the health endpoint so you hear about outages before your users do',
+      severity: 'info',
+      confidence: 'likely',
+      fixType: 'guided',
+      effortMinutes: 15,
+    })
+  }
+  checks.push(check('obs-uptime', 'Uptime checks', 10, hasUptime ? 10 : 0, uptimeEvidence))
+
+  return {
+    category: 'observability',
+    label: 'Observability',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -0,0 +1,264 @@
+// =============================================================================
+// PERFORMANCE ANALYZER
+// Static bundle and rendering heuristics: client/server split, images, heavy
+// dependencies, code splitting and data caching
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext, RepoFile, SourceLocation } from '../types'
+import { check, fileEvidence, notApplicable, skipCheck } from '../checks'
+import { cached } from '../cache'
+import { locate, withLocations } from '../locations'
+import { jsxElements, splitsCode, uncachedFetches } from '../ast'
+
+// The directive has to come before any code, comments aside
+const USE_CLIENT = /^(?:\s|\/\/[^\n]*\n|\/\*[\s\S]*?\*\/)*['"]use client['"]/
+const FORCE_DYNAMIC = /export\s+const\s+dynamic\s*=\s*['"]force-dynamic['"]/
+const COMPONENT = /\.(tsx|jsx)$/
+
+// Packages that pull far more into the bundle than most apps use
+const HEAVY_IMPORTS: { name: string; pattern: RegExp; alternative: string }[] = [
+  { name: 'moment', pattern: /(from\s*|require\(\s*)['"]moment['"]/, alternative: 'date-fns or dayjs' },
+  { name: 'lodash', pattern: /(from\s*|require\(\s*)['"]lodash['"]/, alternative: 'per-method imports (lodash/debounce) or lodash-es' },
+]
+
+// Past this a client component is worth loading on demand
+const LARGE_COMPONENT_LINES = 300
+
+// Share of app/ components marked 'use client' beyond which the server/client split is lost
+const MAX_CLIENT_SHARE = 0.5
+const MIN_COMPONENTS = 6
+
+export function analyzePerformance(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+  const hasFrontend = techStack.frameworks.some(f =>
+    ['react', 'vue', 'svelte', 'angular', 'next.js', 'nuxt', 'sveltekit'].includes(f)
+  )
+  if (!hasFrontend) return notApplicable('performance', 'No frontend detected')
+
+  const isNext = techStack.frameworks.includes('next.js')
+  const clientSet = new Set(index.sourceFiles.filter(f => cached(ctx, f, 'perf-use-client', () => USE_CLIENT.test(f.content))))
+  const isClient = (f: RepoFile) => clientSet.has(f)
+  const appComponents = index.sourceFiles.filter(f => /(^|\/)app\//.test(f.path) && COMPONENT.test(f.path))
+  const usesAppRouter = isNext && appComponents.some(f => /(^|\/)page\.(tsx|jsx)$/.test(f.path))
+
+  const routes = new Set(index.routes)
+
+  // What ships to the browser: client components and pages/ in Next.js, everything else in an SPA
+  const clientFiles = isNext
+    ? index.sourceFiles.filter(f => isClient(f) || /(^|\/)pages\/(?!api\/)/.test(f.path))
+    : index.sourceFiles.filter(f => !routes.has(f))
+
+  // 1. Check 'use client' is pushed down to the leaves (20 points)
+  if (usesAppRouter) {
+    const clientComponents = appComponents.filter(isClient)
+    const clientShare = clientComponents.length / appComponents.length
+    const overused = appComponents.length >= MIN_COMPONENTS && clientShare > MAX_CLIENT_SHARE
+    const clientRoots = clientComponents
+      .filter(f => /(^|\/)(page|layout)\.(tsx|jsx)$/.test(f.path))
+      .flatMap(f => locate(f, /['"]use client['"]/, 1))
+    const clientPoints = (overused ? 0 : 10) + (clientRoots.length > 0 ? 0 : 10)
+
+    score += clientPoints
+    if (clientRoots.length > 0) {
+      gaps.push(withLocations({
+        id: 'perf-client-page',
+        check: 'perf-use-client',
+        category: 'performance',
+        title: 'Pages or layouts marked \'use client\'',
+        description: 'Everything these files import ships as client JavaScript. Keep pages and layouts on the server and move interactivity into small client components.',
+        severity: 'warning',
+        confidence: 'verified',
+        fixType: 'guided',
+        effortMinutes: 45,
+      }, clientRoots))
+    }
+    if (overused) {
+      gaps.push({
+        id: 'perf-use-client-overuse',
+        check: 'perf-use-client',
+        category: 'performance',
+        title: '\'use client\' on most components',
+        description: `${clientComponents.length} of ${appComponents.length} app/ components are client components, so most of the UI is hydrated in the browser`,
+        severity: 'warning',
+        confidence: 'likely',
+        fixType: 'guided',
+        effortMinutes: 120,
+      })
+    }
+    if (clientPoints === 20) detected.push('Server components by default')
+    checks.push(check('perf-use-client', 'Server/client split', 20, clientPoints,
+      [`${clientComponents.length}/${appComponents.length} client components`, ...clientRoots.map(l => `${l.file}:${l.line}`)].slice(0, 5)))
+  } else {
+    score += 20
+    checks.push(skipCheck('perf-use-client', 'Server/client split', 20, 'No Next.js App Router'))
+  }
+
+  // 2. Check images go through next/image (15 points)
+  if (isNext) {
+    const rawImages = index.sourceFiles
+      .filter(f => COMPONENT.test(f.path) && index.contains(f, '<img'))
+      .flatMap(f => cached(ctx, f, 'perf-raw-img', () => {
+        const source = index.ast(f)
+        return source ? jsxElements(source).filter(e => e.tag === 'img').map(e => e.location) : []
+      }))
+
+    if (rawImages.length === 0) {
+      score += 15
+    } else {
+      gaps.push(withLocations({
+        id: 'perf-raw-img',
+        check: 'perf-images',
+        category: 'performance',
+        title: 'Raw <img> instead of next/image',
+        description: 'next/image resizes, lazy-loads and serves modern formats. Plain <img> tags ship full-size images and shift the layout.',
+        severity: 'warning',
+        confidence: 'verified',
+        fixType: 'suggested',
+        effortMinutes: 5 * Math.min(rawImages.length, 12),
+      }, rawImages))
+    }
+    checks.push(check('perf-images', 'Optimized images', 15, rawImages.length === 0 ? 15 : 0,
+      rawImages.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  } else {
+    score += 15
+    checks.push(skipCheck('perf-images', 'Optimized images', 15, 'Not a Next.js app'))
+  }
+
+  // 3. Check for heavy client-side dependencies (20 points)
+  const heavy: SourceLocation[] = []
+  const heavyPackages = new Set<string>()
+  for (const { name, pattern } of HEAVY_IMPORTS) {
+    const locations = clientFiles.flatMap(f => cached(ctx, f, `perf-heavy-${name}`, () => locate(f, pattern, 1)))
+    if (locations.length > 0) heavyPackages.add(name)
+    heavy.push(...locations)
+  }
+
+  if (heavy.length === 0) {
+    score += 20
+  } else {
+    const alternatives = HEAVY_IMPORTS.filter(h => heavyPackages.has(h.name)).map(h => `${h.name}: ${h.alternative}`)
+    gaps.push(withLocations({
+      id: 'perf-heavy-dependencies',
+      check: 'perf-heavy-dependencies',
+      category: 'performance',
+      title: 'Heavy dependencies in client code',
+      description: `Whole-package imports bloat the bundle. Switch to ${alternatives.join('; ')}.`,
+      severity: 'warning',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 30,
+    }, heavy))
+  }
+  checks.push(check('perf-heavy-dependencies', 'Lean client dependencies', 20, heavy.length === 0 ? 20 : 0,
+    heavy.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+
+  // 4. Check large components are loaded on demand (15 points)
+  const lineCount = (f: RepoFile) => f.content.split('\n').length
+  const largeComponents = clientFiles
+    .filter(f => COMPONENT.test(f.path) && lineCount(f) > LARGE_COMPONENT_LINES)
+    .sort((a, b) => lineCount(b) - lineCount(a))
+  const splitEvidence = fileEvidence(ctx, 'perf-code-splitting', f => {
+    if (!/\.[cm]?[jt]sx?$/.test(f.path) || !(index.contains(f, 'import(') || index.contains(f, 'lazy('))) return false
+    const source = index.ast(f)
+    return !!source && splitsCode(source)
+  })
+  const splits = largeComponents.length === 0 || splitEvidence.length > 0
+
+  if (splits) {
+    if (splitEvidence.length > 0) detected.push('Code splitting with dynamic imports')
+    score += 15
+  } else {
+    const [largest] = largeComponents
+    gaps.push({
+      id: 'perf-no-code-splitting',
+      check: 'perf-code-splitting',
+      category: 'performance',
+      title: 'Large components loaded up front',
+      description: `${largeComponents.length} client components exceed ${LARGE_COMPONENT_LINES} lines. Load modals, editors and charts with ${isNext ? 'next/dynamic' : 'React.lazy'} so they leave the initial bundle.`,
+      severity: 'info',
+      confidence: 'likely',
+      file: largest.path,
+      fixType: 'suggested',
+      effortMinutes: 30,
+    })
+  }
+  checks.push(check('perf-code-splitting', 'Code splitting', 15, splits ? 15 : 0,
+    splitEvidence.length > 0 ? splitEvidence : largeComponents.slice(0, 5).map(f => f.path)))
+
+  // 5. Check server components cache their fetches (15 points)
+  if (usesAppRouter) {
+    const uncached = appComponents
+      .filter(f => !isClient(f) && index.contains(f, 'fetch('))
+      .flatMap(f => cached(ctx, f, 'perf-uncached-fetch', () => {
+        const source = index.ast(f)
+        return source ? uncachedFetches(source) : []
+      }))
+
+    if (uncached.length === 0) {
+      score += 15
+    } else {
+      gaps.push(withLocations({
+        id: 'perf-uncached-fetch',
+        check: 'perf-fetch-cache',
+        category: 'performance',
+        title: 'Uncached fetch in server components',
+        description: 'Next.js 15 refetches these on every request. Pass { next: { revalidate } } or cache: \'force-cache\' where the data can be stale.',
+        severity: 'warning',
+        confidence: 'likely',
+        fixType: 'suggested',
+        effortMinutes: 15,
+      }, uncached))
+    }
+    checks.push(check('perf-fetch-cache', 'Cached data fetching', 15, uncached.length === 0 ? 15 : 0,
+      uncached.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  } else {
+    score += 15
+    checks.push(skipCheck('perf-fetch-cache', 'Cached data fetching', 15, 'No Next.js App Router'))
+  }
+
+  // 6. Check static rendering isn't switched off wholesale (15 points)
+  if (usesAppRouter) {
+    const routeSegments = index.sourceFiles.filter(f => /(^|\/)app\/(.*\/)?(page|layout|route)\.(tsx|jsx|ts|js)$/.test(f.path))
+    const forced = routeSegments.filter(f => cached(ctx, f, 'perf-force-dynamic', () => FORCE_DYNAMIC.test(f.content)))
+    const rootForced = forced.filter(f => /(^|\/)app\/layout\.(tsx|jsx|ts|js)$/.test(f.path))
+    const widespread = forced.length >= 3 && forced.length > routeSegments.length / 2
+    const flagged = rootForced.length > 0 ? rootForced : widespread ? forced : []
+
+    if (flagged.length === 0) {
+      score += 15
+    } else {
+      gaps.push(withLocations({
+        id: 'perf-force-dynamic',
+        check: 'perf-static-rendering',
+        category: 'performance',
+        title: rootForced.length > 0 ? 'Whole app forced to render dynamically' : 'force-dynamic on most routes',
+        description: 'force-dynamic opts out of static rendering and the data cache. Remove it and mark only the routes that read cookies or headers as dynamic.',
+        severity: 'warning',
+        confidence: 'verified',
+        fixType: 'suggested',
+        effortMinutes: 30,
+      }, flagged.flatMap(f => locate(f, FORCE_DYNAMIC, 1))))
+    }
+    checks.push(check('perf-static-rendering', 'Static rendering', 15, flagged.length === 0 ? 15 : 0,
+      forced.slice(0, 5).map(f => f.path)))
+  } else {
+    score += 15
+    checks.push(skipCheck('perf-static-rendering', 'Static rendering', 15, 'No Next.js App Router'))
+  }
+
+  return {
+    category: 'performance',
+    label: 'Performance',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -0,0 +1,284 @@
+// =============================================================================
+// PRIVACY ANALYZER
+// Personal data in the schema and logs, data subject rights (deletion,
+// export), analytics consent and the privacy policy
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext, RepoFile, Severity, SourceLocation } from '../types'
+import { check, depEvidence, fileEvidence, notApplicable, skipCheck } from '../checks'
+import { cached } from '../cache'
+import { locate, redactSnippet, withLocations } from '../locations'
+
+interface PiiField {
+  name: string
+  model: string
+  kind: string
+  sensitive: boolean // Special category or financial data, the costliest to leak
+  location: SourceLocation
+}
+
+// Matched against field names lowercased with _ and - removed; first match wins
+const PII_KINDS: { kind: string; pattern: RegExp; sensitive?: boolean }[] = [
+  { kind: 'government id', pattern: /ssn|socialsecurity|passport|nationalid|taxid|driverslicen[cs]e/, sensitive: true },
+  { kind: 'payment', pattern: /iban|cardnumber|creditcard|bankaccount/, sensitive: true },
+  { kind: 'health', pattern: /health|medical|diagnos/, sensitive: true },
+  { kind: 'email', pattern: /email/ },
+  { kind: 'phone', pattern: /phone|^mobile(number)?$/ },
+  { kind: 'name', pattern: /^(first|last|full|middle|given|family)name$|^surname$/ },
+  { kind: 'ip address', pattern: /^ip(address|addr)?$|loginip$/ },
+  { kind: 'address', pattern: /^(street|home|billing|shipping|postal)?address(line)?\d?$|^street$|postcode|postalcode|zipcode/ },
+  { kind: 'birth date', pattern: /birth|^dob$/ },
+]
+
+// SQL table-level clauses that look like column definitions
+const SQL_CONSTRAINT = /^(primary|constraint|foreign|unique|key|index|check)$/i
+
+// Personal data passed to a console or logger call on the same line
+const LOGGED_PII = /\b(?:console|logger|log)\.(?:log|info|warn|error|debug|trace)\([^)\n]*\b(?:email|phone(?:Number)?|ssn|address|dateOfBirth|dob|passport|cardNumber|creditCard|iban|firstName|lastName|fullName|ipAddress)\b/i
+
+const ANALYTICS_PACKAGES = [
+  'posthog-js', 'mixpanel-browser', '@segment/analytics-next', 'react-ga4', 'react-ga',
+  '@amplitude/analytics-browser', 'amplitude-js', 'react-facebook-pixel', '@hotjar/browser',
+]
+// Tags pasted into layouts rather than installed from npm
+const ANALYTICS_TAG = /googletagmanager\.com|google-analytics\.com|<GoogleAnalytics\b|<GoogleTagManager\b|\bfbq\(\s*['"]init|static\.hotjar\.com|cdn\.segment\.com/
+
+const CONSENT_PACKAGES = ['react-cookie-consent', 'vanilla-cookieconsent', 'cookieconsent', 'klaro', '@cookiehub/cookiehub', 'react-consent-manager']
+const CONSENT_GATE = /cookie-?consent|hasConsent|consentGiven|gtag\(\s*['"]consent['"]|opt_out_capturing|opt_in_capturing|CookieBanner|ConsentBanner/i
+
+const ACCOUNT_DELETION = /\.(user|account|customer|profile|member)\.delete(Many)?\(|deleteAccount|deleteUser|eraseUser|anonymi[sz]eUser/i
+const DATA_EXPORT = /exportUserData|exportAccount|exportMyData|downloadMyData|dataExport|(account|user|me|profile)[/-]export|export[-_]?(user|account|my)[-_]?data/i
+const PRIVACY_PAGE = /(^|\/)privacy(-policy)?(\/(page|index))?\.(tsx|jsx|mdx?|html|astro|vue|svelte)$/
+
+export function analyzePrivacy(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+  const { deps } = index
+  const hasFrontend = techStack.frameworks.some(f =>
+    ['react', 'vue', 'svelte', 'angular', 'next.js', 'nuxt', 'sveltekit'].includes(f)
+  )
+
+  const schemas = ctx.files.filter(f => /\.(prisma|sql)$/.test(f.path) && !f.path.includes('node_modules/'))
+  const pii = schemas.flatMap(f => cached(ctx, f, 'privacy-pii-fields', () => piiFields(f)))
+  if (pii.length === 0 && !hasFrontend) return notApplicable('privacy', 'No personal data or frontend detected')
+
+  // The more personal data the schema holds, the more the other gaps cost
+  const sensitive = pii.filter(f => f.sensitive)
+  const piiSeverity: Severity = sensitive.length > 0 ? 'critical' : pii.length >= 5 ? 'warning' : 'info'
+  if (pii.length > 0) {
+    const kinds = [...new Set(pii.map(f => f.kind))]
+    const models = new Set(pii.map(f => f.model))
+    detected.push(`Personal data in ${[...models].join(', ')}: ${kinds.join(', ')}`)
+  }
+
+  // 1. Check sensitive personal data isn't stored in plain columns (15 points)
+  if (sensitive.length === 0) {
+    score += 15
+  } else {
+    gaps.push(withLocations({
+      id: 'privacy-sensitive-fields',
+      check: 'privacy-sensitive-fields',
+      category: 'privacy',
+      title: 'Sensitive personal data stored in plain columns',
+      description: `${[...new Set(sensitive.map(f => f.kind))].join(', ')} data is the costliest to leak and the GDPR treats it as special. Tokenize card data with your payment provider and encrypt the rest at the field level.`,
+      severity: 'critical',
+      confidence: 'likely',
+      fixType: 'guided',
+      effortMinutes: 120,
+    }, sensitive.map(f => f.location)))
+  }
+  checks.push(check('privacy-sensitive-fields', 'Sensitive data storage', 15, sensitive.length === 0 ? 15 : 0,
+    sensitive.slice(0, 5).map(f => `${f.model}.${f.name}`)))
+
+  // 2. Check personal data stays out of logs (20 points)
+  const loggedPii = index.sourceFiles.flatMap(f => cached(ctx, f, 'privacy-logged-pii', () => locate(f, LOGGED_PII)))
+
+  if (loggedPii.length === 0) {
+    score += 20
+  } else {
+    gaps.push(withLocations({
+      id: 'privacy-pii-in-logs',
+      check: 'privacy-logs',
+      category: 'privacy',
+      title: 'Personal data written to logs',
+      description: 'Logs are kept longer and read by more people than the database. Log user ids instead, or redact fields (pino\'s redact option).',
+      severity: piiSeverity === 'info' ? 'warning' : piiSeverity,
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 5 * Math.min(loggedPii.length, 12),
+    }, loggedPii))
+  }
+  checks.push(check('privacy-logs', 'No personal data in logs', 20, loggedPii.length === 0 ? 20 : 0,
+    loggedPii.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+
+  // 3. Check users can delete their account (20 points)
+  // 4. Check users can export their data (10 points)
+  if (pii.length === 0) {
+    score += 30
+    checks.push(skipCheck('privacy-account-deletion', 'Account deletion', 20, 'No personal data in the schema'))
+    checks.push(skipCheck('privacy-data-export', 'Data export', 10, 'No personal data in the schema'))
+  } else {
+    const deletionEvidence = fileEvidence(ctx, 'privacy-account-deletion', f =>
+      /\.[cm]?[jt]sx?$/.test(f.path) && ACCOUNT_DELETION.test(f.content)
+    )
+    const exportEvidence = fileEvidence(ctx, 'privacy-data-export', f =>
+      /\.[cm]?[jt]sx?$/.test(f.path) && (DATA_EXPORT.test(f.path) || DATA_EXPORT.test(f.content))
+    )
+
+    if (deletionEvidence.length > 0) {
+      detected.push('Account deletion')
+      score += 20
+    } else {
+      gaps.push({
+        id: 'privacy-no-account-deletion',
+        check: 'privacy-account-deletion',
+        category: 'privacy',
+        title: 'No way to delete an account',
+        description: 'The GDPR right to erasure means users must be able to delete their account and personal data. Add an endpoint that deletes or anonymizes the user and their related records.',
+        severity: piiSeverity,
+        confidence: 'likely',
+        fixType: 'guided',
+        effortMinutes: 120,
+      })
+    }
+    checks.push(check('privacy-account-deletion', 'Account deletion', 20, deletionEvidence.length > 0 ? 20 : 0, deletionEvidence))
+
+    if (exportEvidence.length > 0) {
+      detected.push('Personal data export')
+      score += 10
+    } else {
+      gaps.push({
+        id: 'privacy-no-data-export',
+        check: 'privacy-data-export',
+        category: 'privacy',
+        title: 'No personal data export',
+        description: 'The GDPR right to access and portability means users can ask for a copy of their data. Add an endpoint that returns it as JSON.',
+        severity: piiSeverity === 'critical' ? 'warning' : 'info',
+        confidence: 'likely',
+        fixType: 'guided',
+        effortMinutes: 90,
+      })
+    }
+    checks.push(check('privacy-data-export', 'Data export', 10, exportEvidence.length > 0 ? 10 : 0, exportEvidence))
+  }
+
+  // 5. Check analytics wait for consent (20 points)
+  const analyticsPackages = depEvidence(deps, ANALYTICS_PACKAGES)
+  const analyticsTags = index.sourceFiles
+    .concat(ctx.files.filter(f => f.path.endsWith('.html')))
+    .flatMap(f => cached(ctx, f, 'privacy-analytics-tags', () => locate(f, ANALYTICS_TAG, 1)))
+
+  if (analyticsPackages.length === 0 && analyticsTags.length === 0) {
+    score += 20
+    checks.push(skipCheck('privacy-analytics-consent', 'Analytics consent', 20, 'No analytics detected'))
+  } else {
+    const consentEvidence = [
+      ...depEvidence(deps, CONSENT_PACKAGES),
+      ...fileEvidence(ctx, 'privacy-consent', f => /\.[cm]?[jt]sx?$/.test(f.path) && CONSENT_GATE.test(f.content)),
+    ]
+    const gated = consentEvidence.length > 0
+
+    if (gated) {
+      detected.push('Analytics gated on consent')
+      score += 20
+    } else {
+      const names = [...analyticsPackages.map(e => e.replace('package: ', '')), ...(analyticsTags.length > 0 ? ['tag scripts'] : [])]
+      gaps.push(withLocations({
+        id: 'privacy-analytics-no-consent',
+        check: 'privacy-analytics-consent',
+        category: 'privacy',
+        title: 'Analytics load without consent',
+        description: `${names.join(', ')} set tracking cookies before the user agrees. The GDPR and ePrivacy rules require opt-in: show a consent banner and load analytics only after it is accepted.`,
+        severity: 'warning',
+        confidence: 'likely',
+        fixType: 'guided',
+        effortMinutes: 60,
+      }, analyticsTags))
+    }
+    checks.push(check('privacy-analytics-consent', 'Analytics consent', 20, gated ? 20 : 0,
+      [...analyticsPackages, ...consentEvidence].slice(0, 5)))
+  }
+
+  // 6. Check for a privacy policy (15 points)
+  if (!hasFrontend) {
+    score += 15
+    checks.push(skipCheck('privacy-policy', 'Privacy policy', 15, 'No frontend'))
+  } else {
+    const policyEvidence = fileEvidence(ctx, 'privacy-policy', f =>
+      PRIVACY_PAGE.test(f.path) || /href=\{?['"`][^'"`]*privacy/i.test(f.content)
+    )
+
+    if (policyEvidence.length > 0) {
+      detected.push('Privacy policy')
+      score += 15
+    } else {
+      gaps.push({
+        id: 'privacy-no-policy',
+        check: 'privacy-policy',
+        category: 'privacy',
+        title: 'No privacy policy page',
+        description: 'Say what personal data you collect, why, who you share it with and how users exercise their rights, and link the page from the footer and sign-up form',
+        severity: pii.length > 0 ? piiSeverity : 'info',
+        confidence: 'likely',
+        fixType: 'guided',
+        effortMinutes: 60,
+      })
+    }
+    checks.push(check('privacy-policy', 'Privacy policy', 15, policyEvidence.length > 0 ? 15 : 0, policyEvidence))
+  }
+
+  return {
+    category: 'privacy',
+    label: 'Privacy',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
+
+/**
+ * Personal data columns in a Prisma schema or SQL CREATE TABLE statements
+ */
+function piiFields(file: RepoFile): PiiField[] {
+  const isPrisma = file.path.endsWith('.prisma')
+  const opener = isPrisma ? /^\s*model\s+(\w+)\s*\{/ : /create\s+table\s+(?:if\s+not\s+exists\s+)?["`]?(?:\w+["`]?\.["`]?)?(\w+)["`]?\s*\(/i
+  const closer = isPrisma ? /^\s*\}/ : /^\s*\)\s*;?/
+  const column = isPrisma ? /^\s*(\w+)\s+\w/ : /^\s*["`]?(\w+)["`]?\s+\w/
+
+  const fields: PiiField[] = []
+  let model: string | undefined
+  file.content.split('\n').forEach((line, i) => {
+    const opened = line.match(opener)
+    if (opened) {
+      model = opened[1]
+      return
+    }
+    if (!model) return
+    if (closer.test(line)) {
+      model = undefined
+      return
+    }
+
+    const name = line.match(column)?.[1]
+    if (!name || SQL_CONSTRAINT.test(name)) return
+    const normalized = name.toLowerCase().replace(/[_-]/g, '')
+    const match = PII_KINDS.find(k => k.pattern.test(normalized))
+    if (!match) return
+
+    fields.push({
+      name,
+      model,
+      kind: match.kind,
+      sensitive: !!match.sensitive,
+      location: { file: file.path, line: i + 1, column: line.search(/\S/) + 1, snippet: redactSnippet(line) },
+    })
+  })
+  return fields
+}
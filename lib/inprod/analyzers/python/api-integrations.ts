@@ -0,0 +1,160 @@
+// =============================================================================
+// PYTHON API INTEGRATIONS ANALYZER
+// Third-party SDKs: payments, AI, cloud and messaging
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, depEvidence, fileEvidence, notApplicable, skipCheck } from '../../checks'
+import { cached } from '../../cache'
+import { locate, locateAll, withLocations } from '../../locations'
+import { isPythonTest, pythonFiles } from './project'
+
+const SDK_PACKAGES: Record<string, string> = {
+  stripe: 'Stripe integration',
+  openai: 'AI API integration',
+  anthropic: 'AI API integration',
+  boto3: 'AWS SDK',
+  twilio: 'Twilio',
+  sendgrid: 'SendGrid',
+  resend: 'Resend',
+}
+const RETRY_PACKAGES = ['tenacity', 'backoff', 'stamina']
+
+// Exceptions the SDKs raise for failed calls
+const SDK_ERRORS = /except\s*\(?[^:]*\b(stripe\.|openai\.|anthropic\.|botocore\.|ClientError|APIError|APIConnectionError|RateLimitError|TwilioRestException)/
+
+// api_key="..." passed to a client, or stripe.api_key = "..."
+const LITERAL_API_KEY = /\bapi_key\s*=\s*["'][^"']+["']/
+
+export function analyzePythonApiIntegrations(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+  const deps = index.manifests.python
+  const sources = pythonFiles(ctx).filter(f => !isPythonTest(f.path))
+
+  const sdks = Object.keys(SDK_PACKAGES).filter(name => deps[name])
+  if (sdks.length === 0) {
+    return notApplicable('apiIntegrations', 'No external API integrations detected')
+  }
+
+  detected.push(...new Set(sdks.map(name => SDK_PACKAGES[name])))
+  score += 20
+  checks.push(check('api-detected', 'External API integrations', 20, 20, depEvidence(deps, sdks)))
+
+  // 1. Check for retry logic (20 points)
+  const retryEvidence = [
+    ...depEvidence(deps, RETRY_PACKAGES),
+    ...fileEvidence(ctx, 'python-api-retry', f =>
+      f.path.endsWith('.py') && (index.contains(f, 'max_retries') || index.contains(f, 'Retry('))
+    ),
+  ]
+  const hasRetry = retryEvidence.length > 0
+
+  if (hasRetry) {
+    detected.push('Retry logic configured')
+    score += 20
+  } else {
+    gaps.push({
+      id: 'api-no-retry',
+      check: 'api-retry',
+      category: 'apiIntegrations',
+      title: 'No retry logic for API calls',
+      description: 'Retry transient failures with exponential backoff (tenacity\'s @retry, or the SDK\'s max_retries option)',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 20,
+    })
+  }
+  checks.push(check('api-retry', 'Retry logic', 20, hasRetry ? 20 : 0, retryEvidence))
+
+  // 2. Check for webhook verification (20 points) - for Stripe
+  if (deps['stripe']) {
+    const webhookEvidence = fileEvidence(ctx, 'python-api-webhook-verify', f =>
+      f.path.endsWith('.py') && (index.contains(f, 'construct_event') || index.contains(f, 'verify_header'))
+    )
+    const hasWebhookVerify = webhookEvidence.length > 0
+
+    if (hasWebhookVerify) {
+      detected.push('Webhook signature verification')
+      score += 20
+    } else {
+      gaps.push(withLocations({
+        id: 'api-no-webhook-verify',
+        check: 'api-webhook-verify',
+        category: 'apiIntegrations',
+        title: 'Webhook signature not verified',
+        description: 'Verify the Stripe-Signature header with stripe.Webhook.construct_event to reject spoofed events',
+        severity: 'critical',
+        confidence: 'likely',
+        fixType: 'suggested',
+        effortMinutes: 15,
+      }, locateAll(sources.filter(f => f.path.includes('webhook')), /@\w+\.(post|route)\(/)))
+    }
+    checks.push(check('api-webhook-verify', 'Webhook signature verification', 20, hasWebhookVerify ? 20 : 0, webhookEvidence))
+  } else {
+    score += 20 // N/A
+    checks.push(skipCheck('api-webhook-verify', 'Webhook signature verification', 20, 'No Stripe integration'))
+  }
+
+  // 3. Check SDK errors are handled (20 points)
+  const errorHandlingEvidence = fileEvidence(ctx, 'python-api-error-handling', f =>
+    f.path.endsWith('.py') && SDK_ERRORS.test(f.content)
+  )
+  const hasApiErrorHandling = errorHandlingEvidence.length > 0
+
+  if (hasApiErrorHandling) {
+    detected.push('API error handling')
+    score += 20
+  } else {
+    gaps.push({
+      id: 'api-no-error-handling',
+      check: 'api-error-handling',
+      category: 'apiIntegrations',
+      title: 'Limited API error handling',
+      description: 'Catch the SDK\'s error types (stripe.error.StripeError, openai.APIError, botocore ClientError) and fail gracefully',
+      severity: 'warning',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 30,
+    })
+  }
+  checks.push(check('api-error-handling', 'API error handling', 20, hasApiErrorHandling ? 20 : 0, errorHandlingEvidence))
+
+  // 4. Check API keys aren't written into the code (20 points)
+  const literalKeys = sources.flatMap(f => cached(ctx, f, 'python-api-env-keys', () => locate(f, LITERAL_API_KEY)))
+
+  if (literalKeys.length === 0) {
+    detected.push('API keys in environment variables')
+    score += 20
+    checks.push(check('api-env-keys', 'API keys in environment', 20, 20))
+  } else {
+    gaps.push(withLocations({
+      id: 'api-exposed-keys',
+      check: 'api-env-keys',
+      category: 'apiIntegrations',
+      title: 'API keys hardcoded',
+      description: 'Read API keys from the environment (os.environ or your settings module) and rotate the committed ones',
+      severity: 'critical',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 10,
+    }, literalKeys))
+    checks.push(check('api-env-keys', 'API keys in environment', 20, 0, literalKeys.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  }
+
+  return {
+    category: 'apiIntegrations',
+    label: 'API Integrations',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
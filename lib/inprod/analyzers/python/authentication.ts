@@ -0,0 +1,194 @@
+// =============================================================================
+// PYTHON AUTHENTICATION ANALYZER
+// fastapi-users, JWT libraries, Django auth and Flask-Login
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, depEvidence, fileEvidence, notApplicable, skipCheck } from '../../checks'
+import { cached } from '../../cache'
+import { locate, locateOffset, withLocations } from '../../locations'
+import { isPythonTest, pythonFiles } from './project'
+
+const AUTH_PACKAGES = [
+  'fastapi-users', 'python-jose', 'pyjwt', 'authlib', 'django-allauth', 'djangorestframework-simplejwt',
+  'dj-rest-auth', 'flask-login', 'flask-jwt-extended', 'flask-security-too',
+]
+const HASHING_PACKAGES = ['passlib', 'bcrypt', 'argon2-cffi', 'pwdlib']
+
+// Django ships password hashing with its auth app; fastapi-users hashes through pwdlib
+const BUILTIN_HASHING = ['django', 'fastapi-users']
+
+// Settings that bound how long a session or token stays valid
+const EXPIRY_SETTINGS = /ACCESS_TOKEN_EXPIRE|ACCESS_TOKEN_LIFETIME|lifetime_seconds\s*=|SESSION_COOKIE_AGE|PERMANENT_SESSION_LIFETIME|JWT_ACCESS_TOKEN_EXPIRES|["']exp["']\s*:/
+
+// A signing key written into the source: SECRET_KEY = "..." or jwt.encode(payload, "...")
+const LITERAL_SIGNING_KEY = /^\s*\w*(SECRET|SIGNING)_?KEY\s*=\s*["'][^"']+["']|\bjwt\.encode\([^,]+,\s*["']/i
+
+// Local, dev and test settings may keep a throwaway key
+const LOCAL_SETTINGS = /(^|\/|_)(local|dev|development|test|testing)(_settings)?\.py$/
+
+export function analyzePythonAuthentication(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+  const deps = index.manifests.python
+  const sources = pythonFiles(ctx).filter(f => !isPythonTest(f.path))
+
+  const authEvidence = [
+    ...depEvidence(deps, AUTH_PACKAGES),
+    ...fileEvidence(ctx, 'python-auth-detected', f =>
+      f.path.endsWith('.py') && (
+        index.contains(f, 'django.contrib.auth') ||
+        index.contains(f, 'OAuth2PasswordBearer') ||
+        index.contains(f, 'HTTPBearer')
+      )
+    ),
+  ]
+  if (authEvidence.length === 0) {
+    return notApplicable('authentication', 'No Python authentication detected')
+  }
+
+  detected.push('Authentication system detected')
+  score += 20
+  checks.push(check('auth-detected', 'Authentication system', 20, 20, authEvidence))
+
+  // 1. Check passwords are hashed (20 points)
+  const handlesPasswords = sources.some(f => index.contains(f, 'password'))
+  if (!handlesPasswords) {
+    score += 20
+    checks.push(skipCheck('auth-password-hashing', 'Password hashing', 20, 'No password handling'))
+  } else {
+    const hashingEvidence = [
+      ...depEvidence(deps, [...HASHING_PACKAGES, ...BUILTIN_HASHING]),
+      ...fileEvidence(ctx, 'python-auth-password-hashing', f =>
+        f.path.endsWith('.py') && (
+          index.contains(f, 'CryptContext') ||
+          index.contains(f, 'make_password') ||
+          index.contains(f, 'generate_password_hash')
+        )
+      ),
+    ]
+    const hasHashing = hashingEvidence.length > 0
+
+    if (hasHashing) {
+      detected.push('Password hashing configured')
+      score += 20
+    } else {
+      gaps.push({
+        id: 'auth-no-password-hashing',
+        check: 'auth-password-hashing',
+        category: 'authentication',
+        title: 'No password hashing',
+        description: 'Hash passwords with passlib or pwdlib (bcrypt or argon2) before storing them',
+        severity: 'blocker',
+        confidence: 'likely',
+        fixType: 'suggested',
+        effortMinutes: 30,
+      })
+    }
+    checks.push(check('auth-password-hashing', 'Password hashing', 20, hasHashing ? 20 : 0, hashingEvidence))
+  }
+
+  // 2. Check sessions and tokens expire (20 points)
+  const expiryEvidence = fileEvidence(ctx, 'python-auth-session-expiry', f =>
+    f.path.endsWith('.py') && EXPIRY_SETTINGS.test(f.content)
+  )
+  // Django sessions expire after two weeks unless told otherwise
+  const hasExpiry = expiryEvidence.length > 0 || !!deps['django']
+
+  if (hasExpiry) {
+    detected.push('Session expiry configured')
+    score += 20
+  } else {
+    gaps.push({
+      id: 'auth-no-expiry',
+      check: 'auth-session-expiry',
+      category: 'authentication',
+      title: 'No session expiry detected',
+      description: 'Give access tokens an exp claim (or a lifetime setting) so a stolen token stops working',
+      severity: 'warning',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 10,
+    })
+  }
+  checks.push(check('auth-session-expiry', 'Session expiry', 20, hasExpiry ? 20 : 0,
+    expiryEvidence.length > 0 ? expiryEvidence : depEvidence(deps, ['django'])))
+
+  // 3. Check signing keys come from the environment (20 points)
+  const literalKeys = sources
+    .filter(f => !LOCAL_SETTINGS.test(f.path))
+    .flatMap(f => cached(ctx, f, 'python-auth-signing-key', () => locate(f, LITERAL_SIGNING_KEY)))
+
+  if (literalKeys.length === 0) {
+    detected.push('Signing keys read from the environment')
+    score += 20
+    checks.push(check('auth-signing-key', 'Signing key from environment', 20, 20))
+  } else {
+    gaps.push(withLocations({
+      id: 'auth-hardcoded-signing-key',
+      check: 'auth-signing-key',
+      category: 'authentication',
+      title: 'Signing key in source code',
+      description: 'Anyone with the code can forge sessions and tokens. Read the key from the environment and rotate the committed one.',
+      severity: 'blocker',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    }, literalKeys))
+    checks.push(check('auth-signing-key', 'Signing key from environment', 20, 0, literalKeys.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  }
+
+  // 4. Check cookies set by hand carry secure flags (20 points)
+  const cookieCalls = sources.flatMap(f => cached(ctx, f, 'python-auth-cookies', () => insecureCookies(f.content)
+    .map(offset => locateOffset(f, offset))))
+  const setsCookies = sources.some(f => index.contains(f, 'set_cookie('))
+
+  if (!setsCookies) {
+    score += 20
+    checks.push(skipCheck('auth-secure-cookies', 'Secure cookie flags', 20, 'No cookies set in code'))
+  } else if (cookieCalls.length === 0) {
+    detected.push('Secure cookie settings')
+    score += 20
+    checks.push(check('auth-secure-cookies', 'Secure cookie flags', 20, 20))
+  } else {
+    gaps.push(withLocations({
+      id: 'auth-insecure-cookies',
+      check: 'auth-secure-cookies',
+      category: 'authentication',
+      title: 'Cookie security flags not set',
+      description: 'Pass httponly=True, secure=True and samesite to set_cookie for session and token cookies',
+      severity: 'critical',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 10,
+    }, cookieCalls))
+    checks.push(check('auth-secure-cookies', 'Secure cookie flags', 20, 0, cookieCalls.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  }
+
+  return {
+    category: 'authentication',
+    label: 'Authentication',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
+
+/**
+ * Offsets of set_cookie calls missing httponly=True or secure=True
+ */
+function insecureCookies(content: string): number[] {
+  const offsets: number[] = []
+  for (const match of content.matchAll(/\.set_cookie\(([^)]*)\)/g)) {
+    const args = match[1]
+    if (!/\bhttponly\s*=\s*True/.test(args) || !/\bsecure\s*=\s*True/.test(args)) offsets.push(match.index)
+  }
+  return offsets
+}
@@ -0,0 +1,185 @@
+// =============================================================================
+// PYTHON BACKEND ANALYZER
+// FastAPI, Django, Flask and Starlette services
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, depEvidence, fileEvidence, notApplicable } from '../../checks'
+import { cached } from '../../cache'
+import { locate, withLocations } from '../../locations'
+import { PYTHON_WEB_FRAMEWORKS, isPythonTest, pythonFiles } from './project'
+
+const VALIDATION_PACKAGES = ['pydantic', 'djangorestframework', 'marshmallow', 'django-ninja']
+const RATE_LIMIT_PACKAGES = ['slowapi', 'django-ratelimit', 'flask-limiter', 'fastapi-limiter']
+
+// requests/httpx calls on one line with no timeout= wait forever on a stuck server
+const UNBOUNDED_REQUEST = /\b(requests|httpx)\.(get|post|put|patch|delete|head|request)\((?!.*\btimeout\s*=)/
+
+export function analyzePythonBackend(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+  const deps = index.manifests.python
+  const sources = pythonFiles(ctx).filter(f => !isPythonTest(f.path))
+
+  const frameworks = techStack.frameworks.filter(fw => PYTHON_WEB_FRAMEWORKS.includes(fw))
+  if (frameworks.length === 0) {
+    return notApplicable('backend', 'No Python web framework detected')
+  }
+
+  detected.push(`Framework: ${frameworks.join(', ')}`)
+  score += 20
+  checks.push(check('backend-python-framework', 'Web framework', 20, 20, frameworks))
+
+  // 1. Check for request validation (20 points)
+  // FastAPI validates through Pydantic models; Django through DRF serializers or
+  // forms. The package alone doesn't count, since FastAPI always installs Pydantic.
+  const validationEvidence = [
+    ...depEvidence(deps, VALIDATION_PACKAGES),
+    ...fileEvidence(ctx, 'python-backend-validation', f =>
+      f.path.endsWith('.py') && (
+        index.contains(f, '(BaseModel)') ||
+        index.contains(f, 'serializers.') ||
+        index.contains(f, 'forms.Form') ||
+        index.contains(f, 'forms.ModelForm')
+      )
+    ),
+  ]
+  const hasValidation = validationEvidence.some(e => !e.startsWith('package:'))
+
+  if (hasValidation) {
+    detected.push('Request validation with schemas')
+    score += 20
+  } else {
+    gaps.push({
+      id: 'backend-no-validation',
+      check: 'backend-validation',
+      category: 'backend',
+      title: 'No request validation',
+      description: frameworks.includes('django')
+        ? 'Validate request data with DRF serializers or Django forms'
+        : 'Declare request bodies as Pydantic models so input is validated',
+      severity: 'critical',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 45,
+    })
+  }
+  checks.push(check('backend-validation', 'Input validation', 20, hasValidation ? 20 : 0, validationEvidence))
+
+  // 2. Check for rate limiting (15 points)
+  const rateLimitEvidence = [
+    ...depEvidence(deps, RATE_LIMIT_PACKAGES),
+    ...fileEvidence(ctx, 'python-backend-rate-limit', f =>
+      f.path.endsWith('.py') && index.contains(f, 'DEFAULT_THROTTLE_CLASSES')
+    ),
+  ]
+  const hasRateLimit = rateLimitEvidence.length > 0
+
+  if (hasRateLimit) {
+    detected.push('Rate limiting configured')
+    score += 15
+  } else {
+    gaps.push({
+      id: 'backend-no-rate-limit',
+      check: 'backend-rate-limit',
+      category: 'backend',
+      title: 'No rate limiting',
+      description: frameworks.includes('django')
+        ? 'Add django-ratelimit or DRF throttling to protect endpoints from abuse'
+        : 'Add slowapi (or flask-limiter) to protect endpoints from abuse',
+      severity: 'critical',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 20,
+    })
+  }
+  checks.push(check('backend-rate-limit', 'Rate limiting', 15, hasRateLimit ? 15 : 0, rateLimitEvidence))
+
+  // 3. Check outbound HTTP calls set a timeout (15 points)
+  const unbounded = sources.flatMap(f => cached(ctx, f, 'python-backend-timeouts', () => locate(f, UNBOUNDED_REQUEST)))
+
+  if (unbounded.length === 0) {
+    detected.push('Outbound requests have timeouts')
+    score += 15
+    checks.push(check('backend-timeouts', 'Request timeouts', 15, 15))
+  } else {
+    gaps.push(withLocations({
+      id: 'backend-no-timeouts',
+      check: 'backend-timeouts',
+      category: 'backend',
+      title: 'HTTP calls without a timeout',
+      description: 'requests and httpx wait indefinitely by default; pass timeout= on every call',
+      severity: 'warning',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    }, unbounded))
+    checks.push(check('backend-timeouts', 'Request timeouts', 15, 0, unbounded.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  }
+
+  // 4. Check for logging (15 points)
+  const loggingEvidence = [
+    ...depEvidence(deps, ['structlog', 'loguru', 'python-json-logger']),
+    ...fileEvidence(ctx, 'python-backend-logging', f =>
+      f.path.endsWith('.py') && (index.contains(f, 'import logging') || index.contains(f, 'LOGGING = {'))
+    ),
+  ]
+  const hasLogging = loggingEvidence.length > 0
+
+  if (hasLogging) {
+    detected.push('Logging configured')
+    score += 15
+  } else {
+    gaps.push({
+      id: 'backend-no-logging',
+      check: 'backend-logging',
+      category: 'backend',
+      title: 'No logging',
+      description: 'Use the logging module (or structlog) instead of print for request and error logs',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 20,
+    })
+  }
+  checks.push(check('backend-logging', 'Logging', 15, hasLogging ? 15 : 0, loggingEvidence))
+
+  // 5. Check for health endpoint (15 points)
+  const healthEvidence = fileEvidence(ctx, 'python-backend-health', f =>
+    f.path.endsWith('.py') && /["']\/?health(z|check)?\/?["']/.test(f.content)
+  )
+  const hasHealthCheck = healthEvidence.length > 0
+
+  if (hasHealthCheck) {
+    detected.push('Health check endpoint')
+    score += 15
+  } else {
+    gaps.push({
+      id: 'backend-no-health',
+      check: 'backend-health',
+      category: 'backend',
+      title: 'No health check endpoint',
+      description: 'Add a /health route for load balancers and uptime monitoring',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 10,
+    })
+  }
+  checks.push(check('backend-health', 'Health endpoint', 15, hasHealthCheck ? 15 : 0, healthEvidence))
+
+  return {
+    category: 'backend',
+    label: 'Backend',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -0,0 +1,134 @@
+// =============================================================================
+// PYTHON DATABASE ANALYZER
+// SQLAlchemy/Alembic and the Django ORM
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, depEvidence, fileEvidence, notApplicable } from '../../checks'
+
+const ORM_PACKAGES = ['sqlalchemy', 'sqlmodel', 'django', 'tortoise-orm', 'peewee', 'mongoengine', 'beanie']
+
+export function analyzePythonDatabase(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+  const deps = index.manifests.python
+  const ormEvidence = depEvidence(deps, ORM_PACKAGES)
+  const usesDjango = !!deps['django']
+
+  if (!techStack.database && ormEvidence.length === 0) {
+    return notApplicable('database', 'No database detected')
+  }
+
+  const database = techStack.database || (usesDjango ? 'Django ORM' : 'SQL')
+  detected.push(`Database: ${database}`)
+  score += 20
+  checks.push(check('database-detected', 'Database configured', 20, 20, [database]))
+
+  // 1. Check for ORM (20 points)
+  const hasORM = ormEvidence.length > 0
+
+  if (hasORM) {
+    detected.push('ORM configured')
+    score += 20
+  } else {
+    gaps.push({
+      id: 'database-no-orm',
+      check: 'database-orm',
+      category: 'database',
+      title: 'No ORM detected',
+      description: 'Raw driver queries make SQL injection easy. Consider SQLAlchemy or SQLModel.',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'guided',
+      effortMinutes: 60,
+    })
+  }
+  checks.push(check('database-orm', 'ORM / query builder', 20, hasORM ? 20 : 0, ormEvidence))
+
+  // 2. Check for migrations (25 points)
+  // Django keeps numbered migrations per app; SQLAlchemy projects use Alembic
+  const migrationEvidence = fileEvidence(ctx, 'python-database-migrations', f =>
+    f.path.endsWith('alembic.ini') ||
+    /(^|\/)migrations\/\d{4}_\w+\.py$/.test(f.path) ||
+    /(^|\/)(alembic|migrations)\/versions\/[^/]+\.py$/.test(f.path)
+  )
+  const hasMigrations = migrationEvidence.length > 0
+
+  if (hasMigrations) {
+    detected.push('Database migrations present')
+    score += 25
+  } else {
+    gaps.push({
+      id: 'database-no-migrations',
+      check: 'database-migrations',
+      category: 'database',
+      title: 'No database migrations',
+      description: usesDjango
+        ? 'Run makemigrations and commit the generated migrations'
+        : 'Add Alembic so schema changes are versioned and repeatable',
+      severity: 'warning',
+      confidence: 'likely',
+      fixType: 'guided',
+      effortMinutes: 30,
+    })
+  }
+  checks.push(check('database-migrations', 'Migrations', 25, hasMigrations ? 25 : 0, migrationEvidence))
+
+  // 3. Check for indexes (20 points)
+  const indexEvidence = fileEvidence(ctx, 'python-database-indexes', f =>
+    f.path.endsWith('.py') && (index.contains(f, 'index=True') || index.contains(f, 'Index('))
+  )
+  const hasIndexes = indexEvidence.length > 0
+
+  if (hasIndexes) {
+    detected.push('Database indexes defined')
+    score += 20
+  } else {
+    gaps.push({
+      id: 'database-no-indexes',
+      check: 'database-indexes',
+      category: 'database',
+      title: 'No database indexes',
+      description: 'Index columns used in filters and joins (index=True / db_index=True)',
+      severity: 'warning',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 20,
+    })
+  }
+  checks.push(check('database-indexes', 'Indexes', 20, hasIndexes ? 20 : 0, indexEvidence))
+
+  // 4. Check for connection pooling (15 points)
+  const poolingEvidence = [
+    ...depEvidence(deps, ['psycopg-pool', 'django-db-connection-pool']),
+    ...fileEvidence(ctx, 'python-database-pooling', f =>
+      f.path.endsWith('.py') && (
+        index.contains(f, 'pool_size') ||
+        index.contains(f, 'CONN_MAX_AGE') ||
+        index.contains(f, 'create_pool(')
+      )
+    ),
+  ]
+  const hasPooling = poolingEvidence.length > 0
+
+  if (hasPooling) {
+    detected.push('Connection pooling configured')
+    score += 15
+  }
+  checks.push(check('database-pooling', 'Connection pooling', 15, hasPooling ? 15 : 0, poolingEvidence))
+
+  return {
+    category: 'database',
+    label: 'Database',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -0,0 +1,152 @@
+// =============================================================================
+// PYTHON DEPLOYMENT ANALYZER
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, depEvidence, fileEvidence, notApplicable } from '../../checks'
+import { isPythonProject } from './project'
+
+const SERVER_PACKAGES = ['gunicorn', 'uvicorn', 'hypercorn', 'daphne', 'waitress']
+const LOCKFILES = ['poetry.lock', 'uv.lock', 'Pipfile.lock', 'pdm.lock']
+
+export function analyzePythonDeployment(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+  const deps = index.manifests.python
+
+  if (!isPythonProject(ctx)) {
+    return notApplicable('deployment', 'No Python project detected')
+  }
+
+  // 1. Check for CI/CD (25 points)
+  if (techStack.ciProvider) {
+    detected.push(`CI/CD: ${techStack.ciProvider}`)
+    score += 25
+  } else {
+    gaps.push({
+      id: 'deploy-no-ci',
+      check: 'deploy-ci',
+      category: 'deployment',
+      title: 'No CI/CD pipeline',
+      description: 'Add a GitHub Actions workflow that installs dependencies and runs the tests',
+      severity: 'critical',
+      confidence: 'proven',
+      fixType: 'suggested',
+      effortMinutes: 20,
+    })
+  }
+  checks.push(check('deploy-ci', 'CI/CD pipeline', 25, techStack.ciProvider ? 25 : 0,
+    techStack.ciProvider ? [techStack.ciProvider] : []))
+
+  // 2. Check for deployment target (20 points)
+  const platformEvidence = [
+    ...(techStack.deploymentPlatform ? [techStack.deploymentPlatform] : []),
+    ...fileEvidence(ctx, 'python-deploy-procfile', f => f.path === 'Procfile'),
+  ]
+  const hasPlatform = platformEvidence.length > 0
+
+  if (hasPlatform) {
+    detected.push(`Platform: ${platformEvidence[0]}`)
+    score += 20
+  } else {
+    gaps.push({
+      id: 'deploy-no-platform',
+      check: 'deploy-platform',
+      category: 'deployment',
+      title: 'No deployment platform detected',
+      description: 'Add a Dockerfile, Procfile or platform config (fly.toml, render.yaml)',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'guided',
+      effortMinutes: 30,
+    })
+  }
+  checks.push(check('deploy-platform', 'Deployment platform', 20, hasPlatform ? 20 : 0, platformEvidence))
+
+  // 3. Check for a production app server (20 points)
+  // `manage.py runserver` and `flask run` are development servers
+  const devServerEvidence = fileEvidence(ctx, 'python-deploy-dev-server', f =>
+    (f.path === 'Procfile' || f.path.endsWith('Dockerfile') || f.path.startsWith('docker-compose')) &&
+    (index.contains(f, 'runserver') || index.contains(f, 'flask run'))
+  )
+  const serverEvidence = depEvidence(deps, SERVER_PACKAGES)
+  const hasServer = serverEvidence.length > 0 && devServerEvidence.length === 0
+
+  if (hasServer) {
+    detected.push(`App server: ${serverEvidence[0].replace('package: ', '')}`)
+    score += 20
+  } else {
+    gaps.push({
+      id: 'deploy-python-dev-server',
+      check: 'deploy-python-server',
+      category: 'deployment',
+      title: devServerEvidence.length > 0 ? 'Deployed with a development server' : 'No production app server',
+      description: 'Serve the app with gunicorn or uvicorn rather than the framework\'s development server',
+      severity: devServerEvidence.length > 0 ? 'critical' : 'warning',
+      confidence: devServerEvidence.length > 0 ? 'verified' : 'likely',
+      ...(devServerEvidence.length > 0 && { file: devServerEvidence[0] }),
+      fixType: 'suggested',
+      effortMinutes: 15,
+    })
+  }
+  checks.push(check('deploy-python-server', 'Production app server', 20, hasServer ? 20 : 0,
+    [...serverEvidence, ...devServerEvidence]))
+
+  // 4. Check for Dockerfile (15 points)
+  const dockerEvidence = fileEvidence(ctx, 'deploy-docker', f => f.path === 'Dockerfile' || f.path === 'docker-compose.yml')
+  const hasDocker = dockerEvidence.length > 0
+
+  if (hasDocker) {
+    detected.push('Docker configuration present')
+    score += 15
+  }
+  checks.push(check('deploy-docker', 'Docker configuration', 15, hasDocker ? 15 : 0, dockerEvidence))
+
+  // 5. Check dependencies are locked or pinned (20 points)
+  const lockEvidence = [
+    ...LOCKFILES.filter(name => index.byPath.has(name)),
+    ...fileEvidence(ctx, 'python-deploy-pinned', f =>
+      /(^|\/)requirements[^/]*\.txt$/.test(f.path) && isPinned(f.content)
+    ),
+  ]
+  const hasLock = lockEvidence.length > 0
+
+  if (hasLock) {
+    detected.push('Dependencies pinned')
+    score += 20
+  } else {
+    gaps.push({
+      id: 'deploy-python-unpinned-deps',
+      check: 'deploy-python-lockfile',
+      category: 'deployment',
+      title: 'Dependencies not pinned',
+      description: 'Commit a lockfile (uv, Poetry, Pipenv) or pin requirements with == so deploys are reproducible',
+      severity: 'warning',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    })
+  }
+  checks.push(check('deploy-python-lockfile', 'Pinned dependencies', 20, hasLock ? 20 : 0, lockEvidence))
+
+  return {
+    category: 'deployment',
+    label: 'Deployment',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
+
+// Every requirement line is an exact `name==version` pin
+function isPinned(requirements: string): boolean {
+  const lines = requirements.split('\n').map(l => l.trim()).filter(l => /^[A-Za-z0-9]/.test(l))
+  return lines.length > 0 && lines.every(l => l.includes('=='))
+}
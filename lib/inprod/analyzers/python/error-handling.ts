@@ -0,0 +1,142 @@
+// =============================================================================
+// PYTHON ERROR HANDLING ANALYZER
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, depEvidence, fileEvidence, notApplicable, skipCheck } from '../../checks'
+import { cached } from '../../cache'
+import { locate, withLocations } from '../../locations'
+import { PYTHON_WEB_FRAMEWORKS, isPythonProject, isPythonTest, pythonFiles } from './project'
+
+const MONITORING_PACKAGES = ['sentry-sdk', 'rollbar', 'bugsnag', 'newrelic', 'ddtrace', 'honeybadger']
+
+// Framework hooks that turn uncaught exceptions into a response
+const GLOBAL_HANDLERS = [
+  'exception_handler(', // FastAPI / Starlette
+  'errorhandler(', // Flask
+  'register_error_handler(',
+  'handler500', // Django urls.py
+  'process_exception(', // Django middleware
+  'EXCEPTION_HANDLER', // DRF settings
+]
+
+// `except:` and `except Exception: pass` hide failures entirely
+const SWALLOWED_EXCEPTION = /^\s*except\s*:|^\s*except\s+(Base)?Exception\s*(as\s+\w+\s*)?:\s*pass\b/
+
+export function analyzePythonErrorHandling(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+  const deps = index.manifests.python
+
+  if (!isPythonProject(ctx)) {
+    return notApplicable('errorHandling', 'No Python project detected')
+  }
+
+  const sources = pythonFiles(ctx).filter(f => !isPythonTest(f.path))
+
+  // 1. Check for error monitoring (25 points)
+  const monitoringEvidence = [
+    ...depEvidence(deps, MONITORING_PACKAGES),
+    ...fileEvidence(ctx, 'python-error-monitoring', f => f.path.endsWith('.py') && index.contains(f, 'sentry_sdk.init')),
+  ]
+  const hasMonitoring = monitoringEvidence.length > 0
+
+  if (hasMonitoring) {
+    detected.push('Error monitoring configured')
+    score += 25
+  } else {
+    gaps.push({
+      id: 'error-no-monitoring',
+      check: 'error-monitoring',
+      category: 'errorHandling',
+      title: 'No error monitoring',
+      description: 'Add sentry-sdk to capture production exceptions',
+      severity: 'critical',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    })
+  }
+  checks.push(check('error-monitoring', 'Error monitoring', 25, hasMonitoring ? 25 : 0, monitoringEvidence))
+
+  // 2. Check for a global exception handler (25 points)
+  if (techStack.frameworks.some(fw => PYTHON_WEB_FRAMEWORKS.includes(fw))) {
+    const handlerEvidence = fileEvidence(ctx, 'python-error-global-handler', f =>
+      f.path.endsWith('.py') && GLOBAL_HANDLERS.some(term => index.contains(f, term))
+    )
+    const hasHandler = handlerEvidence.length > 0
+
+    if (hasHandler) {
+      detected.push('Global exception handler')
+      score += 25
+    } else {
+      gaps.push({
+        id: 'error-no-global-handler',
+        check: 'error-global-handler',
+        category: 'errorHandling',
+        title: 'No global exception handler',
+        description: 'Register an exception handler so unexpected errors return a clean 500',
+        severity: 'warning',
+        confidence: 'likely',
+        fixType: 'suggested',
+        effortMinutes: 20,
+      })
+    }
+    checks.push(check('error-global-handler', 'Global error handler', 25, hasHandler ? 25 : 0, handlerEvidence))
+  } else {
+    score += 25
+    checks.push(skipCheck('error-global-handler', 'Global error handler', 25, 'No Python web framework'))
+  }
+
+  // 3. Check exceptions aren't swallowed (25 points)
+  const swallowed = sources.flatMap(f => cached(ctx, f, 'python-error-swallowed', () => locate(f, SWALLOWED_EXCEPTION)))
+
+  if (swallowed.length === 0) {
+    detected.push('No bare or silent excepts')
+    score += 25
+    checks.push(check('error-python-swallowed', 'Exceptions not swallowed', 25, 25))
+  } else {
+    gaps.push(withLocations({
+      id: 'error-python-swallowed-exceptions',
+      check: 'error-python-swallowed',
+      category: 'errorHandling',
+      title: 'Exceptions silently swallowed',
+      description: 'Catch specific exceptions and log or re-raise instead of a bare except or except/pass',
+      severity: 'warning',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    }, swallowed))
+    checks.push(check('error-python-swallowed', 'Exceptions not swallowed', 25, 0, swallowed.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  }
+
+  // 4. Check for structured logging (25 points)
+  const loggingEvidence = [
+    ...depEvidence(deps, ['structlog', 'python-json-logger', 'loguru']),
+    ...fileEvidence(ctx, 'python-error-logging', f =>
+      f.path.endsWith('.py') && (index.contains(f, 'dictConfig(') || index.contains(f, 'LOGGING = {'))
+    ),
+  ]
+  const hasStructuredLogging = loggingEvidence.length > 0
+
+  if (hasStructuredLogging) {
+    detected.push('Logging configuration')
+    score += 25
+  }
+  checks.push(check('error-logging', 'Structured error logging', 25, hasStructuredLogging ? 25 : 0, loggingEvidence))
+
+  return {
+    category: 'errorHandling',
+    label: 'Error Handling',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
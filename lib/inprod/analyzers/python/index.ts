@@ -0,0 +1,42 @@
+// =============================================================================
+// PYTHON ANALYZERS - Index
+// Selected when the repo uses Python; categories without a Python analyzer
+// (frontend, state, design) keep the default ones
+// =============================================================================
+
+import { Analyzer } from '../../types'
+import { analyzePythonBackend } from './backend'
+import { analyzePythonDatabase } from './database'
+import { analyzePythonTesting } from './testing'
+import { analyzePythonSecurity } from './security'
+import { analyzePythonErrorHandling } from './error-handling'
+import { analyzePythonVersionControl } from './version-control'
+import { analyzePythonDeployment } from './deployment'
+import { analyzePythonAuthentication } from './authentication'
+import { analyzePythonApiIntegrations } from './api-integrations'
+
+export {
+  analyzePythonBackend,
+  analyzePythonDatabase,
+  analyzePythonTesting,
+  analyzePythonSecurity,
+  analyzePythonErrorHandling,
+  analyzePythonVersionControl,
+  analyzePythonDeployment,
+  analyzePythonAuthentication,
+  analyzePythonApiIntegrations,
+}
+
+const PYTHON = { languages: ['python'] }
+
+export const PYTHON_ANALYZERS: Analyzer[] = [
+  { id: 'python-backend', category: 'backend', ...PYTHON, run: analyzePythonBackend },
+  { id: 'python-database', category: 'database', ...PYTHON, run: analyzePythonDatabase },
+  { id: 'python-testing', category: 'testing', ...PYTHON, run: analyzePythonTesting },
+  { id: 'python-security', category: 'security', ...PYTHON, run: analyzePythonSecurity },
+  { id: 'python-error-handling', category: 'errorHandling', ...PYTHON, run: analyzePythonErrorHandling },
+  { id: 'python-version-control', category: 'versionControl', ...PYTHON, run: analyzePythonVersionControl },
+  { id: 'python-deployment', category: 'deployment', ...PYTHON, run: analyzePythonDeployment },
+  { id: 'python-authentication', category: 'authentication', ...PYTHON, run: analyzePythonAuthentication },
+  { id: 'python-api-integrations', category: 'apiIntegrations', ...PYTHON, run: analyzePythonApiIntegrations },
+]
@@ -0,0 +1,49 @@
+// =============================================================================
+// PYTHON PROJECT HELPERS
+// Shared by the Python analyzers: which files are Python sources and tests,
+// and whether the repo is a Python project at all
+// =============================================================================
+
+import { RepoContext, RepoFile } from '../../types'
+
+// Installed packages and build output, not the project's own code
+const IGNORED_DIRS = /(^|\/)(\.venv|venv|env|site-packages|node_modules|__pycache__|build|dist)\//
+
+export const PYTHON_WEB_FRAMEWORKS = ['fastapi', 'django', 'flask', 'starlette']
+
+/**
+ * The project's .py files, tests included
+ */
+export function pythonFiles(ctx: RepoContext): RepoFile[] {
+  return (ctx.index.byExtension.get('.py') || []).filter(f => !IGNORED_DIRS.test(f.path))
+}
+
+/**
+ * pytest/unittest discovery names: test_*.py, *_test.py, conftest.py and anything under tests/
+ */
+export function isPythonTest(path: string): boolean {
+  const name = path.slice(path.lastIndexOf('/') + 1)
+  return /^test_.*\.py$|_test\.py$|^conftest\.py$/.test(name) || /(^|\/)tests?\//.test(path)
+}
+
+/**
+ * Settings modules that configure a deployed app. Local, dev and test
+ * variants are expected to differ, so they're left out.
+ */
+export function isProductionSettings(path: string): boolean {
+  const isSettings = /(^|\/)(settings|config)\.py$/.test(path) || /(^|\/)settings\/[^/]+\.py$/.test(path)
+  return isSettings && !isPythonTest(path) && !/(local|dev|development|test|testing|ci)\.py$/.test(path)
+}
+
+/**
+ * Whether there's a Python project to score. A helper script in a JS repo
+ * doesn't count; a manifest, setup.py or manage.py does, as do .py sources
+ * in a repo without JS/TS.
+ */
+export function isPythonProject(ctx: RepoContext): boolean {
+  const { index, techStack } = ctx
+  if (Object.keys(index.manifests.python).length > 0) return true
+  if (index.byPath.has('setup.py') || index.byPath.has('manage.py')) return true
+  const usesNode = techStack.languages.includes('typescript') || techStack.languages.includes('javascript')
+  return !usesNode && pythonFiles(ctx).length > 0
+}
@@ -0,0 +1,173 @@
+// =============================================================================
+// PYTHON SECURITY ANALYZER
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext, SourceLocation } from '../../types'
+import { check, depEvidence, fileEvidence, notApplicable, skipCheck } from '../../checks'
+import { cached } from '../../cache'
+import { findSecret, locate, withLocations } from '../../locations'
+import { isProductionSettings, isPythonProject, isPythonTest, pythonFiles } from './project'
+
+// Django settings that only take effect when set; each is worth 5 points
+const DJANGO_SECURE_SETTINGS = ['SECURE_SSL_REDIRECT', 'SECURE_HSTS_SECONDS', 'SESSION_COOKIE_SECURE', 'CSRF_COOKIE_SECURE']
+
+// DEBUG = True in settings, or debug mode switched on in app code
+const DEBUG_ENABLED = /^\s*DEBUG\s*=\s*True\b|\b(app\.run|FastAPI|Flask)\(.*\bdebug\s*=\s*True|\bapp\.debug\s*=\s*True/
+
+// Local and dev settings may keep DEBUG on
+const LOCAL_SETTINGS = /(^|\/|_)(local|dev|development)(_settings)?\.py$/
+
+// Queries assembled with f-strings, % or .format() before reaching the driver
+const FORMATTED_SQL = /\.(execute|executemany|raw)\(\s*(f["']|["'][^"']*["']\s*(%|\.format\())|\btext\(\s*f["']/
+
+export function analyzePythonSecurity(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+  const deps = index.manifests.python
+
+  if (!isPythonProject(ctx)) {
+    return notApplicable('security', 'No Python project detected')
+  }
+
+  const sources = pythonFiles(ctx).filter(f => !isPythonTest(f.path))
+  const settings = sources.filter(f => isProductionSettings(f.path))
+
+  // 1. Check debug mode is off outside local settings (25 points)
+  const debugLocations = sources
+    .filter(f => !LOCAL_SETTINGS.test(f.path))
+    .flatMap(f => cached(ctx, f, 'python-security-debug', () => locate(f, DEBUG_ENABLED)))
+
+  if (debugLocations.length === 0) {
+    detected.push('Debug mode off in production settings')
+    score += 25
+    checks.push(check('security-python-debug', 'Debug mode disabled', 25, 25, settings.slice(0, 5).map(f => f.path)))
+  } else {
+    gaps.push(withLocations({
+      id: 'security-python-debug-enabled',
+      check: 'security-python-debug',
+      category: 'security',
+      title: 'Debug mode enabled',
+      description: 'Debug pages leak settings, source and stack traces. Read DEBUG from the environment and default it to False.',
+      severity: 'blocker',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 10,
+    }, debugLocations))
+    checks.push(check('security-python-debug', 'Debug mode disabled', 25, 0, debugLocations.map(l => `${l.file}:${l.line}`)))
+  }
+
+  // 2. Check Django's secure transport settings (20 points)
+  if (deps['django'] && settings.length > 0) {
+    const configured = DJANGO_SECURE_SETTINGS.filter(name =>
+      settings.some(f => new RegExp(`^\\s*${name}\\s*=`, 'm').test(f.content))
+    )
+    const missing = DJANGO_SECURE_SETTINGS.filter(name => !configured.includes(name))
+    const points = configured.length * 5
+
+    score += points
+    if (missing.length === 0) {
+      detected.push('Django secure settings configured')
+    } else {
+      gaps.push({
+        id: 'security-django-insecure-settings',
+        check: 'security-django-settings',
+        category: 'security',
+        title: 'Django security settings missing',
+        description: `Set ${missing.join(', ')} in production settings`,
+        severity: missing.length === DJANGO_SECURE_SETTINGS.length ? 'critical' : 'warning',
+        confidence: 'verified',
+        file: settings[0].path,
+        fixType: 'suggested',
+        effortMinutes: 10,
+      })
+    }
+    checks.push(check('security-django-settings', 'Django SECURE_* settings', 20, points, [
+      ...configured,
+      ...missing.map(name => `missing: ${name}`),
+    ]))
+  } else {
+    score += 20
+    checks.push(skipCheck('security-django-settings', 'Django SECURE_* settings', 20, 'Not a Django project'))
+  }
+
+  // 3. Check for secrets in code (20 points)
+  const secretLocations: SourceLocation[] = []
+  for (const file of sources) {
+    const location = cached(ctx, file, 'security-secrets', () => findSecret(file))
+    if (!location) continue
+    secretLocations.push(location)
+    gaps.push(withLocations({
+      id: `security-hardcoded-secret-${file.path}`,
+      check: 'security-secrets',
+      category: 'security',
+      title: 'Hardcoded secret detected',
+      description: `Potential secret found in ${file.path}`,
+      severity: 'blocker',
+      confidence: 'verified',
+      file: file.path,
+      fixType: 'suggested',
+      effortMinutes: 5,
+    }, [location]))
+  }
+
+  if (secretLocations.length === 0) {
+    detected.push('No hardcoded secrets found')
+    score += 20
+  }
+  checks.push(check('security-secrets', 'No hardcoded secrets', 20, secretLocations.length > 0 ? 0 : 20,
+    secretLocations.map(l => `${l.file}:${l.line}`)))
+
+  // 4. Check queries aren't built from formatted strings (20 points)
+  const sqlLocations = sources.flatMap(f => cached(ctx, f, 'python-security-sql', () => locate(f, FORMATTED_SQL)))
+
+  if (sqlLocations.length === 0) {
+    detected.push('No string-formatted SQL')
+    score += 20
+    checks.push(check('security-injection', 'Injection protection', 20, 20))
+  } else {
+    gaps.push(withLocations({
+      id: 'security-sql-injection',
+      check: 'security-injection',
+      category: 'security',
+      title: 'Potential SQL injection vulnerability',
+      description: 'Pass values as query parameters instead of formatting them into the SQL string',
+      severity: 'critical',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 30,
+    }, sqlLocations))
+    checks.push(check('security-injection', 'Injection protection', 20, 0, sqlLocations.map(l => `${l.file}:${l.line}`)))
+  }
+
+  // 5. Check for dependency audit (15 points)
+  const auditEvidence = [
+    ...depEvidence(deps, ['pip-audit', 'safety']),
+    ...fileEvidence(ctx, 'python-security-audit', f =>
+      f.path === '.github/dependabot.yml' ||
+      (f.path.startsWith('.github/workflows/') &&
+       (index.contains(f, 'pip-audit') || index.contains(f, 'safety check') || index.contains(f, 'snyk')))
+    ),
+  ]
+  const hasAudit = auditEvidence.length > 0
+
+  if (hasAudit) {
+    detected.push('Dependency audit configured')
+    score += 15
+  }
+  checks.push(check('security-audit', 'Dependency audit', 15, hasAudit ? 15 : 0, auditEvidence))
+
+  return {
+    category: 'security',
+    label: 'Security',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -0,0 +1,142 @@
+// =============================================================================
+// PYTHON TESTING ANALYZER
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, depEvidence, fileEvidence, notApplicable } from '../../checks'
+import { isPythonProject, isPythonTest, pythonFiles } from './project'
+
+export function analyzePythonTesting(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+  const deps = index.manifests.python
+
+  if (!isPythonProject(ctx)) {
+    return notApplicable('testing', 'No Python project detected')
+  }
+
+  const files = pythonFiles(ctx)
+  const testFiles = files.filter(f => isPythonTest(f.path) && !f.path.endsWith('conftest.py'))
+  const sourceFiles = files.filter(f => !isPythonTest(f.path) && !f.path.includes('/migrations/'))
+
+  // 1. Check for test framework (20 points)
+  const usesUnittest = testFiles.some(f => index.contains(f, 'import unittest') || index.contains(f, 'from django.test'))
+  const framework = techStack.testFramework === 'pytest' ? 'pytest' : usesUnittest ? 'unittest' : null
+
+  if (framework) {
+    detected.push(`Test framework: ${framework}`)
+    score += 20
+  } else {
+    gaps.push({
+      id: 'testing-no-framework',
+      check: 'testing-framework',
+      category: 'testing',
+      title: 'No test framework configured',
+      description: 'Add pytest as a dev dependency',
+      severity: 'critical',
+      confidence: 'proven',
+      fixType: 'guided',
+      effortMinutes: 15,
+    })
+  }
+  checks.push(check('testing-framework', 'Test framework', 20, framework ? 20 : 0, framework ? [framework] : []))
+
+  // 2. Count test files (30 points)
+  const testCoverage = sourceFiles.length > 0 ? (testFiles.length / sourceFiles.length) * 100 : 0
+  const testFilePoints = testFiles.length === 0 ? 0 : testCoverage >= 50 ? 30 : testCoverage >= 20 ? 20 : 10
+
+  if (testFiles.length > 0) {
+    detected.push(`${testFiles.length} test files`)
+    score += testFilePoints
+  } else {
+    gaps.push({
+      id: 'testing-no-tests',
+      check: 'testing-test-files',
+      category: 'testing',
+      title: 'No test files found',
+      description: 'Add test_*.py modules for critical functionality',
+      severity: 'critical',
+      confidence: 'proven',
+      fixType: 'guided',
+      effortMinutes: 60,
+    })
+  }
+  checks.push(check('testing-test-files', 'Test file ratio', 30, testFilePoints, [
+    `${testFiles.length} test files / ${sourceFiles.length} source files`,
+    ...testFiles.slice(0, 4).map(f => f.path),
+  ]))
+
+  // 3. Check for pytest configuration (15 points)
+  const configEvidence = fileEvidence(ctx, 'python-testing-config', f =>
+    f.path.endsWith('pytest.ini') ||
+    f.path.endsWith('conftest.py') ||
+    (f.path.endsWith('pyproject.toml') && index.contains(f, '[tool.pytest')) ||
+    (f.path.endsWith('setup.cfg') && index.contains(f, '[tool:pytest]')) ||
+    (f.path.endsWith('tox.ini') && index.contains(f, '[pytest]'))
+  )
+  const hasConfig = configEvidence.length > 0
+
+  if (hasConfig) {
+    detected.push('pytest configured')
+    score += 15
+  }
+  checks.push(check('testing-python-config', 'Test configuration', 15, hasConfig ? 15 : 0, configEvidence))
+
+  // 4. Check tests run in CI (15 points)
+  const ciTestEvidence = fileEvidence(ctx, 'python-testing-ci', f =>
+    f.path.startsWith('.github/workflows/') &&
+    (index.contains(f, 'pytest') || index.contains(f, 'unittest') || index.contains(f, 'tox') ||
+     index.contains(f, 'manage.py test'))
+  )
+  const hasTestInCI = ciTestEvidence.length > 0
+
+  if (hasTestInCI) {
+    detected.push('Tests run in CI')
+    score += 15
+  } else if (techStack.ciProvider) {
+    gaps.push({
+      id: 'testing-not-in-ci',
+      check: 'testing-ci',
+      category: 'testing',
+      title: 'Tests not running in CI',
+      description: 'Run pytest in the CI workflow',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 10,
+    })
+  }
+  checks.push(check('testing-ci', 'Tests run in CI', 15, hasTestInCI ? 15 : 0, ciTestEvidence))
+
+  // 5. Check for coverage reporting (20 points)
+  const coverageEvidence = [
+    ...depEvidence(deps, ['pytest-cov', 'coverage']),
+    ...fileEvidence(ctx, 'python-testing-coverage', f =>
+      f.path.endsWith('.coveragerc') ||
+      (f.path.endsWith('pyproject.toml') && index.contains(f, '[tool.coverage')) ||
+      (f.path.endsWith('setup.cfg') && index.contains(f, '[coverage:'))
+    ),
+  ]
+  const hasCoverage = coverageEvidence.length > 0
+
+  if (hasCoverage) {
+    detected.push('Coverage reporting configured')
+    score += 20
+  }
+  checks.push(check('testing-coverage', 'Coverage reporting', 20, hasCoverage ? 20 : 0, coverageEvidence))
+
+  return {
+    category: 'testing',
+    label: 'Testing',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
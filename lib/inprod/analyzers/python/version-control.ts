@@ -0,0 +1,159 @@
+// =============================================================================
+// PYTHON VERSION CONTROL ANALYZER
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, depEvidence, fileEvidence, notApplicable } from '../../checks'
+import { isPythonProject } from './project'
+
+// Bytecode, virtualenvs and local env files, each accepted in a couple of spellings
+const GITIGNORE_ENTRIES: { label: string; patterns: string[] }[] = [
+  { label: '__pycache__', patterns: ['__pycache__', '*.pyc', '*.py[cod]'] },
+  { label: 'virtualenv', patterns: ['.venv', 'venv', 'env/'] },
+  { label: '.env', patterns: ['.env'] },
+]
+
+export function analyzePythonVersionControl(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+  const deps = index.manifests.python
+
+  if (!isPythonProject(ctx)) {
+    return notApplicable('versionControl', 'No Python project detected')
+  }
+
+  // 1. Check .gitignore covers Python artifacts (25 points)
+  const gitignore = index.byPath.get('.gitignore')
+
+  if (gitignore) {
+    const missing = GITIGNORE_ENTRIES
+      .filter(entry => !entry.patterns.some(pattern => index.contains(gitignore, pattern)))
+      .map(entry => entry.label)
+
+    if (missing.length === 0) {
+      detected.push('Comprehensive .gitignore')
+      score += 25
+      checks.push(check('vc-gitignore', '.gitignore', 25, 25, ['.gitignore']))
+    } else {
+      detected.push('.gitignore present')
+      score += 10
+      checks.push(check('vc-gitignore', '.gitignore', 25, 10, ['.gitignore', ...missing.map(label => `missing: ${label}`)]))
+      gaps.push({
+        id: 'vc-incomplete-gitignore',
+        check: 'vc-gitignore',
+        category: 'versionControl',
+        title: 'Incomplete .gitignore',
+        description: `Add ${missing.join(', ')} to .gitignore`,
+        severity: 'warning',
+        confidence: 'verified',
+        file: '.gitignore',
+        fixType: 'suggested',
+        effortMinutes: 5,
+      })
+    }
+  } else {
+    gaps.push({
+      id: 'vc-no-gitignore',
+      check: 'vc-gitignore',
+      category: 'versionControl',
+      title: 'No .gitignore file',
+      description: 'Add a .gitignore for __pycache__, virtualenvs and .env files',
+      severity: 'critical',
+      confidence: 'proven',
+      fixType: 'suggested',
+      effortMinutes: 5,
+    })
+    checks.push(check('vc-gitignore', '.gitignore', 25, 0))
+  }
+
+  // 2. Check for README (25 points)
+  const readmeEvidence = fileEvidence(ctx, 'vc-readme', f => f.path.toLowerCase() === 'readme.md')
+  const hasReadme = readmeEvidence.length > 0
+
+  if (hasReadme) {
+    detected.push('README.md present')
+    score += 25
+  } else {
+    gaps.push({
+      id: 'vc-no-readme',
+      check: 'vc-readme',
+      category: 'versionControl',
+      title: 'No README.md',
+      description: 'Add README with project description and setup instructions',
+      severity: 'warning',
+      confidence: 'proven',
+      fixType: 'instant',
+      fixTemplate: 'readme',
+      effortMinutes: 20,
+    })
+  }
+  checks.push(check('vc-readme', 'README', 25, hasReadme ? 25 : 0, readmeEvidence))
+
+  // 3. Check for pre-commit hooks (20 points)
+  const hookEvidence = [
+    ...depEvidence(deps, ['pre-commit']),
+    ...fileEvidence(ctx, 'python-vc-hooks', f => f.path === '.pre-commit-config.yaml'),
+  ]
+  const hasHooks = hookEvidence.length > 0
+
+  if (hasHooks) {
+    detected.push('Pre-commit hooks configured')
+    score += 20
+  } else {
+    gaps.push({
+      id: 'vc-no-hooks',
+      check: 'vc-hooks',
+      category: 'versionControl',
+      title: 'No pre-commit hooks',
+      description: 'Add a .pre-commit-config.yaml running ruff (or black and flake8) before each commit',
+      severity: 'info',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    })
+  }
+  checks.push(check('vc-hooks', 'Pre-commit hooks', 20, hasHooks ? 20 : 0, hookEvidence))
+
+  // 4. Check for linter/formatter config (15 points)
+  const lintEvidence = [
+    ...depEvidence(deps, ['ruff', 'black', 'flake8', 'pylint']),
+    ...fileEvidence(ctx, 'python-vc-lint', f =>
+      f.path === 'ruff.toml' || f.path === '.ruff.toml' || f.path === '.flake8' || f.path === '.pylintrc' ||
+      (f.path === 'pyproject.toml' && (index.contains(f, '[tool.ruff') || index.contains(f, '[tool.black')))
+    ),
+  ]
+  const hasLint = lintEvidence.length > 0
+
+  if (hasLint) {
+    detected.push('Linter configured')
+    score += 15
+  }
+  checks.push(check('vc-python-lint', 'Linter / formatter', 15, hasLint ? 15 : 0, lintEvidence))
+
+  // 5. Check for PR template or CODEOWNERS (15 points)
+  const reviewEvidence = fileEvidence(ctx, 'python-vc-review', f =>
+    f.path.toLowerCase().includes('pull_request_template') || f.path.includes('CODEOWNERS')
+  )
+  const hasReview = reviewEvidence.length > 0
+
+  if (hasReview) {
+    detected.push('Review process configured')
+    score += 15
+  }
+  checks.push(check('vc-review', 'PR template / CODEOWNERS', 15, hasReview ? 15 : 0, reviewEvidence))
+
+  return {
+    category: 'versionControl',
+    label: 'Version Control',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -0,0 +1,138 @@
+// =============================================================================
+// REACT NATIVE DEPLOYMENT ANALYZER
+// EAS Build / Fastlane, store submission, build numbers and over-the-air updates
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, depEvidence, fileEvidence } from '../../checks'
+import { locate } from '../../locations'
+import { easConfig, expoConfig, fastfiles, isCIConfig } from './project'
+
+const SUBMIT_ACTIONS = /^\s*(upload_to_testflight|pilot|upload_to_app_store|deliver|upload_to_play_store|supply)\b/m
+const BUILD_NUMBER_ACTIONS = /^\s*(increment_build_number|increment_version_code|latest_testflight_build_number)\b/m
+
+export function analyzeReactNativeDeployment(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { deps } = ctx.index
+  const eas = easConfig(ctx)
+  const expo = expoConfig(ctx)
+  const lanes = fastfiles(ctx)
+  const production = eas?.config.build?.production
+
+  // 1. Check store builds are automated (30 points)
+  const buildEvidence = [
+    ...(eas && production ? [`${eas.file.path}: build.production`] : []),
+    ...lanes.map(f => f.path),
+  ]
+  const hasBuilds = buildEvidence.length > 0
+
+  if (hasBuilds) {
+    detected.push(production ? 'EAS Build' : 'Fastlane')
+    score += 30
+  } else {
+    gaps.push({
+      id: 'deploy-rn-no-build-automation',
+      check: 'deploy-rn-builds',
+      category: 'deployment',
+      title: 'No release build automation',
+      description: expo
+        ? 'Add an eas.json with a production build profile so store builds come from EAS Build'
+        : 'Add fastlane lanes for the iOS and Android release builds',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'guided',
+      effortMinutes: 60,
+    })
+  }
+  checks.push(check('deploy-rn-builds', 'EAS Build / Fastlane', 30, hasBuilds ? 30 : 0, buildEvidence))
+
+  // 2. Check store submission is automated (25 points)
+  const submitEvidence = [
+    ...(eas?.config.submit ? [`${eas.file.path}: submit`] : []),
+    ...lanes.filter(f => SUBMIT_ACTIONS.test(f.content)).map(f => f.path),
+    ...fileEvidence(ctx, 'rn-deploy-submit', f => isCIConfig(f.path) && /eas submit|--auto-submit/.test(f.content)),
+  ]
+  const hasSubmit = submitEvidence.length > 0
+
+  if (hasSubmit) {
+    detected.push('Store submission automated')
+    score += 25
+  }
+  checks.push(check('deploy-rn-submit', 'Store submission', 25, hasSubmit ? 25 : 0, submitEvidence))
+
+  // 3. Check build numbers are managed (15 points)
+  // The stores reject an upload that reuses a build number
+  const versionEvidence = [
+    ...(eas?.config.cli?.appVersionSource === 'remote' ? [`${eas.file.path}: appVersionSource remote`] : []),
+    ...(eas && production?.autoIncrement ? [`${eas.file.path}: autoIncrement`] : []),
+    ...lanes.filter(f => BUILD_NUMBER_ACTIONS.test(f.content)).map(f => f.path),
+  ]
+  const managesVersions = versionEvidence.length > 0
+
+  if (managesVersions) {
+    score += 15
+  }
+  checks.push(check('deploy-rn-build-numbers', 'Build numbers', 15, managesVersions ? 15 : 0, versionEvidence))
+
+  // 4. Check over-the-air updates are pinned to a runtime (30 points)
+  // Without a runtimeVersion an update can reach binaries missing the native code it needs
+  const otaEvidence = depEvidence(deps, ['expo-updates', 'react-native-code-push', '@bitrise/react-native-code-push'])
+  const usesExpoUpdates = !!deps['expo-updates']
+  const runtimePinned = !!expo?.config?.runtimeVersion ||
+    (!!expo && !expo.config && /runtimeVersion/.test(expo.file.content))
+  let otaPoints = 0
+
+  if (otaEvidence.length === 0) {
+    otaPoints = 15
+    gaps.push({
+      id: 'deploy-rn-no-ota',
+      check: 'deploy-rn-ota',
+      category: 'deployment',
+      title: 'No over-the-air updates',
+      description: 'Set up EAS Update (expo-updates) so JS fixes ship without waiting on store review',
+      severity: 'info',
+      confidence: 'high',
+      fixType: 'guided',
+      effortMinutes: 45,
+    })
+  } else if (usesExpoUpdates && !runtimePinned) {
+    otaPoints = 10
+    const location = expo && locate(expo.file, /"updates"|updates\s*:/, 1)[0]
+    gaps.push({
+      id: 'deploy-rn-ota-no-runtime-version',
+      check: 'deploy-rn-ota',
+      category: 'deployment',
+      title: 'OTA updates not pinned to a runtime version',
+      description: 'Set runtimeVersion (e.g. { "policy": "appVersion" }) so an update never reaches a binary it is incompatible with',
+      severity: 'critical',
+      confidence: 'likely',
+      ...(expo && { file: expo.file.path }),
+      ...(location && { line: location.line }),
+      fixType: 'suggested',
+      effortMinutes: 10,
+    })
+  } else {
+    otaPoints = 30
+    detected.push(usesExpoUpdates ? 'EAS Update' : 'CodePush')
+  }
+  score += otaPoints
+  checks.push(check('deploy-rn-ota', 'OTA updates', 30, otaPoints, [
+    ...otaEvidence,
+    ...(runtimePinned && expo ? [`${expo.file.path}: runtimeVersion`] : []),
+  ]))
+
+  return {
+    category: 'deployment',
+    label: 'Deployment',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -0,0 +1,118 @@
+// =============================================================================
+// REACT NATIVE ERROR HANDLING ANALYZER
+// Crash reporting, readable stack traces and error boundaries
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, depEvidence, fileEvidence, skipCheck } from '../../checks'
+import { appConfigFiles } from './project'
+
+const CRASH_REPORTERS = [
+  '@sentry/react-native', 'sentry-expo', '@react-native-firebase/crashlytics',
+  '@bugsnag/react-native', '@bugsnag/expo', '@datadog/mobile-react-native', 'instabug-reactnative',
+]
+
+export function analyzeReactNativeErrorHandling(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+  const { deps } = index
+
+  // 1. Check for crash reporting (45 points)
+  const reporterEvidence = depEvidence(deps, CRASH_REPORTERS)
+  const hasReporter = reporterEvidence.length > 0
+
+  if (hasReporter) {
+    detected.push(`Crash reporting: ${reporterEvidence.map(e => e.replace('package: ', '')).join(', ')}`)
+    score += 45
+  } else {
+    gaps.push({
+      id: 'error-no-monitoring',
+      check: 'error-monitoring',
+      category: 'errorHandling',
+      title: 'No crash reporting',
+      description: 'Add @sentry/react-native or Crashlytics so JS errors and native crashes from user devices reach you',
+      severity: 'critical',
+      confidence: 'proven',
+      fixType: 'guided',
+      effortMinutes: 30,
+    })
+  }
+  checks.push(check('error-monitoring', 'Crash reporting', 45, hasReporter ? 45 : 0, reporterEvidence))
+
+  // 2. Check Sentry gets source maps (25 points)
+  // Release bundles are minified, so stack traces are unreadable without them
+  const usesSentry = !!deps['@sentry/react-native'] || !!deps['sentry-expo']
+
+  if (usesSentry) {
+    const sourceMapEvidence = [
+      ...appConfigFiles(ctx).filter(f => index.contains(f, '@sentry/react-native') || index.contains(f, 'sentry-expo')).map(f => f.path),
+      ...fileEvidence(ctx, 'rn-error-sentry-metro', f =>
+        /(^|\/)metro\.config\.[cm]?js$/.test(f.path) && index.contains(f, '@sentry/react-native/metro')
+      ),
+      ...fileEvidence(ctx, 'rn-error-sentry-properties', f => f.path.endsWith('sentry.properties')),
+    ]
+    const uploadsSourceMaps = sourceMapEvidence.length > 0
+
+    if (uploadsSourceMaps) {
+      detected.push('Source maps uploaded to Sentry')
+      score += 25
+    } else {
+      gaps.push({
+        id: 'error-rn-no-source-maps',
+        check: 'error-rn-source-maps',
+        category: 'errorHandling',
+        title: 'Source maps not uploaded',
+        description: 'Add the @sentry/react-native Expo plugin or Metro config so release stack traces point at your code',
+        severity: 'warning',
+        confidence: 'likely',
+        fixType: 'suggested',
+        effortMinutes: 20,
+      })
+    }
+    checks.push(check('error-rn-source-maps', 'Source maps', 25, uploadsSourceMaps ? 25 : 0, sourceMapEvidence))
+  } else {
+    score += 25
+    checks.push(skipCheck('error-rn-source-maps', 'Source maps', 25,
+      hasReporter ? 'Crash reporter symbolicates natively' : 'No crash reporter'))
+  }
+
+  // 3. Check for an error boundary around the app (30 points)
+  const boundaryEvidence = fileEvidence(ctx, 'rn-error-boundary', f =>
+    /\.[jt]sx?$/.test(f.path) &&
+    (index.contains(f, 'componentDidCatch') || index.contains(f, 'ErrorBoundary') || index.contains(f, 'Sentry.wrap('))
+  )
+  const hasBoundary = boundaryEvidence.length > 0
+
+  if (hasBoundary) {
+    detected.push('Error boundary')
+    score += 30
+  } else {
+    gaps.push({
+      id: 'error-no-global-handler',
+      check: 'error-global-handler',
+      category: 'errorHandling',
+      title: 'No error boundary',
+      description: 'A render error unmounts the whole app. Wrap the root in an error boundary (or Sentry.wrap) that shows a fallback screen.',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 20,
+    })
+  }
+  checks.push(check('error-global-handler', 'Error boundary', 30, hasBoundary ? 30 : 0, boundaryEvidence))
+
+  return {
+    category: 'errorHandling',
+    label: 'Error Handling',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
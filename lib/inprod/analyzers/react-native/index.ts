@@ -0,0 +1,27 @@
+// =============================================================================
+// REACT NATIVE ANALYZERS - Index
+// React Native and Expo apps. Categories without a mobile-specific check keep
+// the default JS/TS analyzers.
+// =============================================================================
+
+import { Analyzer } from '../../types'
+import { analyzeReactNativeSecurity } from './security'
+import { analyzeReactNativeTesting } from './testing'
+import { analyzeReactNativeErrorHandling } from './error-handling'
+import { analyzeReactNativeDeployment } from './deployment'
+
+export {
+  analyzeReactNativeSecurity,
+  analyzeReactNativeTesting,
+  analyzeReactNativeErrorHandling,
+  analyzeReactNativeDeployment,
+}
+
+const REACT_NATIVE = { platforms: ['react-native' as const], languages: ['typescript', 'javascript'] }
+
+export const REACT_NATIVE_ANALYZERS: Analyzer[] = [
+  { id: 'react-native-testing', category: 'testing', ...REACT_NATIVE, run: analyzeReactNativeTesting },
+  { id: 'react-native-security', category: 'security', ...REACT_NATIVE, run: analyzeReactNativeSecurity },
+  { id: 'react-native-error-handling', category: 'errorHandling', ...REACT_NATIVE, run: analyzeReactNativeErrorHandling },
+  { id: 'react-native-deployment', category: 'deployment', ...REACT_NATIVE, run: analyzeReactNativeDeployment },
+]
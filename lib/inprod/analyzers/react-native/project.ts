@@ -0,0 +1,64 @@
+// =============================================================================
+// REACT NATIVE PROJECT HELPERS
+// Shared by the React Native analyzers: Expo config, EAS and Fastlane files
+// =============================================================================
+
+import { RepoContext, RepoFile } from '../../types'
+
+// Expo reads app.json, or app.config.js/ts when the config is computed
+const APP_CONFIGS = ['app.json', 'app.config.ts', 'app.config.js']
+
+export interface ExpoConfig {
+  file: RepoFile
+  config: Record<string, any> | null // Parsed `expo` key; null for app.config.js/ts
+}
+
+/**
+ * app.json and app.config.js/ts files present at the root
+ */
+export function appConfigFiles(ctx: RepoContext): RepoFile[] {
+  return APP_CONFIGS.map(path => ctx.index.byPath.get(path)).filter((f): f is RepoFile => !!f)
+}
+
+/**
+ * The Expo app config, if there is one
+ */
+export function expoConfig(ctx: RepoContext): ExpoConfig | null {
+  const [file] = appConfigFiles(ctx)
+  if (!file) return null
+  if (!file.path.endsWith('.json')) return { file, config: null }
+
+  try {
+    const data = JSON.parse(file.content)
+    return data?.expo ? { file, config: data.expo } : null
+  } catch {
+    return { file, config: null }
+  }
+}
+
+/**
+ * eas.json, parsed. Null when missing or unparseable.
+ */
+export function easConfig(ctx: RepoContext): { file: RepoFile; config: Record<string, any> } | null {
+  const file = ctx.index.byPath.get('eas.json')
+  if (!file) return null
+  try {
+    return { file, config: JSON.parse(file.content) }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Fastfiles at the root or in the native ios/ and android/ folders
+ */
+export function fastfiles(ctx: RepoContext): RepoFile[] {
+  return ['fastlane/Fastfile', 'ios/fastlane/Fastfile', 'android/fastlane/Fastfile']
+    .map(path => ctx.index.byPath.get(path))
+    .filter((f): f is RepoFile => !!f)
+}
+
+export function isCIConfig(path: string): boolean {
+  return path.startsWith('.github/workflows/') || path === '.gitlab-ci.yml' || path === 'bitrise.yml' ||
+    path === 'codemagic.yaml' || path.startsWith('.eas/workflows/')
+}
@@ -0,0 +1,122 @@
+// =============================================================================
+// REACT NATIVE SECURITY ANALYZER
+// Token storage, cleartext traffic and secrets shipped in the JS bundle
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext, SourceLocation } from '../../types'
+import { check, depEvidence } from '../../checks'
+import { cached } from '../../cache'
+import { findSecret, locate, withLocations } from '../../locations'
+import { appConfigFiles } from './project'
+
+// Credentials written to AsyncStorage or MMKV, which are unencrypted files in the app sandbox
+const PLAIN_STORAGE_SECRET = /(AsyncStorage\.setItem|storage\.set|\.setString)\(\s*['"`][^'"`]*(token|password|secret|api_?key|credential)/i
+const SECURE_STORAGE = ['expo-secure-store', 'react-native-keychain', 'react-native-encrypted-storage', 'react-native-sensitive-info']
+
+// EXPO_PUBLIC_ variables are inlined into the bundle, where anyone can read them
+const PUBLIC_ENV_SECRET = /\bEXPO_PUBLIC_\w*(SECRET|PRIVATE|PASSWORD|SERVICE_ROLE)\w*/
+
+const CLEARTEXT = /usesCleartextTraffic["']?\s*[:=]\s*["']?true|NSAllowsArbitraryLoads["']?\s*:\s*true/
+
+export function analyzeReactNativeSecurity(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+  const { deps } = index
+
+  // 1. Check credentials are kept in the Keychain / Keystore (40 points)
+  const plainSecrets = index.sourceFiles.flatMap(f =>
+    cached(ctx, f, 'rn-security-plain-storage', () => locate(f, PLAIN_STORAGE_SECRET))
+  )
+  const secureEvidence = depEvidence(deps, SECURE_STORAGE)
+
+  if (plainSecrets.length === 0) {
+    if (secureEvidence.length > 0) detected.push('Credentials in secure storage')
+    score += 40
+  } else {
+    gaps.push(withLocations({
+      id: 'security-rn-insecure-token-storage',
+      check: 'security-rn-storage',
+      category: 'security',
+      title: 'Credentials in AsyncStorage',
+      description: secureEvidence.length > 0
+        ? 'Move these values to the secure storage library the app already uses'
+        : 'AsyncStorage and MMKV are unencrypted. Store tokens with expo-secure-store or react-native-keychain.',
+      severity: 'critical',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 30,
+    }, plainSecrets))
+  }
+  checks.push(check('security-rn-storage', 'Secure token storage', 40, plainSecrets.length === 0 ? 40 : 0, [
+    ...secureEvidence,
+    ...plainSecrets.map(l => `${l.file}:${l.line}`),
+  ].slice(0, 5)))
+
+  // 2. Check cleartext HTTP is off (20 points)
+  // Expo sets it through app config plugins; bare apps in the native projects
+  const configs = appConfigFiles(ctx)
+  const nativeManifests = (index.byExtension.get('.xml') || [])
+    .filter(f => f.path.endsWith('AndroidManifest.xml') && !f.path.includes('/src/debug/'))
+  const cleartext = [...configs, ...nativeManifests].flatMap(f => locate(f, CLEARTEXT))
+
+  if (cleartext.length === 0) {
+    score += 20
+  } else {
+    gaps.push(withLocations({
+      id: 'security-rn-cleartext',
+      check: 'security-rn-cleartext',
+      category: 'security',
+      title: 'Cleartext HTTP traffic allowed',
+      description: 'Turn off usesCleartextTraffic and NSAllowsArbitraryLoads so release builds only talk HTTPS',
+      severity: 'critical',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    }, cleartext))
+  }
+  checks.push(check('security-rn-cleartext', 'Cleartext traffic disabled', 20, cleartext.length === 0 ? 20 : 0,
+    cleartext.map(l => `${l.file}:${l.line}`)))
+
+  // 3. Check for secrets in the bundle (40 points)
+  const secretLocations: SourceLocation[] = []
+  for (const file of [...index.sourceFiles, ...configs]) {
+    const location = cached(ctx, file, 'security-secrets', () => findSecret(file)) ||
+      cached(ctx, file, 'rn-security-public-env', () => locate(file, PUBLIC_ENV_SECRET, 1)[0] || null)
+    if (!location) continue
+    secretLocations.push(location)
+    gaps.push(withLocations({
+      id: `security-hardcoded-secret-${file.path}`,
+      check: 'security-secrets',
+      category: 'security',
+      title: 'Secret shipped in the app bundle',
+      description: `Potential secret found in ${file.path}; the JS bundle can be extracted from any install. Keep it on a server.`,
+      severity: 'blocker',
+      confidence: 'verified',
+      file: file.path,
+      fixType: 'suggested',
+      effortMinutes: 15,
+    }, [location]))
+  }
+
+  if (secretLocations.length === 0) {
+    detected.push('No hardcoded secrets found')
+    score += 40
+  }
+  checks.push(check('security-secrets', 'No hardcoded secrets', 40, secretLocations.length > 0 ? 0 : 40,
+    secretLocations.map(l => `${l.file}:${l.line}`)))
+
+  return {
+    category: 'security',
+    label: 'Security',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -0,0 +1,115 @@
+// =============================================================================
+// REACT NATIVE TESTING ANALYZER
+// Jest component tests, Detox or Maestro end-to-end flows and CI
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, depEvidence, fileEvidence } from '../../checks'
+import { isCIConfig } from './project'
+
+const COMPONENT_TESTING = ['@testing-library/react-native', 'react-test-renderer']
+
+export function analyzeReactNativeTesting(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+  const { deps } = index
+  const tests = index.testFiles.filter(f => !f.path.startsWith('e2e/'))
+
+  // 1. Check for unit and component tests (30 points)
+  if (tests.length > 0) {
+    detected.push(`${tests.length} test files`)
+    score += 30
+  } else {
+    gaps.push({
+      id: 'testing-no-tests',
+      check: 'testing-files',
+      category: 'testing',
+      title: 'No test files found',
+      description: 'Add Jest tests (the jest-expo or react-native preset) for screens, hooks and API clients',
+      severity: 'critical',
+      confidence: 'proven',
+      fixType: 'guided',
+      effortMinutes: 60,
+    })
+  }
+  checks.push(check('testing-files', 'Test files', 30, tests.length > 0 ? 30 : 0, tests.slice(0, 5).map(f => f.path)))
+
+  // 2. Check for React Native Testing Library (15 points)
+  const componentEvidence = depEvidence(deps, COMPONENT_TESTING)
+  const hasComponentTesting = componentEvidence.length > 0
+
+  if (hasComponentTesting) {
+    detected.push('React Native Testing Library')
+    score += 15
+  }
+  checks.push(check('testing-rn-components', 'Component testing', 15, hasComponentTesting ? 15 : 0, componentEvidence))
+
+  // 3. Check for Detox or Maestro end-to-end tests (30 points)
+  const e2eEvidence = [
+    ...depEvidence(deps, ['detox']),
+    ...fileEvidence(ctx, 'rn-testing-e2e', f =>
+      /^\.detoxrc(\.\w+)?$/.test(f.path) ||
+      (f.path.startsWith('.maestro/') && /\.ya?ml$/.test(f.path))
+    ),
+  ]
+  const hasE2E = e2eEvidence.length > 0
+
+  if (hasE2E) {
+    detected.push(deps['detox'] ? 'Detox E2E tests' : 'Maestro flows')
+    score += 30
+  } else {
+    gaps.push({
+      id: 'testing-no-e2e',
+      check: 'testing-rn-e2e',
+      category: 'testing',
+      title: 'No end-to-end tests on a device',
+      description: 'Add Detox tests or Maestro flows that sign in and walk the critical paths on a simulator',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'guided',
+      effortMinutes: 120,
+    })
+  }
+  checks.push(check('testing-rn-e2e', 'Detox / Maestro', 30, hasE2E ? 30 : 0, e2eEvidence))
+
+  // 4. Check tests run in CI (25 points)
+  const ciTestEvidence = fileEvidence(ctx, 'rn-testing-ci', f =>
+    isCIConfig(f.path) && /\b(jest|(npm|yarn|pnpm|bun)( run)? test|detox test|maestro test)\b/.test(f.content)
+  )
+  const hasTestInCI = ciTestEvidence.length > 0
+
+  if (hasTestInCI) {
+    detected.push('Tests run in CI')
+    score += 25
+  } else {
+    gaps.push({
+      id: 'testing-not-in-ci',
+      check: 'testing-ci',
+      category: 'testing',
+      title: 'Tests not running in CI',
+      description: techStack.ciProvider
+        ? 'Run the Jest suite in the CI workflow'
+        : 'Add a CI workflow that runs the Jest suite on every push',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    })
+  }
+  checks.push(check('testing-ci', 'Tests run in CI', 25, hasTestInCI ? 25 : 0, ciTestEvidence))
+
+  return {
+    category: 'testing',
+    label: 'Testing',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
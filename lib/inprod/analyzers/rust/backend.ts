@@ -0,0 +1,143 @@
+// =============================================================================
+// RUST BACKEND ANALYZER
+// axum, actix-web, rocket and warp services on tokio
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, fileEvidence, notApplicable } from '../../checks'
+import { cached } from '../../cache'
+import { locate, withLocations } from '../../locations'
+import { RUST_WEB_FRAMEWORKS, isRustServer, isRustTest, rustFiles } from './project'
+
+// tower/tower-http layers for axum and warp, server settings for actix and hyper
+const TIMEOUT_SETTINGS = [
+  'TimeoutLayer', 'RequestBodyTimeoutLayer', 'tower::timeout', 'timeout::Timeout',
+  'client_request_timeout(', 'client_disconnect_timeout(', 'header_read_timeout(',
+]
+
+// Where the server starts listening, for pointing at the missing timeouts
+const SERVER_START = /\baxum::serve\(|\bHttpServer::new\(|\bwarp::serve\(|\bServer::bind\(|\brocket::build\(/
+
+const REQUEST_TRACING = ['TraceLayer', 'middleware::Logger', 'warp::trace', '#[instrument', '#[tracing::instrument']
+const GRACEFUL_SHUTDOWN = ['with_graceful_shutdown(', 'shutdown_timeout(', 'tokio::signal::']
+
+export function analyzeRustBackend(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+  const sources = rustFiles(ctx).filter(f => !isRustTest(f.path))
+
+  if (!isRustServer(ctx)) {
+    return notApplicable('backend', 'No Rust web framework detected')
+  }
+
+  const frameworks = techStack.frameworks.filter(fw => RUST_WEB_FRAMEWORKS.includes(fw))
+  const server = frameworks.length > 0 ? frameworks.join(', ') : 'hyper'
+  detected.push(`Framework: ${server}`)
+  score += 20
+  checks.push(check('backend-rust-framework', 'Web framework', 20, 20, [server]))
+
+  // 1. Check requests time out (30 points)
+  // Neither axum nor hyper bound how long a request may take by default
+  const timeoutEvidence = fileEvidence(ctx, 'rust-backend-timeouts', f =>
+    f.path.endsWith('.rs') && TIMEOUT_SETTINGS.some(term => index.contains(f, term))
+  )
+  const hasTimeouts = timeoutEvidence.length > 0
+
+  if (hasTimeouts) {
+    detected.push('Request timeouts configured')
+    score += 30
+  } else {
+    const starts = sources.flatMap(f => cached(ctx, f, 'rust-backend-server-start', () => locate(f, SERVER_START)))
+    gaps.push(withLocations({
+      id: 'backend-rust-no-timeouts',
+      check: 'backend-rust-timeouts',
+      category: 'backend',
+      title: 'No request timeouts',
+      description: frameworks.includes('actix')
+        ? 'Set client_request_timeout and client_disconnect_timeout on the HttpServer'
+        : 'Add tower_http::timeout::TimeoutLayer so slow clients and handlers can\'t hold connections forever',
+      severity: 'critical',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    }, starts))
+  }
+  checks.push(check('backend-rust-timeouts', 'Request timeouts', 30, hasTimeouts ? 30 : 0, timeoutEvidence))
+
+  // 2. Check requests are traced (20 points)
+  const tracingEvidence = fileEvidence(ctx, 'rust-backend-request-tracing', f =>
+    f.path.endsWith('.rs') && REQUEST_TRACING.some(term => index.contains(f, term))
+  )
+  const hasTracing = tracingEvidence.length > 0
+
+  if (hasTracing) {
+    detected.push('Request tracing middleware')
+    score += 20
+  } else {
+    gaps.push({
+      id: 'backend-no-logging',
+      check: 'backend-logging',
+      category: 'backend',
+      title: 'Requests not traced',
+      description: frameworks.includes('actix')
+        ? 'Wrap the app in middleware::Logger (or tracing-actix-web)'
+        : 'Add tower_http::trace::TraceLayer so every request gets a span',
+      severity: 'warning',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    })
+  }
+  checks.push(check('backend-logging', 'Request tracing', 20, hasTracing ? 20 : 0, tracingEvidence))
+
+  // 3. Check for graceful shutdown (15 points)
+  const shutdownEvidence = fileEvidence(ctx, 'rust-backend-shutdown', f =>
+    f.path.endsWith('.rs') && GRACEFUL_SHUTDOWN.some(term => index.contains(f, term))
+  )
+  const hasShutdown = shutdownEvidence.length > 0
+
+  if (hasShutdown) {
+    detected.push('Graceful shutdown')
+    score += 15
+  }
+  checks.push(check('backend-rust-shutdown', 'Graceful shutdown', 15, hasShutdown ? 15 : 0, shutdownEvidence))
+
+  // 4. Check for a health endpoint (15 points)
+  const healthEvidence = fileEvidence(ctx, 'rust-backend-health', f =>
+    f.path.endsWith('.rs') && !isRustTest(f.path) && (index.contains(f, '"/health') || index.contains(f, '"/livez') || index.contains(f, '"/readyz'))
+  )
+  const hasHealth = healthEvidence.length > 0
+
+  if (hasHealth) {
+    detected.push('Health endpoint')
+    score += 15
+  } else {
+    gaps.push({
+      id: 'backend-no-health',
+      check: 'backend-health',
+      category: 'backend',
+      title: 'No health check endpoint',
+      description: 'Add a /health route for load balancers and orchestrators',
+      severity: 'info',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 10,
+    })
+  }
+  checks.push(check('backend-health', 'Health endpoint', 15, hasHealth ? 15 : 0, healthEvidence))
+
+  return {
+    category: 'backend',
+    label: 'Backend',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -0,0 +1,123 @@
+// =============================================================================
+// RUST DEPLOYMENT ANALYZER
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, fileEvidence, notApplicable } from '../../checks'
+import { isRustProject, isRustServer } from './project'
+
+export function analyzeRustDeployment(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+
+  if (!isRustProject(ctx)) {
+    return notApplicable('deployment', 'No Cargo project detected')
+  }
+
+  const server = isRustServer(ctx)
+
+  // 1. Check for CI/CD (25 points)
+  if (techStack.ciProvider) {
+    detected.push(`CI/CD: ${techStack.ciProvider}`)
+    score += 25
+  } else {
+    gaps.push({
+      id: 'deploy-no-ci',
+      check: 'deploy-ci',
+      category: 'deployment',
+      title: 'No CI/CD pipeline',
+      description: 'Add a GitHub Actions workflow that runs cargo build and cargo test',
+      severity: 'critical',
+      confidence: 'proven',
+      fixType: 'suggested',
+      effortMinutes: 20,
+    })
+  }
+  checks.push(check('deploy-ci', 'CI/CD pipeline', 25, techStack.ciProvider ? 25 : 0,
+    techStack.ciProvider ? [techStack.ciProvider] : []))
+
+  // 2. Check for a build artifact: a container image for services, release binaries for tools (25 points)
+  const artifactEvidence = fileEvidence(ctx, 'rust-deploy-artifact', f =>
+    f.path === 'Dockerfile' || f.path === 'docker-compose.yml' || f.path === 'dist-workspace.toml' ||
+    (f.path === 'Cargo.toml' && index.contains(f, '[workspace.metadata.dist]')) ||
+    (f.path.startsWith('.github/workflows/') && (index.contains(f, 'cargo-dist') || index.contains(f, 'cargo publish')))
+  )
+  const hasArtifact = artifactEvidence.length > 0
+
+  if (hasArtifact) {
+    detected.push(`Build: ${artifactEvidence[0]}`)
+    score += 25
+  } else {
+    gaps.push({
+      id: 'deploy-rust-no-artifact',
+      check: 'deploy-rust-artifact',
+      category: 'deployment',
+      title: server ? 'No container image' : 'No release build',
+      description: server
+        ? 'Add a multi-stage Dockerfile (cargo-chef for cached dependencies) that ships only the release binary'
+        : 'Publish release binaries with cargo-dist or a release workflow',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'guided',
+      effortMinutes: 30,
+    })
+  }
+  checks.push(check('deploy-rust-artifact', 'Build artifact', 25, hasArtifact ? 25 : 0, artifactEvidence))
+
+  // 3. Check for deployment target (20 points)
+  const platform = techStack.deploymentPlatform
+  if (platform) {
+    detected.push(`Platform: ${platform}`)
+    score += 20
+  }
+  checks.push(check('deploy-platform', 'Deployment platform', 20, platform ? 20 : 0, platform ? [platform] : []))
+
+  // 4. Check Cargo.lock is committed (15 points)
+  const hasLock = index.byPath.has('Cargo.lock')
+
+  if (hasLock) {
+    detected.push('Cargo.lock committed')
+    score += 15
+  } else {
+    gaps.push({
+      id: 'deploy-rust-no-lockfile',
+      check: 'deploy-rust-lockfile',
+      category: 'deployment',
+      title: 'Cargo.lock not committed',
+      description: 'Commit Cargo.lock so builds use the exact dependency versions that were tested',
+      severity: 'warning',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 5,
+    })
+  }
+  checks.push(check('deploy-rust-lockfile', 'Cargo.lock committed', 15, hasLock ? 15 : 0, hasLock ? ['Cargo.lock'] : []))
+
+  // 5. Check the toolchain is pinned (15 points)
+  const toolchainEvidence = fileEvidence(ctx, 'rust-deploy-toolchain', f =>
+    f.path === 'rust-toolchain.toml' || f.path === 'rust-toolchain' ||
+    (f.path === 'Cargo.toml' && index.contains(f, 'rust-version'))
+  )
+  const hasToolchain = toolchainEvidence.length > 0
+
+  if (hasToolchain) {
+    detected.push('Rust toolchain pinned')
+    score += 15
+  }
+  checks.push(check('deploy-rust-toolchain', 'Pinned toolchain', 15, hasToolchain ? 15 : 0, toolchainEvidence))
+
+  return {
+    category: 'deployment',
+    label: 'Deployment',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
@@ -0,0 +1,130 @@
+// =============================================================================
+// RUST ERROR HANDLING ANALYZER
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, depEvidence, fileEvidence, notApplicable } from '../../checks'
+import { cached } from '../../cache'
+import { locate, withLocations } from '../../locations'
+import { isRustProject, isRustTest, productionCode, rustFiles } from './project'
+
+const ERROR_CRATES = ['thiserror', 'anyhow', 'eyre', 'color-eyre', 'snafu', 'miette']
+const MONITORING_CRATES = ['sentry', 'sentry-tracing', 'opentelemetry', 'rollbar', 'bugsnag']
+
+// Each call panics on an Err/None; a handful in startup code is normal, dozens are not
+const UNWRAP_CALL = /\.(unwrap|expect)\(/
+const MAX_UNWRAPS_PER_KLOC = 2
+
+export function analyzeRustErrorHandling(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+  const deps = index.manifests.rust
+
+  if (!isRustProject(ctx)) {
+    return notApplicable('errorHandling', 'No Cargo project detected')
+  }
+
+  const sources = rustFiles(ctx).filter(f => !isRustTest(f.path))
+
+  // 1. Check unwrap()/expect() density in non-test code (35 points)
+  const unwraps = sources.flatMap(f => cached(ctx, f, 'rust-error-unwrap', () => locate(productionCode(f), UNWRAP_CALL, Infinity)))
+  const lines = sources.reduce((total, f) => total + productionCode(f).content.split('\n').length, 0)
+  const density = lines > 0 ? (unwraps.length / lines) * 1000 : 0
+  const unwrapPoints = unwraps.length === 0 ? 35 : density <= MAX_UNWRAPS_PER_KLOC ? 25 : density <= MAX_UNWRAPS_PER_KLOC * 3 ? 10 : 0
+
+  score += unwrapPoints
+  if (density <= MAX_UNWRAPS_PER_KLOC) {
+    detected.push(unwraps.length === 0 ? 'No unwrap()/expect() outside tests' : 'Few unwrap()/expect() calls')
+  } else {
+    gaps.push(withLocations({
+      id: 'error-rust-unwrap',
+      check: 'error-rust-unwrap',
+      category: 'errorHandling',
+      title: 'Frequent unwrap()/expect() in production code',
+      description: `${unwraps.length} calls in ${lines} lines (${density.toFixed(1)} per 1000) panic instead of returning errors. Propagate with ? and a Result type.`,
+      severity: 'warning',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: Math.min(120, unwraps.length * 3),
+    }, unwraps.slice(0, 20)))
+  }
+  checks.push(check('error-rust-unwrap', 'unwrap()/expect() density', 35, unwrapPoints, [
+    `${unwraps.length} calls in ${lines} lines`,
+    ...unwraps.slice(0, 4).map(l => `${l.file}:${l.line}`),
+  ]))
+
+  // 2. Check for typed errors (20 points)
+  const errorCrateEvidence = depEvidence(deps, ERROR_CRATES)
+  const hasErrorTypes = errorCrateEvidence.length > 0
+
+  if (hasErrorTypes) {
+    detected.push(`Error types: ${errorCrateEvidence[0].replace('package: ', '')}`)
+    score += 20
+  }
+  checks.push(check('error-rust-types', 'Error types', 20, hasErrorTypes ? 20 : 0, errorCrateEvidence))
+
+  // 3. Check tracing is set up (25 points)
+  // The tracing crate alone records nothing until a subscriber is installed
+  const subscriberEvidence = fileEvidence(ctx, 'rust-error-subscriber', f =>
+    f.path.endsWith('.rs') && (index.contains(f, 'tracing_subscriber::') || index.contains(f, 'env_logger::'))
+  )
+  const hasTracing = !!deps['tracing'] && subscriberEvidence.length > 0
+
+  if (hasTracing) {
+    detected.push('tracing subscriber configured')
+    score += 25
+  } else {
+    gaps.push({
+      id: 'error-rust-no-tracing',
+      check: 'error-logging',
+      category: 'errorHandling',
+      title: deps['tracing'] ? 'tracing events are never collected' : 'No tracing setup',
+      description: 'Add tracing and install a tracing_subscriber::fmt() subscriber in main so errors are logged with context',
+      severity: 'warning',
+      confidence: 'likely',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    })
+  }
+  checks.push(check('error-logging', 'Structured error logging', 25, hasTracing ? 25 : 0, [
+    ...depEvidence(deps, ['tracing']),
+    ...subscriberEvidence,
+  ]))
+
+  // 4. Check for error monitoring (20 points)
+  const monitoringEvidence = depEvidence(deps, MONITORING_CRATES)
+  const hasMonitoring = monitoringEvidence.length > 0
+
+  if (hasMonitoring) {
+    detected.push('Error monitoring configured')
+    score += 20
+  } else {
+    gaps.push({
+      id: 'error-no-monitoring',
+      check: 'error-monitoring',
+      category: 'errorHandling',
+      title: 'No error monitoring',
+      description: 'Add the sentry crate (with sentry-tracing) to capture production errors and panics',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    })
+  }
+  checks.push(check('error-monitoring', 'Error monitoring', 20, hasMonitoring ? 20 : 0, monitoringEvidence))
+
+  return {
+    category: 'errorHandling',
+    label: 'Error Handling',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
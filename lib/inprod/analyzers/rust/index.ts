@@ -0,0 +1,33 @@
+// =============================================================================
+// RUST ANALYZERS - Index
+// Selected when the repo uses Rust; categories without a Rust analyzer
+// (including database) keep the default ones
+// =============================================================================
+
+import { Analyzer } from '../../types'
+import { analyzeRustBackend } from './backend'
+import { analyzeRustTesting } from './testing'
+import { analyzeRustSecurity } from './security'
+import { analyzeRustErrorHandling } from './error-handling'
+import { analyzeRustVersionControl } from './version-control'
+import { analyzeRustDeployment } from './deployment'
+
+export {
+  analyzeRustBackend,
+  analyzeRustTesting,
+  analyzeRustSecurity,
+  analyzeRustErrorHandling,
+  analyzeRustVersionControl,
+  analyzeRustDeployment,
+}
+
+const RUST = { languages: ['rust'] }
+
+export const RUST_ANALYZERS: Analyzer[] = [
+  { id: 'rust-backend', category: 'backend', ...RUST, run: analyzeRustBackend },
+  { id: 'rust-testing', category: 'testing', ...RUST, run: analyzeRustTesting },
+  { id: 'rust-security', category: 'security', ...RUST, run: analyzeRustSecurity },
+  { id: 'rust-error-handling', category: 'errorHandling', ...RUST, run: analyzeRustErrorHandling },
+  { id: 'rust-version-control', category: 'versionControl', ...RUST, run: analyzeRustVersionControl },
+  { id: 'rust-deployment', category: 'deployment', ...RUST, run: analyzeRustDeployment },
+]
@@ -0,0 +1,47 @@
+// =============================================================================
+// RUST PROJECT HELPERS
+// Shared by the Rust analyzers: which files are crate sources and tests, and
+// whether the repo is a Cargo project at all
+// =============================================================================
+
+import { RepoContext, RepoFile } from '../../types'
+
+// Build output and vendored crates, not the project's own code
+const IGNORED_DIRS = /(^|\/)(target|vendor|node_modules)\//
+
+export const RUST_WEB_FRAMEWORKS = ['axum', 'actix', 'rocket', 'warp']
+
+/**
+ * The project's .rs files, tests included
+ */
+export function rustFiles(ctx: RepoContext): RepoFile[] {
+  return (ctx.index.byExtension.get('.rs') || []).filter(f => !IGNORED_DIRS.test(f.path))
+}
+
+/**
+ * Integration tests, benches and examples; unit tests live inside source files
+ * and are cut off by productionCode instead
+ */
+export function isRustTest(path: string): boolean {
+  return /(^|\/)(tests|benches|examples)\//.test(path) || path.endsWith('build.rs')
+}
+
+/**
+ * The file up to its #[cfg(test)] module, which by convention sits at the
+ * bottom. Line numbers are unchanged so locations still point at the source.
+ */
+export function productionCode(file: RepoFile): RepoFile {
+  const testModule = file.content.search(/^\s*#\[cfg\(test\)\]/m)
+  return testModule === -1 ? file : { ...file, content: file.content.slice(0, testModule).trimEnd() }
+}
+
+export function isRustProject(ctx: RepoContext): boolean {
+  return (ctx.index.byExtension.get('.toml') || []).some(f => f.path === 'Cargo.toml' || f.path.endsWith('/Cargo.toml'))
+}
+
+/**
+ * Whether the crate serves HTTP through one of the common frameworks or hyper directly
+ */
+export function isRustServer(ctx: RepoContext): boolean {
+  return ctx.techStack.frameworks.some(fw => RUST_WEB_FRAMEWORKS.includes(fw)) || !!ctx.index.manifests.rust['hyper']
+}
@@ -0,0 +1,142 @@
+// =============================================================================
+// RUST SECURITY ANALYZER
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext, SourceLocation } from '../../types'
+import { check, fileEvidence, notApplicable } from '../../checks'
+import { cached } from '../../cache'
+import { findSecret, locate, withLocations } from '../../locations'
+import { isRustProject, isRustTest, productionCode, rustFiles } from './project'
+
+const UNSAFE_CODE = /\bunsafe\s*(\{|fn\b|impl\b)/
+
+// reqwest and native-tls switches that accept any certificate
+const INSECURE_TLS = /danger_accept_invalid_(certs|hostnames)\(\s*true\s*\)/
+
+export function analyzeRustSecurity(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+
+  if (!isRustProject(ctx)) {
+    return notApplicable('security', 'No Cargo project detected')
+  }
+
+  const sources = rustFiles(ctx).filter(f => !isRustTest(f.path))
+
+  // 1. Check unsafe blocks are justified (25 points)
+  // The convention is a `// SAFETY:` comment directly above each block
+  const forbidden = sources.some(f => index.contains(f, '#![forbid(unsafe_code)]'))
+  const unsafeLocations = sources.flatMap(f => cached(ctx, f, 'rust-security-unsafe', () => {
+    const lines = f.content.split('\n')
+    return locate(productionCode(f), UNSAFE_CODE).filter(l => !/SAFETY:/.test(lines[l.line - 2] || ''))
+  }))
+
+  if (unsafeLocations.length === 0) {
+    detected.push(forbidden ? 'unsafe code forbidden' : 'No undocumented unsafe blocks')
+    score += 25
+    checks.push(check('security-rust-unsafe', 'unsafe code', 25, 25, forbidden ? ['#![forbid(unsafe_code)]'] : []))
+  } else {
+    gaps.push(withLocations({
+      id: 'security-rust-unsafe',
+      check: 'security-rust-unsafe',
+      category: 'security',
+      title: 'unsafe blocks without a safety argument',
+      description: 'Document the invariants each unsafe block relies on in a // SAFETY: comment, or replace it with a safe API',
+      severity: 'warning',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 20,
+    }, unsafeLocations))
+    checks.push(check('security-rust-unsafe', 'unsafe code', 25, 0, unsafeLocations.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  }
+
+  // 2. Check for advisory auditing with cargo-deny or cargo-audit (25 points)
+  const auditEvidence = fileEvidence(ctx, 'rust-security-audit', f =>
+    f.path === 'deny.toml' || f.path === '.cargo/audit.toml' || f.path === '.github/dependabot.yml' ||
+    (f.path.startsWith('.github/workflows/') &&
+     (index.contains(f, 'cargo deny') || index.contains(f, 'cargo-deny') ||
+      index.contains(f, 'cargo audit') || index.contains(f, 'audit-check')))
+  )
+  const hasAudit = auditEvidence.length > 0
+
+  if (hasAudit) {
+    detected.push('Dependency audit configured')
+    score += 25
+  } else {
+    gaps.push({
+      id: 'security-rust-no-audit',
+      check: 'security-audit',
+      category: 'security',
+      title: 'No dependency audit',
+      description: 'Add a deny.toml and run cargo deny check (or cargo audit) in CI to catch RustSec advisories',
+      severity: 'warning',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    })
+  }
+  checks.push(check('security-audit', 'Dependency audit', 25, hasAudit ? 25 : 0, auditEvidence))
+
+  // 3. Check for secrets in code (25 points)
+  const secretLocations: SourceLocation[] = []
+  for (const file of sources) {
+    const location = cached(ctx, file, 'security-secrets', () => findSecret(file))
+    if (!location) continue
+    secretLocations.push(location)
+    gaps.push(withLocations({
+      id: `security-hardcoded-secret-${file.path}`,
+      check: 'security-secrets',
+      category: 'security',
+      title: 'Hardcoded secret detected',
+      description: `Potential secret found in ${file.path}`,
+      severity: 'blocker',
+      confidence: 'verified',
+      file: file.path,
+      fixType: 'suggested',
+      effortMinutes: 5,
+    }, [location]))
+  }
+
+  if (secretLocations.length === 0) {
+    detected.push('No hardcoded secrets found')
+    score += 25
+  }
+  checks.push(check('security-secrets', 'No hardcoded secrets', 25, secretLocations.length > 0 ? 0 : 25,
+    secretLocations.map(l => `${l.file}:${l.line}`)))
+
+  // 4. Check TLS certificates are verified (25 points)
+  const tlsLocations = sources.flatMap(f => cached(ctx, f, 'rust-security-tls', () => locate(f, INSECURE_TLS)))
+
+  if (tlsLocations.length === 0) {
+    score += 25
+    checks.push(check('security-rust-tls', 'TLS verification', 25, 25))
+  } else {
+    gaps.push(withLocations({
+      id: 'security-rust-insecure-tls',
+      check: 'security-rust-tls',
+      category: 'security',
+      title: 'TLS certificate verification disabled',
+      description: 'danger_accept_invalid_certs lets anyone impersonate the server. Add the CA with add_root_certificate instead.',
+      severity: 'critical',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 15,
+    }, tlsLocations))
+    checks.push(check('security-rust-tls', 'TLS verification', 25, 0, tlsLocations.slice(0, 5).map(l => `${l.file}:${l.line}`)))
+  }
+
+  return {
+    category: 'security',
+    label: 'Security',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
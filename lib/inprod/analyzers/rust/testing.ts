@@ -0,0 +1,131 @@
+// =============================================================================
+// RUST TESTING ANALYZER
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, fileEvidence, notApplicable } from '../../checks'
+import { isRustProject, isRustTest, rustFiles } from './project'
+
+export function analyzeRustTesting(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { techStack, index } = ctx
+
+  if (!isRustProject(ctx)) {
+    return notApplicable('testing', 'No Cargo project detected')
+  }
+
+  const files = rustFiles(ctx)
+  const integrationTests = files.filter(f => /(^|\/)tests\/[^/]+\.rs$/.test(f.path))
+  const sources = files.filter(f => !isRustTest(f.path))
+  const unitTested = sources.filter(f => index.contains(f, '#[cfg(test)]') || index.contains(f, '#[test]'))
+
+  // 1. Check for test framework (15 points)
+  // `cargo test` ships with the toolchain, so a crate always has one
+  const framework = techStack.testFramework || 'cargo test'
+  detected.push(`Test framework: ${framework}`)
+  score += 15
+  checks.push(check('testing-framework', 'Test framework', 15, 15, [framework]))
+
+  // 2. Check for integration tests in tests/ (30 points)
+  // These exercise the crate through its public API, the way callers use it
+  const hasIntegration = integrationTests.length > 0
+
+  if (hasIntegration) {
+    detected.push(`${integrationTests.length} integration test files`)
+    score += 30
+  } else if (unitTested.length > 0) {
+    gaps.push({
+      id: 'testing-rust-no-integration-tests',
+      check: 'testing-rust-integration',
+      category: 'testing',
+      title: 'No integration tests',
+      description: 'Add tests/*.rs that exercise the crate through its public API',
+      severity: 'warning',
+      confidence: 'verified',
+      fixType: 'guided',
+      effortMinutes: 45,
+    })
+  }
+  checks.push(check('testing-rust-integration', 'Integration tests', 30, hasIntegration ? 30 : 0,
+    integrationTests.slice(0, 5).map(f => f.path)))
+
+  // 3. Check source files carry unit tests (25 points)
+  const unitRatio = sources.length > 0 ? (unitTested.length / sources.length) * 100 : 0
+  const unitPoints = unitTested.length === 0 ? 0 : unitRatio >= 30 ? 25 : 15
+
+  score += unitPoints
+  if (unitTested.length > 0) {
+    detected.push(`${unitTested.length} modules with unit tests`)
+  } else if (!hasIntegration) {
+    gaps.push({
+      id: 'testing-no-tests',
+      check: 'testing-rust-unit',
+      category: 'testing',
+      title: 'No tests found',
+      description: 'Add #[cfg(test)] modules next to the code and integration tests under tests/',
+      severity: 'critical',
+      confidence: 'proven',
+      fixType: 'guided',
+      effortMinutes: 60,
+    })
+  }
+  checks.push(check('testing-rust-unit', 'Unit test modules', 25, unitPoints, [
+    `${unitTested.length} of ${sources.length} source files have unit tests`,
+  ]))
+
+  // 4. Check tests run in CI (15 points)
+  const ciTestEvidence = fileEvidence(ctx, 'rust-testing-ci', f =>
+    isCIConfig(f.path) && (index.contains(f, 'cargo test') || index.contains(f, 'cargo nextest') || index.contains(f, 'command: test'))
+  )
+  const hasTestInCI = ciTestEvidence.length > 0
+
+  if (hasTestInCI) {
+    detected.push('Tests run in CI')
+    score += 15
+  } else if (techStack.ciProvider) {
+    gaps.push({
+      id: 'testing-not-in-ci',
+      check: 'testing-ci',
+      category: 'testing',
+      title: 'Tests not running in CI',
+      description: 'Run cargo test --all-features in the CI workflow',
+      severity: 'warning',
+      confidence: 'high',
+      fixType: 'suggested',
+      effortMinutes: 10,
+    })
+  }
+  checks.push(check('testing-ci', 'Tests run in CI', 15, hasTestInCI ? 15 : 0, ciTestEvidence))
+
+  // 5. Check for coverage reporting (15 points)
+  const coverageEvidence = fileEvidence(ctx, 'rust-testing-coverage', f =>
+    f.path === 'tarpaulin.toml' || f.path === '.tarpaulin.toml' ||
+    (isCIConfig(f.path) && (index.contains(f, 'tarpaulin') || index.contains(f, 'llvm-cov') || index.contains(f, 'grcov')))
+  )
+  const hasCoverage = coverageEvidence.length > 0
+
+  if (hasCoverage) {
+    detected.push('Coverage reporting configured')
+    score += 15
+  }
+  checks.push(check('testing-coverage', 'Coverage reporting', 15, hasCoverage ? 15 : 0, coverageEvidence))
+
+  return {
+    category: 'testing',
+    label: 'Testing',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
+
+function isCIConfig(path: string): boolean {
+  return path.startsWith('.github/workflows/') || path === '.gitlab-ci.yml'
+}
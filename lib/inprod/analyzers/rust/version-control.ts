@@ -0,0 +1,113 @@
+// =============================================================================
+// RUST VERSION CONTROL ANALYZER
+// =============================================================================
+
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../../types'
+import { check, fileEvidence, notApplicable } from '../../checks'
+import { isRustProject } from './project'
+
+export function analyzeRustVersionControl(ctx: RepoContext): CategoryScore {
+  const gaps: Gap[] = []
+  const detected: string[] = []
+  const checks: CheckResult[] = []
+  let score = 0
+
+  const { index } = ctx
+
+  if (!isRustProject(ctx)) {
+    return notApplicable('versionControl', 'No Cargo project detected')
+  }
+
+  // 1. Check .gitignore excludes target/ (20 points)
+  const gitignore = index.byPath.get('.gitignore')
+  const ignoresTarget = !!gitignore && index.contains(gitignore, 'target')
+
+  if (ignoresTarget) {
+    detected.push('.gitignore excludes target/')
+    score += 20
+  } else {
+    gaps.push({
+      id: gitignore ? 'vc-incomplete-gitignore' : 'vc-no-gitignore',
+      category: 'versionControl',
+      title: gitignore ? 'Incomplete .gitignore' : 'No .gitignore file',
+      description: 'Add /target to .gitignore so build output is never committed',
+      severity: gitignore ? 'warning' : 'critical',
+      confidence: 'verified',
+      ...(gitignore && { file: '.gitignore' }),
+      fixType: 'suggested',
+      effortMinutes: 5,
+    })
+  }
+  checks.push(check('vc-gitignore', '.gitignore', 20, ignoresTarget ? 20 : 0, gitignore ? ['.gitignore'] : []))
+
+  // 2. Check for README (25 points)
+  const readmeEvidence = fileEvidence(ctx, 'vc-readme', f => f.path.toLowerCase() === 'readme.md')
+  const hasReadme = readmeEvidence.length > 0
+
+  if (hasReadme) {
+    detected.push('README.md present')
+    score += 25
+  } else {
+    gaps.push({
+      id: 'vc-no-readme',
+      check: 'vc-readme',
+      category: 'versionControl',
+      title: 'No README.md',
+      description: 'Add README with project description and setup instructions',
+      severity: 'warning',
+      confidence: 'proven',
+      fixType: 'instant',
+      fixTemplate: 'readme',
+      effortMinutes: 20,
+    })
+  }
+  checks.push(check('vc-readme', 'README', 25, hasReadme ? 25 : 0, readmeEvidence))
+
+  // 3. Check clippy runs in CI (35 points)
+  const clippyEvidence = fileEvidence(ctx, 'rust-vc-clippy', f =>
+    (f.path.startsWith('.github/workflows/') || f.path === '.gitlab-ci.yml') && index.contains(f, 'clippy')
+  )
+  const hasClippy = clippyEvidence.length > 0
+
+  if (hasClippy) {
+    detected.push('clippy runs in CI')
+    score += 35
+  } else {
+    gaps.push({
+      id: 'vc-rust-no-clippy',
+      check: 'vc-rust-clippy',
+      category: 'versionControl',
+      title: 'clippy not run in CI',
+      description: 'Run cargo clippy --all-targets -- -D warnings in CI so lints block merges',
+      severity: 'warning',
+      confidence: 'verified',
+      fixType: 'suggested',
+      effortMinutes: 10,
+    })
+  }
+  checks.push(check('vc-rust-clippy', 'clippy in CI', 35, hasClippy ? 35 : 0, clippyEvidence))
+
+  // 4. Check formatting is enforced (20 points)
+  const fmtEvidence = fileEvidence(ctx, 'rust-vc-fmt', f =>
+    f.path === 'rustfmt.toml' || f.path === '.rustfmt.toml' ||
+    (f.path.startsWith('.github/workflows/') && index.contains(f, 'cargo fmt'))
+  )
+  const hasFmt = fmtEvidence.length > 0
+
+  if (hasFmt) {
+    detected.push('rustfmt enforced')
+    score += 20
+  }
+  checks.push(check('vc-rust-fmt', 'rustfmt', 20, hasFmt ? 20 : 0, fmtEvidence))
+
+  return {
+    category: 'versionControl',
+    label: 'Version Control',
+    score: Math.min(100, score),
+    applicable: true,
+    detected,
+    checks,
+    gaps,
+    canGenerate: gaps.some(g => g.fixType === 'instant'),
+  }
+}
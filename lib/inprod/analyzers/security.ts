@@ -2,34 +2,48 @@
 // SECURITY ANALYZER
 // =============================================================================
 
-import { CategoryScore, Gap, RepoContext } from '../types'
+import { CategoryScore, CheckResult, Gap, RepoContext, RepoFile } from '../types'
+import { findSecret, locateAll, withLocations } from '../locations'
+import { check, depEvidence, fileEvidence, skipCheck } from '../checks'
+import { cached } from '../cache'
+import { callsSanitizer, rawHtmlSinks, scriptKind } from '../ast'
+import { TaintFlow, TaintKind, findTaintFlows } from '../taint'
+
+const SANITIZER_TERMS = ['sanitize', 'purify', 'escape', 'xss']
+
+const TAINT_TITLES: Record<TaintKind, string> = {
+  'sql-injection': 'SQL injection: request input reaches a raw query',
+  'xss': 'XSS: request input rendered as raw HTML',
+  'command-injection': 'Command injection: request input reaches a shell command',
+  'ssrf': 'SSRF: request input used as a request URL',
+}
 
 export function analyzeSecurity(ctx: RepoContext): CategoryScore {
   const gaps: Gap[] = []
   const detected: string[] = []
+  const checks: CheckResult[] = []
   let score = 0
-  
-  const { files, packageJson } = ctx
-  const deps = packageJson ? { 
-    ...((packageJson.dependencies as Record<string, string>) || {}),
-    ...((packageJson.devDependencies as Record<string, string>) || {})
-  } : {}
+
+  const { files, index } = ctx
+  const { deps } = index
 
   // 1. Check for security headers (15 points)
-  const hasSecurityHeaders = files.some(f => 
-    f.content.includes('X-Frame-Options') || 
-    f.content.includes('Content-Security-Policy') ||
-    f.content.includes('X-Content-Type-Options') ||
-    f.content.includes('Strict-Transport-Security') ||
-    (f.path.includes('next.config') && f.content.includes('headers'))
+  const headerEvidence = fileEvidence(ctx, 'security-headers', f =>
+    index.contains(f, 'X-Frame-Options') ||
+    index.contains(f, 'Content-Security-Policy') ||
+    index.contains(f, 'X-Content-Type-Options') ||
+    index.contains(f, 'Strict-Transport-Security') ||
+    (f.path.includes('next.config') && index.contains(f, 'headers'))
   )
-  
+  const hasSecurityHeaders = headerEvidence.length > 0
+
   if (hasSecurityHeaders) {
     detected.push('Security headers configured')
     score += 15
   } else {
     gaps.push({
       id: 'security-no-headers',
+      check: 'security-headers',
       category: 'security',
       title: 'No security headers detected',
       description: 'Add security headers (X-Frame-Options, CSP, HSTS)',
@@ -40,21 +54,37 @@ export function analyzeSecurity(ctx: RepoContext): CategoryScore {
       effortMinutes: 15,
     })
   }
+  checks.push(check('security-headers', 'Security headers', 15, hasSecurityHeaders ? 15 : 0, headerEvidence))
 
-  // 2. Check for input sanitization (15 points)
-  const hasSanitization = files.some(f => 
-    f.content.includes('sanitize') || 
-    f.content.includes('escape') ||
-    f.content.includes('DOMPurify') ||
-    deps['dompurify'] || deps['xss']
+  // 2. Check raw HTML is sanitized (15 points). Each dangerouslySetInnerHTML
+  // value must trace back to a sanitizer call; a sanitizer elsewhere doesn't count.
+  const rawHtml = files.flatMap(file =>
+    cached(ctx, file, 'security-raw-html', () => {
+      const source = index.contains(file, 'dangerouslySetInnerHTML') ? index.ast(file) : undefined
+      return source ? rawHtmlSinks(source) : []
+    })
   )
-  
-  if (hasSanitization) {
+  const rawHtmlLocations = rawHtml.filter(sink => !sink.sanitized).map(sink => sink.location).slice(0, 20)
+  const sanitizationEvidence = [
+    ...depEvidence(deps, ['dompurify', 'isomorphic-dompurify', 'sanitize-html', 'xss']),
+    ...fileEvidence(ctx, 'security-sanitization', f => {
+      if (!SANITIZER_TERMS.some(term => index.containsIgnoreCase(f, term))) return false
+      const source = index.ast(f)
+      return !!source && callsSanitizer(source)
+    }),
+  ]
+
+  if (rawHtmlLocations.length === 0 && (rawHtml.length > 0 || sanitizationEvidence.length > 0)) {
     detected.push('Input sanitization detected')
     score += 15
-  } else if (files.some(f => f.content.includes('dangerouslySetInnerHTML'))) {
-    gaps.push({
+    checks.push(check('security-sanitization', 'Input sanitization', 15, 15, [
+      ...rawHtml.slice(0, 5).map(sink => `sanitized: ${sink.location.file}:${sink.location.line}`),
+      ...sanitizationEvidence,
+    ].slice(0, 5)))
+  } else if (rawHtmlLocations.length > 0) {
+    gaps.push(withLocations({
       id: 'security-no-sanitization',
+      check: 'security-sanitization',
       category: 'security',
       title: 'Using dangerouslySetInnerHTML without sanitization',
       description: 'Sanitize HTML content to prevent XSS attacks',
@@ -63,73 +93,72 @@ export function analyzeSecurity(ctx: RepoContext): CategoryScore {
       fixType: 'instant',
       fixTemplate: 'xss-sanitization',
       effortMinutes: 15,
-    })
+    }, rawHtmlLocations))
+    checks.push(check('security-sanitization', 'Input sanitization', 15, 0, rawHtmlLocations.map(l => `${l.file}:${l.line}`)))
   } else {
     score += 15 // Not applicable
+    checks.push(skipCheck('security-sanitization', 'Input sanitization', 15, 'No raw HTML rendering'))
   }
 
   // 3. Check for secrets in code (15 points)
-  const secretPatterns = [
-    /sk[-_]live[-_][a-zA-Z0-9]{24,}/g, // Stripe
-    /ghp_[a-zA-Z0-9]{36}/g, // GitHub
-    /sk-[a-zA-Z0-9]{48}/g, // OpenAI
-    /AIza[0-9A-Za-z_-]{35}/g, // Google
-    /password\s*[:=]\s*["'][^"']{8,}["']/gi,
-  ]
-  
   let hasHardcodedSecrets = false
+  const secretEvidence: string[] = []
   for (const file of files) {
     // Skip non-code files
-    if (file.path.includes('node_modules') || 
-        file.path.includes('.env') || 
+    if (file.path.includes('node_modules') ||
+        file.path.includes('.env') ||
         file.path.startsWith('docs/') ||
         file.path.endsWith('.md')) continue
-    for (const pattern of secretPatterns) {
-      if (pattern.test(file.content)) {
-        hasHardcodedSecrets = true
-        gaps.push({
-          id: `security-hardcoded-secret-${file.path}`,
-          category: 'security',
-          title: 'Hardcoded secret detected',
-          description: `Potential secret found in ${file.path}`,
-          severity: 'blocker',
-          confidence: 'verified',
-          file: file.path,
-          fixType: 'instant',
-          fixTemplate: 'extract-secret',
-          effortMinutes: 5,
-        })
-        break
-      }
+    const location = cached(ctx, file, 'security-secrets', () => findSecret(file))
+    if (location) {
+      hasHardcodedSecrets = true
+      secretEvidence.push(`${location.file}:${location.line}`)
+      gaps.push(withLocations({
+        id: `security-hardcoded-secret-${file.path}`,
+        check: 'security-secrets',
+        category: 'security',
+        title: 'Hardcoded secret detected',
+        description: `Potential secret found in ${file.path}`,
+        severity: 'blocker',
+        confidence: 'verified',
+        file: file.path,
+        fixType: 'instant',
+        fixTemplate: 'extract-secret',
+        effortMinutes: 5,
+      }, [location]))
     }
   }
-  
+
   if (!hasHardcodedSecrets) {
     detected.push('No hardcoded secrets found')
     score += 15
   }
+  checks.push(check('security-secrets', 'No hardcoded secrets', 15, hasHardcodedSecrets ? 0 : 15, secretEvidence))
 
   // 4. Check for HTTPS enforcement (10 points)
-  const hasHTTPS = files.some(f => 
-    f.content.includes('https://') && !f.content.includes('http://localhost')
-  ) || files.some(f => 
-    f.content.includes("secure: process.env.NODE_ENV === 'production'")
+  const httpsEvidence = fileEvidence(ctx, 'security-https', f =>
+    (index.contains(f, 'https://') && !index.contains(f, 'http://localhost')) ||
+    index.contains(f, "secure: process.env.NODE_ENV === 'production'")
   )
-  
+  const hasHTTPS = httpsEvidence.length > 0
+
   if (hasHTTPS) {
     detected.push('HTTPS usage detected')
     score += 10
   }
+  checks.push(check('security-https', 'HTTPS enforcement', 10, hasHTTPS ? 10 : 0, httpsEvidence))
 
   // 5. Check for .env.example (10 points)
-  const hasEnvExample = files.some(f => f.path === '.env.example' || f.path === '.env.local.example')
-  
+  const envExampleEvidence = fileEvidence(ctx, 'security-env-example', f => f.path === '.env.example' || f.path === '.env.local.example')
+  const hasEnvExample = envExampleEvidence.length > 0
+
   if (hasEnvExample) {
     detected.push('.env.example present')
     score += 10
   } else {
     gaps.push({
       id: 'security-no-env-example',
+      check: 'security-env-example',
       category: 'security',
       title: 'No .env.example file',
       description: 'Add .env.example to document required environment variables',
@@ -140,26 +169,41 @@ export function analyzeSecurity(ctx: RepoContext): CategoryScore {
       effortMinutes: 10,
     })
   }
+  checks.push(check('security-env-example', '.env.example', 10, hasEnvExample ? 10 : 0, envExampleEvidence))
+
+  // 6. Check request input can't reach an injection sink (15 points).
+  // JS/TS code is traced from source to sink; an ORM doesn't help once input
+  // reaches $queryRawUnsafe. Other languages fall back to raw SQL patterns.
+  const flows = findTaintFlows(ctx)
+  gaps.push(...taintGaps(flows.slice(0, 20)))
 
-  // 6. Check for SQL injection protection (15 points)
-  // If using an ORM like Prisma or Drizzle, SQL injection is handled
-  const usesORM = deps['@prisma/client'] || deps['prisma'] || 
-                  deps['drizzle-orm'] || deps['typeorm'] || deps['sequelize']
-  
-  const hasRawSQL = !usesORM && files.some(f => 
-    (f.content.includes('${') && f.content.includes('SELECT')) ||
-    (f.content.includes("' + ") && f.content.includes('query'))
+  const ormEvidence = depEvidence(deps, ['@prisma/client', 'prisma', 'drizzle-orm', 'typeorm', 'sequelize'])
+  const usesORM = ormEvidence.length > 0
+
+  const rawSQLFiles = usesORM ? [] : files.filter(f =>
+    scriptKind(f.path) === undefined && (
+      (index.contains(f, '${') && index.contains(f, 'SELECT')) ||
+      (index.contains(f, "' + ") && index.contains(f, 'query'))
+    )
   )
-  
-  if (usesORM) {
+  const hasRawSQL = rawSQLFiles.length > 0
+
+  if (flows.length > 0) {
+    checks.push(check('security-injection', 'Injection protection', 15, 0,
+      flows.slice(0, 5).map(flow => flow.path.map(step => `${step.file}:${step.line}`).join(' → '))))
+  } else if (usesORM) {
     detected.push('Using ORM for SQL injection protection')
     score += 15
+    checks.push(check('security-injection', 'Injection protection', 15, 15, ormEvidence))
   } else if (!hasRawSQL) {
-    detected.push('No SQL injection patterns detected')
+    detected.push('No injection paths detected')
     score += 15
+    checks.push(check('security-injection', 'Injection protection', 15, 15))
   } else {
-    gaps.push({
+    const sqlLocations = locateRawSQL(rawSQLFiles)
+    gaps.push(withLocations({
       id: 'security-sql-injection',
+      check: 'security-injection',
       category: 'security',
       title: 'Potential SQL injection vulnerability',
       description: 'Use parameterized queries instead of string concatenation',
@@ -167,39 +211,90 @@ export function analyzeSecurity(ctx: RepoContext): CategoryScore {
       confidence: 'likely',
       fixType: 'suggested',
       effortMinutes: 30,
-    })
+    }, sqlLocations))
+    checks.push(check('security-injection', 'Injection protection', 15, 0, sqlLocations.map(l => `${l.file}:${l.line}`)))
   }
 
   // 7. Check for dependency audit (10 points)
-  const hasAudit = files.some(f => 
-    f.path.includes('.github/workflows') && 
-    (f.content.includes('npm audit') || f.content.includes('snyk'))
-  ) || deps['snyk']
-  
+  const auditEvidence = [
+    ...depEvidence(deps, ['snyk']),
+    ...fileEvidence(ctx, 'security-audit', f =>
+      f.path.includes('.github/workflows') &&
+      (index.contains(f, 'npm audit') || index.contains(f, 'snyk'))
+    ),
+  ]
+  const hasAudit = auditEvidence.length > 0
+
   if (hasAudit) {
     detected.push('Dependency audit configured')
     score += 10
   }
+  checks.push(check('security-audit', 'Dependency audit', 10, hasAudit ? 10 : 0, auditEvidence))
 
   // 8. Check for encryption (10 points)
-  const hasEncryption = files.some(f => 
-    f.content.includes('crypto') || 
-    f.content.includes('encrypt') ||
-    f.content.includes('bcrypt')
+  const encryptionEvidence = fileEvidence(ctx, 'security-encryption', f =>
+    index.contains(f, 'crypto') ||
+    index.contains(f, 'encrypt') ||
+    index.contains(f, 'bcrypt')
   )
-  
+  const hasEncryption = encryptionEvidence.length > 0
+
   if (hasEncryption) {
     detected.push('Encryption utilities present')
     score += 10
   }
+  checks.push(check('security-encryption', 'Encryption utilities', 10, hasEncryption ? 10 : 0, encryptionEvidence))
 
   return {
     category: 'security',
     label: 'Security',
     score: Math.min(100, score),
+    applicable: true,
     detected,
+    checks,
     gaps,
     canGenerate: gaps.some(g => g.fixType === 'instant'),
   }
 }
 
+// One gap per source-to-sink path, placed at the sink. Ids leave out line
+// numbers so an unchanged flow keeps its id when code above it moves.
+function taintGaps(flows: TaintFlow[]): Gap[] {
+  const seen = new Map<string, number>()
+  return flows.map(flow => {
+    const sink = flow.path[flow.path.length - 1]
+    const id = `security-${flow.kind}-${sink.file}-${idPart(flow.sink)}-${idPart(flow.source)}`
+    const count = (seen.get(id) ?? 0) + 1
+    seen.set(id, count)
+    return taintGap(flow, count > 1 ? `${id}-${count}` : id)
+  })
+}
+
+// Keep to the characters an inprod-ignore comment can name
+function idPart(text: string): string {
+  return text.replace(/[^\w.-]+/g, '')
+}
+
+function taintGap(flow: TaintFlow, id: string): Gap {
+  const source = flow.path[0]
+  const { note: _note, ...sink } = flow.path[flow.path.length - 1]
+  return withLocations({
+    id,
+    check: 'security-injection',
+    category: 'security',
+    title: TAINT_TITLES[flow.kind],
+    description: `Input read at ${source.file}:${source.line} reaches ${flow.sink} without sanitization`,
+    severity: flow.kind === 'sql-injection' || flow.kind === 'command-injection' ? 'blocker' : 'critical',
+    confidence: 'verified',
+    fixType: 'suggested',
+    effortMinutes: 30,
+    taintPath: flow.path,
+  }, [sink])
+}
+
+// Point at the interpolated/concatenated query line, falling back to the query
+// keyword when the statement spans several lines
+function locateRawSQL(files: RepoFile[]) {
+  const locations = locateAll(files, /\b(SELECT|INSERT|UPDATE|DELETE)\b.*(\$\{|' \+ )|query.*' \+ /)
+  return locations.length > 0 ? locations : locateAll(files, /\bSELECT\b|query/)
+}
@@ -2,18 +2,17 @@
 // STATE MANAGEMENT ANALYZER
 // =============================================================================
 
-import { CategoryScore, Gap, RepoContext } from '../types'
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../types'
+import { check, depEvidence, fileEvidence } from '../checks'
 
 export function analyzeStateManagement(ctx: RepoContext): CategoryScore {
   const gaps: Gap[] = []
   const detected: string[] = []
+  const checks: CheckResult[] = []
   let score = 0
   
-  const { files, techStack, packageJson } = ctx
-  const deps = packageJson ? { 
-    ...((packageJson.dependencies as Record<string, string>) || {}),
-    ...((packageJson.devDependencies as Record<string, string>) || {})
-  } : {}
+  const { files, techStack, index } = ctx
+  const { deps } = index
   
   // Only relevant for frontend projects
   const hasFrontend = techStack.frameworks.some(f => 
@@ -25,37 +24,43 @@ export function analyzeStateManagement(ctx: RepoContext): CategoryScore {
       category: 'stateManagement',
       label: 'State Management',
       score: 100, // N/A
+      applicable: false,
       detected: ['No frontend state management needed'],
+      checks: [],
       gaps: [],
       canGenerate: false,
     }
   }
 
   // 1. Check for state management library (25 points)
-  const hasStateLib = deps['zustand'] || deps['redux'] || deps['@reduxjs/toolkit'] || 
-                      deps['jotai'] || deps['recoil'] || deps['mobx'] || deps['pinia']
+  const stateLibEvidence = depEvidence(deps, ['zustand', 'redux', '@reduxjs/toolkit', 'jotai', 'recoil', 'mobx', 'pinia'])
+  const hasStateLib = stateLibEvidence.length > 0
   
   if (hasStateLib) {
     detected.push('State management library detected')
     score += 25
   }
+  checks.push(check('state-library', 'State management library', 25, hasStateLib ? 25 : 0, stateLibEvidence))
 
   // 2. Check for data fetching library (25 points)
   // For Next.js App Router, Server Components handle data fetching natively
   const isNextAppRouter = deps['next'] && files.some(f => f.path.includes('app/'))
-  const hasDataFetching = deps['@tanstack/react-query'] || deps['react-query'] || 
-                          deps['swr'] || deps['@apollo/client'] || deps['urql']
+  const dataFetchingEvidence = depEvidence(deps, ['@tanstack/react-query', 'react-query', 'swr', '@apollo/client', 'urql'])
+  const hasDataFetching = dataFetchingEvidence.length > 0
   
   if (hasDataFetching) {
     detected.push('Data fetching library configured')
     score += 25
+    checks.push(check('state-data-fetching', 'Data fetching', 25, 25, dataFetchingEvidence))
   } else if (isNextAppRouter) {
     // Next.js App Router uses Server Components for data fetching
     detected.push('Using Next.js Server Components for data fetching')
     score += 25
+    checks.push(check('state-data-fetching', 'Data fetching', 25, 25, ['Next.js App Router']))
   } else {
     gaps.push({
       id: 'state-no-data-fetching',
+      check: 'state-data-fetching',
       category: 'stateManagement',
       title: 'No data fetching library detected',
       description: 'Consider React Query or SWR for server state management with caching',
@@ -64,51 +69,62 @@ export function analyzeStateManagement(ctx: RepoContext): CategoryScore {
       fixType: 'guided',
       effortMinutes: 45,
     })
+    checks.push(check('state-data-fetching', 'Data fetching', 25, 0))
   }
 
   // 3. Check for optimistic updates (20 points)
-  const hasOptimistic = files.some(f => 
-    f.content.includes('optimistic') || 
-    f.content.includes('onMutate') ||
-    f.content.includes('rollback')
+  const optimisticEvidence = fileEvidence(ctx, 'state-optimistic-updates', f => 
+    index.contains(f, 'optimistic') || 
+    index.contains(f, 'onMutate') ||
+    index.contains(f, 'rollback')
   )
+  const hasOptimistic = optimisticEvidence.length > 0
   
   if (hasOptimistic) {
     detected.push('Optimistic updates implemented')
     score += 20
   }
+  checks.push(check('state-optimistic-updates', 'Optimistic updates', 20, hasOptimistic ? 20 : 0, optimisticEvidence))
 
   // 4. Check for form state management (15 points)
-  const hasFormLib = deps['react-hook-form'] || deps['formik'] || deps['@tanstack/react-form']
+  const formLibEvidence = depEvidence(deps, ['react-hook-form', 'formik', '@tanstack/react-form'])
+  const hasFormLib = formLibEvidence.length > 0
   
   if (hasFormLib) {
     detected.push('Form library configured')
     score += 15
   }
+  checks.push(check('state-form-library', 'Form library', 15, hasFormLib ? 15 : 0, formLibEvidence))
 
   // 5. Check for local storage persistence (15 points)
-  const hasPersistence = files.some(f => 
-    f.content.includes('localStorage') || 
-    f.content.includes('persist') ||
-    f.content.includes('zustand/middleware')
+  const persistenceEvidence = fileEvidence(ctx, 'state-persistence', f => 
+    index.contains(f, 'localStorage') || 
+    index.contains(f, 'persist') ||
+    index.contains(f, 'zustand/middleware')
   )
+  const hasPersistence = persistenceEvidence.length > 0
   
   if (hasPersistence) {
     detected.push('State persistence configured')
     score += 15
   }
+  checks.push(check('state-persistence', 'State persistence', 15, hasPersistence ? 15 : 0, persistenceEvidence))
 
   // If no state management but simple app, give base score
   if (score === 0 && files.length < 20) {
     score = 70 // Simple apps don't need complex state management
     detected.push('Simple app, useState sufficient')
+    // Bonus outside the regular checks, so it carries no possible points
+    checks.push(check('state-simple-app', 'Simple app baseline', 0, 70, [`${files.length} files`]))
   }
 
   return {
     category: 'stateManagement',
     label: 'State Management',
     score: Math.min(100, score),
+    applicable: true,
     detected,
+    checks,
     gaps,
     canGenerate: gaps.some(g => g.fixType === 'instant'),
   }
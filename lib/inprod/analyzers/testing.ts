@@ -2,18 +2,17 @@
 // TESTING ANALYZER
 // =============================================================================
 
-import { CategoryScore, Gap, RepoContext } from '../types'
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../types'
+import { check, depEvidence, fileEvidence } from '../checks'
 
 export function analyzeTesting(ctx: RepoContext): CategoryScore {
   const gaps: Gap[] = []
   const detected: string[] = []
+  const checks: CheckResult[] = []
   let score = 0
   
-  const { files, techStack, packageJson } = ctx
-  const deps = packageJson ? { 
-    ...((packageJson.dependencies as Record<string, string>) || {}),
-    ...((packageJson.devDependencies as Record<string, string>) || {})
-  } : {}
+  const { techStack, index } = ctx
+  const { deps } = index
 
   // 1. Check for test framework (20 points)
   const hasTestFramework = techStack.testFramework !== null
@@ -24,6 +23,7 @@ export function analyzeTesting(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'testing-no-framework',
+      check: 'testing-framework',
       category: 'testing',
       title: 'No test framework configured',
       description: 'Add Vitest or Jest for unit testing',
@@ -34,35 +34,23 @@ export function analyzeTesting(ctx: RepoContext): CategoryScore {
       effortMinutes: 15,
     })
   }
+  checks.push(check('testing-framework', 'Test framework', 20, hasTestFramework ? 20 : 0,
+    techStack.testFramework ? [techStack.testFramework] : []))
 
   // 2. Count test files (30 points)
-  const testFiles = files.filter(f => 
-    f.path.includes('.test.') || 
-    f.path.includes('.spec.') ||
-    f.path.includes('__tests__')
-  )
-  
-  const sourceFiles = files.filter(f => 
-    (f.path.endsWith('.ts') || f.path.endsWith('.tsx') || f.path.endsWith('.js') || f.path.endsWith('.jsx')) &&
-    !f.path.includes('.test.') && 
-    !f.path.includes('.spec.') &&
-    !f.path.includes('node_modules')
-  )
+  const { testFiles, sourceFiles } = index
   
   const testCoverage = sourceFiles.length > 0 ? (testFiles.length / sourceFiles.length) * 100 : 0
   
+  const testFilePoints = testFiles.length === 0 ? 0 : testCoverage >= 50 ? 30 : testCoverage >= 20 ? 20 : 10
+  
   if (testFiles.length > 0) {
     detected.push(`${testFiles.length} test files`)
-    if (testCoverage >= 50) {
-      score += 30
-    } else if (testCoverage >= 20) {
-      score += 20
-    } else {
-      score += 10
-    }
+    score += testFilePoints
   } else {
     gaps.push({
       id: 'testing-no-tests',
+      check: 'testing-test-files',
       category: 'testing',
       title: 'No test files found',
       description: 'Add unit tests for critical functionality',
@@ -73,10 +61,16 @@ export function analyzeTesting(ctx: RepoContext): CategoryScore {
       effortMinutes: 60,
     })
   }
+  checks.push(check('testing-test-files', 'Test file ratio', 30, testFilePoints, [
+    `${testFiles.length} test files for ${sourceFiles.length} source files`,
+  ]))
 
   // 3. Check for E2E tests (20 points)
-  const hasE2E = deps['@playwright/test'] || deps['cypress'] || deps['puppeteer'] ||
-                 files.some(f => f.path.includes('e2e') || f.path.includes('playwright'))
+  const e2eEvidence = [
+    ...depEvidence(deps, ['@playwright/test', 'cypress', 'puppeteer']),
+    ...fileEvidence(ctx, 'testing-e2e', f => f.path.includes('e2e') || f.path.includes('playwright')),
+  ]
+  const hasE2E = e2eEvidence.length > 0
   
   if (hasE2E) {
     detected.push('E2E testing configured')
@@ -84,6 +78,7 @@ export function analyzeTesting(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'testing-no-e2e',
+      check: 'testing-e2e',
       category: 'testing',
       title: 'No E2E tests detected',
       description: 'Add Playwright for end-to-end testing of critical user flows',
@@ -94,12 +89,14 @@ export function analyzeTesting(ctx: RepoContext): CategoryScore {
       effortMinutes: 30,
     })
   }
+  checks.push(check('testing-e2e', 'E2E tests', 20, hasE2E ? 20 : 0, e2eEvidence))
 
   // 4. Check for test in CI (15 points)
-  const hasTestInCI = files.some(f => 
+  const ciTestEvidence = fileEvidence(ctx, 'testing-ci', f => 
     f.path.includes('.github/workflows') && 
-    (f.content.includes('npm test') || f.content.includes('pnpm test') || f.content.includes('vitest'))
+    (index.contains(f, 'npm test') || index.contains(f, 'pnpm test') || index.contains(f, 'vitest'))
   )
+  const hasTestInCI = ciTestEvidence.length > 0
   
   if (hasTestInCI) {
     detected.push('Tests run in CI')
@@ -107,6 +104,7 @@ export function analyzeTesting(ctx: RepoContext): CategoryScore {
   } else if (techStack.ciProvider) {
     gaps.push({
       id: 'testing-not-in-ci',
+      check: 'testing-ci',
       category: 'testing',
       title: 'Tests not running in CI',
       description: 'Add test step to CI pipeline',
@@ -117,22 +115,28 @@ export function analyzeTesting(ctx: RepoContext): CategoryScore {
       effortMinutes: 10,
     })
   }
+  checks.push(check('testing-ci', 'Tests run in CI', 15, hasTestInCI ? 15 : 0, ciTestEvidence))
 
   // 5. Check for coverage reporting (15 points)
-  const hasCoverage = deps['@vitest/coverage-v8'] || deps['@vitest/coverage-istanbul'] ||
-                      deps['nyc'] || deps['c8'] ||
-                      files.some(f => f.content.includes('coverage'))
+  const coverageEvidence = [
+    ...depEvidence(deps, ['@vitest/coverage-v8', '@vitest/coverage-istanbul', 'nyc', 'c8']),
+    ...fileEvidence(ctx, 'testing-coverage', f => index.contains(f, 'coverage')),
+  ]
+  const hasCoverage = coverageEvidence.length > 0
   
   if (hasCoverage) {
     detected.push('Coverage reporting configured')
     score += 15
   }
+  checks.push(check('testing-coverage', 'Coverage reporting', 15, hasCoverage ? 15 : 0, coverageEvidence))
 
   return {
     category: 'testing',
     label: 'Testing',
     score: Math.min(100, score),
+    applicable: true,
     detected,
+    checks,
     gaps,
     canGenerate: gaps.some(g => g.fixType === 'instant'),
   }
@@ -2,35 +2,40 @@
 // VERSION CONTROL ANALYZER
 // =============================================================================
 
-import { CategoryScore, Gap, RepoContext } from '../types'
+import { CategoryScore, CheckResult, Gap, RepoContext } from '../types'
+import { check, depEvidence, fileEvidence } from '../checks'
 
 export function analyzeVersionControl(ctx: RepoContext): CategoryScore {
   const gaps: Gap[] = []
   const detected: string[] = []
+  const checks: CheckResult[] = []
   let score = 0
   
-  const { files, packageJson } = ctx
-  const deps = packageJson ? { 
-    ...((packageJson.dependencies as Record<string, string>) || {}),
-    ...((packageJson.devDependencies as Record<string, string>) || {})
-  } : {}
+  const { index } = ctx
+  const { deps } = index
 
   // 1. Check for .gitignore (20 points)
-  const hasGitignore = files.some(f => f.path === '.gitignore')
+  const gitignore = index.byPath.get('.gitignore')
   
-  if (hasGitignore) {
-    const gitignore = files.find(f => f.path === '.gitignore')
-    const hasNodeModules = gitignore?.content.includes('node_modules')
-    const hasEnv = gitignore?.content.includes('.env')
+  if (gitignore) {
+    const hasNodeModules = index.contains(gitignore, 'node_modules')
+    const hasEnv = index.contains(gitignore, '.env')
     
     if (hasNodeModules && hasEnv) {
       detected.push('Comprehensive .gitignore')
       score += 20
+      checks.push(check('vc-gitignore', '.gitignore', 20, 20, ['.gitignore']))
     } else {
       detected.push('.gitignore present')
       score += 10
+      checks.push(check('vc-gitignore', '.gitignore', 20, 10, [
+        '.gitignore',
+        ...(hasNodeModules ? [] : ['missing: node_modules']),
+        ...(hasEnv ? [] : ['missing: .env']),
+      ]))
       gaps.push({
         id: 'vc-incomplete-gitignore',
+        check: 'vc-gitignore',
         category: 'versionControl',
         title: 'Incomplete .gitignore',
         description: 'Add node_modules and .env to .gitignore',
@@ -44,6 +49,7 @@ export function analyzeVersionControl(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'vc-no-gitignore',
+      check: 'vc-gitignore',
       category: 'versionControl',
       title: 'No .gitignore file',
       description: 'Add .gitignore to exclude build artifacts and secrets',
@@ -53,10 +59,12 @@ export function analyzeVersionControl(ctx: RepoContext): CategoryScore {
       fixTemplate: 'gitignore',
       effortMinutes: 5,
     })
+    checks.push(check('vc-gitignore', '.gitignore', 20, 0))
   }
 
   // 2. Check for README (20 points)
-  const hasReadme = files.some(f => f.path.toLowerCase() === 'readme.md')
+  const readmeEvidence = fileEvidence(ctx, 'vc-readme', f => f.path.toLowerCase() === 'readme.md')
+  const hasReadme = readmeEvidence.length > 0
   
   if (hasReadme) {
     detected.push('README.md present')
@@ -64,6 +72,7 @@ export function analyzeVersionControl(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'vc-no-readme',
+      check: 'vc-readme',
       category: 'versionControl',
       title: 'No README.md',
       description: 'Add README with project description and setup instructions',
@@ -74,10 +83,14 @@ export function analyzeVersionControl(ctx: RepoContext): CategoryScore {
       effortMinutes: 20,
     })
   }
+  checks.push(check('vc-readme', 'README', 20, hasReadme ? 20 : 0, readmeEvidence))
 
   // 3. Check for pre-commit hooks (15 points)
-  const hasHooks = deps['husky'] || deps['lefthook'] || deps['lint-staged'] ||
-                   files.some(f => f.path.includes('.husky/'))
+  const hookEvidence = [
+    ...depEvidence(deps, ['husky', 'lefthook', 'lint-staged']),
+    ...fileEvidence(ctx, 'vc-hooks', f => f.path.includes('.husky/')),
+  ]
+  const hasHooks = hookEvidence.length > 0
   
   if (hasHooks) {
     detected.push('Pre-commit hooks configured')
@@ -85,6 +98,7 @@ export function analyzeVersionControl(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'vc-no-hooks',
+      check: 'vc-hooks',
       category: 'versionControl',
       title: 'No pre-commit hooks',
       description: 'Add Husky for pre-commit linting and testing',
@@ -95,12 +109,14 @@ export function analyzeVersionControl(ctx: RepoContext): CategoryScore {
       effortMinutes: 15,
     })
   }
+  checks.push(check('vc-hooks', 'Pre-commit hooks', 15, hasHooks ? 15 : 0, hookEvidence))
 
   // 4. Check for PR template (10 points)
-  const hasPRTemplate = files.some(f => 
+  const prTemplateEvidence = fileEvidence(ctx, 'vc-pr-template', f => 
     f.path.includes('pull_request_template') || 
     f.path.includes('PULL_REQUEST_TEMPLATE')
   )
+  const hasPRTemplate = prTemplateEvidence.length > 0
   
   if (hasPRTemplate) {
     detected.push('PR template present')
@@ -108,6 +124,7 @@ export function analyzeVersionControl(ctx: RepoContext): CategoryScore {
   } else {
     gaps.push({
       id: 'vc-no-pr-template',
+      check: 'vc-pr-template',
       category: 'versionControl',
       title: 'No PR template',
       description: 'Add pull request template for consistent PR descriptions',
@@ -118,49 +135,62 @@ export function analyzeVersionControl(ctx: RepoContext): CategoryScore {
       effortMinutes: 10,
     })
   }
+  checks.push(check('vc-pr-template', 'PR template', 10, hasPRTemplate ? 10 : 0, prTemplateEvidence))
 
   // 5. Check for branch protection info (10 points)
   // Can't detect from code, but check for CODEOWNERS
-  const hasCodeowners = files.some(f => f.path.includes('CODEOWNERS'))
+  const codeownersEvidence = fileEvidence(ctx, 'vc-codeowners', f => f.path.includes('CODEOWNERS'))
+  const hasCodeowners = codeownersEvidence.length > 0
   
   if (hasCodeowners) {
     detected.push('CODEOWNERS configured')
     score += 10
   }
+  checks.push(check('vc-codeowners', 'CODEOWNERS', 10, hasCodeowners ? 10 : 0, codeownersEvidence))
 
   // 6. Check for changelog (10 points)
-  const hasChangelog = files.some(f => 
+  const changelogEvidence = fileEvidence(ctx, 'vc-changelog', f => 
     f.path.toLowerCase() === 'changelog.md' || 
     f.path.toLowerCase() === 'history.md'
   )
+  const hasChangelog = changelogEvidence.length > 0
   
   if (hasChangelog) {
     detected.push('CHANGELOG present')
     score += 10
   }
+  checks.push(check('vc-changelog', 'Changelog', 10, hasChangelog ? 10 : 0, changelogEvidence))
 
   // 7. Check for license (10 points)
-  const hasLicense = files.some(f => f.path.toLowerCase() === 'license' || f.path.toLowerCase() === 'license.md')
+  const licenseEvidence = fileEvidence(ctx, 'vc-license', f => f.path.toLowerCase() === 'license' || f.path.toLowerCase() === 'license.md')
+  const hasLicense = licenseEvidence.length > 0
   
   if (hasLicense) {
     detected.push('LICENSE present')
     score += 10
   }
+  checks.push(check('vc-license', 'License', 10, hasLicense ? 10 : 0, licenseEvidence))
 
   // 8. Check for conventional commits (5 points)
-  const hasCommitizen = deps['commitizen'] || deps['@commitlint/cli'] ||
-                        files.some(f => f.path.includes('commitlint'))
+  const commitizenEvidence = [
+    ...depEvidence(deps, ['commitizen', '@commitlint/cli']),
+    ...fileEvidence(ctx, 'vc-conventional-commits', f => f.path.includes('commitlint')),
+  ]
+  const hasCommitizen = commitizenEvidence.length > 0
   
   if (hasCommitizen) {
     detected.push('Conventional commits configured')
     score += 5
   }
+  checks.push(check('vc-conventional-commits', 'Conventional commits', 5, hasCommitizen ? 5 : 0, commitizenEvidence))
 
   return {
     category: 'versionControl',
     label: 'Version Control',
     score: Math.min(100, score),
+    applicable: true,
     detected,
+    checks,
     gaps,
     canGenerate: gaps.some(g => g.fixType === 'instant'),
   }
@@ -0,0 +1,413 @@
+// =============================================================================
+// SYNTAX TREES
+// Structural queries over JS/TS files for checks that substring matching gets
+// wrong (a `try {` in an unrelated helper, "escape" in a comment)
+// =============================================================================
+
+import ts from 'typescript'
+import { RepoFile, SourceLocation } from './types'
+import { redactSnippet } from './locations'
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  '.ts': ts.ScriptKind.TS,
+  '.mts': ts.ScriptKind.TS,
+  '.cts': ts.ScriptKind.TS,
+  '.tsx': ts.ScriptKind.TSX,
+  '.js': ts.ScriptKind.JS,
+  '.mjs': ts.ScriptKind.JS,
+  '.cjs': ts.ScriptKind.JS,
+  '.jsx': ts.ScriptKind.JSX,
+}
+
+const HTTP_METHODS = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'])
+const ROUTER_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'all'])
+const ROUTER_OBJECTS = new Set(['router', 'app'])
+
+// Wrappers like withErrorHandler(handler) or safeAction(handler) catch for the handler
+const ERROR_WRAPPER = /error|catch|safe/i
+const SANITIZER = /sanitize|purify|escape|xss/i
+
+// How many variable hops to follow when tracing a value back to its source
+const MAX_TRACE_DEPTH = 5
+
+// Deeper trees (generated code, long `a + b + ...` chains) would overflow the
+// stack in the recursive walkers here and in taint.ts
+const MAX_TREE_DEPTH = 500
+
+export interface RouteHandler {
+  name: string // 'GET', 'router.post', 'default'
+  location: SourceLocation
+  guarded: boolean // Errors are caught inside the handler or by a wrapper
+}
+
+export interface RawHtmlSink {
+  location: SourceLocation
+  sanitized: boolean // The __html value traces back to a sanitizer call or a literal
+}
+
+export interface JsxElement {
+  tag: string // 'img', 'div', 'Image', 'motion.div'
+  attributes: Record<string, string> // Literal values as written, expression props as source text, '' for bare props
+  spread: boolean // Has {...props}, so any attribute may be set
+  parents: string[] // Enclosing element tags, innermost first
+  location: SourceLocation
+}
+
+export interface ExportedFunction {
+  name: string
+  documented: boolean // Has a /** JSDoc */ comment
+  location: SourceLocation
+}
+
+/**
+ * Parse a JS/TS file; undefined for anything else. Files with syntax errors
+ * still produce a (partial) tree; files too deeply nested to parse or walk
+ * produce none.
+ */
+export function parseSource(file: RepoFile): ts.SourceFile | undefined {
+  const kind = scriptKind(file.path)
+  if (kind === undefined) return undefined
+  try {
+    const source = ts.createSourceFile(file.path, file.content, ts.ScriptTarget.Latest, true, kind)
+    return treeDepth(source) <= MAX_TREE_DEPTH ? source : undefined
+  } catch {
+    return undefined // The parser recurses too and can overflow on its own
+  }
+}
+
+/**
+ * How the compiler should read a path; undefined for non-JS/TS files
+ */
+export function scriptKind(path: string): ts.ScriptKind | undefined {
+  const name = path.slice(path.lastIndexOf('/') + 1)
+  return SCRIPT_KINDS[name.slice(name.lastIndexOf('.')).toLowerCase()]
+}
+
+/**
+ * Route handlers a file exports: Next.js method exports (GET, POST, ...),
+ * a default-exported function (pages/api), and Express-style router.get(...)
+ * registrations. Handlers defined elsewhere (re-exports, imported functions)
+ * are skipped rather than guessed at.
+ */
+export function routeHandlers(source: ts.SourceFile): RouteHandler[] {
+  const handlers: RouteHandler[] = []
+  const add = (name: string, at: ts.Node, handler: ts.Expression | ts.FunctionDeclaration | undefined) => {
+    const guarded = handler && isGuarded(handler)
+    if (guarded !== undefined) handlers.push({ name, location: nodeLocation(source, at), guarded })
+  }
+
+  for (const statement of source.statements) {
+    if (ts.isFunctionDeclaration(statement) && isExported(statement)) {
+      const name = isDefaultExport(statement) ? 'default' : statement.name?.text
+      if (name && (name === 'default' || HTTP_METHODS.has(name))) add(name, statement, statement)
+    } else if (ts.isVariableStatement(statement) && isExported(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name) && HTTP_METHODS.has(declaration.name.text)) {
+          add(declaration.name.text, statement, declaration.initializer)
+        }
+      }
+    } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      add('default', statement, statement.expression)
+    } else if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier &&
+        statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const specifier of statement.exportClause.elements) {
+        if (HTTP_METHODS.has(specifier.name.text)) {
+          add(specifier.name.text, specifier, specifier.propertyName ?? specifier.name)
+        }
+      }
+    }
+  }
+
+  visit(source, node => {
+    if (!ts.isCallExpression(node) || !ts.isPropertyAccessExpression(node.expression)) return
+    const { expression: object, name } = node.expression
+    if (!ts.isIdentifier(object) || !ROUTER_OBJECTS.has(object.text) || !ROUTER_METHODS.has(name.text)) return
+    add(`${object.text}.${name.text}`, node, node.arguments[node.arguments.length - 1])
+  })
+
+  return handlers
+}
+
+/**
+ * Every dangerouslySetInnerHTML prop, and whether its __html value can be
+ * traced (through local variables) to a sanitizer call or static markup
+ */
+export function rawHtmlSinks(source: ts.SourceFile): RawHtmlSink[] {
+  const sinks: RawHtmlSink[] = []
+  visit(source, node => {
+    if (!ts.isJsxAttribute(node) || node.name.getText(source) !== 'dangerouslySetInnerHTML') return
+    const value = node.initializer && ts.isJsxExpression(node.initializer) ? node.initializer.expression : undefined
+    sinks.push({ location: nodeLocation(source, node), sanitized: !!value && isSanitizedHtml(value, 0) })
+  })
+  return sinks
+}
+
+/**
+ * Whether the file calls a sanitizer (DOMPurify.sanitize, sanitizeHtml, xss, escapeHtml, ...)
+ */
+export function callsSanitizer(source: ts.SourceFile): boolean {
+  let found = false
+  visit(source, node => {
+    if (ts.isCallExpression(node) && SANITIZER.test(calleeName(node))) found = true
+  })
+  return found
+}
+
+/**
+ * Every JSX element (opening or self-closing) with its props
+ */
+export function jsxElements(source: ts.SourceFile): JsxElement[] {
+  const elements: JsxElement[] = []
+  visit(source, node => {
+    if (!ts.isJsxOpeningElement(node) && !ts.isJsxSelfClosingElement(node)) return
+    const attributes: Record<string, string> = {}
+    let spread = false
+    for (const property of node.attributes.properties) {
+      if (ts.isJsxSpreadAttribute(property)) {
+        spread = true
+        continue
+      }
+      const value = property.initializer
+      attributes[property.name.getText(source)] = !value
+        ? ''
+        : ts.isStringLiteral(value)
+          ? value.text
+          : ts.isJsxExpression(value)
+            ? value.expression?.getText(source) ?? ''
+            : value.getText(source)
+    }
+    const parents: string[] = []
+    // An opening element's own parent is the element it opens
+    const start = ts.isJsxOpeningElement(node) ? node.parent.parent : node.parent
+    for (let parent: ts.Node | undefined = start; parent; parent = parent.parent) {
+      if (ts.isJsxElement(parent)) parents.push(parent.openingElement.tagName.getText(source))
+    }
+    elements.push({ tag: node.tagName.getText(source), attributes, spread, parents, location: nodeLocation(source, node) })
+  })
+  return elements
+}
+
+/**
+ * fetch() calls that set neither `cache` nor `next` (revalidate, tags), which
+ * Next.js 15 leaves uncached. Options passed as a variable are given the
+ * benefit of the doubt.
+ */
+export function uncachedFetches(source: ts.SourceFile): SourceLocation[] {
+  const locations: SourceLocation[] = []
+  visit(source, node => {
+    if (!ts.isCallExpression(node) || !ts.isIdentifier(node.expression) || node.expression.text !== 'fetch') return
+    const options = node.arguments[1] && unwrap(node.arguments[1])
+    if (options && !ts.isObjectLiteralExpression(options)) return
+    const configured = options?.properties.some(p =>
+      ts.isSpreadAssignment(p) || ['cache', 'next'].includes(p.name?.getText(source) ?? '')
+    )
+    if (!configured) locations.push(nodeLocation(source, node))
+  })
+  return locations
+}
+
+/**
+ * Whether the file loads code on demand: import(), next/dynamic's dynamic()
+ * or React.lazy()
+ */
+export function splitsCode(source: ts.SourceFile): boolean {
+  let found = false
+  visit(source, node => {
+    if (!ts.isCallExpression(node)) return
+    if (node.expression.kind === ts.SyntaxKind.ImportKeyword || ['dynamic', 'lazy'].includes(calleeName(node))) found = true
+  })
+  return found
+}
+
+/**
+ * Named functions a file exports, declared or assigned to an exported const.
+ * Default exports and route handlers (GET, POST, ...) are left out; their
+ * role is given by the framework.
+ */
+export function exportedFunctions(source: ts.SourceFile): ExportedFunction[] {
+  const functions: ExportedFunction[] = []
+  const add = (name: string, node: ts.Node) => {
+    if (HTTP_METHODS.has(name)) return
+    functions.push({ name, documented: ts.getJSDocCommentsAndTags(node).length > 0, location: nodeLocation(source, node) })
+  }
+
+  for (const statement of source.statements) {
+    if (ts.isFunctionDeclaration(statement) && isExported(statement) && !isDefaultExport(statement) && statement.name) {
+      add(statement.name.text, statement)
+    } else if (ts.isVariableStatement(statement) && isExported(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        const value = declaration.initializer && unwrap(declaration.initializer)
+        if (ts.isIdentifier(declaration.name) && value && (ts.isArrowFunction(value) || ts.isFunctionExpression(value))) {
+          add(declaration.name.text, declaration)
+        }
+      }
+    }
+  }
+  return functions
+}
+
+// undefined when the handler's body isn't in this file
+function isGuarded(handler: ts.Expression | ts.FunctionDeclaration, depth = 0): boolean | undefined {
+  if (depth > MAX_TRACE_DEPTH) return undefined
+  const expression = ts.isFunctionDeclaration(handler) ? handler : unwrap(handler)
+  if (ts.isFunctionDeclaration(expression) || ts.isFunctionExpression(expression) || ts.isArrowFunction(expression)) {
+    return !!expression.body && ts.isBlock(expression.body) && isWrappedInTryCatch(expression.body)
+  }
+
+  if (ts.isCallExpression(expression)) {
+    if (ERROR_WRAPPER.test(calleeName(expression))) return true
+    // Other wrappers (withAuth(handler)) pass errors through; judge the inner handler
+    const inner = expression.arguments[expression.arguments.length - 1]
+    return inner ? isGuarded(inner, depth + 1) : undefined
+  }
+  if (ts.isIdentifier(expression)) {
+    const declaration = resolve(expression)
+    return declaration && isGuarded(declaration, depth + 1)
+  }
+  return undefined
+}
+
+/**
+ * A top-level try/catch, with no awaits left outside it that could reject
+ * unhandled (e.g. `await req.json()` before the try)
+ */
+function isWrappedInTryCatch(body: ts.Block): boolean {
+  const isTryCatch = (statement: ts.Statement) => ts.isTryStatement(statement) && !!statement.catchClause
+  return body.statements.some(isTryCatch) &&
+    !body.statements.some(statement => !isTryCatch(statement) && containsAwait(statement))
+}
+
+function containsAwait(node: ts.Node): boolean {
+  if (ts.isAwaitExpression(node)) return true
+  if (ts.isFunctionLike(node)) return false
+  return ts.forEachChild(node, containsAwait) ?? false
+}
+
+function isSanitizedHtml(value: ts.Expression, depth: number): boolean {
+  if (depth > MAX_TRACE_DEPTH) return false
+  const expression = unwrap(value)
+
+  if (ts.isObjectLiteralExpression(expression)) {
+    for (const property of expression.properties) {
+      if (ts.isPropertyAssignment(property) && property.name.getText() === '__html') {
+        return isSanitized(property.initializer, depth + 1)
+      }
+      if (ts.isShorthandPropertyAssignment(property) && property.name.text === '__html') {
+        return isSanitized(property.name, depth + 1)
+      }
+    }
+    return false
+  }
+  if (ts.isCallExpression(expression)) return SANITIZER.test(calleeName(expression))
+  if (ts.isIdentifier(expression)) {
+    const declaration = resolve(expression)
+    return !!declaration && !ts.isFunctionDeclaration(declaration) && isSanitizedHtml(declaration, depth + 1)
+  }
+  return false
+}
+
+function isSanitized(value: ts.Expression, depth: number): boolean {
+  if (depth > MAX_TRACE_DEPTH) return false
+  const expression = unwrap(value)
+
+  if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) return true
+  if (ts.isTemplateExpression(expression)) {
+    return expression.templateSpans.every(span => isSanitized(span.expression, depth + 1))
+  }
+  if (ts.isCallExpression(expression)) return SANITIZER.test(calleeName(expression))
+  if (ts.isConditionalExpression(expression)) {
+    return isSanitized(expression.whenTrue, depth + 1) && isSanitized(expression.whenFalse, depth + 1)
+  }
+  if (ts.isBinaryExpression(expression)) {
+    return isSanitized(expression.left, depth + 1) && isSanitized(expression.right, depth + 1)
+  }
+  if (ts.isIdentifier(expression)) {
+    const declaration = resolve(expression)
+    return !!declaration && !ts.isFunctionDeclaration(declaration) && isSanitized(declaration, depth + 1)
+  }
+  return false
+}
+
+/**
+ * The initializer (or function) an identifier refers to, looking outward
+ * through enclosing blocks. Parameters, imports and reassigned `let`s
+ * aren't followed.
+ */
+function resolve(identifier: ts.Identifier): ts.Expression | ts.FunctionDeclaration | undefined {
+  const name = identifier.text
+  for (let scope: ts.Node | undefined = identifier.parent; scope; scope = scope.parent) {
+    if (ts.isFunctionLike(scope) && scope.parameters.some(p => ts.isIdentifier(p.name) && p.name.text === name)) {
+      return undefined
+    }
+    if (!ts.isBlock(scope) && !ts.isSourceFile(scope)) continue
+
+    for (const statement of scope.statements) {
+      if (ts.isFunctionDeclaration(statement) && statement.name?.text === name) return statement
+      if (!ts.isVariableStatement(statement) || statement.pos > identifier.pos) continue
+      if (!(statement.declarationList.flags & ts.NodeFlags.Const)) continue
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name) && declaration.name.text === name) return declaration.initializer
+      }
+    }
+  }
+  return undefined
+}
+
+// Strip parentheses, `as` casts, `satisfies` and non-null assertions
+function unwrap(expression: ts.Expression): ts.Expression {
+  while (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression) ||
+      ts.isSatisfiesExpression(expression) || ts.isNonNullExpression(expression)) {
+    expression = expression.expression
+  }
+  return expression
+}
+
+// `sanitize` for sanitize(x), `sanitize` for DOMPurify.sanitize(x)
+function calleeName(call: ts.CallExpression): string {
+  const callee = unwrap(call.expression)
+  if (ts.isIdentifier(callee)) return callee.text
+  if (ts.isPropertyAccessExpression(callee)) return callee.name.text
+  return ''
+}
+
+function isExported(node: ts.FunctionDeclaration | ts.VariableStatement): boolean {
+  return !!node.modifiers?.some(m => m.kind === ts.SyntaxKind.ExportKeyword)
+}
+
+function isDefaultExport(node: ts.FunctionDeclaration): boolean {
+  return !!node.modifiers?.some(m => m.kind === ts.SyntaxKind.DefaultKeyword)
+}
+
+// Iterative, so measuring can't overflow; stops counting past the limit
+function treeDepth(root: ts.Node): number {
+  let deepest = 0
+  const stack: [ts.Node, number][] = [[root, 1]]
+  while (stack.length > 0) {
+    const [node, depth] = stack.pop()!
+    deepest = Math.max(deepest, depth)
+    if (deepest > MAX_TREE_DEPTH) break
+    ts.forEachChild(node, child => { stack.push([child, depth + 1]) })
+  }
+  return deepest
+}
+
+function visit(node: ts.Node, callback: (node: ts.Node) => void) {
+  callback(node)
+  ts.forEachChild(node, child => visit(child, callback))
+}
+
+/**
+ * Where a node starts, in the same shape as line-based locations
+ */
+export function nodeLocation(source: ts.SourceFile, node: ts.Node): SourceLocation {
+  const start = node.getStart(source)
+  const { line, character } = source.getLineAndCharacterOfPosition(start)
+  const lineStarts = source.getLineStarts()
+  const text = source.text.slice(lineStarts[line], lineStarts[line + 1] ?? source.text.length)
+  return {
+    file: source.fileName,
+    line: line + 1,
+    column: character + 1,
+    snippet: redactSnippet(text.replace(/\r?\n$/, '')),
+  }
+}
@@ -0,0 +1,136 @@
+// =============================================================================
+// INCREMENTAL CACHE
+// Per-file analyzer results keyed by path + content hash, so a rescan only
+// re-evaluates files that changed
+// =============================================================================
+
+import { createHash } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { FileCache, RepoContext, RepoFile } from './types'
+
+// Bump whenever an analyzer's per-file logic changes so old results are discarded
+export const CACHE_VERSION = 1
+
+// Files the on-disk store keeps results for before dropping the least recently used
+export const DISK_CACHE_MAX_ENTRIES = 20_000
+
+// Results for one file content, keyed by the check that produced them
+export type FileResults = Record<string, unknown>
+
+// Stores may throw: a failed load means a cold scan and a failed save is skipped,
+// with the error reported in the analysis result's cache stats
+export interface CacheStore {
+  load(keys: string[]): Promise<Map<string, FileResults>>
+  save(entries: Map<string, FileResults>): Promise<void>
+}
+
+export interface IncrementalCache extends FileCache {
+  changed(): Map<string, FileResults> // Entries that gained results during this scan
+  stats(): { hits: number; misses: number }
+}
+
+const keys = new WeakMap<RepoFile, string>()
+
+/**
+ * Cache key for a file. The path is part of it since some checks look at file names.
+ */
+export function cacheKey(file: RepoFile): string {
+  let key = keys.get(file)
+  if (!key) {
+    key = `v${CACHE_VERSION}:${createHash('sha256').update(`${file.path}\0${file.content}`).digest('hex')}`
+    keys.set(file, key)
+  }
+  return key
+}
+
+/**
+ * Create a cache seeded with previously stored entries
+ */
+export function createFileCache(entries: Map<string, FileResults> = new Map()): IncrementalCache {
+  const changed = new Set<string>()
+  let hits = 0
+  let misses = 0
+
+  return {
+    get<T>(file: RepoFile, check: string, compute: () => T): T {
+      const key = cacheKey(file)
+      const results = entries.get(key) || {}
+      if (check in results) {
+        hits++
+        return results[check] as T
+      }
+      misses++
+      const value = compute()
+      entries.set(key, { ...results, [check]: value })
+      changed.add(key)
+      return value
+    },
+    changed: () => new Map(Array.from(changed, key => [key, entries.get(key)!])),
+    stats: () => ({ hits, misses }),
+  }
+}
+
+/**
+ * Memoize a per-file computation when the context carries a cache.
+ * Values must be JSON-serializable (use null, not undefined).
+ */
+export function cached<T>(ctx: RepoContext, file: RepoFile, key: string, compute: () => T): T {
+  return ctx.cache ? ctx.cache.get(file, key, compute) : compute()
+}
+
+/**
+ * In-process store, mostly useful for tests and long-running workers
+ */
+export function memoryCacheStore(): CacheStore {
+  const store = new Map<string, FileResults>()
+  return {
+    async load(keys) {
+      return new Map(keys.filter(key => store.has(key)).map(key => [key, store.get(key)!]))
+    },
+    async save(entries) {
+      entries.forEach((results, key) => store.set(key, results))
+    },
+  }
+}
+
+/**
+ * On-disk store for the CLI. Everything lives in one JSON file under `dir`;
+ * delete the directory to reset it. Holds at most `maxEntries` files, evicting
+ * those least recently loaded or saved.
+ */
+export function diskCacheStore(dir: string, maxEntries = DISK_CACHE_MAX_ENTRIES): CacheStore {
+  const path = join(dir, 'file-results.json')
+  const used = new Set<string>() // Keys loaded by this store, refreshed on the next save
+
+  const read = async (): Promise<Record<string, FileResults>> => {
+    try {
+      return JSON.parse(await readFile(path, 'utf8'))
+    } catch {
+      return {} // Missing or corrupt cache is just a cold start
+    }
+  }
+
+  return {
+    async load(keys) {
+      const all = await read()
+      const found = keys.filter(key => key in all)
+      found.forEach(key => used.add(key))
+      return new Map(found.map(key => [key, all[key]]))
+    },
+    async save(entries) {
+      if (entries.size === 0) return
+      const all = await read()
+      // Keys keep insertion order, so re-inserting moves an entry to the recent end
+      const touch = (results: FileResults, key: string) => {
+        delete all[key]
+        all[key] = results
+      }
+      used.forEach(key => { if (all[key]) touch(all[key], key) })
+      entries.forEach(touch)
+      const kept = Object.entries(all).slice(-maxEntries)
+      await mkdir(dir, { recursive: true })
+      await writeFile(path, JSON.stringify(Object.fromEntries(kept)))
+    },
+  }
+}
@@ -0,0 +1,71 @@
+// =============================================================================
+// CHECK RESULTS
+// Helpers analyzers use to record how each scored step contributed
+// =============================================================================
+
+import { CATEGORY_LABELS, Category, CategoryScore, CheckResult, RepoContext, RepoFile } from './types'
+import { cached } from './cache'
+
+const MAX_EVIDENCE = 5
+
+/**
+ * Record a scored check. Status follows from the points awarded.
+ */
+export function check(
+  id: string,
+  label: string,
+  pointsPossible: number,
+  pointsAwarded: number,
+  evidence: string[] = []
+): CheckResult {
+  const status = pointsAwarded >= pointsPossible ? 'pass' : pointsAwarded > 0 ? 'partial' : 'fail'
+  return { id, label, pointsPossible, pointsAwarded, status, evidence }
+}
+
+/**
+ * Record a check that doesn't apply to this repo (full points, like the analyzers' "N/A" branches)
+ */
+export function skipCheck(id: string, label: string, points: number, reason: string): CheckResult {
+  return { id, label, pointsPossible: points, pointsAwarded: points, status: 'not-applicable', evidence: [reason] }
+}
+
+/**
+ * Result for a category the analyzer found nothing to judge in
+ */
+export function notApplicable(category: Category, reason: string): CategoryScore {
+  return {
+    category,
+    label: CATEGORY_LABELS[category],
+    score: 100, // N/A
+    applicable: false,
+    detected: [reason],
+    checks: [],
+    gaps: [],
+    canGenerate: false,
+  }
+}
+
+/**
+ * Paths of the first few files matching a predicate. `key` names the predicate
+ * in the incremental cache, so it must be unique and the predicate may only
+ * look at the file itself.
+ */
+export function fileEvidence(
+  ctx: RepoContext,
+  key: string,
+  predicate: (file: RepoFile) => boolean
+): string[] {
+  const paths: string[] = []
+  for (const file of ctx.files) {
+    if (paths.length >= MAX_EVIDENCE) break
+    if (cached(ctx, file, key, () => predicate(file))) paths.push(file.path)
+  }
+  return paths
+}
+
+/**
+ * Which of the given packages are installed
+ */
+export function depEvidence(deps: Record<string, string>, names: string[]): string[] {
+  return names.filter(name => deps[name]).map(name => `package: ${name}`)
+}
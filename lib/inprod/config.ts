@@ -0,0 +1,166 @@
+// =============================================================================
+// REPO CONFIG
+// Reads .inprod.yml / inprod.config.json from the scanned files
+// =============================================================================
+
+import { parse as parseYaml } from 'yaml'
+import { CATEGORIES, Category, Gap, InprodConfig, RepoFile, Severity } from './types'
+
+// Checked in order; the first one present wins
+export const CONFIG_FILES = ['.inprod.yml', '.inprod.yaml', '.inprod.json', 'inprod.config.json']
+
+const SEVERITIES: Severity[] = ['blocker', 'critical', 'warning', 'info']
+
+export function defaultConfig(): InprodConfig {
+  return {
+    source: null,
+    ignore: [],
+    weights: {},
+    disabledChecks: [],
+    severityOverrides: {},
+    disabledAnalyzers: [],
+    warnings: [],
+  }
+}
+
+/**
+ * Find and parse the repo config. Invalid entries are dropped and reported in
+ * `warnings` rather than failing the scan.
+ */
+export function loadConfig(files: RepoFile[]): InprodConfig {
+  const config = defaultConfig()
+  const file = CONFIG_FILES
+    .map(name => files.find(f => f.path === name))
+    .find((f): f is RepoFile => f !== undefined)
+
+  if (!file) return config
+  config.source = file.path
+
+  let raw: unknown
+  try {
+    raw = file.path.endsWith('.json') ? JSON.parse(file.content) : parseYaml(file.content)
+  } catch (error) {
+    config.warnings.push(`Could not parse ${file.path}: ${error instanceof Error ? error.message : 'invalid syntax'}`)
+    return config
+  }
+
+  if (raw === null || raw === undefined) return config
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    config.warnings.push(`${file.path} must contain an object`)
+    return config
+  }
+
+  const data = raw as Record<string, unknown>
+
+  config.ignore = readStringList(data, 'ignore', config.warnings)
+  config.disabledChecks = readStringList(data, 'disabledChecks', config.warnings)
+  config.disabledAnalyzers = readStringList(data, 'disabledAnalyzers', config.warnings)
+
+  if (data.weights !== undefined) {
+    for (const [category, weight] of Object.entries(asObject(data.weights, 'weights', config.warnings))) {
+      if (!CATEGORIES.includes(category as Category)) {
+        config.warnings.push(`weights: unknown category "${category}"`)
+      } else if (typeof weight !== 'number' || weight < 0) {
+        config.warnings.push(`weights.${category} must be a non-negative number`)
+      } else {
+        config.weights[category as Category] = weight
+      }
+    }
+  }
+
+  if (data.severityOverrides !== undefined) {
+    for (const [gapId, severity] of Object.entries(asObject(data.severityOverrides, 'severityOverrides', config.warnings))) {
+      if (SEVERITIES.includes(severity as Severity)) {
+        config.severityOverrides[gapId] = severity as Severity
+      } else {
+        config.warnings.push(`severityOverrides.${gapId} must be one of ${SEVERITIES.join(', ')}`)
+      }
+    }
+  }
+
+  return config
+}
+
+/**
+ * Whether a repo path matches any of the ignore globs.
+ * Follows .gitignore conventions: patterns without a slash match at any depth,
+ * and a pattern matching a directory also matches everything under it.
+ */
+export function isIgnored(path: string, patterns: string[]): boolean {
+  return patterns.some(pattern => pathGlobToRegExp(pattern).test(path))
+}
+
+/**
+ * Drop disabled gaps and apply severity overrides
+ */
+export function applyGapConfig(gaps: Gap[], config: InprodConfig): Gap[] {
+  const overrides = Object.entries(config.severityOverrides)
+
+  return gaps
+    .filter(gap => !isDisabled(gap.id, config))
+    .map(gap => {
+      const override = overrides.find(([pattern]) => matchesId(gap.id, pattern))
+      return override ? { ...gap, severity: override[1] } : gap
+    })
+}
+
+/**
+ * Whether a gap or check id is listed in disabledChecks
+ */
+export function isDisabled(id: string, config: InprodConfig): boolean {
+  return config.disabledChecks.some(pattern => matchesId(id, pattern))
+}
+
+function matchesId(id: string, pattern: string): boolean {
+  if (!pattern.includes('*')) return id === pattern
+  return new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`).test(id)
+}
+
+function pathGlobToRegExp(pattern: string): RegExp {
+  const trimmed = pattern.trim().replace(/^\.?\//, '').replace(/\/+$/, '')
+  const anchored = trimmed.includes('/')
+
+  let source = ''
+  for (let i = 0; i < trimmed.length; i++) {
+    const char = trimmed[i]
+    if (char === '*' && trimmed[i + 1] === '*') {
+      const slash = trimmed[i + 2] === '/'
+      source += slash ? '(?:.*/)?' : '.*'
+      i += slash ? 2 : 1
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += escapeRegExp(char)
+    }
+  }
+
+  return new RegExp(`${anchored ? '^' : '(?:^|/)'}${source}(?:/.*)?$`)
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function readStringList(data: Record<string, unknown>, key: string, warnings: string[]): string[] {
+  const value = data[key]
+  if (value === undefined) return []
+  if (!Array.isArray(value)) {
+    warnings.push(`${key} must be a list`)
+    return []
+  }
+  const strings = value.filter((v): v is string => typeof v === 'string' && v.length > 0)
+  if (strings.length !== value.length) {
+    warnings.push(`${key} entries must be non-empty strings`)
+  }
+  return strings
+}
+
+function asObject(value: unknown, key: string, warnings: string[]): Record<string, unknown> {
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    return value as Record<string, unknown>
+  }
+  warnings.push(`${key} must be a mapping`)
+  return {}
+}
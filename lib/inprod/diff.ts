@@ -0,0 +1,141 @@
+// =============================================================================
+// SCAN DIFF
+// Compares two analysis results (e.g. before and after a release branch)
+// =============================================================================
+
+import {
+  ALTITUDE_ZONES,
+  AltitudeResult,
+  AltitudeZone,
+  Category,
+  CategoryScore,
+  Gap,
+  Severity,
+} from './types'
+
+// The parts of a FullAnalysisResult a diff needs, so stored scans can be compared too
+export interface DiffableResult {
+  overallScore: number
+  categories: CategoryScore[]
+  altitude: AltitudeResult
+}
+
+export interface SeverityChange {
+  id: string
+  category: Category
+  title: string
+  before: Severity
+  after: Severity
+  direction: 'escalated' | 'downgraded'
+}
+
+export interface CategoryDelta {
+  category: Category
+  label: string
+  before: number | null // null when the category was missing or not applicable
+  after: number | null
+  delta: number | null
+}
+
+export interface ScanDiff {
+  overallScore: { before: number; after: number; delta: number }
+  newGaps: Gap[]
+  resolvedGaps: Gap[]
+  severityChanges: SeverityChange[]
+  categories: CategoryDelta[]
+  altitude: {
+    before: AltitudeZone
+    after: AltitudeZone
+    changed: boolean
+    direction: 'up' | 'down' | 'none'
+    maxUsersBefore: number
+    maxUsersAfter: number
+  }
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { info: 0, warning: 1, critical: 2, blocker: 3 }
+
+/**
+ * Compare two results. Gaps are matched by id, so a gap whose id is unchanged
+ * counts as the same finding even if its message or location moved.
+ */
+export function diffResults(before: DiffableResult, after: DiffableResult): ScanDiff {
+  const beforeGaps = gapsById(before.categories)
+  const afterGaps = gapsById(after.categories)
+
+  const newGaps = Array.from(afterGaps.values()).filter(gap => !beforeGaps.has(gap.id))
+  const resolvedGaps = Array.from(beforeGaps.values()).filter(gap => !afterGaps.has(gap.id))
+
+  const severityChanges: SeverityChange[] = []
+  for (const [id, gap] of afterGaps) {
+    const previous = beforeGaps.get(id)
+    if (!previous || previous.severity === gap.severity) continue
+    severityChanges.push({
+      id,
+      category: gap.category,
+      title: gap.title,
+      before: previous.severity,
+      after: gap.severity,
+      direction: SEVERITY_RANK[gap.severity] > SEVERITY_RANK[previous.severity] ? 'escalated' : 'downgraded',
+    })
+  }
+
+  // Keep the "after" category order, then anything that disappeared
+  const categoryOrder = [...after.categories, ...before.categories]
+  const seen = new Set<Category>()
+  const categories: CategoryDelta[] = []
+  for (const { category, label } of categoryOrder) {
+    if (seen.has(category)) continue
+    seen.add(category)
+    const beforeScore = applicableScore(before.categories, category)
+    const afterScore = applicableScore(after.categories, category)
+    categories.push({
+      category,
+      label,
+      before: beforeScore,
+      after: afterScore,
+      delta: beforeScore !== null && afterScore !== null ? afterScore - beforeScore : null,
+    })
+  }
+
+  const beforeZone = zoneIndex(before.altitude.zone.zone)
+  const afterZone = zoneIndex(after.altitude.zone.zone)
+
+  return {
+    overallScore: {
+      before: before.overallScore,
+      after: after.overallScore,
+      delta: after.overallScore - before.overallScore,
+    },
+    newGaps,
+    resolvedGaps,
+    severityChanges,
+    categories,
+    altitude: {
+      before: before.altitude.zone.zone,
+      after: after.altitude.zone.zone,
+      changed: beforeZone !== afterZone,
+      direction: afterZone > beforeZone ? 'up' : afterZone < beforeZone ? 'down' : 'none',
+      maxUsersBefore: before.altitude.maxUsers,
+      maxUsersAfter: after.altitude.maxUsers,
+    },
+  }
+}
+
+function gapsById(categories: CategoryScore[]): Map<string, Gap> {
+  const gaps = new Map<string, Gap>()
+  for (const gap of categories.flatMap(c => c.gaps)) {
+    if (!gaps.has(gap.id)) gaps.set(gap.id, gap)
+  }
+  return gaps
+}
+
+function applicableScore(categories: CategoryScore[], category: Category): number | null {
+  const match = categories.find(c => c.category === category)
+  // Results stored before `applicable` existed count as applicable
+  return match && match.applicable !== false ? match.score : null
+}
+
+function zoneIndex(zone: AltitudeZone): number {
+  return ALTITUDE_ZONES.findIndex(z => z.zone === zone)
+}
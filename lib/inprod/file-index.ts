@@ -0,0 +1,108 @@
+// =============================================================================
+// FILE INDEX
+// Built once per scan so analyzers don't each re-walk and re-scan every file
+// =============================================================================
+
+import type { SourceFile } from 'typescript'
+import { FileIndex, ImportGraph, RepoFile } from './types'
+import { parseSource } from './ast'
+import { buildImportGraph } from './import-graph'
+import { parseManifests } from './manifests'
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx']
+
+const CONFIG_FILE_PATTERNS = [
+  /^package\.json$/,
+  /^tsconfig(\.[\w-]+)?\.json$/,
+  /\.config\.(js|cjs|mjs|ts|json)$/,
+  /^\.(eslintrc|prettierrc|babelrc)(\.\w+)?$/,
+  /^\.github\/workflows\/[^/]+\.ya?ml$/,
+  /^\.gitlab-ci\.yml$/,
+  /^(Dockerfile|docker-compose\.ya?ml)$/,
+  /^(vercel|netlify|railway|fly)\.(json|toml)$/,
+  /^\.env(\.\w+)*\.example$/,
+  /^\.inprod\.(ya?ml|json)$|^inprod\.config\.json$/,
+]
+
+export function buildFileIndex(files: RepoFile[], packageJson?: Record<string, unknown>): FileIndex {
+  const byPath = new Map<string, RepoFile>()
+  const byExtension = new Map<string, RepoFile[]>()
+  const byDirectory = new Map<string, RepoFile[]>()
+  const routes: RepoFile[] = []
+  const testFiles: RepoFile[] = []
+  const sourceFiles: RepoFile[] = []
+  const configFiles: RepoFile[] = []
+
+  for (const file of files) {
+    const { path } = file
+    byPath.set(path, file)
+    push(byExtension, extensionOf(path), file)
+
+    const parts = path.split('/')
+    for (let depth = 1; depth < parts.length; depth++) {
+      push(byDirectory, parts.slice(0, depth).join('/'), file)
+    }
+
+    const isTest = path.includes('.test.') || path.includes('.spec.') || path.includes('__tests__')
+    if (isTest) testFiles.push(file)
+    if (SOURCE_EXTENSIONS.some(ext => path.endsWith(ext)) &&
+        !path.includes('.test.') && !path.includes('.spec.') && !path.includes('node_modules')) {
+      sourceFiles.push(file)
+    }
+    if (path.includes('/api/') || path.includes('/routes/')) routes.push(file)
+    if (CONFIG_FILE_PATTERNS.some(pattern => pattern.test(path))) configFiles.push(file)
+  }
+
+  const lowered = new Map<RepoFile, string>()
+
+  const lower = (file: RepoFile) => {
+    let content = lowered.get(file)
+    if (content === undefined) {
+      content = file.content.toLowerCase()
+      lowered.set(file, content)
+    }
+    return content
+  }
+
+  const trees = new Map<RepoFile, SourceFile | undefined>()
+
+  const ast = (file: RepoFile) => {
+    if (!trees.has(file)) trees.set(file, parseSource(file))
+    return trees.get(file)
+  }
+
+  let graph: ImportGraph | undefined
+
+  return {
+    deps: packageJson ? {
+      ...((packageJson.dependencies as Record<string, string>) || {}),
+      ...((packageJson.devDependencies as Record<string, string>) || {}),
+    } : {},
+    scripts: (packageJson?.scripts as Record<string, string>) || {},
+    byPath,
+    byExtension,
+    byDirectory,
+    routes,
+    testFiles,
+    sourceFiles,
+    configFiles,
+    manifests: parseManifests(files),
+    contains: (file, term) => file.content.includes(term),
+    containsIgnoreCase: (file, term) => lower(file).includes(term.toLowerCase()),
+    lower,
+    ast,
+    importGraph: () => graph ??= buildImportGraph(files),
+  }
+}
+
+function extensionOf(path: string): string {
+  const name = path.slice(path.lastIndexOf('/') + 1)
+  const dot = name.lastIndexOf('.')
+  return dot > 0 ? name.slice(dot).toLowerCase() : ''
+}
+
+function push<K, V>(map: Map<K, V[]>, key: K, value: V) {
+  const list = map.get(key)
+  if (list) list.push(value)
+  else map.set(key, [value])
+}
@@ -6,4 +6,5 @@ export { generateSecurityFixes, SECURITY_TEMPLATES } from './security'
 export { generateTests } from './testing'
 export { generateCICD } from './cicd'
 export { generateReadme } from './readme'
+export { generateObservability, OBSERVABILITY_TEMPLATES } from './observability'
 
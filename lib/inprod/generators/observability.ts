@@ -0,0 +1,266 @@
+// =============================================================================
+// OBSERVABILITY GENERATORS
+// =============================================================================
+
+import { GeneratedFile, Gap, RepoContext } from '../types'
+
+export const OBSERVABILITY_TEMPLATES: Record<string, (ctx: RepoContext, gap: Gap) => GeneratedFile[]> = {
+  'otel-setup': generateOtelSetup,
+  'metrics-endpoint': generateMetricsEndpoint,
+  'request-id-middleware': generateRequestIdMiddleware,
+}
+
+/**
+ * Generate fixes for observability gaps
+ */
+export async function generateObservability(
+  ctx: RepoContext,
+  gaps: Gap[]
+): Promise<GeneratedFile[]> {
+  const files: GeneratedFile[] = []
+
+  for (const gap of gaps) {
+    if (gap.fixTemplate && OBSERVABILITY_TEMPLATES[gap.fixTemplate]) {
+      const generated = OBSERVABILITY_TEMPLATES[gap.fixTemplate](ctx, gap)
+      files.push(...generated)
+    }
+  }
+
+  return files
+}
+
+/**
+ * Generate OpenTelemetry setup: @vercel/otel for Next.js, the Node SDK elsewhere
+ */
+function generateOtelSetup(ctx: RepoContext): GeneratedFile[] {
+  const serviceName = ctx.packageJson?.name || 'app'
+
+  if (ctx.techStack.frameworks.includes('next.js')) {
+    return [{
+      path: 'instrumentation.ts',
+      content: `// =============================================================================
+// OPENTELEMETRY FOR NEXT.JS
+// =============================================================================
+// Generated by inprod.ai
+// Requires: npm install @vercel/otel @opentelemetry/api
+// Export to any OTLP backend with OTEL_EXPORTER_OTLP_ENDPOINT
+
+import { registerOTel } from '@vercel/otel'
+
+export function register() {
+  // Instruments route handlers, server components and fetch, and
+  // propagates the trace context to the services you call
+  registerOTel({ serviceName: '${serviceName}' })
+}
+`,
+      language: 'typescript',
+      category: 'observability',
+      confidence: 95,
+      description: 'OpenTelemetry tracing via Next.js instrumentation hook',
+    }]
+  }
+
+  return [{
+    path: 'src/tracing.ts',
+    content: `// =============================================================================
+// OPENTELEMETRY TRACING
+// =============================================================================
+// Generated by inprod.ai
+// Requires: npm install @opentelemetry/sdk-node @opentelemetry/auto-instrumentations-node @opentelemetry/exporter-trace-otlp-http
+// Load before the app: node --require ./dist/tracing.js dist/server.js
+
+import { NodeSDK } from '@opentelemetry/sdk-node'
+import { getNodeAutoInstrumentations } from '@opentelemetry/auto-instrumentations-node'
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http'
+
+const sdk = new NodeSDK({
+  serviceName: process.env.OTEL_SERVICE_NAME || '${serviceName}',
+  // Reads OTEL_EXPORTER_OTLP_ENDPOINT, defaulting to a local collector
+  traceExporter: new OTLPTraceExporter(),
+  // HTTP, fetch, database and logger instrumentations; outgoing requests carry traceparent
+  instrumentations: [getNodeAutoInstrumentations()],
+})
+
+sdk.start()
+
+process.on('SIGTERM', () => {
+  sdk.shutdown().finally(() => process.exit(0))
+})
+`,
+    language: 'typescript',
+    category: 'observability',
+    confidence: 90,
+    description: 'OpenTelemetry Node SDK with auto-instrumentation',
+  }]
+}
+
+/**
+ * Generate a Prometheus metrics endpoint
+ */
+function generateMetricsEndpoint(ctx: RepoContext): GeneratedFile[] {
+  const registry = `import { collectDefaultMetrics, Histogram, Registry } from 'prom-client'
+
+export const registry = new Registry()
+collectDefaultMetrics({ register: registry })
+
+export const httpDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request duration in seconds',
+  labelNames: ['method', 'route', 'status'],
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [registry],
+})
+`
+
+  if (ctx.techStack.frameworks.includes('next.js')) {
+    return [
+      {
+        path: 'lib/metrics.ts',
+        content: `// =============================================================================
+// PROMETHEUS METRICS
+// =============================================================================
+// Generated by inprod.ai
+// Requires: npm install prom-client
+
+${registry}`,
+        language: 'typescript',
+        category: 'observability',
+        confidence: 90,
+        description: 'Prometheus registry with default process metrics and a request histogram',
+      },
+      {
+        path: 'app/api/metrics/route.ts',
+        content: `// =============================================================================
+// /api/metrics - Prometheus scrape endpoint
+// =============================================================================
+// Generated by inprod.ai
+// Keep this off the public internet or protect it with METRICS_TOKEN
+
+import { registry } from '@/lib/metrics'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: Request) {
+  const token = process.env.METRICS_TOKEN
+  if (token && req.headers.get('authorization') !== \`Bearer \${token}\`) {
+    return new Response('Unauthorized', { status: 401 })
+  }
+
+  return new Response(await registry.metrics(), {
+    headers: { 'Content-Type': registry.contentType },
+  })
+}
+`,
+        language: 'typescript',
+        category: 'observability',
+        confidence: 90,
+        description: 'Prometheus scrape endpoint',
+      },
+    ]
+  }
+
+  return [{
+    path: 'src/middleware/metrics.ts',
+    content: `// =============================================================================
+// PROMETHEUS METRICS MIDDLEWARE
+// =============================================================================
+// Generated by inprod.ai
+// Requires: npm install prom-client
+
+import { Request, Response, NextFunction } from 'express'
+${registry}
+export function metrics(req: Request, res: Response, next: NextFunction) {
+  const end = httpDuration.startTimer({ method: req.method })
+  res.on('finish', () => {
+    end({ route: req.route?.path ?? 'unmatched', status: res.statusCode })
+  })
+  next()
+}
+
+export async function metricsHandler(_req: Request, res: Response) {
+  res.set('Content-Type', registry.contentType)
+  res.end(await registry.metrics())
+}
+
+// Usage:
+// app.use(metrics)
+// app.get('/metrics', metricsHandler)
+`,
+    language: 'typescript',
+    category: 'observability',
+    confidence: 90,
+    description: 'Prometheus metrics middleware and scrape handler for Express',
+  }]
+}
+
+/**
+ * Generate middleware that gives every request an id
+ */
+function generateRequestIdMiddleware(ctx: RepoContext): GeneratedFile[] {
+  if (ctx.techStack.frameworks.includes('next.js')) {
+    return [{
+      path: 'middleware.request-id.ts',
+      content: `// =============================================================================
+// REQUEST ID MIDDLEWARE FOR NEXT.JS
+// =============================================================================
+// Generated by inprod.ai
+// Merge this into your middleware.ts (Next.js runs a single middleware file)
+
+import { NextRequest, NextResponse } from 'next/server'
+
+export function withRequestId(req: NextRequest): NextResponse {
+  // Keep the id set by a load balancer or upstream service
+  const requestId = req.headers.get('x-request-id') ?? crypto.randomUUID()
+
+  const headers = new Headers(req.headers)
+  headers.set('x-request-id', requestId)
+
+  const res = NextResponse.next({ request: { headers } })
+  res.headers.set('x-request-id', requestId)
+  return res
+}
+
+// In route handlers, read it with (await headers()).get('x-request-id')
+// and include it in every log line for the request.
+`,
+      language: 'typescript',
+      category: 'observability',
+      confidence: 90,
+      description: 'Request id middleware for Next.js',
+    }]
+  }
+
+  return [{
+    path: 'src/middleware/request-id.ts',
+    content: `// =============================================================================
+// REQUEST ID MIDDLEWARE
+// =============================================================================
+// Generated by inprod.ai
+
+import { randomUUID } from 'crypto'
+import { Request, Response, NextFunction } from 'express'
+
+declare global {
+  namespace Express {
+    interface Request {
+      id: string
+    }
+  }
+}
+
+export function requestId(req: Request, res: Response, next: NextFunction) {
+  // Keep the id set by a load balancer or upstream service
+  req.id = req.get('x-request-id') ?? randomUUID()
+  res.setHeader('x-request-id', req.id)
+  next()
+}
+
+// Usage: app.use(requestId), then log req.id with every line for the request
+`,
+    language: 'typescript',
+    category: 'observability',
+    confidence: 95,
+    description: 'Request id middleware for Express/Node.js',
+  }]
+}
@@ -454,10 +454,7 @@ function generateEnvExample(ctx: RepoContext): GeneratedFile[] {
   ]
   
   // Detect what's needed from package.json
-  const deps = ctx.packageJson ? {
-    ...((ctx.packageJson.dependencies as Record<string, string>) || {}),
-    ...((ctx.packageJson.devDependencies as Record<string, string>) || {})
-  } : {}
+  const { deps } = ctx.index
   
   // Database
   if (ctx.techStack.database) {
@@ -475,7 +472,7 @@ function generateEnvExample(ctx: RepoContext): GeneratedFile[] {
   }
   
   // OAuth
-  if (ctx.files.some(f => f.content.includes('GITHUB_CLIENT'))) {
+  if (ctx.files.some(f => ctx.index.contains(f, 'GITHUB_CLIENT'))) {
     envVars.push('# GitHub OAuth')
     envVars.push('GITHUB_CLIENT_ID=')
     envVars.push('GITHUB_CLIENT_SECRET=')
@@ -0,0 +1,254 @@
+// =============================================================================
+// IMPORT GRAPH
+// Resolves JS/TS imports between repo files (relative paths, tsconfig
+// baseUrl/paths aliases) so checks can follow a route into its helpers
+// =============================================================================
+
+import ts from 'typescript'
+import { ImportGraph, ModuleImports, RepoFile } from './types'
+import { scriptKind } from './ast'
+
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts']
+
+// ESM-style TypeScript imports name the compiled file: './util.js' is util.ts
+const COMPILED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+}
+
+// Module settings from a tsconfig/jsconfig, with directories made repo-relative
+interface ResolveConfig {
+  baseUrl?: string
+  paths?: Record<string, string[]>
+  pathsBase: string // Directory `paths` targets are relative to
+}
+
+// A chain of imports from the starting file; the last entry is the match
+export interface ImportTrace {
+  via: string[]
+  package?: string // Set when the chain ends at a package import
+}
+
+/**
+ * Resolve every import in the repo's JS/TS files. Bare specifiers become
+ * package names ('@upstash/ratelimit', 'zod'); local-looking ones that match
+ * no file are kept as unresolved.
+ */
+export function buildImportGraph(files: RepoFile[]): ImportGraph {
+  const paths = new Set(files.map(f => f.path))
+  const configs = loadConfigs(files)
+  const modules: Record<string, ModuleImports> = {}
+
+  for (const file of files) {
+    if (scriptKind(file.path) === undefined || file.path.includes('node_modules/')) continue
+
+    const dir = dirname(file.path)
+    const config = nearestConfig(configs, dir)
+    const imports: ModuleImports = { files: [], packages: [], unresolved: [], resolved: {} }
+
+    for (const { fileName: specifier } of ts.preProcessFile(file.content, true, true).importedFiles) {
+      const resolved = resolveSpecifier(specifier, dir, config, paths)
+      if (resolved.file) imports.resolved[specifier] = resolved.file
+      const list = resolved.file ? imports.files : resolved.package ? imports.packages : imports.unresolved
+      const value = resolved.file || resolved.package || specifier
+      if (!list.includes(value)) list.push(value)
+    }
+
+    modules[file.path] = imports
+  }
+
+  return { modules }
+}
+
+/**
+ * Repo files reachable from `from` through imports, nearest first
+ */
+export function transitiveImports(graph: ImportGraph, from: string): string[] {
+  const seen = new Set([from])
+  const queue = [from]
+  for (let i = 0; i < queue.length; i++) {
+    for (const next of graph.modules[queue[i]]?.files || []) {
+      if (seen.has(next)) continue
+      seen.add(next)
+      queue.push(next)
+    }
+  }
+  return queue.slice(1)
+}
+
+/**
+ * The shortest import chain from `from` to a file that imports one of the
+ * packages (subpaths like 'zod/v4' count), or null
+ */
+export function importsPackage(graph: ImportGraph, from: string, packages: string[]): ImportTrace | null {
+  return search(graph, from, path => {
+    const match = graph.modules[path]?.packages.find(name => packages.includes(name))
+    return match ? { package: match } : null
+  })
+}
+
+/**
+ * The shortest import chain from `from` to a repo file matching the predicate
+ * (e.g. the auth helper), or null. `from` itself is never matched.
+ */
+export function importsFile(graph: ImportGraph, from: string, predicate: (path: string) => boolean): ImportTrace | null {
+  return search(graph, from, path => path !== from && predicate(path) ? {} : null)
+}
+
+// Breadth-first, so the reported chain is the shortest one
+function search(
+  graph: ImportGraph,
+  from: string,
+  match: (path: string) => Omit<ImportTrace, 'via'> | null
+): ImportTrace | null {
+  const parent = new Map<string, string | null>([[from, null]])
+  const queue = [from]
+  for (let i = 0; i < queue.length; i++) {
+    const path = queue[i]
+    const found = match(path)
+    if (found) {
+      const via: string[] = []
+      for (let step: string | null | undefined = path; step; step = parent.get(step)) via.unshift(step)
+      return { via, ...found }
+    }
+    for (const next of graph.modules[path]?.files || []) {
+      if (parent.has(next)) continue
+      parent.set(next, path)
+      queue.push(next)
+    }
+  }
+  return null
+}
+
+function resolveSpecifier(
+  specifier: string,
+  dir: string,
+  config: ResolveConfig | undefined,
+  paths: Set<string>
+): { file?: string; package?: string } {
+  if (specifier.startsWith('.')) return { file: resolveFile(join(dir, specifier), paths) }
+  if (specifier.startsWith('/')) return {}
+
+  if (config?.paths) {
+    const alias = matchAlias(specifier, config.paths)
+    if (alias) {
+      for (const target of alias) {
+        const file = resolveFile(join(config.pathsBase, target), paths)
+        if (file) return { file }
+      }
+      return {}
+    }
+  }
+  if (config?.baseUrl !== undefined) {
+    const file = resolveFile(join(config.baseUrl, specifier), paths)
+    if (file) return { file }
+  }
+
+  return { package: packageName(specifier) }
+}
+
+// Targets for the most specific matching pattern, with `*` filled in
+function matchAlias(specifier: string, aliases: Record<string, string[]>): string[] | null {
+  let best: { prefix: string; targets: string[]; wildcard: string } | null = null
+  for (const [pattern, targets] of Object.entries(aliases)) {
+    const star = pattern.indexOf('*')
+    if (star === -1) {
+      if (pattern === specifier) return targets
+      continue
+    }
+    const prefix = pattern.slice(0, star)
+    const suffix = pattern.slice(star + 1)
+    if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix) || specifier.length < pattern.length - 1) continue
+    if (!best || prefix.length > best.prefix.length) {
+      best = { prefix, targets, wildcard: specifier.slice(prefix.length, specifier.length - suffix.length) }
+    }
+  }
+  return best && best.targets.map(target => target.replace('*', best!.wildcard))
+}
+
+function resolveFile(base: string, paths: Set<string>): string | undefined {
+  if (paths.has(base)) return base
+  for (const ext of RESOLVE_EXTENSIONS) {
+    if (paths.has(base + ext)) return base + ext
+  }
+  for (const ext of RESOLVE_EXTENSIONS) {
+    const index = base ? `${base}/index${ext}` : `index${ext}`
+    if (paths.has(index)) return index
+  }
+  const ext = base.slice(base.lastIndexOf('.'))
+  for (const replacement of COMPILED_EXTENSIONS[ext] || []) {
+    const file = base.slice(0, -ext.length) + replacement
+    if (paths.has(file)) return file
+  }
+  return undefined
+}
+
+// tsconfig.json / jsconfig.json by directory, with relative `extends` followed
+function loadConfigs(files: RepoFile[]): Map<string, ResolveConfig> {
+  const byPath = new Map(files.map(f => [f.path, f]))
+  const configs = new Map<string, ResolveConfig>()
+
+  const load = (path: string, depth = 0): ResolveConfig | undefined => {
+    const file = byPath.get(path)
+    if (!file || depth > 5) return undefined
+    const { config } = ts.parseConfigFileTextToJson(path, file.content)
+    if (!config || typeof config !== 'object') return undefined
+
+    const dir = dirname(path)
+    const parentPath = typeof config.extends === 'string' && config.extends.startsWith('.')
+      ? join(dir, config.extends.endsWith('.json') ? config.extends : `${config.extends}.json`)
+      : undefined
+    const inherited = parentPath ? load(parentPath, depth + 1) : undefined
+
+    const options = config.compilerOptions || {}
+    const baseUrl = typeof options.baseUrl === 'string' ? join(dir, options.baseUrl) : inherited?.baseUrl
+    const ownPaths = options.paths && typeof options.paths === 'object'
+    return {
+      baseUrl,
+      paths: ownPaths ? options.paths : inherited?.paths,
+      pathsBase: ownPaths || typeof options.baseUrl === 'string' ? (baseUrl ?? dir) : (inherited?.pathsBase ?? dir),
+    }
+  }
+
+  for (const file of files) {
+    const name = file.path.slice(file.path.lastIndexOf('/') + 1)
+    if (name !== 'tsconfig.json' && name !== 'jsconfig.json') continue
+    const dir = dirname(file.path)
+    // tsconfig wins over jsconfig in the same directory
+    if (configs.has(dir) && name === 'jsconfig.json') continue
+    const config = load(file.path)
+    if (config) configs.set(dir, config)
+  }
+  return configs
+}
+
+function nearestConfig(configs: Map<string, ResolveConfig>, dir: string): ResolveConfig | undefined {
+  for (let current = dir; ; current = dirname(current)) {
+    const config = configs.get(current)
+    if (config || current === '') return config
+  }
+}
+
+// 'lodash/fp' -> 'lodash', '@scope/pkg/sub' -> '@scope/pkg'
+function packageName(specifier: string): string {
+  const parts = specifier.split('/')
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0]
+}
+
+function dirname(path: string): string {
+  const slash = path.lastIndexOf('/')
+  return slash === -1 ? '' : path.slice(0, slash)
+}
+
+// Repo-relative join that collapses '.' and '..' ('' is the repo root)
+function join(dir: string, relative: string): string {
+  const parts = dir ? dir.split('/') : []
+  for (const part of relative.split('/')) {
+    if (part === '' || part === '.') continue
+    if (part === '..') parts.pop()
+    else parts.push(part)
+  }
+  return parts.join('/')
+}
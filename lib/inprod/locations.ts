@@ -0,0 +1,124 @@
+// =============================================================================
+// SOURCE LOCATIONS
+// Line/column lookup and snippet redaction for file-based gaps
+// =============================================================================
+
+import { Gap, RepoFile, SourceLocation } from './types'
+
+const MAX_LOCATIONS = 20
+const MAX_SNIPPET_LENGTH = 120
+
+// Known credential formats, also used by the security analyzer
+export const SECRET_PATTERNS: RegExp[] = [
+  /sk[-_]live[-_][a-zA-Z0-9]{24,}/, // Stripe
+  /ghp_[a-zA-Z0-9]{36}/, // GitHub
+  /sk-[a-zA-Z0-9]{48}/, // OpenAI
+  /AIza[0-9A-Za-z_-]{35}/, // Google
+  /password\s*[:=]\s*["'][^"']{8,}["']/i,
+]
+
+const ASSIGNED_SECRET = /((?:password|passwd|secret|token|api[_-]?key)\w*["']?\s*[:=]\s*["'])[^"']+(["'])/gi
+
+/**
+ * First match of any secret pattern (null rather than undefined so it can be cached)
+ */
+export function findSecret(file: RepoFile): SourceLocation | null {
+  for (const pattern of SECRET_PATTERNS) {
+    const [location] = locate(file, pattern, 1)
+    if (location) return location
+  }
+  return null
+}
+
+/**
+ * Every line in a file matching the pattern (first match per line)
+ */
+export function locate(file: RepoFile, pattern: string | RegExp, limit = MAX_LOCATIONS): SourceLocation[] {
+  // Most files don't match at all; skip splitting them into lines
+  if (!mayMatch(file.content, pattern)) return []
+
+  const locations: SourceLocation[] = []
+  const lines = file.content.split('\n')
+
+  for (let i = 0; i < lines.length && locations.length < limit; i++) {
+    const column = typeof pattern === 'string'
+      ? lines[i].indexOf(pattern)
+      : lines[i].search(pattern)
+    if (column === -1) continue
+
+    locations.push({
+      file: file.path,
+      line: i + 1,
+      column: column + 1,
+      snippet: redactSnippet(lines[i]),
+    })
+  }
+
+  return locations
+}
+
+// A line match implies a whole-content match once ^/$ are made line-aware
+function mayMatch(content: string, pattern: string | RegExp): boolean {
+  if (typeof pattern === 'string') return content.includes(pattern)
+  const flags = pattern.flags.replace('g', '').replace('y', '')
+  return new RegExp(pattern.source, flags.includes('m') ? flags : `${flags}m`).test(content)
+}
+
+/**
+ * Location of a character offset, for matches that span several lines
+ */
+export function locateOffset(file: RepoFile, offset: number): SourceLocation {
+  const before = file.content.slice(0, offset)
+  const lineStart = before.lastIndexOf('\n') + 1
+  const lineEnd = file.content.indexOf('\n', offset)
+  return {
+    file: file.path,
+    line: before.split('\n').length,
+    column: offset - lineStart + 1,
+    snippet: redactSnippet(file.content.slice(lineStart, lineEnd === -1 ? undefined : lineEnd)),
+  }
+}
+
+/**
+ * Matching lines across several files, capped to keep reports readable
+ */
+export function locateAll(files: RepoFile[], pattern: string | RegExp): SourceLocation[] {
+  const locations: SourceLocation[] = []
+  for (const file of files) {
+    if (locations.length >= MAX_LOCATIONS) break
+    locations.push(...locate(file, pattern, MAX_LOCATIONS - locations.length))
+  }
+  return locations
+}
+
+/**
+ * Attach locations to a gap; the first one becomes the gap's file/line
+ */
+export function withLocations(gap: Gap, locations: SourceLocation[]): Gap {
+  if (locations.length === 0) return gap
+
+  const [first] = locations
+  return {
+    ...gap,
+    file: first.file,
+    line: first.line,
+    column: first.column,
+    snippet: first.snippet,
+    ...(locations.length > 1 && { locations }),
+  }
+}
+
+/**
+ * Trim a source line for display and mask anything that looks like a credential
+ */
+export function redactSnippet(line: string): string {
+  let snippet = line.trim().replace(ASSIGNED_SECRET, '$1****$2')
+
+  for (const pattern of SECRET_PATTERNS) {
+    snippet = snippet.replace(new RegExp(pattern.source, `${pattern.flags}g`), match => `${match.slice(0, 4)}****`)
+  }
+
+  return snippet.length > MAX_SNIPPET_LENGTH
+    ? `${snippet.slice(0, MAX_SNIPPET_LENGTH - 1)}…`
+    : snippet
+}
@@ -0,0 +1,158 @@
+// =============================================================================
+// MANIFESTS
+// Dependencies declared by Python, Go, Rust and Dart projects, read from
+// requirements.txt, pyproject.toml, Pipfile, go.mod, Cargo.toml and pubspec.yaml
+// =============================================================================
+
+import { parse as parseToml } from 'smol-toml'
+import { parse as parseYaml } from 'yaml'
+import { ManifestDependencies, RepoFile } from './types'
+import { table, tryParse } from './parse'
+
+// Vendored and installed copies declare their own, unrelated dependencies
+const SKIPPED_DIRS = /(^|\/)(node_modules|\.venv|venv|vendor|target|\.dart_tool)\//
+
+/**
+ * Every dependency declared in the repo's non-Node manifests, dev and
+ * optional groups included. Manifests in subdirectories (backend/, services/)
+ * count too.
+ */
+export function parseManifests(files: RepoFile[]): ManifestDependencies {
+  const manifests: ManifestDependencies = { python: {}, go: {}, rust: {}, dart: {} }
+
+  for (const file of files) {
+    if (SKIPPED_DIRS.test(file.path)) continue
+    const name = file.path.slice(file.path.lastIndexOf('/') + 1)
+
+    if (name === 'pyproject.toml') Object.assign(manifests.python, pyprojectDeps(file.content))
+    else if (name === 'Pipfile') Object.assign(manifests.python, pipfileDeps(file.content))
+    else if (/^requirements.*\.txt$/.test(name) || /(^|\/)requirements\/[^/]+\.txt$/.test(file.path)) {
+      Object.assign(manifests.python, requirementsDeps(file.content))
+    }
+    else if (name === 'go.mod') Object.assign(manifests.go, goModDeps(file.content))
+    else if (name === 'Cargo.toml') Object.assign(manifests.rust, cargoDeps(file.content))
+    else if (name === 'pubspec.yaml') Object.assign(manifests.dart, pubspecDeps(file.content))
+  }
+
+  return manifests
+}
+
+function requirementsDeps(content: string): Record<string, string> {
+  const deps: Record<string, string> = {}
+  for (const raw of content.split('\n')) {
+    const line = raw.replace(/(^|\s)#.*$/, '').trim()
+    // Options (-r, -e, --index-url) and bare URLs name no package
+    if (!line || line.startsWith('-') || /^[a-z+]+:\/\//i.test(line)) continue
+    addRequirement(deps, line)
+  }
+  return deps
+}
+
+function pyprojectDeps(content: string): Record<string, string> {
+  const data = tryParse(() => parseToml(content))
+  const deps: Record<string, string> = {}
+
+  // PEP 621 and PEP 735: lists of requirement strings
+  const requirementLists = [
+    table(data, 'project').dependencies,
+    ...Object.values(table(data, 'project', 'optional-dependencies')),
+    ...Object.values(table(data, 'dependency-groups')),
+  ]
+  for (const list of requirementLists) {
+    if (!Array.isArray(list)) continue
+    for (const requirement of list) {
+      if (typeof requirement === 'string') addRequirement(deps, requirement)
+    }
+  }
+
+  // Poetry: name = version tables
+  const poetry = table(data, 'tool', 'poetry')
+  const poetryTables = [
+    poetry.dependencies,
+    poetry['dev-dependencies'],
+    ...Object.values(table(poetry, 'group')).map(group => table(group).dependencies),
+  ]
+  for (const table of poetryTables) Object.assign(deps, pythonTable(table))
+
+  return deps
+}
+
+function pipfileDeps(content: string): Record<string, string> {
+  const data = table(tryParse(() => parseToml(content)))
+  return { ...pythonTable(data.packages), ...pythonTable(data['dev-packages']) }
+}
+
+// Poetry and Pipfile tables: `name = "^1.0"` or `name = { version = "^1.0", extras = [...] }`
+function pythonTable(value: unknown): Record<string, string> {
+  const deps: Record<string, string> = {}
+  for (const [name, spec] of Object.entries(table(value))) {
+    if (name === 'python') continue
+    deps[normalizePython(name)] = versionOf(spec)
+  }
+  return deps
+}
+
+function goModDeps(content: string): Record<string, string> {
+  const deps: Record<string, string> = {}
+  let inBlock = false
+  for (const raw of content.split('\n')) {
+    const line = raw.trim()
+    if (line.startsWith('require (')) {
+      inBlock = true
+      continue
+    }
+    if (inBlock && line === ')') {
+      inBlock = false
+      continue
+    }
+    const spec = inBlock ? line : line.match(/^require\s+(.+)$/)?.[1]
+    // Indirect requirements come in through other modules, not this code
+    if (!spec || spec.includes('// indirect')) continue
+    const [path, version] = spec.split(/\s+/)
+    if (path && version) deps[path.replace(/\/v\d+$/, '')] = version
+  }
+  return deps
+}
+
+function cargoDeps(content: string): Record<string, string> {
+  const data = tryParse(() => parseToml(content))
+  const deps: Record<string, string> = {}
+  const sections = [data, table(data, 'workspace'), ...Object.values(table(data, 'target'))]
+  for (const section of sections) {
+    for (const key of ['dependencies', 'dev-dependencies', 'build-dependencies']) {
+      for (const [name, spec] of Object.entries(table(section, key))) {
+        // `alias = { package = "real-name" }` renames a crate
+        const renamed = table(spec).package
+        deps[typeof renamed === 'string' ? renamed : name] = versionOf(spec)
+      }
+    }
+  }
+  return deps
+}
+
+// Hosted packages map to a version; SDK, path and git dependencies to '*'
+function pubspecDeps(content: string): Record<string, string> {
+  const data = tryParse(() => parseYaml(content))
+  const deps: Record<string, string> = {}
+  for (const key of ['dependencies', 'dev_dependencies']) {
+    for (const [name, spec] of Object.entries(table(data, key))) deps[name] = versionOf(spec)
+  }
+  return deps
+}
+
+// PEP 508: 'FastAPI[all] >=0.100 ; python_version > "3.8"' or 'pkg @ https://...'
+function addRequirement(deps: Record<string, string>, requirement: string) {
+  const match = requirement.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*([^;@]*)/)
+  if (match) deps[normalizePython(match[1])] = match[2].trim() || '*'
+}
+
+// PEP 503 names: case-insensitive, with runs of '-', '_' and '.' equivalent
+function normalizePython(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-')
+}
+
+function versionOf(spec: unknown): string {
+  if (typeof spec === 'string') return spec
+  const version = table(spec).version
+  return typeof version === 'string' ? version : '*'
+}
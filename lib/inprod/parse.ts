@@ -0,0 +1,33 @@
+// =============================================================================
+// PARSED MANIFESTS
+// Safe access to JSON, TOML and YAML documents whose shape isn't known
+// =============================================================================
+
+/**
+ * The parsed document, or undefined when it doesn't parse. A malformed
+ * manifest just declares nothing.
+ */
+export function tryParse(parse: () => unknown): unknown {
+  try {
+    return parse()
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Whether a parsed value is a table/mapping rather than a list or scalar
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * The table at a key path (`table(data, 'tool', 'poetry')`), or an empty one
+ * when any step is missing or not a table
+ */
+export function table(value: unknown, ...path: string[]): Record<string, unknown> {
+  let current = value
+  for (const key of path) current = isRecord(current) ? current[key] : undefined
+  return isRecord(current) ? current : {}
+}
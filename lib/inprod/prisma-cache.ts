@@ -0,0 +1,43 @@
+// =============================================================================
+// PRISMA CACHE STORE
+// Keeps per-file analyzer results in Postgres for the web scanner
+// =============================================================================
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '../prisma'
+import { CacheStore, FileResults } from './cache'
+
+// Rows not written for this long are pruned whenever new results are saved
+export const PRISMA_CACHE_TTL_DAYS = 30
+
+/**
+ * Database errors are thrown to the caller; analyzeCompleteness treats them as
+ * a cold cache and reports them in the result's cache stats
+ */
+export function prismaCacheStore(): CacheStore {
+  return {
+    async load(keys) {
+      const rows: { key: string; results: unknown }[] = await prisma.fileAnalysisCache.findMany({
+        where: { key: { in: keys } },
+        select: { key: true, results: true },
+      })
+      return new Map(rows.map(row => [row.key, row.results as FileResults]))
+    },
+    async save(entries) {
+      if (entries.size === 0) return
+      const expired = new Date(Date.now() - PRISMA_CACHE_TTL_DAYS * 24 * 60 * 60 * 1000)
+      await prisma.$transaction([
+        prisma.fileAnalysisCache.deleteMany({ where: { updatedAt: { lt: expired } } }),
+        ...Array.from(entries, ([key, results]) => {
+          // Cached values are JSON-serializable by contract (see `cached`)
+          const json = results as Prisma.InputJsonValue
+          return prisma.fileAnalysisCache.upsert({
+            where: { key },
+            create: { key, results: json },
+            update: { results: json },
+          })
+        }),
+      ])
+    },
+  }
+}
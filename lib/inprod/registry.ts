@@ -0,0 +1,69 @@
+// =============================================================================
+// ANALYZER REGISTRY
+// analyzeRepository runs whatever is registered here, so new analyzers can
+// ship as separate modules without touching the core
+// =============================================================================
+
+import { Analyzer, TechStack } from './types'
+import { BUILTIN_ANALYZERS, LANGUAGE_ANALYZERS, PLATFORM_ANALYZERS } from './analyzers'
+
+const analyzers = new Map<string, Analyzer>(
+  [...BUILTIN_ANALYZERS, ...LANGUAGE_ANALYZERS, ...PLATFORM_ANALYZERS].map(a => [a.id, a])
+)
+
+export interface AnalyzerSelection {
+  only?: string[] // Run only these analyzer ids
+  disabled?: string[] // Skip these analyzer ids
+}
+
+/**
+ * Register an analyzer. Ids must be unique across built-in and custom analyzers.
+ */
+export function registerAnalyzer(analyzer: Analyzer): void {
+  if (analyzers.has(analyzer.id)) {
+    throw new Error(`Analyzer "${analyzer.id}" is already registered`)
+  }
+  analyzers.set(analyzer.id, analyzer)
+}
+
+/**
+ * Remove an analyzer from the registry. Returns false if it wasn't registered.
+ */
+export function unregisterAnalyzer(id: string): boolean {
+  return analyzers.delete(id)
+}
+
+/**
+ * All registered analyzers, in registration order
+ */
+export function getAnalyzers(): Analyzer[] {
+  return Array.from(analyzers.values())
+}
+
+/**
+ * Analyzers that should run for a scan of the given stack. Language-specific
+ * analyzers run when the repo uses their language; fallback ones also cover
+ * categories no matching analyzer handles. A platform-specific analyzer
+ * replaces the fallback for its category even when both speak the repo's
+ * language (React Native is JS/TS).
+ */
+export function selectAnalyzers(
+  stack: Pick<TechStack, 'platform' | 'languages'>,
+  selection: AnalyzerSelection = {}
+): Analyzer[] {
+  const { only, disabled = [] } = selection
+
+  const eligible = getAnalyzers().filter(a =>
+    (!only || only.includes(a.id)) &&
+    !disabled.includes(a.id) &&
+    (!a.platforms || a.platforms.includes(stack.platform))
+  )
+  const speaks = (a: Analyzer) => !!a.languages?.some(language => stack.languages.includes(language))
+  const covered = new Set(eligible.filter(speaks).map(a => a.category))
+  const replaced = new Set(eligible.filter(a => a.platforms && speaks(a)).map(a => a.category))
+
+  return eligible.filter(a =>
+    !(a.fallback && replaced.has(a.category)) &&
+    (!a.languages || speaks(a) || (a.fallback && !covered.has(a.category)))
+  )
+}
@@ -2,7 +2,56 @@
 // TECH STACK DETECTION
 // =============================================================================
 
-import { TechStack, RepoFile } from './types'
+import { TechStack, RepoFile, ManifestDependencies } from './types'
+import { parseManifests } from './manifests'
+
+type Ecosystem = keyof ManifestDependencies
+
+// Web frameworks by the package that provides them
+const MANIFEST_FRAMEWORKS: Record<Ecosystem, Record<string, string>> = {
+  python: { fastapi: 'fastapi', django: 'django', flask: 'flask', starlette: 'starlette' },
+  go: {
+    'github.com/gin-gonic/gin': 'gin',
+    'github.com/labstack/echo': 'echo',
+    'github.com/gofiber/fiber': 'fiber',
+    'github.com/go-chi/chi': 'chi',
+  },
+  rust: { axum: 'axum', 'actix-web': 'actix', rocket: 'rocket', warp: 'warp' },
+  dart: { flutter: 'flutter' },
+}
+
+// A net/http server started directly, with no framework dependency to go on
+export const GO_HTTP_SERVER = /\bListenAndServe(TLS)?\(|\bhttp\.Server\s*\{/
+
+// Drivers come first since they name the database; an ORM on its own is
+// taken as Postgres, the same assumption made for Prisma and Drizzle
+const MANIFEST_DATABASES: Record<Ecosystem, [string, string][]> = {
+  python: [
+    ['psycopg', 'postgres'], ['psycopg2', 'postgres'], ['psycopg2-binary', 'postgres'], ['asyncpg', 'postgres'],
+    ['pymongo', 'mongodb'], ['motor', 'mongodb'], ['mongoengine', 'mongodb'], ['beanie', 'mongodb'],
+    ['mysqlclient', 'mysql'], ['pymysql', 'mysql'], ['aiomysql', 'mysql'],
+    ['supabase', 'supabase'], ['firebase-admin', 'firebase'],
+    ['sqlalchemy', 'postgres'], ['sqlmodel', 'postgres'], ['tortoise-orm', 'postgres'], ['peewee', 'postgres'],
+  ],
+  go: [
+    ['github.com/lib/pq', 'postgres'], ['github.com/jackc/pgx', 'postgres'], ['gorm.io/driver/postgres', 'postgres'],
+    ['go.mongodb.org/mongo-driver', 'mongodb'],
+    ['github.com/go-sql-driver/mysql', 'mysql'], ['gorm.io/driver/mysql', 'mysql'],
+    ['github.com/mattn/go-sqlite3', 'sqlite'], ['gorm.io/driver/sqlite', 'sqlite'],
+    ['gorm.io/gorm', 'postgres'], ['entgo.io/ent', 'postgres'], ['github.com/jmoiron/sqlx', 'postgres'],
+  ],
+  rust: [
+    ['tokio-postgres', 'postgres'], ['postgres', 'postgres'],
+    ['mongodb', 'mongodb'],
+    ['mysql', 'mysql'], ['mysql_async', 'mysql'],
+    ['rusqlite', 'sqlite'],
+    ['diesel', 'postgres'], ['sea-orm', 'postgres'], ['sqlx', 'postgres'],
+  ],
+  dart: [
+    ['postgres', 'postgres'], ['supabase_flutter', 'supabase'], ['cloud_firestore', 'firebase'],
+    ['mongo_dart', 'mongodb'], ['sqflite', 'sqlite'], ['drift', 'sqlite'],
+  ],
+}
 
 export function detectTechStack(files: RepoFile[]): TechStack {
   const filePaths = files.map(f => f.path)
@@ -18,23 +67,28 @@ export function detectTechStack(files: RepoFile[]): TechStack {
     ? { ...packageJson.dependencies, ...packageJson.devDependencies } 
     : {}
 
+  // Python, Go, Rust and Dart dependencies
+  const manifests = parseManifests(files)
+
+  // Detect frameworks
+  const expoConfig = files.some(f => f.path === 'app.json' && /"expo"\s*:/.test(f.content))
+  const frameworks = detectFrameworks(deps, manifests, filePaths, expoConfig)
+
   // Detect platform
-  const platform = detectPlatform(filePaths, fileSet, packageJson)
+  const servesGoHttp = files.some(f => f.path.endsWith('.go') && GO_HTTP_SERVER.test(f.content))
+  const platform = detectPlatform(filePaths, fileSet, packageJson, frameworks, servesGoHttp)
   
   // Detect languages
   const languages = detectLanguages(filePaths)
   
-  // Detect frameworks
-  const frameworks = detectFrameworks(deps, filePaths, fileSet)
-  
   // Detect package manager
   const packageManager = detectPackageManager(fileSet)
   
   // Detect database
-  const database = detectDatabase(deps, files)
+  const database = detectDatabase(deps, manifests, files)
   
   // Detect test framework
-  const testFramework = detectTestFramework(deps, fileSet)
+  const testFramework = detectTestFramework(deps, manifests, files, fileSet)
   
   // Detect CI provider
   const ciProvider = detectCIProvider(fileSet)
@@ -61,10 +115,23 @@ export function detectTechStack(files: RepoFile[]): TechStack {
 function detectPlatform(
   paths: string[], 
   fileSet: Set<string>,
-  packageJson: Record<string, any> | null
+  packageJson: Record<string, any> | null,
+  frameworks: string[],
+  servesGoHttp: boolean
 ): TechStack['platform'] {
+  // Cross-platform mobile, ahead of iOS and Android since these projects
+  // carry ios/ and android/ folders of their own
+  if (frameworks.includes('flutter')) {
+    return 'flutter'
+  }
+  if (frameworks.includes('react-native') || frameworks.includes('expo')) {
+    return 'react-native'
+  }
+
   // iOS
-  if (paths.some(p => p.endsWith('.xcodeproj') || p.endsWith('.xcworkspace') || p === 'Package.swift')) {
+  // Scans list files, so the project bundles show up as their contents
+  const xcodeBundle = (p: string) => /\.(xcodeproj|xcworkspace)(\/|$)/.test(p)
+  if (paths.some(p => xcodeBundle(p) || p === 'Package.swift')) {
     return 'ios'
   }
   
@@ -82,7 +149,9 @@ function detectPlatform(
   }
   
   // CLI - Go or Node.js CLI tools
-  if (fileSet.has('go.mod') && !paths.some(p => p.includes('/api/') || p.includes('/server/'))) {
+  const usesFramework = (ecosystem: Ecosystem) => Object.values(MANIFEST_FRAMEWORKS[ecosystem]).some(fw => frameworks.includes(fw))
+  const goService = usesFramework('go') || servesGoHttp
+  if (fileSet.has('go.mod') && !goService && !paths.some(p => p.includes('/api/') || p.includes('/server/'))) {
     return 'cli'
   }
   if (packageJson?.bin) {
@@ -114,8 +183,12 @@ function detectPlatform(
   }
   
   // Backend
+  const hasFrontend = paths.some(p => p.includes('/components/') || p.includes('.tsx'))
+  if ((usesFramework('python') || goService || usesFramework('rust')) && !hasFrontend) {
+    return 'backend'
+  }
   if (paths.some(p => p.includes('/api/') || p.includes('/routes/') || p.includes('server.'))) {
-    if (!paths.some(p => p.includes('/components/') || p.includes('.tsx'))) {
+    if (!hasFrontend) {
       return 'backend'
     }
   }
@@ -135,8 +208,11 @@ function detectLanguages(paths: string[]): string[] {
     '.go': 'go',
     '.rs': 'rust',
     '.swift': 'swift',
+    '.m': 'objective-c',
+    '.mm': 'objective-c',
     '.kt': 'kotlin',
     '.java': 'java',
+    '.dart': 'dart',
     '.rb': 'ruby',
     '.php': 'php',
   }
@@ -154,8 +230,9 @@ function detectLanguages(paths: string[]): string[] {
 
 function detectFrameworks(
   deps: Record<string, string>, 
+  manifests: ManifestDependencies,
   paths: string[],
-  fileSet: Set<string>
+  expoConfig: boolean
 ): string[] {
   const frameworks: string[] = []
   
@@ -172,28 +249,20 @@ function detectFrameworks(
   if (deps['hono']) frameworks.push('hono')
   if (deps['@nestjs/core']) frameworks.push('nestjs')
   
+  // Mobile frameworks
+  if (deps['react-native']) frameworks.push('react-native')
+  if (deps['expo'] || expoConfig) frameworks.push('expo')
+  
   // UI libraries
   if (deps['tailwindcss']) frameworks.push('tailwindcss')
   if (deps['@chakra-ui/react']) frameworks.push('chakra-ui')
   if (deps['@mui/material']) frameworks.push('material-ui')
   if (deps['@radix-ui/react-dialog'] || deps['@shadcn/ui']) frameworks.push('shadcn')
   
-  // Python frameworks (check files)
-  if (paths.some(p => p.includes('fastapi') || p.endsWith('main.py'))) {
-    const content = paths.find(p => p.endsWith('requirements.txt'))
-    if (content) {
-      if (content.includes('fastapi')) frameworks.push('fastapi')
-      if (content.includes('django')) frameworks.push('django')
-      if (content.includes('flask')) frameworks.push('flask')
-    }
-  }
-  
-  // Go frameworks
-  if (fileSet.has('go.mod')) {
-    const goMod = paths.find(p => p === 'go.mod')
-    if (goMod) {
-      // Would check content for gin, echo, fiber
-      frameworks.push('go')
+  // Python, Go, Rust and Dart frameworks
+  for (const ecosystem of Object.keys(MANIFEST_FRAMEWORKS) as Ecosystem[]) {
+    for (const [dep, framework] of Object.entries(MANIFEST_FRAMEWORKS[ecosystem])) {
+      if (manifests[ecosystem][dep]) frameworks.push(framework)
     }
   }
   
@@ -221,7 +290,11 @@ function detectPackageManager(fileSet: Set<string>): string | null {
   return null
 }
 
-function detectDatabase(deps: Record<string, string>, files: RepoFile[]): string | null {
+function detectDatabase(
+  deps: Record<string, string>,
+  manifests: ManifestDependencies,
+  files: RepoFile[]
+): string | null {
   // Check deps
   if (deps['@prisma/client'] || deps['prisma']) return 'postgres'
   if (deps['drizzle-orm']) return 'postgres'
@@ -232,6 +305,12 @@ function detectDatabase(deps: Record<string, string>, files: RepoFile[]): string
   if (deps['firebase'] || deps['firebase-admin']) return 'firebase'
   if (deps['@planetscale/database']) return 'planetscale'
   if (deps['@neondatabase/serverless']) return 'neon'
+
+  // Check Python, Go, Rust and Dart manifests
+  for (const ecosystem of Object.keys(MANIFEST_DATABASES) as Ecosystem[]) {
+    const match = MANIFEST_DATABASES[ecosystem].find(([dep]) => manifests[ecosystem][dep])
+    if (match) return match[1]
+  }
   
   // Check for schema files
   if (files.some(f => f.path.includes('prisma/schema.prisma'))) return 'postgres'
@@ -240,13 +319,24 @@ function detectDatabase(deps: Record<string, string>, files: RepoFile[]): string
   return null
 }
 
-function detectTestFramework(deps: Record<string, string>, fileSet: Set<string>): string | null {
+function detectTestFramework(
+  deps: Record<string, string>,
+  manifests: ManifestDependencies,
+  files: RepoFile[],
+  fileSet: Set<string>
+): string | null {
   if (deps['vitest']) return 'vitest'
   if (deps['jest']) return 'jest'
   if (deps['mocha']) return 'mocha'
   if (deps['@playwright/test']) return 'playwright'
   if (deps['cypress']) return 'cypress'
-  if (deps['pytest'] || fileSet.has('pytest.ini') || fileSet.has('conftest.py')) return 'pytest'
+  if (deps['pytest'] || manifests.python['pytest'] || fileSet.has('pytest.ini') || fileSet.has('conftest.py')) return 'pytest'
+  if (files.some(f => f.path.endsWith('pyproject.toml') && f.content.includes('[tool.pytest'))) return 'pytest'
+
+  // Go and Rust ship a test runner with the toolchain
+  if (fileSet.has('go.mod')) return manifests.go['github.com/stretchr/testify'] ? 'testify' : 'go test'
+  if (fileSet.has('Cargo.toml')) return 'cargo test'
+  if (manifests.dart['flutter_test']) return 'flutter_test'
   
   // XCTest for iOS
   if (fileSet.has('Tests') || Array.from(fileSet).some(f => f.includes('Tests.swift'))) {
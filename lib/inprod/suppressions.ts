@@ -0,0 +1,93 @@
+// =============================================================================
+// INLINE SUPPRESSIONS
+//   // inprod-ignore security-hardcoded-secret: test key      (this + next line)
+//   # inprod-ignore-file security-hardcoded-secret: fixtures  (whole file)
+// =============================================================================
+
+import { Gap, RepoFile, SuppressedGap, Suppression } from './types'
+import { withLocations } from './locations'
+
+const SUPPRESSION_PATTERN = /inprod-ignore(-file)?\s+([\w*./-]+)(?:\s*:\s*(.*?))?\s*(?:\*\/\s*\}?|-->)?\s*$/
+
+/**
+ * Collect every suppression comment in the repo
+ */
+export function findSuppressions(files: RepoFile[]): Suppression[] {
+  const suppressions: Suppression[] = []
+
+  for (const file of files) {
+    if (!file.content.includes('inprod-ignore')) continue
+
+    file.content.split('\n').forEach((text, index) => {
+      const match = text.match(SUPPRESSION_PATTERN)
+      if (!match) return
+
+      const [, fileWide, rule, reason] = match
+      suppressions.push({
+        rule,
+        file: file.path,
+        line: fileWide ? null : index + 1,
+        reason: reason || 'No reason given',
+      })
+    })
+  }
+
+  return suppressions
+}
+
+/**
+ * Split gaps into those still reported and those waived by a suppression.
+ * Gaps spanning several locations are only waived once every location is;
+ * otherwise the suppressed locations are dropped. Gaps without a file can't
+ * be suppressed inline.
+ */
+export function applySuppressions(
+  gaps: Gap[],
+  suppressions: Suppression[]
+): { gaps: Gap[]; suppressed: SuppressedGap[] } {
+  const kept: Gap[] = []
+  const suppressed: SuppressedGap[] = []
+
+  const suppressionFor = (id: string, file: string, line?: number) =>
+    suppressions.find(s => s.file === file && matchesRule(id, s.rule) && coversLine(s, line))
+
+  for (const gap of gaps) {
+    if (gap.locations) {
+      const open = gap.locations.filter(l => !suppressionFor(gap.id, l.file, l.line))
+      const [first] = gap.locations
+      const suppression = suppressionFor(gap.id, first.file, first.line)
+      if (open.length === 0 && suppression) {
+        suppressed.push({ ...gap, suppression })
+      } else {
+        kept.push(open.length === gap.locations.length ? gap : withLocations({ ...gap, locations: undefined }, open))
+      }
+      continue
+    }
+
+    const suppression = gap.file ? suppressionFor(gap.id, gap.file, gap.line) : undefined
+    if (suppression) {
+      suppressed.push({ ...gap, suppression })
+    } else {
+      kept.push(gap)
+    }
+  }
+
+  return { gaps: kept, suppressed }
+}
+
+// A rule matches the gap id exactly, as a prefix (`security-hardcoded-secret`
+// covers `security-hardcoded-secret-src/config.ts`), or as a glob
+function matchesRule(id: string, rule: string): boolean {
+  if (rule.includes('*')) {
+    const source = rule.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')
+    return new RegExp(`^${source}$`).test(id)
+  }
+  return id === rule || id.startsWith(`${rule}-`)
+}
+
+// Line suppressions cover their own line (trailing comment) and the next one.
+// Gaps without a line number need inprod-ignore-file.
+function coversLine(suppression: Suppression, line: number | undefined): boolean {
+  if (suppression.line === null) return true
+  return line === suppression.line || line === suppression.line + 1
+}
@@ -0,0 +1,433 @@
+// =============================================================================
+// TAINT TRACKING
+// Follows request input through assignments and function calls (into imported
+// helpers too) until it reaches a sink where it becomes an injection
+// =============================================================================
+
+import ts from 'typescript'
+import { RepoContext, TaintStep } from './types'
+import { nodeLocation } from './ast'
+
+export type TaintKind = 'sql-injection' | 'xss' | 'command-injection' | 'ssrf'
+
+export interface TaintFlow {
+  kind: TaintKind
+  sink: string // '$queryRawUnsafe()', 'fetch()', 'dangerouslySetInnerHTML'
+  source: string // The input as written: 'request.json()', 'req.query', 'searchParams'
+  path: TaintStep[] // Source first, sink last
+}
+
+// The path tainted data took to get here; undefined when the value is clean
+type Taint = TaintStep[] | undefined
+
+interface Scope {
+  vars: Map<string, Taint>
+  parent?: Scope
+}
+
+// State while walking one function body
+interface Frame {
+  source: ts.SourceFile
+  scope: Scope
+  calls: Map<ts.CallExpression, Taint> // Each call is evaluated once per walk
+  returns: Taint
+}
+
+interface Callee {
+  name: string
+  node: ts.SignatureDeclaration & { body?: ts.ConciseBody }
+  source: ts.SourceFile
+}
+
+// Only files mentioning one of these can introduce request input
+const SOURCE_TERMS = ['.json()', '.formData()', '.text()', 'searchParams', 'params', 'req.body', 'req.query']
+
+const REQUEST_NAMES = new Set(['req', 'request'])
+const BODY_READERS = new Set(['json', 'formData', 'text'])
+const REQUEST_FIELDS = new Set(['body', 'query', 'params', 'cookies'])
+// Next.js page/route props carrying URL input
+const INPUT_PROPS = new Set(['searchParams', 'params'])
+
+const SQL_METHODS = new Set(['$queryRawUnsafe', '$executeRawUnsafe', 'query', 'execute', 'raw', 'unsafe'])
+const SHELL_FUNCTIONS = new Set(['exec', 'execSync', 'spawn', 'spawnSync', 'execFile', 'execFileSync'])
+const CHILD_PROCESS_MODULES = new Set(['child_process', 'node:child_process'])
+const AXIOS_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'head', 'request'])
+
+// Calls whose result is safe whatever goes in
+const CLEANERS = /^(sanitize\w*|escape\w*|purify|xss|encodeURI(Component)?|Number|parseInt|parseFloat|Boolean)$/i
+// Calls whose result carries their argument's taint
+const PASS_THROUGH = new Set([
+  'JSON.parse', 'String', 'decodeURI', 'decodeURIComponent', 'Object.fromEntries', 'Object.assign', 'Array.from',
+])
+const PASS_THROUGH_CONSTRUCTORS = new Set(['URL', 'URLSearchParams', 'String'])
+
+// How deep to follow calls into helpers
+const MAX_CALL_DEPTH = 4
+
+// A URL that starts with its scheme and host, or is a path on the same origin
+const FIXED_ORIGIN = /^([a-z][\w+.-]*:\/\/[^/?#]+[/?#]|\/[^/])/i
+
+/**
+ * Every path from request input to a dangerous sink, at most one per sink
+ */
+export function findTaintFlows(ctx: RepoContext): TaintFlow[] {
+  const { index } = ctx
+  const flows = new Map<string, TaintFlow>()
+  const callStack = new Set<ts.Node>()
+  const childProcessNames = new WeakMap<ts.SourceFile, { functions: Set<string>; modules: Set<string> }>()
+  const inputNames = new WeakMap<TaintStep, string>()
+
+  const report = (kind: TaintKind, sink: string, frame: Frame, node: ts.Node, taint: TaintStep[], note: string) => {
+    const step = stepAt(frame.source, node, note)
+    const key = `${kind}:${step.file}:${step.line}:${step.column}`
+    if (!flows.has(key)) flows.set(key, { kind, sink, source: inputNames.get(taint[0]) ?? '', path: [...taint, step] })
+  }
+
+  const input = (source: ts.SourceFile, node: ts.Node): TaintStep[] => {
+    const step = stepAt(source, node, 'user input')
+    inputNames.set(step, node.getText(source))
+    return [step]
+  }
+
+  function walk(node: ts.Node, frame: Frame) {
+    if (ts.isFunctionLike(node)) {
+      if (hasBody(node)) walkFunction(node, frame)
+      return
+    }
+    ts.forEachChild(node, child => walk(child, frame))
+
+    if (ts.isVariableDeclaration(node) && node.initializer) {
+      bind(frame.scope, node.name, assigned(frame, node.name, node, taintOf(node.initializer, frame)))
+    } else if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+        ts.isIdentifier(node.left)) {
+      const scope = owningScope(frame.scope, node.left.text)
+      scope.vars.set(node.left.text, assigned(frame, node.left, node, taintOf(node.right, frame)))
+    } else if (ts.isCallExpression(node)) {
+      taintOf(node, frame)
+    } else if (ts.isJsxAttribute(node) && node.name.getText(frame.source) === 'dangerouslySetInnerHTML') {
+      const value = node.initializer && ts.isJsxExpression(node.initializer) ? node.initializer.expression : undefined
+      const taint = value && taintOf(value, frame)
+      if (taint) report('xss', 'dangerouslySetInnerHTML', frame, node, taint, 'rendered with dangerouslySetInnerHTML')
+    } else if (ts.isReturnStatement(node) && node.expression) {
+      frame.returns ??= taintOf(node.expression, frame)
+    }
+  }
+
+  // Nested functions see the enclosing scope; their own params start clean
+  // unless they're Next.js input props
+  function walkFunction(fn: Callee['node'], outer: Frame) {
+    const frame: Frame = { source: outer.source, scope: { vars: new Map(), parent: outer.scope }, calls: new Map(), returns: undefined }
+    for (const param of fn.parameters) {
+      bind(frame.scope, param.name, undefined)
+      for (const prop of inputProps(param.name)) {
+        frame.scope.vars.set(prop.text, input(frame.source, prop))
+      }
+    }
+    walkBody(fn, frame)
+  }
+
+  function walkBody(fn: Callee['node'], frame: Frame) {
+    if (!fn.body) return
+    walk(fn.body, frame)
+    if (!ts.isBlock(fn.body)) frame.returns ??= taintOf(fn.body, frame)
+  }
+
+  function taintOf(expression: ts.Expression, frame: Frame): Taint {
+    const node = strip(expression)
+
+    if (ts.isIdentifier(node)) return lookup(frame.scope, node.text)
+    if (ts.isPropertyAccessExpression(node)) {
+      if (node.name.text === 'searchParams' || (REQUEST_FIELDS.has(node.name.text) && isRequest(node.expression))) {
+        return input(frame.source, node)
+      }
+      return taintOf(node.expression, frame)
+    }
+    if (ts.isElementAccessExpression(node)) return taintOf(node.expression, frame)
+    if (ts.isCallExpression(node)) {
+      if (!frame.calls.has(node)) {
+        frame.calls.set(node, undefined) // Guards against re-entry while evaluating
+        frame.calls.set(node, evaluateCall(node, frame))
+      }
+      return frame.calls.get(node)
+    }
+    if (ts.isNewExpression(node)) {
+      return PASS_THROUGH_CONSTRUCTORS.has(node.expression.getText(frame.source))
+        ? firstTainted(node.arguments || [], frame)
+        : undefined
+    }
+    if (ts.isTemplateExpression(node)) return firstTainted(node.templateSpans.map(span => span.expression), frame)
+    if (ts.isConditionalExpression(node)) return taintOf(node.whenTrue, frame) ?? taintOf(node.whenFalse, frame)
+    if (ts.isBinaryExpression(node)) {
+      switch (node.operatorToken.kind) {
+        case ts.SyntaxKind.PlusToken:
+        case ts.SyntaxKind.BarBarToken:
+        case ts.SyntaxKind.QuestionQuestionToken:
+        case ts.SyntaxKind.AmpersandAmpersandToken:
+          return taintOf(node.left, frame) ?? taintOf(node.right, frame)
+        case ts.SyntaxKind.EqualsToken:
+        case ts.SyntaxKind.PlusEqualsToken:
+        case ts.SyntaxKind.CommaToken:
+          return taintOf(node.right, frame)
+        default:
+          return undefined // Comparisons and arithmetic don't carry strings through
+      }
+    }
+    if (ts.isObjectLiteralExpression(node)) {
+      for (const property of node.properties) {
+        const taint = ts.isPropertyAssignment(property) ? taintOf(property.initializer, frame)
+          : ts.isShorthandPropertyAssignment(property) ? lookup(frame.scope, property.name.text)
+          : ts.isSpreadAssignment(property) ? taintOf(property.expression, frame)
+          : undefined
+        if (taint) return taint
+      }
+      return undefined
+    }
+    if (ts.isArrayLiteralExpression(node)) {
+      return firstTainted(node.elements.map(e => ts.isSpreadElement(e) ? e.expression : e), frame)
+    }
+    return undefined
+  }
+
+  function firstTainted(expressions: readonly ts.Expression[], frame: Frame): Taint {
+    for (const expression of expressions) {
+      const taint = taintOf(expression, frame)
+      if (taint) return taint
+    }
+    return undefined
+  }
+
+  function evaluateCall(call: ts.CallExpression, frame: Frame): Taint {
+    const callee = strip(call.expression)
+    const name = ts.isIdentifier(callee) ? callee.text : ts.isPropertyAccessExpression(callee) ? callee.name.text : ''
+
+    // request.json(), req.formData(), c.req.text()
+    if (ts.isPropertyAccessExpression(callee) && BODY_READERS.has(name) && isRequest(callee.expression)) {
+      return input(frame.source, call)
+    }
+
+    const args = call.arguments.map(arg => taintOf(arg, frame))
+    const sink = sinkOf(callee, frame.source)
+    // Input in a URL's path or query can't send the request to another host
+    if (sink && args[0] && (sink.kind !== 'ssrf' || !hasFixedOrigin(call.arguments[0]))) {
+      report(sink.kind, `${sink.name}()`, frame, call, args[0], `reaches ${sink.name}()`)
+    }
+
+    if (CLEANERS.test(name)) return undefined
+    if (args.some(Boolean)) {
+      const target = ts.isIdentifier(callee) ? resolveCallee(callee.text, frame.source) : undefined
+      if (target) return callInto(target, args, call, frame)
+      if (PASS_THROUGH.has(callee.getText(frame.source))) return args.find(Boolean)
+    }
+    // Methods on tainted values stay tainted: searchParams.get('q'), body.name.trim()
+    return ts.isPropertyAccessExpression(callee) ? taintOf(callee.expression, frame) : undefined
+  }
+
+  // Walk a helper with its parameters tainted by the call's arguments
+  function callInto(target: Callee, args: Taint[], call: ts.CallExpression, caller: Frame): Taint {
+    if (callStack.has(target.node) || callStack.size >= MAX_CALL_DEPTH) return undefined
+
+    const frame: Frame = { source: target.source, scope: { vars: new Map() }, calls: new Map(), returns: undefined }
+    target.node.parameters.forEach((param, i) => {
+      const taint = param.dotDotDotToken ? args.slice(i).find(Boolean) : args[i]
+      bind(frame.scope, param.name, taint && [...taint, stepAt(caller.source, call, `passed to ${target.name}()`)])
+    })
+
+    callStack.add(target.node)
+    walkBody(target.node, frame)
+    callStack.delete(target.node)
+
+    return frame.returns && [...frame.returns, stepAt(caller.source, call, `returned from ${target.name}()`)]
+  }
+
+  // A function declared in this file, or imported by name from another repo file
+  function resolveCallee(name: string, source: ts.SourceFile): Callee | undefined {
+    const local = findFunction(source, name, false)
+    if (local) return { name, node: local, source }
+
+    for (const statement of source.statements) {
+      if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue
+      const clause = statement.importClause
+      if (!clause || clause.isTypeOnly) continue
+
+      let exported: string | undefined
+      if (clause.name?.text === name) exported = 'default'
+      if (clause.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        const element = clause.namedBindings.elements.find(e => e.name.text === name)
+        if (element) exported = (element.propertyName ?? element.name).text
+      }
+      if (!exported) continue
+
+      const path = index.importGraph().modules[source.fileName]?.resolved[statement.moduleSpecifier.text]
+      const file = path ? index.byPath.get(path) : undefined
+      const target = file && index.ast(file)
+      const node = target && findFunction(target, exported, true)
+      return node && target ? { name, node, source: target } : undefined
+    }
+    return undefined
+  }
+
+  function sinkOf(callee: ts.Expression, source: ts.SourceFile): { kind: TaintKind; name: string } | undefined {
+    const childProcess = childProcessBindings(source)
+    if (ts.isIdentifier(callee)) {
+      if (callee.text === 'fetch' || callee.text === 'axios') return { kind: 'ssrf', name: callee.text }
+      if (childProcess.functions.has(callee.text)) return { kind: 'command-injection', name: callee.text }
+      return undefined
+    }
+    if (!ts.isPropertyAccessExpression(callee)) return undefined
+
+    const method = callee.name.text
+    const object = strip(callee.expression)
+    if (SQL_METHODS.has(method)) return { kind: 'sql-injection', name: method }
+    if (ts.isIdentifier(object)) {
+      if (SHELL_FUNCTIONS.has(method) && childProcess.modules.has(object.text)) {
+        return { kind: 'command-injection', name: `${object.text}.${method}` }
+      }
+      if (object.text === 'axios' && AXIOS_METHODS.has(method)) return { kind: 'ssrf', name: `axios.${method}` }
+    }
+    return undefined
+  }
+
+  // Local names bound to child_process (import or require)
+  function childProcessBindings(source: ts.SourceFile) {
+    let names = childProcessNames.get(source)
+    if (names) return names
+    names = { functions: new Set<string>(), modules: new Set<string>() }
+
+    for (const statement of source.statements) {
+      if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier) &&
+          CHILD_PROCESS_MODULES.has(statement.moduleSpecifier.text)) {
+        const clause = statement.importClause
+        if (clause?.name) names.modules.add(clause.name.text)
+        if (clause?.namedBindings && ts.isNamespaceImport(clause.namedBindings)) names.modules.add(clause.namedBindings.name.text)
+        if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+          for (const element of clause.namedBindings.elements) {
+            if (SHELL_FUNCTIONS.has((element.propertyName ?? element.name).text)) names.functions.add(element.name.text)
+          }
+        }
+      } else if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          const init = declaration.initializer && strip(declaration.initializer)
+          if (!init || !ts.isCallExpression(init) || init.expression.getText(source) !== 'require') continue
+          const [specifier] = init.arguments
+          if (!specifier || !ts.isStringLiteral(specifier) || !CHILD_PROCESS_MODULES.has(specifier.text)) continue
+          if (ts.isIdentifier(declaration.name)) names.modules.add(declaration.name.text)
+          else if (ts.isObjectBindingPattern(declaration.name)) {
+            for (const element of declaration.name.elements) {
+              const imported = element.propertyName ?? element.name
+              if (ts.isIdentifier(imported) && SHELL_FUNCTIONS.has(imported.text) && ts.isIdentifier(element.name)) {
+                names.functions.add(element.name.text)
+              }
+            }
+          }
+        }
+      }
+    }
+
+    childProcessNames.set(source, names)
+    return names
+  }
+
+  const entries = ctx.files.filter(file => SOURCE_TERMS.some(term => index.contains(file, term)))
+  for (const file of entries) {
+    const source = index.ast(file)
+    if (source) walk(source, { source, scope: { vars: new Map() }, calls: new Map(), returns: undefined })
+  }
+  return Array.from(flows.values())
+}
+
+// Record a binding step so the path shows where the input was stored
+function assigned(frame: Frame, name: ts.BindingName, node: ts.Node, taint: Taint): Taint {
+  if (!taint) return undefined
+  return [...taint, stepAt(frame.source, node, `assigned to ${bindingNames(name).map(n => n.text).join(', ')}`)]
+}
+
+function bind(scope: Scope, name: ts.BindingName, taint: Taint) {
+  for (const identifier of bindingNames(name)) scope.vars.set(identifier.text, taint)
+}
+
+function lookup(scope: Scope, name: string): Taint {
+  for (let current: Scope | undefined = scope; current; current = current.parent) {
+    if (current.vars.has(name)) return current.vars.get(name)
+  }
+  return undefined
+}
+
+// The scope a reassigned variable was declared in (the innermost if undeclared)
+function owningScope(scope: Scope, name: string): Scope {
+  for (let current: Scope | undefined = scope; current; current = current.parent) {
+    if (current.vars.has(name)) return current
+  }
+  return scope
+}
+
+function bindingNames(name: ts.BindingName): ts.Identifier[] {
+  if (ts.isIdentifier(name)) return [name]
+  return name.elements.flatMap(element => ts.isOmittedExpression(element) ? [] : bindingNames(element.name))
+}
+
+// `{ searchParams }` / `{ params: { id } }` destructured from page or route props
+function inputProps(name: ts.BindingName): ts.Identifier[] {
+  if (!ts.isObjectBindingPattern(name)) return []
+  return name.elements.flatMap(element => {
+    const prop = element.propertyName ?? element.name
+    return ts.isIdentifier(prop) && INPUT_PROPS.has(prop.text) ? bindingNames(element.name) : []
+  })
+}
+
+// `https://api.example.com/items?id=${id}`, 'https://api.example.com/items/' + id, `/api/items/${id}`
+function hasFixedOrigin(expression: ts.Expression): boolean {
+  const node = strip(expression)
+  if (ts.isTemplateExpression(node)) return FIXED_ORIGIN.test(node.head.text)
+  if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) return hasFixedOrigin(node.left)
+  return (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) && FIXED_ORIGIN.test(node.text)
+}
+
+function isRequest(expression: ts.Expression): boolean {
+  const node = strip(expression)
+  if (ts.isIdentifier(node)) return REQUEST_NAMES.has(node.text)
+  return ts.isPropertyAccessExpression(node) && REQUEST_NAMES.has(node.name.text)
+}
+
+function hasBody(node: ts.SignatureDeclaration): node is Callee['node'] {
+  return 'body' in node && !!node.body
+}
+
+// Top-level function (declaration or const arrow/function expression) by name
+function findFunction(source: ts.SourceFile, name: string, exportedOnly: boolean): Callee['node'] | undefined {
+  for (const statement of source.statements) {
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword)
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword)
+
+    if (ts.isFunctionDeclaration(statement) && statement.body) {
+      const matches = name === 'default' ? isDefault : statement.name?.text === name
+      if (matches && (exported || !exportedOnly)) return statement
+    } else if (ts.isVariableStatement(statement) && (exported || !exportedOnly)) {
+      for (const declaration of statement.declarationList.declarations) {
+        const init = declaration.initializer && strip(declaration.initializer)
+        if (ts.isIdentifier(declaration.name) && declaration.name.text === name && init &&
+            (ts.isArrowFunction(init) || ts.isFunctionExpression(init))) return init
+      }
+    } else if (name === 'default' && ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+      return findFunction(source, statement.expression.text, false)
+    }
+  }
+  return undefined
+}
+
+function hasModifier(statement: ts.Statement, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(statement) && !!ts.getModifiers(statement)?.some(m => m.kind === kind)
+}
+
+// Strip parentheses, awaits, casts and non-null assertions
+function strip(expression: ts.Expression): ts.Expression {
+  while (ts.isParenthesizedExpression(expression) || ts.isAwaitExpression(expression) ||
+      ts.isAsExpression(expression) || ts.isSatisfiesExpression(expression) ||
+      ts.isNonNullExpression(expression) || ts.isTypeAssertionExpression(expression)) {
+    expression = expression.expression
+  }
+  return expression
+}
+
+function stepAt(source: ts.SourceFile, node: ts.Node, note: string): TaintStep {
+  return { ...nodeLocation(source, node), note }
+}
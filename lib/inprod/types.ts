@@ -2,6 +2,8 @@
 // INPROD.AI TYPE DEFINITIONS
 // =============================================================================
 
+import type { SourceFile } from 'typescript'
+
 export type Category =
   | 'frontend'
   | 'backend'
@@ -15,6 +17,10 @@ export type Category =
   | 'errorHandling'
   | 'versionControl'
   | 'deployment'
+  | 'performance'
+  | 'observability'
+  | 'privacy'
+  | 'documentation'
 
 export const CATEGORIES: Category[] = [
   'frontend',
@@ -29,6 +35,10 @@ export const CATEGORIES: Category[] = [
   'errorHandling',
   'versionControl',
   'deployment',
+  'performance',
+  'observability',
+  'privacy',
+  'documentation',
 ]
 
 export const CATEGORY_LABELS: Record<Category, string> = {
@@ -44,17 +54,23 @@ export const CATEGORY_LABELS: Record<Category, string> = {
   errorHandling: 'Error Handling',
   versionControl: 'Version Control',
   deployment: 'Deployment',
+  performance: 'Performance',
+  observability: 'Observability',
+  privacy: 'Privacy',
+  documentation: 'Documentation',
 }
 
 // Which categories apply to which platform types
 export const PLATFORM_CATEGORIES: Record<TechStack['platform'], Category[]> = {
-  web: ['frontend', 'backend', 'database', 'authentication', 'apiIntegrations', 'stateManagement', 'designUx', 'testing', 'security', 'errorHandling', 'versionControl', 'deployment'],
-  ios: ['designUx', 'testing', 'security', 'errorHandling', 'versionControl', 'deployment', 'stateManagement'],
-  android: ['designUx', 'testing', 'security', 'errorHandling', 'versionControl', 'deployment', 'stateManagement'],
-  backend: ['backend', 'database', 'authentication', 'apiIntegrations', 'testing', 'security', 'errorHandling', 'versionControl', 'deployment'],
-  cli: ['testing', 'security', 'errorHandling', 'versionControl', 'deployment'],
-  library: ['testing', 'security', 'versionControl'],
-  monorepo: ['frontend', 'backend', 'database', 'authentication', 'apiIntegrations', 'stateManagement', 'designUx', 'testing', 'security', 'errorHandling', 'versionControl', 'deployment'],
+  web: ['frontend', 'backend', 'database', 'authentication', 'apiIntegrations', 'stateManagement', 'designUx', 'testing', 'security', 'errorHandling', 'versionControl', 'deployment', 'performance', 'observability', 'privacy', 'documentation'],
+  ios: ['designUx', 'testing', 'security', 'errorHandling', 'versionControl', 'deployment', 'stateManagement', 'documentation'],
+  android: ['designUx', 'testing', 'security', 'errorHandling', 'versionControl', 'deployment', 'stateManagement', 'documentation'],
+  'react-native': ['designUx', 'testing', 'security', 'errorHandling', 'versionControl', 'deployment', 'stateManagement', 'documentation'],
+  flutter: ['designUx', 'testing', 'security', 'errorHandling', 'versionControl', 'deployment', 'stateManagement', 'documentation'],
+  backend: ['backend', 'database', 'authentication', 'apiIntegrations', 'testing', 'security', 'errorHandling', 'versionControl', 'deployment', 'observability', 'privacy', 'documentation'],
+  cli: ['testing', 'security', 'errorHandling', 'versionControl', 'deployment', 'documentation'],
+  library: ['testing', 'security', 'versionControl', 'documentation'],
+  monorepo: ['frontend', 'backend', 'database', 'authentication', 'apiIntegrations', 'stateManagement', 'designUx', 'testing', 'security', 'errorHandling', 'versionControl', 'deployment', 'performance', 'observability', 'privacy', 'documentation'],
 }
 
 // Platform-specific category overrides (e.g., iOS uses XCTest not Vitest)
@@ -67,6 +83,17 @@ export const PLATFORM_OVERRIDES: Partial<Record<TechStack['platform'], Partial<R
   android: {
     testing: { label: 'Testing (JUnit)', checks: ['JUnit', 'Espresso', 'Robolectric'] },
     deployment: { label: 'Play Store', checks: ['Fastlane', 'Google Play Console', 'Firebase App Distribution'] },
+    security: { label: 'Android Security', checks: ['Manifest', 'Network Security Config', 'Release Signing'] },
+  },
+  'react-native': {
+    testing: { label: 'Testing (Jest/Detox)', checks: ['Jest', 'React Native Testing Library', 'Detox', 'Maestro'] },
+    deployment: { label: 'App Stores', checks: ['EAS Build', 'EAS Update', 'Fastlane', 'CodePush'] },
+    security: { label: 'Mobile Security', checks: ['Secure storage', 'Hardcoded secrets'] },
+  },
+  flutter: {
+    testing: { label: 'Testing (flutter_test)', checks: ['flutter_test', 'integration_test', 'mocktail'] },
+    deployment: { label: 'App Stores', checks: ['Fastlane', 'Codemagic', 'Shorebird'] },
+    security: { label: 'Mobile Security', checks: ['flutter_secure_storage', 'Obfuscation', 'Hardcoded secrets'] },
   },
   cli: {
     deployment: { label: 'Distribution', checks: ['Homebrew', 'npm', 'cargo', 'goreleaser'] },
@@ -80,8 +107,21 @@ export type Severity = 'blocker' | 'critical' | 'warning' | 'info'
 export type Confidence = 'proven' | 'verified' | 'high' | 'likely' | 'possible'
 export type FixType = 'instant' | 'suggested' | 'guided'
 
+export interface SourceLocation {
+  file: string
+  line: number // 1-based
+  column: number // 1-based
+  snippet: string
+}
+
+// One hop of user input on its way to a sink (see taint.ts)
+export interface TaintStep extends SourceLocation {
+  note: string // 'user input', 'assigned to body', 'passed to runQuery()', ...
+}
+
 export interface Gap {
   id: string
+  check?: string // Id of the check this gap costs points on
   category: Category
   title: string
   description: string
@@ -89,22 +129,53 @@ export interface Gap {
   confidence: Confidence
   file?: string
   line?: number
+  column?: number
+  snippet?: string // Redacted source line at file:line
+  locations?: SourceLocation[] // Every match, when the gap spans several places
+  taintPath?: TaintStep[] // How request input reaches the sink, source first
   fixType: FixType
   fixTemplate?: string
   effortMinutes?: number
 }
 
+// An inline `inprod-ignore <gap-id>: <reason>` comment
+export interface Suppression {
+  rule: string // Gap id or id prefix (globs allowed)
+  file: string
+  line: number | null // Line of the comment; null for inprod-ignore-file
+  reason: string
+}
+
+export interface SuppressedGap extends Gap {
+  suppression: Suppression
+}
+
+export type CheckStatus = 'pass' | 'partial' | 'fail' | 'not-applicable'
+
+// One scored step of an analyzer ("Check for security headers (15 points)")
+export interface CheckResult {
+  id: string
+  label: string
+  pointsPossible: number
+  pointsAwarded: number
+  status: CheckStatus
+  evidence: string[] // Files/dependencies that satisfied (or triggered) the check
+}
+
 export interface CategoryScore {
   category: Category
   label: string
   score: number // 0-100
+  applicable: boolean // False when the category doesn't apply to this repo/platform
+  platformChecks?: string[] // Platform-specific checks (from PLATFORM_OVERRIDES)
   detected: string[] // What was detected
+  checks: CheckResult[] // Per-check breakdown of the score
   gaps: Gap[] // What's missing
   canGenerate: boolean // Can we generate fixes?
 }
 
 export interface TechStack {
-  platform: 'web' | 'ios' | 'android' | 'backend' | 'cli' | 'library' | 'monorepo'
+  platform: 'web' | 'ios' | 'android' | 'react-native' | 'flutter' | 'backend' | 'cli' | 'library' | 'monorepo'
   languages: string[]
   frameworks: string[]
   packageManager: string | null
@@ -115,6 +186,17 @@ export interface TechStack {
   maturityLevel: 'prototype' | 'mvp' | 'production'
 }
 
+// Dependencies from non-Node manifests, name -> version spec. Python names are
+// PEP 503-normalized ('python-dotenv'); Go keys are module paths without the
+// major-version suffix ('github.com/labstack/echo'). Dart includes SDK
+// dependencies such as flutter and flutter_test.
+export interface ManifestDependencies {
+  python: Record<string, string>
+  go: Record<string, string>
+  rust: Record<string, string>
+  dart: Record<string, string>
+}
+
 export interface CompletenessAnalysis {
   repoUrl: string
   techStack: TechStack
@@ -128,6 +210,21 @@ export interface CompletenessAnalysis {
   canAutoFix: number // Number of gaps that can be auto-fixed
 }
 
+// A package in a monorepo, analyzed on its own files and dependencies
+export interface Workspace {
+  name: string // package.json name, or the directory when unnamed
+  path: string // Directory relative to the repo root
+}
+
+export interface WorkspaceAnalysis extends Workspace {
+  fileCount: number // Files in the package; its weight in the aggregate score
+  techStack: TechStack
+  overallScore: number
+  categories: CategoryScore[] // Gap paths are repo-relative; check evidence is package-relative
+  altitude: AltitudeResult
+  totalGaps: number
+}
+
 export interface RepoFile {
   path: string
   content: string
@@ -139,6 +236,67 @@ export interface RepoContext {
   techStack: TechStack
   packageJson?: Record<string, unknown>
   readme?: string
+  config?: InprodConfig
+  cache?: FileCache
+  index: FileIndex
+}
+
+// Lookups built once per scan and shared by all analyzers (see file-index.ts)
+export interface FileIndex {
+  deps: Record<string, string> // dependencies + devDependencies
+  scripts: Record<string, string> // package.json scripts
+  byPath: Map<string, RepoFile>
+  byExtension: Map<string, RepoFile[]> // '.ts', '.py', '' for none
+  byDirectory: Map<string, RepoFile[]> // Every ancestor directory, e.g. 'app' and 'app/api'
+  routes: RepoFile[] // API route handlers (/api/ or /routes/)
+  testFiles: RepoFile[]
+  sourceFiles: RepoFile[] // JS/TS files that aren't tests
+  configFiles: RepoFile[] // package manifests, tool configs, CI workflows, Docker
+  manifests: ManifestDependencies // Python, Go, Rust and Dart dependencies (see manifests.ts)
+  contains(file: RepoFile, term: string): boolean // content.includes
+  containsIgnoreCase(file: RepoFile, term: string): boolean
+  lower(file: RepoFile): string // Memoized lowercase content
+  ast(file: RepoFile): SourceFile | undefined // Parsed on first use; undefined for non-JS/TS files
+  importGraph(): ImportGraph // Built on first use
+}
+
+// Which repo files and packages each JS/TS file imports (see import-graph.ts)
+export interface ImportGraph {
+  modules: Record<string, ModuleImports> // Keyed by importing file path
+}
+
+export interface ModuleImports {
+  files: string[] // Repo files, after tsconfig paths/baseUrl resolution
+  packages: string[] // Package names ('zod', '@upstash/ratelimit')
+  unresolved: string[] // Relative or aliased specifiers that match no repo file
+  resolved: Record<string, string> // Specifier as written -> repo file
+}
+
+// Per-file results memoized by content hash (see cache.ts)
+export interface FileCache {
+  get<T>(file: RepoFile, key: string, compute: () => T): T
+}
+
+// Per-repo tuning read from .inprod.yml / inprod.config.json
+export interface InprodConfig {
+  source: string | null // Config file path, null when using defaults
+  ignore: string[] // Path globs excluded from analysis
+  weights: Partial<Record<Category, number>> // Overall score weights (default 1)
+  disabledChecks: string[] // Gap ids (globs allowed) to drop from results
+  severityOverrides: Record<string, Severity> // Gap id (glob allowed) -> severity
+  disabledAnalyzers: string[] // Analyzer ids to skip
+  warnings: string[] // Problems found while reading the config
+}
+
+// A pluggable category analyzer. Built-ins live in ./analyzers; extra ones can
+// be added at runtime via registerAnalyzer() in ./registry.
+export interface Analyzer {
+  id: string
+  category: Category
+  platforms?: TechStack['platform'][] // Omit to run on every platform
+  languages?: string[] // Run when the repo uses one of these (TechStack.languages); omit to run on any
+  fallback?: boolean // Also run when no analyzer for the category matches the repo's languages; replaced by platform-specific ones
+  run(ctx: RepoContext): CategoryScore
 }
 
 export interface GeneratedFile {
@@ -328,6 +486,45 @@ export const CATEGORY_USER_LIMITS: CategoryUserLimits[] = [
       { score: 95, maxUsers: Infinity, reason: 'Trunk-based + feature flags' },
     ]
   },
+  {
+    category: 'performance',
+    limits: [
+      { score: 0, maxUsers: 500, reason: 'Everything client-rendered and uncached' },
+      { score: 40, maxUsers: 5000, reason: 'Bloated bundles + unoptimized images' },
+      { score: 60, maxUsers: 50000, reason: 'Server components + optimized images' },
+      { score: 80, maxUsers: 500000, reason: 'Code splitting + cached data fetching' },
+      { score: 95, maxUsers: Infinity, reason: 'Static by default + lean bundles' },
+    ]
+  },
+  {
+    category: 'observability',
+    limits: [
+      { score: 0, maxUsers: 200, reason: 'Flying blind: console logs only' },
+      { score: 30, maxUsers: 2000, reason: 'Structured logs, no metrics' },
+      { score: 55, maxUsers: 20000, reason: 'Metrics + request ids' },
+      { score: 80, maxUsers: 250000, reason: 'Tracing + correlated logs' },
+      { score: 95, maxUsers: Infinity, reason: 'Propagated traces + uptime checks' },
+    ]
+  },
+  {
+    category: 'privacy',
+    limits: [
+      { score: 0, maxUsers: 100, reason: 'Personal data with no user rights' },
+      { score: 40, maxUsers: 1000, reason: 'PII in logs, analytics without consent' },
+      { score: 60, maxUsers: 10000, reason: 'Privacy policy + consent banner' },
+      { score: 80, maxUsers: 100000, reason: 'Account deletion + data export' },
+      { score: 95, maxUsers: Infinity, reason: 'GDPR-ready: minimal, protected personal data' },
+    ]
+  },
+  {
+    category: 'documentation',
+    limits: [
+      { score: 0, maxUsers: 1000, reason: 'Undocumented: only the author can run it' },
+      { score: 40, maxUsers: 20000, reason: 'README gets a new contributor running' },
+      { score: 70, maxUsers: 250000, reason: 'API reference + decision records' },
+      { score: 90, maxUsers: Infinity, reason: 'Runbooks: whoever is on call can operate it' },
+    ]
+  },
 ]
 
 export interface AltitudeResult {
@@ -0,0 +1,220 @@
+// =============================================================================
+// WORKSPACES
+// Finds the packages of a monorepo so each can be analyzed with its own
+// package.json, and folds their results back into one repo-level view
+// =============================================================================
+
+import { parse as parseYaml } from 'yaml'
+import { AltitudeResult, CategoryScore, CheckResult, Gap, RepoFile, Workspace, WorkspaceAnalysis } from './types'
+import { table, tryParse } from './parse'
+
+// turbo.json names no packages itself; these are its conventional layout
+const TURBO_DEFAULT_PATTERNS = ['apps/*', 'packages/*']
+
+// Path of the workspace holding the root package and files no package owns
+const ROOT_PATH = '.'
+
+/**
+ * Packages matched by pnpm-workspace.yaml, package.json `workspaces`,
+ * lerna.json or (failing those) turbo.json's conventional apps/ and packages/
+ */
+export function discoverWorkspaces(files: RepoFile[]): Workspace[] {
+  const patterns = workspacePatterns(files)
+  const include = patterns.filter(p => !p.startsWith('!')).map(workspaceGlob)
+  const exclude = patterns.filter(p => p.startsWith('!')).map(p => workspaceGlob(p.slice(1)))
+  if (include.length === 0) return []
+
+  const workspaces: Workspace[] = []
+  for (const file of files) {
+    if (!file.path.endsWith('/package.json') || file.path.includes('node_modules/')) continue
+    const path = file.path.slice(0, -'/package.json'.length)
+    if (!include.some(glob => glob.test(path)) || exclude.some(glob => glob.test(path))) continue
+    workspaces.push({ name: readName(file) || path, path })
+  }
+  return workspaces.sort((a, b) => a.path.localeCompare(b.path))
+}
+
+/**
+ * The root package as a workspace of its own, when it has code outside every
+ * package (a root app next to packages/*). Repo tooling alone doesn't count.
+ */
+export function rootWorkspace(files: RepoFile[], workspaces: Workspace[]): Workspace | undefined {
+  const unowned = files.some(file =>
+    file.path !== 'package.json' &&
+    !isRepoTooling(file.path) &&
+    !file.path.includes('node_modules/') &&
+    !workspaces.some(w => file.path.startsWith(`${w.path}/`))
+  )
+  if (!unowned) return undefined
+  const manifest = files.find(f => f.path === 'package.json')
+  return { name: (manifest && readName(manifest)) || 'root', path: ROOT_PATH }
+}
+
+export function isRootWorkspace(workspace: Workspace): boolean {
+  return workspace.path === ROOT_PATH
+}
+
+/**
+ * A package's files with paths relative to the package, plus the repo-wide
+ * tooling it inherits (top-level files other than package.json, and root
+ * dot-directories like .github/). The package's own file wins on a clash.
+ * The root workspace gets every file no other package owns, as copies so its
+ * own files are told apart from the tooling it shares.
+ */
+export function workspaceFiles(files: RepoFile[], workspace: Workspace, all: Workspace[]): RepoFile[] {
+  if (isRootWorkspace(workspace)) {
+    return files
+      .filter(file => !all.some(other => !isRootWorkspace(other) && file.path.startsWith(`${other.path}/`)))
+      .map(file => isRepoTooling(file.path) ? file : { ...file })
+  }
+
+  const prefix = `${workspace.path}/`
+  const own = files
+    .filter(file => file.path.startsWith(prefix))
+    .map(file => ({ ...file, path: file.path.slice(prefix.length) }))
+  const ownPaths = new Set(own.map(file => file.path))
+  const shared = files.filter(file =>
+    isRepoTooling(file.path) &&
+    !ownPaths.has(file.path) &&
+    !all.some(other => file.path.startsWith(`${other.path}/`))
+  )
+  return [...own, ...shared]
+}
+
+/**
+ * Rewrite a gap's paths from package-relative back to repo-relative
+ */
+export function remapGap<T extends Gap>(gap: T, workspace: Workspace, packagePaths: Set<string>): T {
+  if (isRootWorkspace(workspace)) return gap
+  const toRepo = (path: string) => packagePaths.has(path) ? `${workspace.path}/${path}` : path
+  return {
+    ...gap,
+    ...(gap.file !== undefined && { file: toRepo(gap.file) }),
+    ...(gap.locations && { locations: gap.locations.map(l => ({ ...l, file: toRepo(l.file) })) }),
+    ...(gap.taintPath && { taintPath: gap.taintPath.map(s => ({ ...s, file: toRepo(s.file) })) }),
+  }
+}
+
+/**
+ * One score per category across packages, weighted by package size. Gaps
+ * every package shares (same id and place, e.g. a missing root README) are
+ * reported once; the rest get the package path as an id prefix.
+ * Per-check detail stays on each workspace.
+ */
+export function aggregateCategories(workspaces: WorkspaceAnalysis[]): CategoryScore[] {
+  const gapCounts = new Map<string, number>()
+  for (const workspace of workspaces) {
+    for (const gap of workspace.categories.flatMap(c => c.gaps)) {
+      gapCounts.set(gapKey(gap), (gapCounts.get(gapKey(gap)) || 0) + 1)
+    }
+  }
+
+  const byCategory = new Map<CategoryScore['category'], { workspace: WorkspaceAnalysis; score: CategoryScore }[]>()
+  for (const workspace of workspaces) {
+    for (const score of workspace.categories) {
+      byCategory.set(score.category, [...(byCategory.get(score.category) || []), { workspace, score }])
+    }
+  }
+
+  return Array.from(byCategory.values()).map(entries => {
+    const applicable = entries.filter(e => e.score.applicable)
+    const weight = applicable.reduce((sum, e) => sum + e.workspace.fileCount, 0)
+    const seen = new Set<string>()
+    const gaps: Gap[] = []
+    const checks: CheckResult[] = []
+    for (const { workspace, score } of applicable) {
+      // Root gaps and checks keep their plain ids, as in a single-package repo
+      const scoped = (id: string) => isRootWorkspace(workspace) ? id : `${workspace.path}:${id}`
+      for (const gap of score.gaps) {
+        const key = gapKey(gap)
+        const check = gap.check && scoped(gap.check)
+        if ((gapCounts.get(key) || 0) < 2) gaps.push({ ...gap, id: scoped(gap.id), check })
+        else if (!seen.has(key)) gaps.push({ ...gap, check })
+        seen.add(key)
+      }
+      checks.push(...score.checks.map(c => ({ ...c, id: scoped(c.id), label: `${workspace.name}: ${c.label}` })))
+    }
+
+    return {
+      category: entries[0].score.category,
+      label: entries[0].score.label,
+      score: weight > 0
+        ? Math.round(applicable.reduce((sum, e) => sum + e.score.score * e.workspace.fileCount, 0) / weight)
+        : 100,
+      applicable: applicable.length > 0,
+      detected: Array.from(new Set(applicable.flatMap(e => e.score.detected.map(d => `${e.workspace.name}: ${d}`)))),
+      checks,
+      gaps,
+      canGenerate: gaps.some(g => g.fixType === 'instant'),
+    }
+  })
+}
+
+/**
+ * Size-weighted average of the packages' overall scores
+ */
+export function aggregateScore(workspaces: WorkspaceAnalysis[]): number {
+  const weight = workspaces.reduce((sum, w) => sum + w.fileCount, 0)
+  return weight > 0
+    ? Math.round(workspaces.reduce((sum, w) => sum + w.overallScore * w.fileCount, 0) / weight)
+    : 100
+}
+
+/**
+ * The repo only scales as far as its weakest deployable package; shared
+ * libraries count only when there's nothing else
+ */
+export function aggregateAltitude(workspaces: WorkspaceAnalysis[]): AltitudeResult {
+  const deployable = workspaces.filter(w => w.techStack.platform !== 'library')
+  const candidates = deployable.length > 0 ? deployable : workspaces
+  return candidates.reduce((lowest, w) => w.altitude.maxUsers < lowest.maxUsers ? w.altitude : lowest, candidates[0].altitude)
+}
+
+function workspacePatterns(files: RepoFile[]): string[] {
+  const find = (path: string) => files.find(f => f.path === path)
+  const patterns: string[] = []
+
+  const pnpm = find('pnpm-workspace.yaml')
+  if (pnpm) {
+    patterns.push(...stringList(table(tryParse(() => parseYaml(pnpm.content))).packages))
+  }
+
+  const packageJson = find('package.json')
+  if (packageJson) {
+    const workspaces = table(tryParse(() => JSON.parse(packageJson.content))).workspaces
+    patterns.push(...stringList(Array.isArray(workspaces) ? workspaces : table(workspaces).packages))
+  }
+
+  const lerna = find('lerna.json')
+  if (lerna) patterns.push(...stringList(table(tryParse(() => JSON.parse(lerna.content))).packages))
+
+  if (patterns.length === 0 && find('turbo.json')) patterns.push(...TURBO_DEFAULT_PATTERNS)
+  return patterns.map(p => p.trim().replace(/^\.\//, '').replace(/\/+$/, ''))
+}
+
+// Workspace globs match whole directory paths: `*` within a segment, `**` across them
+function workspaceGlob(pattern: string): RegExp {
+  const source = pattern
+    .split(/(\*\*|\*)/)
+    .map(part => part === '**' ? '.*' : part === '*' ? '[^/]*' : part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('')
+  return new RegExp(`^${source}$`)
+}
+
+function isRepoTooling(path: string): boolean {
+  if (!path.includes('/')) return path !== 'package.json'
+  return path.startsWith('.')
+}
+
+function gapKey(gap: Gap): string {
+  return `${gap.id}|${gap.file ?? ''}|${gap.line ?? ''}`
+}
+
+function readName(file: RepoFile): string | undefined {
+  const name = table(tryParse(() => JSON.parse(file.content))).name
+  return typeof name === 'string' ? name : undefined
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []
+}
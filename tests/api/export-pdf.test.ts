@@ -0,0 +1,41 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+
+const { renderToBuffer } = vi.hoisted(() => ({ renderToBuffer: vi.fn(async () => Buffer.from('%PDF')) }))
+
+vi.mock('@react-pdf/renderer', () => ({ renderToBuffer }))
+vi.mock('@/components/PDFReport', () => ({ default: vi.fn(() => null) }))
+vi.mock('@/lib/auth', () => ({ auth: vi.fn(async () => ({ user: { id: 'user-1' } })) }))
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: vi.fn(async () => ({ tier: 'PRO' })) },
+    scan: {
+      findFirst: vi.fn(async () => ({
+        repoUrl: 'https://github.com/test/web',
+        owner: 'test',
+        repo: 'web',
+        overallScore: 72,
+        confidence: null,
+        categories: [{ category: 'security', score: 60, gaps: [] }],
+        findings: [],
+        summary: { type: 'completeness', altitude: 'cruising', blockerCount: 0, criticalCount: 1 },
+        createdAt: new Date(),
+      })),
+    },
+  },
+}))
+
+import { POST } from '@/app/api/export/pdf/route'
+
+describe('/api/export/pdf', () => {
+  it('should refuse to render a completeness scan as a legacy report', async () => {
+    const res = await POST(new NextRequest('http://localhost/api/export/pdf', {
+      method: 'POST',
+      body: JSON.stringify({ scanId: 'scan-1' }),
+    }))
+
+    expect(res.status).toBe(422)
+    expect(renderToBuffer).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,9 @@
+import { RepoFile } from '@/lib/inprod/types'
+
+/**
+ * A repo file with its real size in bytes. Lines are joined with newlines.
+ */
+export function file(path: string, content: string | string[]): RepoFile {
+  const text = Array.isArray(content) ? content.join('\n') : content
+  return { path, content: text, size: Buffer.byteLength(text) }
+}
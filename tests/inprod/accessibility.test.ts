@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeCompleteness } from '@/lib/inprod/analyzer'
+import { a11yViolations } from '@/lib/inprod/accessibility'
+import { parseSource } from '@/lib/inprod/ast'
+import { CategoryScore, RepoFile } from '@/lib/inprod/types'
+import { file } from '@/tests/fixtures'
+
+describe('Accessibility Rules', () => {
+
+  const form = file('app/signup/page.tsx', [
+    'export default function Signup() {',
+    '  return (',
+    '    <form>',
+    '      <img src="/logo.png" />',
+    '      <img src="/divider.png" alt="" />',
+    '      <div onClick={close}>Close</div>',
+    '      <div role="button" tabIndex={0} onClick={close} onKeyDown={close}>Close</div>',
+    '      <input name="email" />',
+    '      <label>Name <input name="name" /></label>',
+    '      <label htmlFor="phone">Phone</label><input id="phone" />',
+    '      <input type="hidden" name="csrf" />',
+    '      <Field {...props} />',
+    '      <button tabIndex={2}>Submit</button>',
+    '    </form>',
+    '  )',
+    '}',
+  ])
+
+  it('should report each broken rule at its element', () => {
+    const violations = a11yViolations(parseSource(form)!)
+
+    expect(violations.map(v => [v.rule, v.location.line])).toEqual([
+      ['img-alt', 4],
+      ['clickable-element', 6],
+      ['input-label', 8],
+      ['positive-tabindex', 13],
+    ])
+  })
+
+  it('should turn violations into located design gaps and scale the score by density', async () => {
+    const designUx = async (pages: RepoFile[]) => {
+      const analysis = await analyzeCompleteness('https://github.com/test/web', [
+        file('package.json', [JSON.stringify({ dependencies: { next: '15.0.0', react: '19.0.0' } })]),
+        file('app/layout.tsx', ['export default function Layout({ children }) { return <html><body>{children}</body></html> }']),
+        ...pages,
+      ])
+      return analysis.categories.find(c => c.category === 'designUx')!
+    }
+    const a11yPoints = (category: CategoryScore) =>
+      category.checks.find(c => c.id === 'ux-accessibility')?.pointsAwarded
+
+    const broken = await designUx([form, file('app/globals.css', ['.spinner { animation: spin 1s linear infinite; }'])])
+    const gap = (id: string) => broken.gaps.find(g => g.id === id)
+    expect(gap('ux-a11y-html-lang')).toMatchObject({ file: 'app/layout.tsx', line: 1 })
+    expect(gap('ux-a11y-input-label')).toMatchObject({ file: 'app/signup/page.tsx', line: 8 })
+    expect(gap('ux-a11y-reduced-motion')).toMatchObject({ file: 'app/globals.css', line: 1 })
+    // Six violations across two components
+    expect(a11yPoints(broken)).toBe(11)
+
+    // One violation (the layout's missing lang) across four components
+    const clean = ['about', 'pricing', 'blog'].map(name =>
+      file(`app/${name}/page.tsx`, [`export default function Page() { return <main><h1>${name}</h1></main> }`]))
+    expect(a11yPoints(await designUx(clean))).toBe(28)
+  })
+
+  it('should lose accessibility points gradually as violations per component grow', async () => {
+    const a11yPoints = async (missingAlts: number) => {
+      const images = Array.from({ length: missingAlts }, (_, i) => `<img src="/${i}.png" />`).join('')
+      const analysis = await analyzeCompleteness('https://github.com/test/web', [
+        file('package.json', [JSON.stringify({ dependencies: { next: '15.0.0', react: '19.0.0' } })]),
+        file('app/page.tsx', [`export default function Home() { return <main>${images}</main> }`]),
+      ])
+      return analysis.categories.find(c => c.category === 'designUx')!
+        .checks.find(c => c.id === 'ux-accessibility')?.pointsAwarded
+    }
+
+    expect(await a11yPoints(0)).toBe(30)
+    expect(await a11yPoints(1)).toBe(21)
+    expect(await a11yPoints(4)).toBe(8)
+    expect(await a11yPoints(20)).toBe(0)
+  })
+})
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import { analyzeCompleteness, formatAnalysisSummary } from '@/lib/inprod/analyzer'
-import { RepoFile } from '@/lib/inprod/types'
+import { CATEGORIES, CATEGORY_USER_LIMITS, RepoFile } from '@/lib/inprod/types'
 
 describe('Completeness Analyzer', () => {
   const baseFiles: RepoFile[] = [
@@ -30,7 +30,7 @@ describe('Completeness Analyzer', () => {
     expect(analysis.repoUrl).toBe('https://github.com/test/repo')
     expect(analysis.techStack.frameworks).toContain('next.js')
     expect(analysis.techStack.frameworks).toContain('react')
-    expect(analysis.categories).toHaveLength(12)
+    expect(analysis.categories).toHaveLength(16)
     expect(analysis.overallScore).toBeGreaterThanOrEqual(0)
     expect(analysis.overallScore).toBeLessThanOrEqual(100)
   })
@@ -86,6 +86,60 @@ describe('Completeness Analyzer', () => {
     expect(testScoreWith).toBeGreaterThan(testScoreWithout)
   })
 
+  it('should mark categories outside the platform as not applicable', async () => {
+    const libraryFiles: RepoFile[] = [
+      {
+        path: 'package.json',
+        content: JSON.stringify({ name: 'test-lib', main: 'dist/index.js', dependencies: { 'next-auth': '^5.0.0' } }),
+        size: 100,
+      },
+      { path: 'src/index.ts', content: 'export const session = {}', size: 30 },
+    ]
+
+    const analysis = await analyzeCompleteness('https://github.com/test/lib', libraryFiles)
+    const auth = analysis.categories.find(c => c.category === 'authentication')
+    const applicable = analysis.categories.filter(c => c.applicable).map(c => c.category)
+
+    expect(analysis.techStack.platform).toBe('library')
+    expect(auth?.applicable).toBe(false)
+    expect(auth?.gaps).toHaveLength(0)
+    expect(applicable).toEqual(['testing', 'security', 'versionControl', 'documentation'])
+    expect(analysis.altitude.categoryLimits.every(l => applicable.includes(l.category))).toBe(true)
+    expect(analysis.overallScore).toBe(
+      Math.round(analysis.categories.filter(c => c.applicable).reduce((sum, c) => sum + c.score, 0) / 4)
+    )
+  })
+
+  it('should have user limits for every category', () => {
+    expect(CATEGORIES.filter(category => !CATEGORY_USER_LIMITS.some(l => l.category === category))).toEqual([])
+  })
+
+  it('should apply platform label overrides', async () => {
+    const iosFiles: RepoFile[] = [
+      { path: 'Package.swift', content: '', size: 100 },
+      { path: 'Sources/App.swift', content: '', size: 50 },
+    ]
+
+    const analysis = await analyzeCompleteness('https://github.com/test/ios', iosFiles)
+    const testing = analysis.categories.find(c => c.category === 'testing')
+
+    expect(testing?.label).toBe('Testing (XCTest)')
+    expect(testing?.platformChecks).toContain('XCTest')
+  })
+
+  it('should break each category score down into checks', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/repo', baseFiles)
+
+    for (const category of analysis.categories.filter(c => c.applicable)) {
+      expect(category.checks.length).toBeGreaterThan(0)
+      expect(category.checks.reduce((sum, c) => sum + c.pointsAwarded, 0)).toBe(category.score)
+    }
+
+    const testing = analysis.categories.find(c => c.category === 'testing')
+    const framework = testing?.checks.find(c => c.id === 'testing-framework')
+    expect(framework).toMatchObject({ pointsPossible: 20, pointsAwarded: 0, status: 'fail' })
+  })
+
   it('should format analysis summary', async () => {
     const analysis = await analyzeCompleteness('https://github.com/test/repo', baseFiles)
     const summary = formatAnalysisSummary(analysis)
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeCompleteness } from '@/lib/inprod/analyzer'
+import { file } from '@/tests/fixtures'
+
+describe('Android Analyzers', () => {
+
+  const app = [
+    file('settings.gradle', ['include ":app"']),
+    file('app/build.gradle', [
+      'plugins { id "com.android.application" }',
+      'android {',
+      '  defaultConfig { applicationId "com.example.shop" }',
+      '  signingConfigs {',
+      '    release {',
+      '      storePassword "hunter22"',
+      '    }',
+      '  }',
+      '  buildTypes {',
+      '    release {',
+      '      minifyEnabled false',
+      '      signingConfig signingConfigs.debug',
+      '    }',
+      '  }',
+      '}',
+      'dependencies { testImplementation "org.robolectric:robolectric:4.11" }',
+    ]),
+    file('app/src/main/AndroidManifest.xml', [
+      '<manifest xmlns:android="http://schemas.android.com/apk/res/android">',
+      '  <application android:usesCleartextTraffic="true">',
+      '    <activity android:name=".MainActivity" android:exported="true">',
+      '      <intent-filter>',
+      '        <category android:name="android.intent.category.LAUNCHER" />',
+      '      </intent-filter>',
+      '    </activity>',
+      '    <receiver android:name=".SyncReceiver" android:exported="true" />',
+      '  </application>',
+      '</manifest>',
+    ]),
+    file('app/src/test/java/com/example/shop/CartTest.kt', ['class CartTest']),
+    file('.github/workflows/ci.yml', ['steps:', '  - run: ./gradlew test']),
+  ]
+
+  it('should check the manifest and release signing secrets', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/shop', app)
+    const security = analysis.categories.find(c => c.category === 'security')!
+
+    expect(analysis.techStack.platform).toBe('android')
+    expect(security.label).toBe('Android Security')
+    expect(security.gaps.find(g => g.id === 'security-android-cleartext')).toMatchObject({
+      file: 'app/src/main/AndroidManifest.xml', line: 2,
+    })
+    // The launcher activity is meant to be exported; the receiver isn't
+    expect(security.gaps.find(g => g.id === 'security-android-exported-components')).toMatchObject({
+      file: 'app/src/main/AndroidManifest.xml', line: 8,
+    })
+    expect(security.gaps.find(g => g.id === 'security-android-allow-backup')).toBeDefined()
+    expect(security.gaps.find(g => g.id === 'security-android-signing-secrets')).toMatchObject({
+      file: 'app/build.gradle', line: 6,
+    })
+    expect(security.checks.some(c => c.id === 'security-headers')).toBe(false)
+  })
+
+  it('should check JUnit tests, R8 and Play publishing', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/shop', app)
+    const testing = analysis.categories.find(c => c.category === 'testing')!
+    const deployment = analysis.categories.find(c => c.category === 'deployment')!
+
+    expect(testing.checks.find(c => c.id === 'testing-android-unit')?.pointsAwarded).toBe(30)
+    expect(testing.checks.find(c => c.id === 'testing-android-robolectric')?.pointsAwarded).toBe(15)
+    expect(testing.checks.find(c => c.id === 'testing-ci')?.pointsAwarded).toBe(30)
+    expect(testing.gaps.map(g => g.id)).toContain('testing-android-no-ui-tests')
+
+    expect(deployment.label).toBe('Play Store')
+    expect(deployment.gaps.find(g => g.id === 'deploy-android-no-minify')).toMatchObject({ file: 'app/build.gradle', line: 10 })
+    expect(deployment.gaps.map(g => g.id)).toEqual(expect.arrayContaining([
+      'deploy-android-debug-signed',
+      'deploy-android-no-publishing',
+    ]))
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeCompleteness } from '@/lib/inprod/analyzer'
+import { parseSource, rawHtmlSinks, routeHandlers } from '@/lib/inprod/ast'
+import { RepoFile } from '@/lib/inprod/types'
+import { file } from '@/tests/fixtures'
+
+describe('Syntax Tree Checks', () => {
+  const source = (path: string, lines: string[]) => parseSource(file(path, lines))!
+
+  it('should judge each exported route handler on its own', () => {
+    const handlers = routeHandlers(source('app/api/users/route.ts', [
+      "import { withAuth } from '@/lib/auth'",
+      'function helper() { try { risky() } catch {} }',
+      'export async function GET() {',
+      '  return Response.json(await db.user.findMany())',
+      '}',
+      'export async function POST(req: Request) {',
+      '  try {',
+      '    return Response.json(await db.user.create({ data: await req.json() }))',
+      '  } catch (error) {',
+      '    return Response.json({ error: "Failed" }, { status: 500 })',
+      '  }',
+      '}',
+      'export async function PUT(req: Request) {',
+      '  const body = await req.json()',
+      '  try { return Response.json(await save(body)) } catch { return new Response(null, { status: 500 }) }',
+      '}',
+      'export const DELETE = withErrorHandler(async () => remove())',
+      'export const PATCH = withAuth(async () => update())',
+    ]))
+
+    expect(handlers.map(h => [h.name, h.location.line, h.guarded])).toEqual([
+      ['GET', 3, false],
+      ['POST', 6, true],
+      ['PUT', 13, false],
+      ['DELETE', 17, true],
+      ['PATCH', 18, false],
+    ])
+  })
+
+  it('should trace dangerouslySetInnerHTML values to a sanitizer', () => {
+    const sinks = rawHtmlSinks(source('app/post.tsx', [
+      "import DOMPurify from 'dompurify'",
+      '// we escape everything elsewhere',
+      'export function Post({ html }: { html: string }) {',
+      '  const clean = DOMPurify.sanitize(html)',
+      '  return <>',
+      '    <div dangerouslySetInnerHTML={{ __html: clean }} />',
+      '    <div dangerouslySetInnerHTML={{ __html: html }} />',
+      '    <div dangerouslySetInnerHTML={{ __html: "<br/>" }} />',
+      '  </>',
+      '}',
+    ]))
+
+    expect(sinks.map(s => [s.location.line, s.sanitized])).toEqual([[6, true], [7, false], [8, true]])
+  })
+
+  it('should flag unsanitized raw HTML even when a sanitizer is mentioned elsewhere', async () => {
+    const files: RepoFile[] = [
+      { path: 'package.json', content: JSON.stringify({ dependencies: { next: '^14.0.0', react: '^18.0.0' } }), size: 100 },
+      { path: 'lib/format.ts', content: '// TODO: escape user input before rendering', size: 50 },
+      {
+        path: 'app/post.tsx',
+        content: 'export default function Post({ html }) {\n  return <div dangerouslySetInnerHTML={{ __html: html }} />\n}',
+        size: 100,
+      },
+      {
+        path: 'app/api/users/route.ts',
+        content: 'export async function GET() {\n  try {\n    return Response.json(await load())\n  } catch {\n    return new Response(null, { status: 500 })\n  }\n}',
+        size: 100,
+      },
+    ]
+
+    const analysis = await analyzeCompleteness('https://github.com/test/repo', files)
+    const gaps = analysis.categories.flatMap(c => c.gaps)
+    const routeCheck = analysis.categories
+      .find(c => c.category === 'errorHandling')?.checks.find(c => c.id === 'error-route-try-catch')
+
+    expect(gaps.find(g => g.id === 'security-no-sanitization')).toMatchObject({ file: 'app/post.tsx', line: 2 })
+    expect(routeCheck).toMatchObject({ status: 'pass', evidence: ['1/1 route handlers'] })
+  })
+
+  it('should skip files too deeply nested to parse or walk', async () => {
+    const nested = `export const data = ${'['.repeat(5000)}${']'.repeat(5000)}`
+    const chained = `export const sql = 'a'${" + 'a'".repeat(20000)}`
+
+    expect(parseSource(file('lib/nested.ts', nested))).toBeUndefined()
+    expect(parseSource(file('lib/chained.ts', chained))).toBeUndefined()
+
+    const analysis = await analyzeCompleteness('https://github.com/test/repo', [
+      file('package.json', JSON.stringify({ dependencies: { next: '^14.0.0', react: '^18.0.0' } })),
+      file('app/api/data/route.ts', `${nested}\nexport async function GET(req) { return fetch(req.query.url) }`),
+      file('lib/chained.ts', chained),
+    ])
+    expect(analysis.categories.length).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeCompleteness } from '@/lib/inprod/analyzer'
+import { diffResults } from '@/lib/inprod/diff'
+import { RepoFile } from '@/lib/inprod/types'
+
+describe('Scan Diff', () => {
+  const baseFiles: RepoFile[] = [
+    {
+      path: 'package.json',
+      content: JSON.stringify({ name: 'test-app', dependencies: { next: '^14.0.0', react: '^18.0.0' } }),
+      size: 100,
+    },
+    { path: 'app/page.tsx', content: 'export default function Home() { return <div>Hello</div> }', size: 60 },
+  ]
+
+  it('should report resolved gaps and score deltas', async () => {
+    const before = await analyzeCompleteness('https://github.com/test/repo', baseFiles)
+    const after = await analyzeCompleteness('https://github.com/test/repo', [
+      ...baseFiles,
+      { path: 'README.md', content: '# Test app', size: 10 },
+      { path: '.github/workflows/ci.yml', content: 'on: push\njobs:\n  test:\n    steps:\n      - run: npm test', size: 60 },
+    ])
+
+    const diff = diffResults(before, after)
+    const resolved = diff.resolvedGaps.map(g => g.id)
+
+    expect(resolved).toContain('vc-no-readme')
+    expect(resolved).toContain('deploy-no-ci')
+    expect(diff.newGaps.map(g => g.id)).not.toContain('vc-no-readme')
+    expect(diff.overallScore.delta).toBe(after.overallScore - before.overallScore)
+
+    const versionControl = diff.categories.find(c => c.category === 'versionControl')
+    expect(versionControl?.delta).toBe(20)
+  })
+
+  it('should match gaps by id and report severity changes', async () => {
+    const before = await analyzeCompleteness('https://github.com/test/repo', baseFiles)
+    const after = await analyzeCompleteness('https://github.com/test/repo', [
+      ...baseFiles,
+      { path: '.inprod.yml', content: 'severityOverrides:\n  deploy-no-ci: warning', size: 40 },
+    ])
+
+    const diff = diffResults(before, after)
+
+    expect(diff.newGaps).toHaveLength(0)
+    expect(diff.resolvedGaps).toHaveLength(0)
+    expect(diff.severityChanges).toEqual([
+      expect.objectContaining({ id: 'deploy-no-ci', before: 'critical', after: 'warning', direction: 'downgraded' }),
+    ])
+    expect(diff.altitude.changed).toBe(false)
+    expect(diff.altitude.direction).toBe('none')
+  })
+})
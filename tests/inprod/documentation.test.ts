@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeCompleteness } from '@/lib/inprod/analyzer'
+import { exportedFunctions, parseSource } from '@/lib/inprod/ast'
+import { file } from '@/tests/fixtures'
+
+describe('Documentation Analyzer', () => {
+
+  const helpers = file('lib/format.ts', [
+    '/** Formats cents as a currency string */',
+    'export function formatPrice(cents: number) { return `$${cents / 100}` }',
+    'export const slugify = (title: string) => title.toLowerCase()',
+    'export async function GET() { return Response.json([]) }',
+    'export default function main() {}',
+    'function internal() {}',
+  ])
+
+  it('should list exported functions and whether they have JSDoc', () => {
+    expect(exportedFunctions(parseSource(helpers)!).map(f => [f.name, f.documented, f.location.line])).toEqual([
+      ['formatPrice', true, 2],
+      ['slugify', false, 3],
+    ])
+  })
+
+  it('should score README sections and flag commands for missing scripts', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/web', [
+      file('package.json', [JSON.stringify({ dependencies: { next: '15.0.0', react: '19.0.0' }, scripts: { dev: 'next dev', build: 'next build' } })]),
+      file('README.md', [
+        '# Shop',
+        '## Getting started',
+        '```',
+        'pnpm install',
+        'pnpm dev',
+        'pnpm run seed',
+        '```',
+        '## Deploying',
+        'Run `npm run build && npm run migrate:deploy`.',
+      ]),
+      file('app/page.tsx', ['export default function Home() { return <main /> }']),
+      helpers,
+      file('docs/adr/0001-use-postgres.md', ['# Use Postgres']),
+    ])
+    const documentation = analysis.categories.find(c => c.category === 'documentation')!
+    const gap = (id: string) => documentation.gaps.find(g => g.id === id)
+
+    expect(gap('docs-readme-sections')?.description).toContain('environment variables, scripts')
+    expect(documentation.checks.find(c => c.id === 'docs-readme-sections')?.pointsAwarded).toBe(12)
+
+    const missing = gap('docs-readme-missing-scripts')!
+    expect(missing.description).toContain('no seed, migrate:deploy script')
+    expect(missing).toMatchObject({ file: 'README.md', line: 6 })
+    expect(missing.locations?.map(l => l.line)).toEqual([6, 9])
+
+    expect(documentation.checks.find(c => c.id === 'docs-jsdoc')?.pointsAwarded).toBe(10)
+    expect(documentation.checks.find(c => c.id === 'docs-adr')?.status).toBe('pass')
+    expect(gap('docs-no-contributing')).toBeDefined()
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { buildFileIndex } from '@/lib/inprod/file-index'
+import { RepoFile } from '@/lib/inprod/types'
+
+describe('File Index', () => {
+  const packageJson = {
+    scripts: { build: 'next build' },
+    dependencies: { next: '^14.0.0' },
+    devDependencies: { vitest: '^1.0.0' },
+  }
+  const files: RepoFile[] = [
+    { path: 'package.json', content: JSON.stringify(packageJson), size: 100 },
+    { path: 'app/api/users/route.ts', content: 'export async function GET() { return Response.json([]) }', size: 60 },
+    { path: 'app/page.tsx', content: 'export default function Home() { return <Skeleton /> }', size: 60 },
+    { path: 'app/page.test.tsx', content: 'it("renders", () => {})', size: 30 },
+    { path: 'next.config.js', content: 'module.exports = {}', size: 20 },
+  ]
+  const index = buildFileIndex(files, packageJson)
+
+  it('should group files by extension, directory and role', () => {
+    expect(index.deps).toEqual({ next: '^14.0.0', vitest: '^1.0.0' })
+    expect(index.scripts.build).toBe('next build')
+    expect(index.byPath.get('app/page.tsx')?.content).toContain('Skeleton')
+    expect(index.byExtension.get('.tsx')?.map(f => f.path)).toEqual(['app/page.tsx', 'app/page.test.tsx'])
+    expect(index.byDirectory.get('app')).toHaveLength(3)
+    expect(index.byDirectory.get('app/api/users')).toHaveLength(1)
+    expect(index.routes.map(f => f.path)).toEqual(['app/api/users/route.ts'])
+    expect(index.testFiles.map(f => f.path)).toEqual(['app/page.test.tsx'])
+    expect(index.sourceFiles.map(f => f.path)).toEqual(['app/api/users/route.ts', 'app/page.tsx', 'next.config.js'])
+    expect(index.configFiles.map(f => f.path)).toEqual(['package.json', 'next.config.js'])
+  })
+
+  it('should search content with and without case', () => {
+    const page = index.byPath.get('app/page.tsx')!
+    expect(index.contains(page, 'Skeleton')).toBe(true)
+    expect(index.contains(page, 'skeleton')).toBe(false)
+    expect(index.containsIgnoreCase(page, 'SKELETON')).toBe(true)
+    expect(index.lower(page)).toBe(page.content.toLowerCase())
+  })
+})
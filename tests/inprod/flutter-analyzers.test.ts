@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeCompleteness } from '@/lib/inprod/analyzer'
+import { file } from '@/tests/fixtures'
+
+describe('Flutter Analyzers', () => {
+
+  const app = [
+    file('pubspec.yaml', [
+      'name: shop',
+      'dependencies:',
+      '  flutter:',
+      '    sdk: flutter',
+      '  shared_preferences: ^2.2.0',
+      '  firebase_crashlytics: ^3.5.0',
+      'dev_dependencies:',
+      '  flutter_test:',
+      '    sdk: flutter',
+      'flutter:',
+      '  assets:',
+      '    - .env',
+    ]),
+    file('lib/main.dart', [
+      'void main() {',
+      '  FlutterError.onError = FirebaseCrashlytics.instance.recordFlutterFatalError;',
+      '  runApp(const App());',
+      '}',
+    ]),
+    file('lib/session.dart', [
+      'Future<void> save(String token) async {',
+      '  final prefs = await SharedPreferences.getInstance();',
+      "  await prefs.setString('auth_token', token);",
+      '}',
+    ]),
+    file('test/session_test.dart', ["testWidgets('renders', (tester) async {});"]),
+    file('.github/workflows/release.yml', [
+      'steps:',
+      '  - run: flutter test',
+      '  - run: flutter build appbundle --obfuscate --split-debug-info=build/symbols --build-number=$GITHUB_RUN_NUMBER',
+    ]),
+  ]
+
+  it('should check storage, bundled assets, error hooks and release builds', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/shop', app)
+    const category = (id: string) => analysis.categories.find(c => c.category === id)!
+
+    expect(analysis.techStack.platform).toBe('flutter')
+    const security = category('security')
+    expect(security.gaps.find(g => g.id === 'security-flutter-insecure-token-storage')).toMatchObject({ file: 'lib/session.dart', line: 3 })
+    expect(security.gaps.find(g => g.id === 'security-flutter-env-asset')).toMatchObject({ file: 'pubspec.yaml', line: 12 })
+    expect(security.checks.find(c => c.id === 'security-flutter-obfuscation')?.status).toBe('pass')
+
+    expect(category('testing').checks.filter(c => c.status === 'pass').map(c => c.id)).toEqual(['testing-files', 'testing-ci'])
+
+    // Async errors and the obfuscation symbols are still missing
+    expect(category('errorHandling').gaps.map(g => g.id)).toEqual(['error-no-global-handler', 'error-flutter-no-symbols'])
+
+    const deployment = category('deployment')
+    expect(deployment.checks.filter(c => c.status === 'pass').map(c => c.id))
+      .toEqual(['deploy-flutter-builds', 'deploy-flutter-build-numbers'])
+  })
+})
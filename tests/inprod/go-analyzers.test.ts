@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeCompleteness } from '@/lib/inprod/analyzer'
+import { file } from '@/tests/fixtures'
+
+describe('Go Analyzers', () => {
+
+  it('should score a net/http service on Go tooling', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/svc', [
+      file('go.mod', [
+        'module github.com/test/svc',
+        'go 1.22',
+        'require (',
+        '\tgithub.com/lib/pq v1.10.9',
+        '\tgithub.com/getsentry/sentry-go v0.27.0',
+        ')',
+      ]),
+      file('go.sum', ['github.com/lib/pq v1.10.9 h1:abc=']),
+      file('.golangci.yml', ['linters:', '  enable: [errcheck, gosec]']),
+      file('cmd/server/main.go', [
+        'package main',
+        'import (',
+        '\t"database/sql"',
+        '\t"net/http"',
+        ')',
+        'func main() {',
+        '\tdb, _ := sql.Open("postgres", "")',
+        '\tdb.SetMaxOpenConns(10)',
+        '\thttp.ListenAndServe(":8080", routes(db))',
+        '}',
+      ]),
+      file('internal/store/users.go', [
+        'package store',
+        'import (',
+        '\t"context"',
+        '\t"database/sql"',
+        '\t"fmt"',
+        '\t"net/http"',
+        ')',
+        'func Find(db *sql.DB, r *http.Request, name string) error {',
+        '\trows, err := db.QueryContext(context.Background(), "SELECT * FROM users WHERE name = \'" + name + "\'")',
+        '\tif err != nil {',
+        '\t\treturn fmt.Errorf("find %s: %v", name, err)',
+        '\t}',
+        '\treturn rows.Close()',
+        '}',
+      ]),
+      file('internal/store/users_test.go', ['package store']),
+    ])
+    const category = (id: string) => analysis.categories.find(c => c.category === id)!
+
+    // A net/http server is a backend even without a framework dependency
+    expect(analysis.techStack.platform).toBe('backend')
+    expect(category('backend').gaps.find(g => g.id === 'backend-go-no-server-timeouts'))
+      .toMatchObject({ file: 'cmd/server/main.go', line: 9 })
+    expect(category('backend').gaps.find(g => g.id === 'backend-go-context-dropped'))
+      .toMatchObject({ file: 'internal/store/users.go', line: 9 })
+    expect(category('database').checks.find(c => c.id === 'database-pooling')).toMatchObject({
+      pointsAwarded: 10,
+      evidence: ['SetMaxOpenConns', 'missing: SetMaxIdleConns', 'missing: SetConnMaxLifetime'],
+    })
+    expect(category('security').gaps.find(g => g.id === 'security-sql-injection'))
+      .toMatchObject({ file: 'internal/store/users.go', line: 9 })
+    expect(category('errorHandling').gaps.find(g => g.id === 'error-go-unwrapped'))
+      .toMatchObject({ file: 'internal/store/users.go', line: 11 })
+    expect(category('errorHandling').checks.find(c => c.id === 'error-monitoring')?.status).toBe('pass')
+    expect(category('testing').checks.find(c => c.id === 'testing-go-packages')?.evidence)
+      .toEqual(['1 of 2 packages have tests', 'untested: cmd/server'])
+    expect(category('versionControl').checks.find(c => c.id === 'vc-go-lint')?.status).toBe('pass')
+    expect(category('deployment').gaps.map(g => g.id)).toContain('deploy-go-no-graceful-shutdown')
+    // Node heuristics don't run on a Go-only repo
+    expect(analysis.categories.flatMap(c => c.gaps).some(g => g.id === 'deploy-no-build')).toBe(false)
+  })
+
+  it('should accept a configured server with graceful shutdown', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/api', [
+      file('go.mod', ['module github.com/test/api', 'require github.com/go-chi/chi/v5 v5.0.12']),
+      file('main.go', [
+        'package main',
+        'func main() {',
+        '\tctx, stop := signal.NotifyContext(context.Background(), syscall.SIGTERM)',
+        '\tdefer stop()',
+        '\tsrv := &http.Server{Addr: ":8080", ReadHeaderTimeout: 5 * time.Second}',
+        '\tgo srv.ListenAndServe()',
+        '\t<-ctx.Done()',
+        '\tsrv.Shutdown(context.Background())',
+        '}',
+      ]),
+    ])
+    const backend = analysis.categories.find(c => c.category === 'backend')!
+    const deployment = analysis.categories.find(c => c.category === 'deployment')!
+
+    expect(analysis.techStack.frameworks).toContain('chi')
+    expect(backend.checks.find(c => c.id === 'backend-go-timeouts')).toMatchObject({ status: 'pass', evidence: ['main.go'] })
+    expect(deployment.checks.find(c => c.id === 'deploy-go-shutdown')?.status).toBe('pass')
+  })
+})
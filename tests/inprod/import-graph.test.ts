@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeCompleteness } from '@/lib/inprod/analyzer'
+import { buildImportGraph, importsFile, importsPackage, transitiveImports } from '@/lib/inprod/import-graph'
+import { file } from '@/tests/fixtures'
+
+describe('Import Graph', () => {
+
+  it('should resolve relative imports and tsconfig aliases', () => {
+    const graph = buildImportGraph([
+      file('tsconfig.json', '{\n  // Next.js default\n  "compilerOptions": { "paths": { "@/*": ["./*"] } },\n}'),
+      file('packages/api/tsconfig.json', '{ "extends": "../../tsconfig.base", "compilerOptions": { "baseUrl": "src" } }'),
+      file('tsconfig.base.json', '{ "compilerOptions": { "strict": true } }'),
+      file('app/api/users/route.ts', [
+        "import { userSchema } from '@/lib/validators'",
+        "import { z } from 'zod'",
+        "import { format } from './format.js'",
+        "import missing from '@/lib/missing'",
+        "const { Ratelimit } = require('@upstash/ratelimit/edge')",
+      ].join('\n')),
+      file('app/api/users/format.ts', "export { auth } from '../../../lib/auth'"),
+      file('lib/validators/index.ts', "export const userSchema = await import('zod')"),
+      file('lib/auth.ts', "import NextAuth from 'next-auth'"),
+      file('packages/api/src/server.ts', "import { db } from 'db/client'"),
+      file('packages/api/src/db/client.ts', "export const db = {}"),
+    ])
+
+    expect(graph.modules['app/api/users/route.ts']).toEqual({
+      files: ['lib/validators/index.ts', 'app/api/users/format.ts'],
+      packages: ['zod', '@upstash/ratelimit'],
+      unresolved: ['@/lib/missing'],
+      resolved: { '@/lib/validators': 'lib/validators/index.ts', './format.js': 'app/api/users/format.ts' },
+    })
+    expect(graph.modules['packages/api/src/server.ts'].files).toEqual(['packages/api/src/db/client.ts'])
+    expect(transitiveImports(graph, 'app/api/users/route.ts'))
+      .toEqual(['lib/validators/index.ts', 'app/api/users/format.ts', 'lib/auth.ts'])
+    expect(importsFile(graph, 'app/api/users/route.ts', path => path === 'lib/auth.ts'))
+      .toEqual({ via: ['app/api/users/route.ts', 'app/api/users/format.ts', 'lib/auth.ts'] })
+    expect(importsPackage(graph, 'app/api/users/format.ts', ['next-auth']))
+      .toEqual({ via: ['app/api/users/format.ts', 'lib/auth.ts'], package: 'next-auth' })
+  })
+
+  it('should credit routes that validate through an imported helper', async () => {
+    const files = [
+      file('package.json', JSON.stringify({ dependencies: { next: '^14.0.0', react: '^18.0.0', zod: '^3.0.0' } })),
+      file('app/api/users/route.ts', [
+        "import { parseUser } from '../../../lib/validators'",
+        'export async function POST(req: Request) {',
+        '  return Response.json(parseUser(await req.json()))',
+        '}',
+      ].join('\n')),
+      file('app/api/posts/route.ts', [
+        'export async function POST(req: Request) {',
+        '  const body = await req.json()',
+        '  return Response.json(body)',
+        '}',
+      ].join('\n')),
+      file('lib/validators.ts', "import { z } from 'zod'\nexport const parseUser = z.object({ name: z.string() }).parse"),
+    ]
+
+    const analysis = await analyzeCompleteness('https://github.com/test/repo', files)
+    const backend = analysis.categories.find(c => c.category === 'backend')!
+
+    expect(backend.checks.find(c => c.id === 'backend-validation')).toMatchObject({
+      pointsAwarded: 10,
+      evidence: [
+        '1/2 routes reading input reach a validator',
+        'app/api/users/route.ts → lib/validators.ts (zod)',
+      ],
+    })
+    expect(backend.gaps.find(g => g.id === 'backend-some-routes-unvalidated'))
+      .toMatchObject({ file: 'app/api/posts/route.ts', line: 2 })
+    expect(analysis.imports.modules['app/api/users/route.ts'].files).toEqual(['lib/validators.ts'])
+  })
+
+  it('should not credit packages that are only mentioned in comments or strings', async () => {
+    const route = (lines: string[]) => file('app/api/users/route.ts', [
+      ...lines,
+      'export async function GET() {',
+      "  return Response.json({ note: 'express-rate-limit and session handling come later' })",
+      '}',
+    ].join('\n'))
+    const packageJson = file('package.json', JSON.stringify({ dependencies: { next: '^14.0.0', react: '^18.0.0' } }))
+    const category = (analysis: Awaited<ReturnType<typeof analyzeCompleteness>>, name: string) =>
+      analysis.categories.find(c => c.category === name)!
+
+    const mentioned = await analyzeCompleteness('https://github.com/test/repo', [
+      packageJson,
+      route(["// TODO: rateLimit with @upstash/ratelimit, then throttle and check the session"]),
+    ])
+    expect(category(mentioned, 'backend').checks.find(c => c.id === 'backend-rate-limit')?.pointsAwarded).toBe(0)
+    expect(category(mentioned, 'authentication').applicable).toBe(false)
+
+    const imported = await analyzeCompleteness('https://github.com/test/repo', [
+      packageJson,
+      route(["import { requireUser } from '@/lib/auth'"]),
+      file('tsconfig.json', JSON.stringify({ compilerOptions: { paths: { '@/*': ['./*'] } } })),
+      file('lib/auth.ts', 'export async function requireUser() {}'),
+      file('middleware.ts', "import { Ratelimit } from '@upstash/ratelimit'"),
+    ])
+    expect(category(imported, 'backend').checks.find(c => c.id === 'backend-rate-limit')?.evidence)
+      .toEqual(['middleware.ts (@upstash/ratelimit)'])
+    expect(category(imported, 'authentication').checks.find(c => c.id === 'auth-detected')?.evidence)
+      .toEqual(['app/api/users/route.ts → lib/auth.ts'])
+  })
+
+  it('should credit a hand-written rate limiter imported by a route', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/repo', [
+      file('package.json', JSON.stringify({ dependencies: { next: '^14.0.0', react: '^18.0.0', ioredis: '^5.0.0' } })),
+      file('app/api/users/route.ts', [
+        "import { limit } from '../../../lib/rate-limit'",
+        'export async function GET(req: Request) {',
+        '  await limit(req)',
+        '  return Response.json([])',
+        '}',
+      ].join('\n')),
+      file('lib/rate-limit.ts', "import Redis from 'ioredis'\nexport async function limit(req: Request) {}"),
+    ])
+    const backend = analysis.categories.find(c => c.category === 'backend')!
+
+    expect(backend.checks.find(c => c.id === 'backend-rate-limit')).toMatchObject({
+      pointsAwarded: 15,
+      evidence: ['app/api/users/route.ts → lib/rate-limit.ts'],
+    })
+    expect(backend.gaps.find(g => g.id === 'backend-no-rate-limit')).toBeUndefined()
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeCompleteness } from '@/lib/inprod/analyzer'
+import { file } from '@/tests/fixtures'
+
+describe('iOS Analyzers', () => {
+
+  const app = [
+    file('Shop.xcodeproj/project.pbxproj', ['INFOPLIST_KEY_NSFaceIDUsageDescription = "Unlock with Face ID";']),
+    file('Shop/Info.plist', [
+      '<plist version="1.0">',
+      '<dict>',
+      '  <key>NSAppTransportSecurity</key>',
+      '  <dict>',
+      '    <key>NSAllowsArbitraryLoads</key>',
+      '    <true/>',
+      '  </dict>',
+      '</dict>',
+      '</plist>',
+    ]),
+    file('Shop/Shop.entitlements', ['<dict>', '  <key>get-task-allow</key>', '  <true/>', '</dict>']),
+    file('Shop/Session.swift', [
+      'import LocalAuthentication',
+      'final class Session {',
+      '  func save(token: String) {',
+      '    UserDefaults.standard.set(token, forKey: "authToken")',
+      '  }',
+      '  let context = LAContext()',
+      '  let camera = AVCaptureDevice.default(for: .video)',
+      '}',
+    ]),
+    file('ShopTests/SessionTests.swift', ['import XCTest', 'final class SessionTests: XCTestCase {}']),
+    file('fastlane/Fastfile', [
+      'lane :beta do',
+      '  match(type: "appstore")',
+      '  build_app',
+      '  upload_to_testflight',
+      'end',
+    ]),
+  ]
+
+  it('should check ATS, Keychain storage, entitlements and the privacy manifest', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/shop', app)
+    const security = analysis.categories.find(c => c.category === 'security')!
+
+    expect(analysis.techStack.platform).toBe('ios')
+    expect(security.label).toBe('iOS Security')
+    expect(security.gaps.find(g => g.id === 'security-ios-ats-disabled')).toMatchObject({ file: 'Shop/Info.plist', line: 5 })
+    expect(security.gaps.find(g => g.id === 'security-ios-userdefaults-secrets')).toMatchObject({ file: 'Shop/Session.swift', line: 4 })
+    expect(security.gaps.find(g => g.id === 'security-ios-debug-entitlement')).toMatchObject({ file: 'Shop/Shop.entitlements', line: 2 })
+    expect(security.gaps.find(g => g.id === 'security-ios-no-privacy-manifest')?.description)
+      .toContain('NSPrivacyAccessedAPICategoryUserDefaults')
+    // Web heuristics don't run on a native app
+    expect(security.checks.some(c => c.id === 'security-headers')).toBe(false)
+  })
+
+  it('should check XCTest targets, Fastlane lanes and usage descriptions', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/shop', app)
+    const testing = analysis.categories.find(c => c.category === 'testing')!
+    const deployment = analysis.categories.find(c => c.category === 'deployment')!
+
+    expect(testing.checks.find(c => c.id === 'testing-ios-xctest')).toMatchObject({ status: 'pass', evidence: ['ShopTests'] })
+    expect(testing.gaps.map(g => g.id)).toEqual(['testing-ios-no-ui-tests', 'testing-not-in-ci'])
+    expect(deployment.checks.find(c => c.id === 'deploy-ios-fastlane')?.evidence).toEqual(['fastlane/Fastfile', 'lane: beta'])
+    expect(deployment.checks.find(c => c.id === 'deploy-ios-delivery')?.evidence).toEqual(['upload_to_testflight'])
+    expect(deployment.checks.find(c => c.id === 'deploy-ios-signing')?.evidence).toEqual(['match'])
+    // Face ID is declared through a build setting; the camera isn't declared anywhere
+    expect(deployment.checks.find(c => c.id === 'deploy-ios-usage-descriptions')?.evidence)
+      .toEqual(['NSFaceIDUsageDescription', 'missing: NSCameraUsageDescription'])
+    expect(deployment.gaps.find(g => g.id === 'deploy-ios-missing-usage-description'))
+      .toMatchObject({ severity: 'blocker', file: 'Shop/Session.swift' })
+  })
+})
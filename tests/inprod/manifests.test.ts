@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { parseManifests } from '@/lib/inprod/manifests'
+import { file } from '@/tests/fixtures'
+
+describe('Manifests', () => {
+
+  it('should read dependencies from every manifest format', () => {
+    const manifests = parseManifests([
+      file('backend/pyproject.toml', [
+        '[project]',
+        'dependencies = ["Django>=5.0", "python_dotenv ; python_version >= \'3.10\'"]',
+        '[project.optional-dependencies]',
+        'test = ["pytest-django"]',
+        '[tool.poetry.group.dev.dependencies]',
+        'python = "^3.11"',
+        'ruff = { version = "^0.4" }',
+      ]),
+      file('Pipfile', ['[packages]', 'flask = "*"', '[dev-packages]', 'pytest = "==8.1"']),
+      file('requirements/base.txt', ['# pinned', 'requests==2.31.0  # http', '-e .', 'git+https://github.com/x/y.git']),
+      file('go.mod', ['module example.com/api', 'go 1.22', 'require github.com/gofiber/fiber/v2 v2.52.0']),
+      file('Cargo.toml', [
+        '[dependencies]',
+        'web = { package = "actix-web", version = "4" }',
+        '[target.\'cfg(unix)\'.dev-dependencies]',
+        'nix = "0.28"',
+      ]),
+      file('pubspec.yaml', [
+        'dependencies:',
+        '  flutter:',
+        '    sdk: flutter',
+        '  dio: ^5.4.0',
+        'dev_dependencies:',
+        '  mocktail: ^1.0.0',
+      ]),
+      file('vendor/github.com/x/go.mod', ['require github.com/lib/pq v1.10.9']),
+      file('broken/Cargo.toml', ['[dependencies']),
+    ])
+
+    expect(manifests.python).toEqual({
+      django: '>=5.0',
+      'python-dotenv': '*',
+      'pytest-django': '*',
+      ruff: '^0.4',
+      flask: '*',
+      pytest: '==8.1',
+      requests: '==2.31.0',
+    })
+    expect(manifests.go).toEqual({ 'github.com/gofiber/fiber': 'v2.52.0' })
+    expect(manifests.rust).toEqual({ 'actix-web': '4', nix: '0.28' })
+    expect(manifests.dart).toEqual({ flutter: '*', dio: '^5.4.0', mocktail: '^1.0.0' })
+  })
+
+  it('should skip sections that parse to the wrong shape', () => {
+    const manifests = parseManifests([
+      file('pyproject.toml', ['project = "api"', '[tool.poetry]', 'group = ["dev"]', 'dependencies = { fastapi = 1 }']),
+      file('Cargo.toml', ['target = "x86_64"', '[dependencies]', 'serde = ["1"]']),
+      file('pubspec.yaml', ['dependencies: [dio]']),
+    ])
+
+    expect(manifests.python).toEqual({ fastapi: '*' })
+    expect(manifests.rust).toEqual({ serde: '*' })
+    expect(manifests.dart).toEqual({})
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeCompleteness } from '@/lib/inprod/analyzer'
+import { file } from '@/tests/fixtures'
+
+describe('Observability Analyzer', () => {
+
+  const packageJson = (dependencies: Record<string, string>) =>
+    file('package.json', [JSON.stringify({ name: 'api', dependencies })])
+
+  const server = file('src/routes/users.ts', [
+    "import { Router } from 'express'",
+    "export const users = Router().get('/', (req, res) => res.json([]))",
+  ])
+
+  it('should flag a server with no tracing, metrics or request ids', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/api', [
+      packageJson({ express: '4.19.0' }),
+      server,
+    ])
+    const observability = analysis.categories.find(c => c.category === 'observability')!
+
+    expect(observability.gaps.map(g => g.id)).toEqual([
+      'obs-no-tracing',
+      'obs-no-metrics',
+      'obs-no-request-id',
+      'obs-no-log-correlation',
+      'obs-no-uptime-checks',
+    ])
+    expect(observability.checks.find(c => c.id === 'obs-trace-propagation')?.status).toBe('not-applicable')
+    expect(observability.canGenerate).toBe(true)
+  })
+
+  it('should credit a traced, metered and correlated server', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/api', [
+      packageJson({
+        express: '4.19.0',
+        '@opentelemetry/sdk-node': '0.52.0',
+        '@opentelemetry/auto-instrumentations-node': '0.48.0',
+        'prom-client': '15.1.0',
+        pino: '9.0.0',
+        'pino-http': '10.0.0',
+      }),
+      server,
+      file('src/tracing.ts', ['const sdk = new NodeSDK({ instrumentations: [getNodeAutoInstrumentations()] })', 'sdk.start()']),
+      file('.github/workflows/uptime.yml', ['on:', '  schedule:', "    - cron: '*/5 * * * *'", 'jobs:', '  ping:', '    steps:', '      - run: curl -f https://api.example.com/health']),
+    ])
+    const observability = analysis.categories.find(c => c.category === 'observability')!
+
+    expect(observability.score).toBe(100)
+    expect(observability.gaps).toHaveLength(0)
+  })
+
+  it('should not apply without server code', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/ui', [
+      packageJson({ react: '18.2.0' }),
+      file('src/App.tsx', ['export const App = () => <main />']),
+    ])
+
+    expect(analysis.categories.find(c => c.category === 'observability')?.applicable).toBe(false)
+  })
+})
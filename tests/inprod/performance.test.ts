@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeCompleteness } from '@/lib/inprod/analyzer'
+import { file } from '@/tests/fixtures'
+
+describe('Performance Analyzer', () => {
+
+  const app = [
+    file('package.json', [JSON.stringify({ dependencies: { next: '15.0.0', react: '19.0.0', lodash: '4.17.21' } })]),
+    file('app/layout.tsx', [
+      "export const dynamic = 'force-dynamic'",
+      'export default function Layout({ children }) { return <html lang="en"><body>{children}</body></html> }',
+    ]),
+    file('app/page.tsx', [
+      'export default async function Home() {',
+      "  const posts = await fetch('https://api.example.com/posts').then(r => r.json())",
+      "  const pinned = await fetch('https://api.example.com/pinned', { next: { revalidate: 60 } })",
+      '  return <Feed posts={posts} />',
+      '}',
+    ]),
+    file('app/settings/page.tsx', [
+      "'use client'",
+      "import _ from 'lodash'",
+      'export default function Settings() {',
+      '  return <img src="/avatar.png" alt="" />',
+      '}',
+    ]),
+  ]
+
+  it('should locate client pages, raw images, heavy imports, uncached fetches and force-dynamic', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/web', app)
+    const performance = analysis.categories.find(c => c.category === 'performance')!
+    const gap = (id: string) => performance.gaps.find(g => g.id === id)
+
+    expect(gap('perf-client-page')).toMatchObject({ file: 'app/settings/page.tsx', line: 1 })
+    expect(gap('perf-raw-img')).toMatchObject({ file: 'app/settings/page.tsx', line: 4 })
+    expect(gap('perf-heavy-dependencies')).toMatchObject({ file: 'app/settings/page.tsx', line: 2 })
+    // Only the fetch without cache options is flagged
+    expect(gap('perf-uncached-fetch')).toMatchObject({ file: 'app/page.tsx', line: 2 })
+    expect(gap('perf-uncached-fetch')?.locations).toBeUndefined()
+    expect(gap('perf-force-dynamic')).toMatchObject({ file: 'app/layout.tsx', line: 1 })
+    expect(performance.checks.find(c => c.id === 'perf-code-splitting')?.status).toBe('pass')
+  })
+
+  it('should not apply to a backend without a frontend', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/api', [
+      file('package.json', [JSON.stringify({ dependencies: { express: '4.19.0' } })]),
+      file('src/server.ts', ["import express from 'express'"]),
+    ])
+
+    expect(analysis.categories.find(c => c.category === 'performance')?.applicable).toBe(false)
+  })
+})
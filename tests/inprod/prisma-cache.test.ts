@@ -0,0 +1,35 @@
+import { describe, it, expect, vi } from 'vitest'
+
+const { deleteMany, upsert, transaction } = vi.hoisted(() => ({
+  deleteMany: vi.fn((args: unknown) => ({ deleteMany: args })),
+  upsert: vi.fn((args: unknown) => ({ upsert: args })),
+  transaction: vi.fn(async (operations: unknown[]) => operations),
+}))
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: { fileAnalysisCache: { deleteMany, upsert }, $transaction: transaction },
+}))
+
+import { PRISMA_CACHE_TTL_DAYS, prismaCacheStore } from '@/lib/inprod/prisma-cache'
+
+describe('Prisma Cache Store', () => {
+  it('should prune rows not written within the TTL when saving', async () => {
+    vi.useFakeTimers({ now: new Date('2026-06-30T00:00:00Z') })
+    try {
+      await prismaCacheStore().save(new Map([['v1:abc', { 'security-secrets': [] }]]))
+    } finally {
+      vi.useRealTimers()
+    }
+
+    const expired = new Date(Date.parse('2026-06-30T00:00:00Z') - PRISMA_CACHE_TTL_DAYS * 24 * 60 * 60 * 1000)
+    expect(deleteMany).toHaveBeenCalledWith({ where: { updatedAt: { lt: expired } } })
+    expect(upsert).toHaveBeenCalledTimes(1)
+    expect(transaction.mock.calls[0][0]).toHaveLength(2)
+  })
+
+  it('should not touch the database when nothing changed', async () => {
+    transaction.mockClear()
+    await prismaCacheStore().save(new Map())
+    expect(transaction).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeCompleteness } from '@/lib/inprod/analyzer'
+import { file } from '@/tests/fixtures'
+
+describe('Privacy Analyzer', () => {
+
+  const app = (schema: string[]) => [
+    file('package.json', [JSON.stringify({ dependencies: { next: '15.0.0', react: '19.0.0', 'posthog-js': '1.130.0' } })]),
+    file('prisma/schema.prisma', schema),
+    file('app/layout.tsx', [
+      "import Script from 'next/script'",
+      'export default function Layout({ children }) {',
+      '  return <html lang="en"><body>{children}<Script src="https://www.googletagmanager.com/gtag/js?id=G-1" /></body></html>',
+      '}',
+    ]),
+    file('app/api/signup/route.ts', [
+      'export async function POST(req: Request) {',
+      '  const { email } = await req.json()',
+      "  console.log('signup', email)",
+      '  return Response.json({ ok: true })',
+      '}',
+    ]),
+  ]
+
+  const users = [
+    'model User {',
+    '  id        String @id',
+    '  email     String @unique',
+    '  firstName String?',
+    '  createdAt DateTime @default(now())',
+    '}',
+  ]
+
+  it('should find personal data in the schema, logs and analytics', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/web', app(users))
+    const privacy = analysis.categories.find(c => c.category === 'privacy')!
+    const gap = (id: string) => privacy.gaps.find(g => g.id === id)
+
+    expect(privacy.detected[0]).toBe('Personal data in User: email, name')
+    expect(gap('privacy-pii-in-logs')).toMatchObject({ file: 'app/api/signup/route.ts', line: 3 })
+    expect(gap('privacy-analytics-no-consent')).toMatchObject({ file: 'app/layout.tsx', line: 3 })
+    expect(gap('privacy-no-account-deletion')?.severity).toBe('info')
+    expect(gap('privacy-no-data-export')).toBeDefined()
+    expect(gap('privacy-no-policy')).toBeDefined()
+  })
+
+  it('should raise severity with sensitive columns', async () => {
+    const schema = [...users.slice(0, -1), '  ssn       String?', '}']
+    const analysis = await analyzeCompleteness('https://github.com/test/web', app(schema))
+    const privacy = analysis.categories.find(c => c.category === 'privacy')!
+
+    expect(privacy.gaps.find(g => g.id === 'privacy-sensitive-fields')).toMatchObject({ file: 'prisma/schema.prisma', line: 6 })
+    expect(privacy.gaps.find(g => g.id === 'privacy-no-account-deletion')?.severity).toBe('critical')
+  })
+
+  it('should read columns from SQL migrations', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/api', [
+      file('package.json', [JSON.stringify({ dependencies: { express: '4.19.0' } })]),
+      file('db/001_customers.sql', [
+        'CREATE TABLE IF NOT EXISTS customers (',
+        '  id SERIAL PRIMARY KEY,',
+        '  phone_number TEXT,',
+        '  PRIMARY KEY (id)',
+        ');',
+      ]),
+      file('src/routes/account.ts', ['router.delete(\'/me\', async (req) => db.customer.delete({ where: { id: req.user.id } }))']),
+    ])
+    const privacy = analysis.categories.find(c => c.category === 'privacy')!
+
+    expect(privacy.detected).toEqual(['Personal data in customers: phone', 'Account deletion'])
+    expect(privacy.checks.find(c => c.id === 'privacy-policy')?.status).toBe('not-applicable')
+  })
+})
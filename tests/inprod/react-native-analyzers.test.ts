@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeCompleteness } from '@/lib/inprod/analyzer'
+import { file } from '@/tests/fixtures'
+
+describe('React Native Analyzers', () => {
+
+  const app = [
+    file('package.json', [JSON.stringify({
+      dependencies: { expo: '~51.0.0', 'react-native': '0.74.0', react: '18.2.0', 'expo-updates': '~0.25.0', '@sentry/react-native': '5.22.0' },
+      devDependencies: { jest: '29.7.0', 'jest-expo': '51.0.0' },
+    })]),
+    file('app.json', [
+      '{',
+      '  "expo": {',
+      '    "name": "Shop",',
+      '    "updates": { "url": "https://u.expo.dev/abc" }',
+      '  }',
+      '}',
+    ]),
+    file('eas.json', [JSON.stringify({ build: { production: { autoIncrement: true } }, submit: { production: {} } })]),
+    file('src/auth.ts', [
+      "import AsyncStorage from '@react-native-async-storage/async-storage'",
+      'export async function signIn(token: string) {',
+      "  await AsyncStorage.setItem('authToken', token)",
+      '}',
+    ]),
+    file('src/auth.test.ts', ["it('signs in', () => {})"]),
+  ]
+
+  it('should flag AsyncStorage tokens, unpinned OTA updates and missing source maps', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/shop', app)
+    const category = (id: string) => analysis.categories.find(c => c.category === id)!
+
+    expect(analysis.techStack.platform).toBe('react-native')
+    expect(category('security').gaps.find(g => g.id === 'security-rn-insecure-token-storage')).toMatchObject({ file: 'src/auth.ts', line: 3 })
+    // Web heuristics don't run on a mobile app
+    expect(category('security').checks.some(c => c.id === 'security-headers')).toBe(false)
+
+    const deployment = category('deployment')
+    expect(deployment.label).toBe('App Stores')
+    expect(deployment.checks.filter(c => c.status === 'pass').map(c => c.id))
+      .toEqual(['deploy-rn-builds', 'deploy-rn-submit', 'deploy-rn-build-numbers'])
+    expect(deployment.gaps.find(g => g.id === 'deploy-rn-ota-no-runtime-version')).toMatchObject({ file: 'app.json', line: 4 })
+
+    expect(category('errorHandling').gaps.map(g => g.id)).toEqual(['error-rn-no-source-maps', 'error-no-global-handler'])
+    expect(category('testing').gaps.map(g => g.id)).toEqual(['testing-no-e2e', 'testing-not-in-ci'])
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { analyzeCompleteness } from '@/lib/inprod/analyzer'
+import { BUILTIN_ANALYZERS } from '@/lib/inprod/analyzers'
+import { getAnalyzers, registerAnalyzer, selectAnalyzers, unregisterAnalyzer } from '@/lib/inprod/registry'
+import { Analyzer, RepoFile } from '@/lib/inprod/types'
+
+describe('Analyzer Registry', () => {
+  const files: RepoFile[] = [
+    {
+      path: 'package.json',
+      content: JSON.stringify({ name: 'test-app', dependencies: { next: '^14.0.0', react: '^18.0.0' } }),
+      size: 100,
+    },
+    { path: 'app/page.tsx', content: 'export default function Home() { return <div>Hello</div> }', size: 60 },
+  ]
+
+  const internalAnalyzer: Analyzer = {
+    id: 'internal-license-headers',
+    category: 'security',
+    run: () => ({
+      category: 'security',
+      label: 'Security',
+      score: 0,
+      applicable: true,
+      detected: [],
+      checks: [],
+      gaps: [{
+        id: 'internal-no-license-header',
+        category: 'security',
+        title: 'Missing license header',
+        description: 'Add the company license header',
+        severity: 'info',
+        confidence: 'high',
+        fixType: 'guided',
+      }],
+      canGenerate: false,
+    }),
+  }
+
+  afterEach(() => {
+    unregisterAnalyzer(internalAnalyzer.id)
+  })
+
+  it('should register the sixteen built-in analyzers ahead of the language packs', () => {
+    expect(BUILTIN_ANALYZERS).toHaveLength(16)
+    expect(getAnalyzers().slice(0, 16)).toEqual(BUILTIN_ANALYZERS)
+  })
+
+  it('should pick analyzers for the languages a repo uses', () => {
+    const idsFor = (languages: string[]) => selectAnalyzers({ platform: 'web', languages }).map(a => a.id)
+
+    expect(idsFor(['python'])).toContain('python-backend')
+    expect(idsFor(['python'])).not.toContain('backend')
+    expect(idsFor(['python'])).toContain('frontend') // No Python analyzer for it
+    expect(idsFor(['python', 'typescript'])).toEqual(expect.arrayContaining(['backend', 'python-backend']))
+    expect(idsFor(['swift'])).toEqual(BUILTIN_ANALYZERS.map(a => a.id))
+
+    const reactNative = selectAnalyzers({ platform: 'react-native', languages: ['typescript'] }).map(a => a.id)
+    expect(reactNative).toEqual(expect.arrayContaining(['react-native-security', 'state-management']))
+    expect(reactNative).not.toContain('security')
+  })
+
+  it('should reject duplicate analyzer ids', () => {
+    expect(() => registerAnalyzer({ ...internalAnalyzer, id: 'security' })).toThrow()
+  })
+
+  it('should merge custom analyzers into their category', async () => {
+    registerAnalyzer(internalAnalyzer)
+    const analysis = await analyzeCompleteness('https://github.com/test/repo', files)
+
+    const security = analysis.categories.find(c => c.category === 'security')
+    expect(analysis.categories).toHaveLength(16)
+    expect(security?.gaps.some(g => g.id === 'internal-no-license-header')).toBe(true)
+  })
+
+  it('should skip disabled analyzers', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/repo', files, {
+      disabledAnalyzers: ['design-ux', 'state-management'],
+    })
+
+    expect(analysis.categories).toHaveLength(14)
+    expect(analysis.categories.some(c => c.category === 'designUx')).toBe(false)
+  })
+
+  it('should skip analyzers targeting other platforms', async () => {
+    registerAnalyzer({ ...internalAnalyzer, platforms: ['ios'] })
+    const analysis = await analyzeCompleteness('https://github.com/test/repo', files)
+
+    const security = analysis.categories.find(c => c.category === 'security')
+    expect(security?.gaps.some(g => g.id === 'internal-no-license-header')).toBe(false)
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeCompleteness } from '@/lib/inprod/analyzer'
+import { file } from '@/tests/fixtures'
+
+describe('Rust Analyzers', () => {
+
+  it('should score an axum service on Rust tooling', async () => {
+    const analysis = await analyzeCompleteness('https://github.com/test/svc', [
+      file('Cargo.toml', [
+        '[package]',
+        'name = "svc"',
+        '[dependencies]',
+        'axum = "0.7"',
+        'tokio = { version = "1", features = ["full"] }',
+        'tracing = "0.1"',
+        'tracing-subscriber = "0.3"',
+        'thiserror = "1"',
+      ]),
+      file('Cargo.lock', ['version = 3']),
+      file('.gitignore', ['/target']),
+      file('deny.toml', ['[advisories]']),
+      file('.github/workflows/ci.yml', ['steps:', '  - run: cargo clippy -- -D warnings', '  - run: cargo test']),
+      file('src/main.rs', [
+        'use axum::{routing::get, Router};',
+        '#[tokio::main]',
+        'async fn main() {',
+        '    tracing_subscriber::fmt().init();',
+        '    let listener = tokio::net::TcpListener::bind("0.0.0.0:3000").await.unwrap();',
+        '    let app = Router::new().route("/health", get(|| async { "ok" }));',
+        '    axum::serve(listener, app).await.unwrap();',
+        '}',
+      ]),
+      file('src/buffer.rs', [
+        'pub fn first(bytes: &[u8]) -> u8 {',
+        '    unsafe { *bytes.get_unchecked(0) }',
+        '}',
+        'pub fn len(bytes: &[u8]) -> usize {',
+        '    // SAFETY: the caller passes a valid slice',
+        '    unsafe { bytes.len() }',
+        '}',
+        '#[cfg(test)]',
+        'mod tests {',
+        '    #[test]',
+        '    fn parses() { "1".parse::<u8>().unwrap(); }',
+        '}',
+      ]),
+    ])
+    const category = (id: string) => analysis.categories.find(c => c.category === id)!
+
+    expect(analysis.techStack.platform).toBe('backend')
+    expect(category('backend').gaps.find(g => g.id === 'backend-rust-no-timeouts'))
+      .toMatchObject({ file: 'src/main.rs', line: 7 })
+    // Only the undocumented block is flagged
+    expect(category('security').gaps.find(g => g.id === 'security-rust-unsafe'))
+      .toMatchObject({ file: 'src/buffer.rs', line: 2 })
+    expect(category('security').checks.find(c => c.id === 'security-audit')?.evidence).toEqual(['deny.toml'])
+    // Two unwraps in 15 production lines; the one in the test module doesn't count
+    expect(category('errorHandling').checks.find(c => c.id === 'error-rust-unwrap')?.evidence[0]).toBe('2 calls in 15 lines')
+    expect(category('errorHandling').gaps.map(g => g.id)).toContain('error-rust-unwrap')
+    expect(category('errorHandling').checks.find(c => c.id === 'error-logging')?.status).toBe('pass')
+    expect(category('testing').gaps.map(g => g.id)).toContain('testing-rust-no-integration-tests')
+    expect(category('versionControl').checks.find(c => c.id === 'vc-rust-clippy')?.status).toBe('pass')
+    // Node heuristics don't run on a Rust-only repo
+    expect(analysis.categories.flatMap(c => c.gaps).some(g => g.id === 'deploy-no-build')).toBe(false)
+  })
+})
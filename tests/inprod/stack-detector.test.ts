@@ -81,6 +81,22 @@ describe('Stack Detector', () => {
     expect(stack.languages).toContain('swift')
   })
 
+  it('should detect React Native, Expo and Flutter ahead of their native folders', () => {
+    const expo = detectTechStack([
+      { path: 'package.json', content: '{"dependencies":{"react":"18.2.0"}}', size: 40 },
+      { path: 'app.json', content: '{"expo":{"name":"Shop"}}', size: 30 },
+      { path: 'android/build.gradle', content: '', size: 0 },
+    ])
+    const flutter = detectTechStack([
+      { path: 'pubspec.yaml', content: 'name: shop\ndependencies:\n  flutter:\n    sdk: flutter\ndev_dependencies:\n  flutter_test:\n    sdk: flutter\n', size: 90 },
+      { path: 'ios/Runner.xcodeproj/project.pbxproj', content: '', size: 0 },
+      { path: 'lib/main.dart', content: '', size: 0 },
+    ])
+
+    expect([expo.platform, expo.frameworks]).toEqual(['react-native', ['react', 'expo']])
+    expect([flutter.platform, flutter.languages, flutter.testFramework]).toEqual(['flutter', ['dart'], 'flutter_test'])
+  })
+
   it('should detect maturity level', () => {
     const prototypeFiles: RepoFile[] = [
       { path: 'package.json', content: '{}', size: 2 },
@@ -102,5 +118,33 @@ describe('Stack Detector', () => {
     expect(prototypeStack.maturityLevel).toBe('prototype')
     expect(productionStack.maturityLevel).toBe('production')
   })
+
+  it('should detect Python, Go and Rust stacks from manifest contents', () => {
+    const python = detectTechStack([
+      { path: 'requirements.txt', content: 'FastAPI[all]>=0.110\nSQLAlchemy==2.0.29\nasyncpg', size: 50 },
+      { path: 'requirements-dev.txt', content: '-r requirements.txt\npytest>=8', size: 30 },
+      { path: 'app/main.py', content: '', size: 0 },
+    ])
+    const go = detectTechStack([
+      {
+        path: 'go.mod',
+        content: 'module example.com/api\n\nrequire (\n\tgithub.com/labstack/echo/v4 v4.11.4\n\tgorm.io/gorm v1.25.7\n\tgithub.com/gin-gonic/gin v1.9.1 // indirect\n)\n',
+        size: 100,
+      },
+      { path: 'main.go', content: '', size: 0 },
+    ])
+    const rust = detectTechStack([
+      {
+        path: 'Cargo.toml',
+        content: '[dependencies]\naxum = "0.7"\nsqlx = { version = "0.7", features = ["postgres"] }\n',
+        size: 80,
+      },
+      { path: 'src/main.rs', content: '', size: 0 },
+    ])
+
+    expect([python.frameworks, python.database, python.testFramework]).toEqual([['fastapi'], 'postgres', 'pytest'])
+    expect([go.frameworks, go.database, go.testFramework, go.platform]).toEqual([['echo'], 'postgres', 'go test', 'backend'])
+    expect([rust.frameworks, rust.database, rust.testFramework]).toEqual([['axum'], 'postgres', 'cargo test'])
+  })
 })
 
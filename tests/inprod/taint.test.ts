@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeCompleteness } from '@/lib/inprod/analyzer'
+import { buildFileIndex } from '@/lib/inprod/file-index'
+import { findTaintFlows } from '@/lib/inprod/taint'
+import { RepoContext, RepoFile } from '@/lib/inprod/types'
+import { file } from '@/tests/fixtures'
+
+describe('Taint Tracking', () => {
+  const flowsIn = (files: RepoFile[]) => {
+    const ctx = { files, index: buildFileIndex(files) } as RepoContext
+    return findTaintFlows(ctx)
+  }
+
+  const routeFiles = [
+    file('tsconfig.json', ['{ "compilerOptions": { "paths": { "@/*": ["./*"] } } }']),
+    file('app/api/users/route.ts', [
+      "import { findUsers } from '@/lib/db'",
+      'export async function POST(request: Request) {',
+      '  const body = await request.json()',
+      '  return Response.json(await findUsers(body.name))',
+      '}',
+    ]),
+    file('lib/db.ts', [
+      "import { prisma } from './prisma'",
+      'export async function findUsers(name: string) {',
+      '  const sql = `SELECT * FROM "User" WHERE name = \'${name}\'`',
+      '  return prisma.$queryRawUnsafe(sql)',
+      '}',
+    ]),
+  ]
+
+  it('should follow request input into an imported helper', () => {
+    const [flow] = flowsIn(routeFiles)
+
+    expect(flow.kind).toBe('sql-injection')
+    expect(flow.path.map(step => [step.file, step.line, step.note])).toEqual([
+      ['app/api/users/route.ts', 3, 'user input'],
+      ['app/api/users/route.ts', 3, 'assigned to body'],
+      ['app/api/users/route.ts', 4, 'passed to findUsers()'],
+      ['lib/db.ts', 3, 'assigned to sql'],
+      ['lib/db.ts', 4, 'reaches $queryRawUnsafe()'],
+    ])
+  })
+
+  it('should find each sink kind and ignore cleaned or constant values', () => {
+    const flows = flowsIn([
+      file('app/search/page.tsx', [
+        "import { exec } from 'child_process'",
+        'export default async function Search({ searchParams }) {',
+        '  const { q, id, avatar } = await searchParams',
+        '  exec(`grep ${q} data.txt`)',
+        '  await db.query(`SELECT * FROM items WHERE id = ${Number(id)}`)',
+        "  await db.query('SELECT * FROM items WHERE name = $1', [q])",
+        '  await fetch(avatar)',
+        "  await fetch('https://api.example.com/items')",
+        '  return <div dangerouslySetInnerHTML={{ __html: q }} />',
+        '}',
+      ]),
+    ])
+
+    expect(flows.map(flow => [flow.kind, flow.sink, flow.path[flow.path.length - 1].line])).toEqual([
+      ['command-injection', 'exec()', 4],
+      ['ssrf', 'fetch()', 7],
+      ['xss', 'dangerouslySetInnerHTML', 9],
+    ])
+  })
+
+  it('should only report SSRF when input can reach the scheme or host', () => {
+    const flows = flowsIn([
+      file('app/api/proxy/route.ts', [
+        'export async function GET(req) {',
+        '  const { id, host } = req.query',
+        '  await fetch(`https://api.example.com/items?id=${id}`)',
+        "  await fetch('https://api.example.com/items/' + id)",
+        '  await fetch(`/api/items/${id}`)',
+        '  await fetch(`https://${host}/items`)',
+        "  await fetch('https://api.example.com' + id)",
+        '  await fetch(id)',
+        '}',
+      ]),
+    ])
+
+    expect(flows.map(flow => [flow.kind, flow.source, flow.path[flow.path.length - 1].line])).toEqual([
+      ['ssrf', 'req.query', 6],
+      ['ssrf', 'req.query', 7],
+      ['ssrf', 'req.query', 8],
+    ])
+  })
+
+  it('should keep gap ids when lines above the sink move', async () => {
+    const gapIds = async (files: RepoFile[]) => {
+      const analysis = await analyzeCompleteness('https://github.com/test/repo', files)
+      return analysis.categories.find(c => c.category === 'security')!.gaps
+        .filter(g => g.taintPath)
+        .map(g => [g.id, g.line])
+    }
+    const route = (padding: string[]) => file('app/api/proxy/route.ts', [
+      ...padding,
+      'export async function GET(req) {',
+      '  await fetch(req.query.a)',
+      '  await fetch(req.query.b)',
+      '}',
+    ])
+
+    expect(await gapIds([route([])])).toEqual([
+      ['security-ssrf-app/api/proxy/route.ts-fetch-req.query', 2],
+      ['security-ssrf-app/api/proxy/route.ts-fetch-req.query-2', 3],
+    ])
+    expect(await gapIds([route(['// Proxies item lookups', ''])])).toEqual([
+      ['security-ssrf-app/api/proxy/route.ts-fetch-req.query', 4],
+      ['security-ssrf-app/api/proxy/route.ts-fetch-req.query-2', 5],
+    ])
+  })
+
+  it('should report the path on a security gap even with an ORM installed', async () => {
+    const files = [
+      file('package.json', [JSON.stringify({ dependencies: { next: '^14.0.0', '@prisma/client': '^5.0.0' } })]),
+      ...routeFiles,
+    ]
+
+    const analysis = await analyzeCompleteness('https://github.com/test/repo', files)
+    const security = analysis.categories.find(c => c.category === 'security')!
+
+    expect(security.gaps.find(g => g.id.startsWith('security-sql-injection'))).toMatchObject({
+      id: 'security-sql-injection-lib/db.ts-queryRawUnsafe-request.json',
+      severity: 'blocker',
+      file: 'lib/db.ts',
+      line: 4,
+      description: 'Input read at app/api/users/route.ts:3 reaches $queryRawUnsafe() without sanitization',
+    })
+    expect(security.gaps.find(g => g.id.startsWith('security-sql-injection'))?.taintPath).toHaveLength(5)
+    expect(security.checks.find(c => c.id === 'security-injection')?.pointsAwarded).toBe(0)
+  })
+})